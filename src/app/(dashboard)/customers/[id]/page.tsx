@@ -1,6 +1,6 @@
 import { notFound, redirect } from "next/navigation"
 import Link from "next/link"
-import { ArrowLeft, Mail, MapPin, Phone, Clock, Crown } from "lucide-react"
+import { ArrowLeft, Archive, Mail, MapPin, Phone, Clock, Crown } from "lucide-react"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Button } from "@/components/ui/button"
@@ -21,8 +21,16 @@ import {
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { DueStatusBadge } from "@/components/ui/due-status-badge"
-import { computeDueDateInfo } from "@/lib/due-date"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { propertySelect } from "@/lib/properties"
+import { priceBookEntrySelect } from "@/lib/price-book"
+import { getCustomerTimeline } from "@/lib/customer-timeline"
 import { CustomerEditButton } from "@/components/customers/customer-edit-button"
+import { CustomerStatementButton } from "@/components/customers/customer-statement-button"
+import { CustomerArchiveButton } from "@/components/customers/customer-archive-button"
+import { CustomerProperties } from "@/components/customers/customer-properties"
+import { CustomerPriceBook } from "@/components/customers/customer-price-book"
+import { CustomerTimeline } from "@/components/customers/customer-timeline"
 
 interface CustomerDetailPageProps {
   params: Promise<{ id: string }>
@@ -53,12 +61,23 @@ export default async function CustomerDetailPage({
     },
     include: {
       serviceLogs: {
-        include: { serviceType: true },
+        include: {
+          serviceType: true,
+          property: { select: { label: true, address: true } },
+        },
         orderBy: { serviceDate: "desc" },
       },
+      properties: {
+        orderBy: { createdAt: "asc" },
+        select: { ...propertySelect, _count: { select: { serviceLogs: true } } },
+      },
       invoices: {
         orderBy: { issueDate: "desc" },
       },
+      priceBookEntries: {
+        orderBy: [{ effectiveFrom: "desc" }, { id: "desc" }],
+        select: priceBookEntrySelect,
+      },
     },
   })
 
@@ -66,10 +85,21 @@ export default async function CustomerDetailPage({
     notFound()
   }
 
-  const dueInfo = computeDueDateInfo(
-    customer.serviceLogs[0]?.serviceDate,
-    customer.serviceInterval
-  )
+  // Logs are newest first, so the first one per location is the latest
+  const lastServiceDates = new Map<number | null, Date>()
+  for (const log of customer.serviceLogs) {
+    if (!lastServiceDates.has(log.propertyId)) lastServiceDates.set(log.propertyId, log.serviceDate)
+  }
+  const dueInfo = computeCustomerDueDateInfo(customer, lastServiceDates)
+  const [timeline, serviceTypes] = await Promise.all([
+    getCustomerTimeline(customer.id),
+    prisma.serviceType.findMany({
+      where: { userId: session.user.id },
+      orderBy: { position: "asc" },
+      select: { id: true, name: true },
+    }),
+  ])
+  const hasProperties = customer.properties.length > 0
 
   return (
     <div className="space-y-6">
@@ -89,9 +119,24 @@ export default async function CustomerDetailPage({
                 VIP
               </Badge>
             )}
-            <DueStatusBadge daysUntilDue={dueInfo.daysUntilDue} dueStatus={dueInfo.dueStatus} />
+            {customer.archivedAt ? (
+              <Badge variant="outline" className="gap-1">
+                <Archive className="size-3" />
+                Archived {customer.archivedAt.toLocaleDateString()}
+              </Badge>
+            ) : (
+              <DueStatusBadge daysUntilDue={dueInfo.daysUntilDue} dueStatus={dueInfo.dueStatus} />
+            )}
           </div>
         </div>
+        <CustomerStatementButton customer={{ id: customer.id, name: customer.name }} />
+        <CustomerArchiveButton
+          customer={{
+            id: customer.id,
+            name: customer.name,
+            archivedAt: customer.archivedAt?.toISOString() ?? null,
+          }}
+        />
         <CustomerEditButton
           customer={{
             id: customer.id,
@@ -101,6 +146,11 @@ export default async function CustomerDetailPage({
             address: customer.address,
             serviceInterval: customer.serviceInterval,
             isVip: customer.isVip,
+            lateFeeMode: customer.lateFeeMode,
+            lateFeeType: customer.lateFeeType,
+            lateFeeAmount: customer.lateFeeAmount?.toString() ?? null,
+            lateFeeGraceDays: customer.lateFeeGraceDays,
+            lateFeeCompounds: customer.lateFeeCompounds,
           }}
         />
       </div>
@@ -153,6 +203,31 @@ export default async function CustomerDetailPage({
         </CardContent>
       </Card>
 
+      <CustomerProperties
+        customerId={customer.id}
+        customerInterval={customer.serviceInterval}
+        properties={customer.properties.map(({ _count, ...property }, i) => ({
+          ...property,
+          defaultPrice: property.defaultPrice?.toString() ?? null,
+          daysUntilDue: dueInfo.properties[i].daysUntilDue,
+          dueStatus: dueInfo.properties[i].dueStatus,
+          serviceCount: _count.serviceLogs,
+        }))}
+      />
+
+      <CustomerPriceBook
+        customerId={customer.id}
+        entries={customer.priceBookEntries.map((entry) => ({
+          ...entry,
+          price: entry.price.toString(),
+          effectiveFrom: entry.effectiveFrom.toISOString(),
+        }))}
+        properties={customer.properties.map(({ id, label, address }) => ({ id, label, address }))}
+        serviceTypes={serviceTypes}
+      />
+
+      <CustomerTimeline customerId={customer.id} entries={timeline} />
+
       <Card>
         <CardHeader>
           <CardTitle>Service History</CardTitle>
@@ -172,6 +247,7 @@ export default async function CustomerDetailPage({
                   <TableRow>
                     <TableHead>Date</TableHead>
                     <TableHead>Service</TableHead>
+                    {hasProperties && <TableHead>Location</TableHead>}
                     <TableHead>Status</TableHead>
                     <TableHead>Payment</TableHead>
                     <TableHead className="text-right">Revenue</TableHead>
@@ -186,6 +262,13 @@ export default async function CustomerDetailPage({
                       <TableCell className="font-medium">
                         {log.serviceType?.name ?? "Service"}
                       </TableCell>
+                      {hasProperties && (
+                        <TableCell className="text-muted-foreground">
+                          {log.property
+                            ? log.property.label ?? log.property.address
+                            : "Customer address"}
+                        </TableCell>
+                      )}
                       <TableCell>
                         <Badge
                           variant={
@@ -260,8 +343,10 @@ export default async function CustomerDetailPage({
                                 : "secondary"
                           }
                         >
-                          {invoice.status.charAt(0) +
-                            invoice.status.slice(1).toLowerCase()}
+                          {invoice.status === "PARTIALLY_PAID"
+                            ? "Partially paid"
+                            : invoice.status.charAt(0) +
+                              invoice.status.slice(1).toLowerCase()}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
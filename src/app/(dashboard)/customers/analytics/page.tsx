@@ -0,0 +1,321 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { DataTable, type ColumnDef } from "@/components/ui/data-table"
+import type { CustomerAnalytics, CustomerAnalyticsRow, CustomerHealth } from "@/lib/customer-analytics"
+
+const HEALTH_LABELS: Record<CustomerHealth, string> = {
+  active: "Active",
+  "at-risk": "At risk",
+  lapsed: "Lapsed",
+  "no-service": "No service",
+}
+
+const HEALTH_CLASSES: Record<CustomerHealth, string> = {
+  active: "bg-green-600 text-white",
+  "at-risk": "bg-amber-500 text-white",
+  lapsed: "bg-red-600 text-white",
+  "no-service": "",
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function formatMonth(key: string): string {
+  return new Date(`${key}-01T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    year: "numeric",
+  })
+}
+
+function formatTenure(days: number): string {
+  if (days < 60) return `${days} days`
+  const months = Math.floor(days / 30.44)
+  return months < 24 ? `${months} months` : `${(days / 365.25).toFixed(1)} years`
+}
+
+// Cohort cells shade green by retention share, light enough to keep text readable
+function cohortCellStyle(share: number): React.CSSProperties {
+  return { backgroundColor: `rgba(22, 163, 74, ${(share * 0.5).toFixed(2)})` }
+}
+
+export default function CustomerAnalyticsPage() {
+  const [analytics, setAnalytics] = useState<CustomerAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchAnalytics() {
+      try {
+        const res = await fetch("/api/customers/analytics")
+        const result = await res.json()
+        if (result.success) setAnalytics(result.data)
+      } catch (error) {
+        console.error("Failed to fetch customer analytics:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchAnalytics()
+  }, [])
+
+  const columns: ColumnDef<CustomerAnalyticsRow>[] = [
+    {
+      key: "name",
+      label: "Customer",
+      pinnedStart: true,
+      render: (_, row) => (
+        <Link
+          href={`/customers/${row.id}`}
+          className="flex items-center gap-1.5 font-medium underline-offset-4 hover:underline"
+        >
+          {row.name}
+          {row.isVip && <Star className="size-3 fill-yellow-400 text-yellow-400" />}
+        </Link>
+      ),
+    },
+    {
+      key: "health",
+      label: "Health",
+      filterable: true,
+      filterValue: (row) => HEALTH_LABELS[row.health],
+      sortValue: (row) => ["lapsed", "at-risk", "active", "no-service"].indexOf(row.health),
+      render: (_, row) => (
+        <div className="space-y-1">
+          <Badge variant="outline" className={HEALTH_CLASSES[row.health]}>
+            {HEALTH_LABELS[row.health]}
+          </Badge>
+          {row.riskReasons.map((reason) => (
+            <p key={reason} className="text-xs text-muted-foreground">
+              {reason}
+            </p>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "totalRevenue",
+      label: "Lifetime Revenue",
+      className: "text-right",
+      render: (_, row) => formatCurrency(row.totalRevenue),
+    },
+    {
+      key: "averageTicket",
+      label: "Avg Ticket",
+      className: "text-right",
+      render: (_, row) => (row.averageTicket !== null ? formatCurrency(row.averageTicket) : "—"),
+    },
+    {
+      key: "visitCount",
+      label: "Visits",
+      className: "text-right",
+    },
+    {
+      key: "averageGapDays",
+      label: "Frequency",
+      sortValue: (row) => row.frequencyRatio ?? row.averageGapDays,
+      render: (_, row) =>
+        row.averageGapDays === null ? (
+          "—"
+        ) : (
+          <div>
+            <span>Every {Math.round(row.averageGapDays)} days</span>
+            {row.serviceInterval && (
+              <p
+                className={
+                  row.frequencyRatio !== null && row.frequencyRatio > 1.25
+                    ? "text-xs text-amber-600"
+                    : "text-xs text-muted-foreground"
+                }
+              >
+                Planned every {row.serviceInterval}
+              </p>
+            )}
+          </div>
+        ),
+    },
+    {
+      key: "lastServiceDate",
+      label: "Last Service",
+      sortValue: (row) => row.lastServiceDate,
+      render: (_, row) =>
+        row.lastServiceDate ? (
+          <div>
+            <span>{formatDate(row.lastServiceDate)}</span>
+            <p className="text-xs text-muted-foreground">{row.daysSinceLastService} days ago</p>
+          </div>
+        ) : (
+          "—"
+        ),
+    },
+    {
+      key: "tenureDays",
+      label: "Tenure",
+      render: (_, row) => formatTenure(row.tenureDays),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/customers">
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">Back to customers</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl sm:text-3xl font-bold">Customer Analytics</h1>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !analytics ? (
+        <p className="text-muted-foreground">Failed to load customer analytics.</p>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader>
+                <CardDescription>Average Lifetime Value</CardDescription>
+                <CardTitle className="text-2xl">
+                  {formatCurrency(analytics.summary.averageLifetimeValue)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {formatCurrency(analytics.summary.totalRevenue)} across{" "}
+                {analytics.summary.customers} customer(s)
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Average Ticket</CardDescription>
+                <CardTitle className="text-2xl">
+                  {analytics.summary.averageTicket !== null
+                    ? formatCurrency(analytics.summary.averageTicket)
+                    : "—"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">Per service logged</CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>At Risk</CardDescription>
+                <CardTitle className="text-2xl text-amber-600">{analytics.summary.atRisk}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                Well past due or visits slowing down
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Lapsed</CardDescription>
+                <CardTitle className="text-2xl text-red-600">{analytics.summary.lapsed}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {analytics.summary.active} active · no service in several intervals
+              </CardContent>
+            </Card>
+          </div>
+
+          <DataTable
+            storageKey="customer-analytics"
+            columns={columns}
+            data={analytics.customers}
+            searchable
+            searchPlaceholder="Search customers..."
+            defaultPageSize={25}
+            emptyMessage="No customers yet."
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Retention by Signup Month</CardTitle>
+              <CardDescription>
+                Share of each cohort serviced in each month after signing up, and the share still
+                active today
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analytics.cohorts.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No customers yet.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cohort</TableHead>
+                        <TableHead className="text-right">Customers</TableHead>
+                        <TableHead className="text-right">Retained</TableHead>
+                        {analytics.cohorts[0].activeByMonth.map((_, i) => (
+                          <TableHead key={i} className="text-center">
+                            M{i}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.cohorts.map((cohort) => (
+                        <TableRow key={cohort.month}>
+                          <TableCell className="whitespace-nowrap font-medium">
+                            {formatMonth(cohort.month)}
+                          </TableCell>
+                          <TableCell className="text-right">{cohort.customers}</TableCell>
+                          <TableCell className="text-right">
+                            {Math.round(cohort.retainedRate * 100)}%
+                          </TableCell>
+                          {analytics.cohorts[0].activeByMonth.map((_, i) =>
+                            i < cohort.activeByMonth.length ? (
+                              <TableCell
+                                key={i}
+                                className="text-center text-xs"
+                                style={cohortCellStyle(cohort.activeByMonth[i])}
+                              >
+                                {Math.round(cohort.activeByMonth[i] * 100)}%
+                              </TableCell>
+                            ) : (
+                              <TableCell key={i} />
+                            )
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { ArrowLeft, GitMerge, Loader2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { DataTable, type ColumnDef } from "@/components/ui/data-table"
+import type { MergeCandidate } from "@/components/customers/customer-merge-dialog"
+import dynamic from "next/dynamic"
+
+const CustomerMergeDialog = dynamic(() => import("@/components/customers/customer-merge-dialog").then((m) => m.CustomerMergeDialog))
+
+interface DuplicatePair {
+  score: number
+  reasons: string[]
+  customers: [MergeCandidate, MergeCandidate]
+}
+
+interface CustomerMerge {
+  id: number
+  mergedCustomerId: number
+  mergedName: string
+  undoneAt: string | null
+  createdAt: string
+  // Null once the kept customer has been merged away or deleted
+  survivor: { id: number; name: string } | null
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function scoreBadgeClass(score: number): string {
+  if (score >= 70) return "bg-red-600 text-white"
+  if (score >= 50) return "bg-amber-500 text-white"
+  return ""
+}
+
+export default function DuplicateCustomersPage() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([])
+  const [merges, setMerges] = useState<CustomerMerge[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [undoingId, setUndoingId] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const [mergeTarget, setMergeTarget] = useState<DuplicatePair | null>(null)
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [pairsRes, mergesRes] = await Promise.all([
+        fetch("/api/customers/duplicates"),
+        fetch("/api/customers/merges"),
+      ])
+      const [pairsResult, mergesResult] = await Promise.all([pairsRes.json(), mergesRes.json()])
+
+      if (pairsResult.success) setPairs(pairsResult.data)
+      if (mergesResult.success) setMerges(mergesResult.data)
+    } catch (error) {
+      console.error("Failed to fetch duplicate customers:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  async function handleUndo(merge: CustomerMerge) {
+    setUndoingId(merge.id)
+    setError("")
+    try {
+      const res = await fetch(`/api/customers/merges/${merge.id}/undo`, { method: "POST" })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to undo merge.")
+        return
+      }
+      fetchData()
+    } catch {
+      setError("Failed to undo merge. Please try again.")
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  function renderCustomerCell(pair: DuplicatePair, field: "phone" | "email" | "address") {
+    return (
+      <ul className="space-y-0.5 text-sm">
+        {pair.customers.map((customer) => (
+          <li key={customer.id} className="max-w-64 truncate">
+            {customer[field] || <span className="text-muted-foreground">&mdash;</span>}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  const pairColumns: ColumnDef<DuplicatePair>[] = [
+    {
+      key: "score",
+      label: "Score",
+      sortValue: (row) => row.score,
+      render: (_, row) => (
+        <Badge variant="outline" className={scoreBadgeClass(row.score)}>
+          {row.score}
+        </Badge>
+      ),
+    },
+    {
+      key: "customers",
+      label: "Customers",
+      sortValue: (row) => row.customers[0].name,
+      filterValue: (row) => row.customers.map((c) => c.name).join(" "),
+      render: (_, row) => (
+        <ul className="space-y-0.5 text-sm">
+          {row.customers.map((customer) => (
+            <li key={customer.id} className="whitespace-nowrap">
+              <Link
+                href={`/customers/${customer.id}`}
+                className="font-medium underline-offset-4 hover:underline"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {customer.name}
+              </Link>{" "}
+              <span className="text-xs text-muted-foreground">
+                {customer._count.serviceLogs} service(s) · {customer._count.invoices} invoice(s)
+              </span>
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+    {
+      key: "phone",
+      label: "Phone",
+      render: (_, row) => renderCustomerCell(row, "phone"),
+    },
+    {
+      key: "email",
+      label: "Email",
+      render: (_, row) => renderCustomerCell(row, "email"),
+    },
+    {
+      key: "address",
+      label: "Address",
+      render: (_, row) => renderCustomerCell(row, "address"),
+    },
+    {
+      key: "reasons",
+      label: "Why",
+      filterable: true,
+      filterValue: (row) => row.reasons.join(", "),
+      render: (_, row) => (
+        <div className="flex flex-wrap gap-1">
+          {row.reasons.map((reason) => (
+            <Badge key={reason} variant="secondary" className="font-normal">
+              {reason}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "_actions",
+      label: "",
+      pinned: true,
+      render: (_, row) => (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation()
+            setMergeTarget(row)
+          }}
+        >
+          <GitMerge className="mr-2 size-4" />
+          Merge
+        </Button>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/customers">
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">Back to customers</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl sm:text-3xl font-bold">Duplicate Customers</h1>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Customers that look like the same person, scored on phone, email, name and address.
+        Merging moves all services, invoices, estimates, schedules, properties, logged
+        interactions and route stops to the customer you keep.
+      </p>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <DataTable
+          storageKey="customer-duplicates"
+          columns={pairColumns}
+          data={pairs}
+          rowKey={(row) => `${row.customers[0].id}-${row.customers[1].id}`}
+          searchable
+          searchPlaceholder="Search by name..."
+          onRowClick={setMergeTarget}
+          emptyMessage="No likely duplicates found."
+        />
+      )}
+
+      {merges.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Recent Merges</h2>
+          <ul className="divide-y rounded-md border text-sm">
+            {merges.map((merge) => (
+              <li key={merge.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div>
+                  <span className={merge.undoneAt ? "text-muted-foreground line-through" : ""}>
+                    {merge.mergedName}
+                  </span>{" "}
+                  →{" "}
+                  {merge.survivor ? (
+                    <Link
+                      href={`/customers/${merge.survivor.id}`}
+                      className="font-medium underline-offset-4 hover:underline"
+                    >
+                      {merge.survivor.name}
+                    </Link>
+                  ) : (
+                    <span className="text-muted-foreground">a customer since merged or deleted</span>
+                  )}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {formatDate(merge.createdAt)}
+                    {merge.undoneAt && ` · undone ${formatDate(merge.undoneAt)}`}
+                  </span>
+                </div>
+                {!merge.undoneAt && merge.survivor && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUndo(merge)}
+                    disabled={undoingId !== null}
+                  >
+                    {undoingId === merge.id ? (
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="mr-2 size-4" />
+                    )}
+                    Undo
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <CustomerMergeDialog
+        open={!!mergeTarget}
+        onOpenChange={(open) => {
+          if (!open) setMergeTarget(null)
+        }}
+        customers={mergeTarget?.customers ?? null}
+        onSuccess={fetchData}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2, LocateFixed, MapPinOff, Star } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { DueStatusBadge } from "@/components/ui/due-status-badge"
+import {
+  CustomerMap,
+  DUE_STATUS_COLORS,
+  type CustomerMapPoint,
+} from "@/components/customers/customer-map"
+import { cn } from "@/lib/utils"
+import type { DueStatus } from "@/lib/due-date"
+
+interface MapCustomer {
+  id: number
+  name: string
+  address: string
+  isVip: boolean
+  latitude: number | null
+  longitude: number | null
+  geocodePrecision: "ADDRESS" | "POSTAL_CODE" | "MANUAL" | null
+  geocodedAt: string | null
+  dueStatus: DueStatus
+  daysUntilDue: number | null
+}
+
+type StatusFilter = keyof typeof DUE_STATUS_COLORS
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  late: "Late",
+  "due-today": "Due Today",
+  "due-soon": "Due Soon",
+  "on-track": "On Track",
+  none: "No Schedule",
+}
+
+export default function CustomerMapPage() {
+  const [customers, setCustomers] = useState<MapCustomer[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLocating, setIsLocating] = useState(false)
+  const [hidden, setHidden] = useState<Set<StatusFilter>>(new Set())
+  const [selected, setSelected] = useState<{ key: string; customers: CustomerMapPoint[] } | null>(
+    null
+  )
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/customers")
+      const result = await res.json()
+      if (result.success) setCustomers(result.data)
+    } catch (error) {
+      console.error("Failed to fetch customers:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCustomers()
+  }, [fetchCustomers])
+
+  async function handleLocate(force: boolean) {
+    setIsLocating(true)
+    try {
+      const res = await fetch("/api/customers/geocode", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ force }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || "Failed to locate customers")
+        return
+      }
+      const { attempted, found, postalCodeOnly, notFound, remaining } = result.data
+      if (attempted === 0) {
+        toast.info("Every customer has already been looked up")
+      } else {
+        toast.success(
+          `Located ${found + postalCodeOnly} of ${attempted}` +
+            (postalCodeOnly > 0 ? ` (${postalCodeOnly} by ZIP code only)` : "") +
+            (notFound > 0 ? `, ${notFound} not found` : "") +
+            (remaining > 0 ? `. ${remaining} left, run again to continue` : "")
+        )
+      }
+      fetchCustomers()
+    } catch {
+      toast.error("Failed to locate customers")
+    } finally {
+      setIsLocating(false)
+    }
+  }
+
+  const located = customers.filter(
+    (c): c is MapCustomer & { latitude: number; longitude: number } =>
+      c.latitude !== null && c.longitude !== null
+  )
+  const unlocated = customers.filter((c) => c.latitude === null || c.longitude === null)
+  const neverLookedUp = unlocated.filter((c) => c.geocodedAt === null).length
+  const points = located.filter((c) => !hidden.has(c.dueStatus ?? "none"))
+  const countByStatus = (status: StatusFilter) =>
+    located.filter((c) => (c.dueStatus ?? "none") === status).length
+
+  function toggleStatus(status: StatusFilter) {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(status)) next.delete(status)
+      else next.add(status)
+      return next
+    })
+    setSelected(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/customers">
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">Back to customers</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl sm:text-3xl font-bold">Customer Map</h1>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleLocate(true)} disabled={isLocating}>
+            Retry Misses
+          </Button>
+          <Button onClick={() => handleLocate(false)} disabled={isLocating || neverLookedUp === 0}>
+            {isLocating ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <LocateFixed className="mr-2 size-4" />
+            )}
+            Locate {neverLookedUp > 0 ? `(${neverLookedUp})` : "Customers"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(STATUS_LABELS) as StatusFilter[]).map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                className={cn(
+                  "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs font-medium transition-opacity",
+                  hidden.has(status) && "opacity-40"
+                )}
+              >
+                <span
+                  className="inline-block size-2.5 rounded-full"
+                  style={{ backgroundColor: DUE_STATUS_COLORS[status] }}
+                />
+                {STATUS_LABELS[status]}
+                <span className="text-muted-foreground">{countByStatus(status)}</span>
+              </button>
+            ))}
+          </div>
+
+          {located.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                No customers have a location yet. Import a ZIP code or address dataset under
+                Settings → Geocoding (or point it at a Nominatim server), then locate customers.
+              </CardContent>
+            </Card>
+          ) : (
+            <CustomerMap
+              points={points}
+              selectedKey={selected?.key ?? null}
+              onSelect={(key, selection) =>
+                setSelected(key ? { key, customers: selection } : null)
+              }
+            />
+          )}
+
+          {selected && (
+            <Card>
+              <CardContent className="divide-y p-0">
+                {selected.customers.map((customer) => (
+                  <div key={customer.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <Link
+                        href={`/customers/${customer.id}`}
+                        className="flex items-center gap-1.5 font-medium underline-offset-4 hover:underline"
+                      >
+                        {customer.name}
+                        {customer.isVip && (
+                          <Star className="size-3 fill-yellow-400 text-yellow-400" />
+                        )}
+                      </Link>
+                      <p className="truncate text-xs text-muted-foreground">{customer.address}</p>
+                    </div>
+                    <DueStatusBadge
+                      daysUntilDue={customer.daysUntilDue}
+                      dueStatus={customer.dueStatus}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {unlocated.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <MapPinOff className="size-4 text-muted-foreground" />
+                  Not on the map ({unlocated.length})
+                </CardTitle>
+                <CardDescription>
+                  {neverLookedUp > 0
+                    ? `${neverLookedUp} haven't been looked up yet. The rest weren't found; check their ZIP codes or add them to the dataset.`
+                    : "Not found by the geocoder. Check their ZIP codes or add them to the dataset."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="grid gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+                  {unlocated.map((customer) => (
+                    <li key={customer.id} className="truncate">
+                      <Link
+                        href={`/customers/${customer.id}`}
+                        className="underline-offset-4 hover:underline"
+                      >
+                        {customer.name}
+                      </Link>
+                      <span className="text-muted-foreground"> — {customer.address}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,22 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { useRouter } from "next/navigation"
-import { Plus, MoreHorizontal, Pencil, Trash2, Loader2, Star, Check, Route as RouteIcon, Zap } from "lucide-react"
+import { Plus, MoreHorizontal, Pencil, Trash2, Archive, ArchiveRestore, Loader2, Star, Check, Route as RouteIcon, Zap, FileText, Upload, Download, GitMerge, ChartLine, Map as MapIcon, TrendingUp, Tag, Users, Mail, Settings2 } from "lucide-react"
+import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import {
@@ -21,13 +29,21 @@ import {
 } from "@/components/ui/dialog"
 import { DataTable, type ColumnDef } from "@/components/ui/data-table"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { DueStatusBadge } from "@/components/ui/due-status-badge"
 import { cn } from "@/lib/utils"
 import dynamic from "next/dynamic"
 
 const CustomerDialog = dynamic(() => import("@/components/customers/customer-dialog").then((m) => m.CustomerDialog))
 const ServiceFormDialog = dynamic(() => import("@/components/services/service-form-dialog").then((m) => m.ServiceFormDialog))
+const StatementDialog = dynamic(() => import("@/components/customers/statement-dialog").then((m) => m.StatementDialog))
+const CustomerImportDialog = dynamic(() => import("@/components/customers/customer-import-dialog").then((m) => m.CustomerImportDialog))
+const CustomerTagsDialog = dynamic(() => import("@/components/customers/customer-tags-dialog").then((m) => m.CustomerTagsDialog))
+const SegmentDialog = dynamic(() => import("@/components/customers/segment-dialog").then((m) => m.SegmentDialog))
 import type { DueStatus } from "@/lib/due-date"
+import type { SegmentFilters } from "@/lib/customer-segments"
+import type { CustomerTagData } from "@/components/customers/customer-tags-dialog"
+import type { SegmentData } from "@/components/customers/segment-dialog"
 
 interface Customer {
   id: number
@@ -37,6 +53,12 @@ interface Customer {
   address: string
   serviceInterval: number | null
   isVip: boolean
+  lateFeeMode: "DEFAULT" | "EXEMPT" | "CUSTOM"
+  lateFeeType: "FLAT" | "PERCENT" | null
+  lateFeeAmount: number | string | null
+  lateFeeGraceDays: number | null
+  lateFeeCompounds: boolean | null
+  archivedAt: string | null
   _count: {
     serviceLogs: number
   }
@@ -44,6 +66,7 @@ interface Customer {
   daysUntilDue: number | null
   dueStatus: DueStatus
   routes: { id: number; name: string; color: string | null }[]
+  tags: CustomerTagData[]
   lastService: {
     serviceName: string
     priceCharged: number
@@ -72,6 +95,21 @@ export default function CustomersPage() {
   const [isDeleting, setIsDeleting] = useState(false)
   const [deleteError, setDeleteError] = useState("")
   const [serviceDialogOpen, setServiceDialogOpen] = useState(false)
+  const [statementsOpen, setStatementsOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [allTags, setAllTags] = useState<CustomerTagData[]>([])
+  const [segments, setSegments] = useState<SegmentData[]>([])
+  const [tagFilter, setTagFilter] = useState<number[]>([])
+  const [tagMatch, setTagMatch] = useState<SegmentFilters["tagMatch"]>("any")
+  const [segmentId, setSegmentId] = useState<number | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [tagsOpen, setTagsOpen] = useState(false)
+  const [segmentDialog, setSegmentDialog] = useState<{ open: boolean; segment?: SegmentData }>({ open: false })
+  const [segmentDeleteTarget, setSegmentDeleteTarget] = useState<SegmentData | null>(null)
+  const [reminderTarget, setReminderTarget] = useState<SegmentData | null>(null)
+  const [overdueOnly, setOverdueOnly] = useState(true)
+  const [isSegmentBusy, setIsSegmentBusy] = useState(false)
+  const [segmentError, setSegmentError] = useState("")
   const [quickAddService, setQuickAddService] = useState<
     { customerId: number; serviceTypeId: number | null; serviceDate: string; priceCharged: number | string; notes: null; status: string; paymentStatus: string; paymentMethod: null; paymentDate: null } | undefined
   >(undefined)
@@ -79,7 +117,14 @@ export default function CustomersPage() {
   const fetchCustomers = useCallback(async () => {
     setIsLoading(true)
     try {
-      const res = await fetch("/api/customers")
+      const params = new URLSearchParams()
+      if (tagFilter.length > 0) {
+        params.set("tags", tagFilter.join(","))
+        params.set("tagMatch", tagMatch)
+      }
+      if (segmentId !== null) params.set("segment", String(segmentId))
+      if (showArchived) params.set("archived", "only")
+      const res = await fetch(`/api/customers?${params}`)
       const result = await res.json()
 
       if (result.success) {
@@ -90,6 +135,34 @@ export default function CustomersPage() {
     } finally {
       setIsLoading(false)
     }
+  }, [tagFilter, tagMatch, segmentId, showArchived])
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const res = await fetch("/api/customers/tags")
+      const result = await res.json()
+      if (result.success) {
+        const tags: CustomerTagData[] = result.data.map((t: CustomerTagData) => ({ id: t.id, name: t.name, color: t.color }))
+        setAllTags(tags)
+        // Drop filters on tags that were deleted
+        setTagFilter((prev) => {
+          const kept = prev.filter((id) => tags.some((t) => t.id === id))
+          return kept.length === prev.length ? prev : kept
+        })
+      }
+    } catch {
+      console.error("Failed to fetch customer tags")
+    }
+  }, [])
+
+  const fetchSegments = useCallback(async () => {
+    try {
+      const res = await fetch("/api/customers/segments")
+      const result = await res.json()
+      if (result.success) setSegments(result.data)
+    } catch {
+      console.error("Failed to fetch customer segments")
+    }
   }, [])
 
   const fetchRoutes = useCallback(async () => {
@@ -106,8 +179,13 @@ export default function CustomersPage() {
 
   useEffect(() => {
     fetchCustomers()
+  }, [fetchCustomers])
+
+  useEffect(() => {
     fetchRoutes()
-  }, [fetchCustomers, fetchRoutes])
+    fetchTags()
+    fetchSegments()
+  }, [fetchRoutes, fetchTags, fetchSegments])
 
   function handleAddCustomer() {
     setEditingCustomer(undefined)
@@ -140,7 +218,9 @@ export default function CustomersPage() {
 
       const failed = results.filter((r) => !r.success)
       if (failed.length > 0) {
-        setDeleteError(`Failed to delete ${failed.length} customer(s).`)
+        setDeleteError(
+          `Failed to delete ${failed.length} customer(s). Customers with service history can be archived instead.`
+        )
       } else {
         setDeleteTarget(null)
         setBulkDeleteTargets([])
@@ -282,6 +362,154 @@ export default function CustomersPage() {
     }
   }
 
+  async function assignTag(customerIds: number[], tagId: number, add: boolean) {
+    const res = await fetch("/api/customers/tags/assign", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        customerIds,
+        ...(add ? { addTagIds: [tagId] } : { removeTagIds: [tagId] }),
+      }),
+    })
+    const result = await res.json()
+    return result.success === true
+  }
+
+  async function toggleTag(customer: Customer, tag: CustomerTagData) {
+    const hasTag = customer.tags.some((t) => t.id === tag.id)
+    const prevTags = customer.tags
+
+    // Optimistic update
+    setCustomers((cs) =>
+      cs.map((c) =>
+        c.id === customer.id
+          ? {
+              ...c,
+              tags: hasTag
+                ? c.tags.filter((t) => t.id !== tag.id)
+                : [...c.tags, tag].sort((a, b) => a.name.localeCompare(b.name)),
+            }
+          : c
+      )
+    )
+
+    try {
+      if (!(await assignTag([customer.id], tag.id, !hasTag))) {
+        setCustomers((cs) =>
+          cs.map((c) => (c.id === customer.id ? { ...c, tags: prevTags } : c))
+        )
+      }
+    } catch {
+      setCustomers((cs) =>
+        cs.map((c) => (c.id === customer.id ? { ...c, tags: prevTags } : c))
+      )
+    }
+  }
+
+  async function handleBulkTag(selected: Customer[], tag: CustomerTagData, add: boolean, clearSelection: () => void) {
+    try {
+      if (await assignTag(selected.map((c) => c.id), tag.id, add)) {
+        toast.success(`${add ? "Tagged" : "Untagged"} ${selected.length} customer(s)`)
+        clearSelection()
+        fetchCustomers()
+      } else {
+        toast.error("Failed to update tags")
+      }
+    } catch {
+      toast.error("Failed to update tags")
+    }
+  }
+
+  async function handleArchive(selected: Customer[], archived: boolean, clearSelection?: () => void) {
+    try {
+      const res = await fetch("/api/customers/archive", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customerIds: selected.map((c) => c.id), archived }),
+      })
+      const result = await res.json()
+      if (result.success) {
+        toast.success(`${archived ? "Archived" : "Restored"} ${selected.length} customer(s)`)
+        clearSelection?.()
+        fetchCustomers()
+      } else {
+        toast.error(result.error || `Failed to ${archived ? "archive" : "restore"} customers`)
+      }
+    } catch {
+      toast.error(`Failed to ${archived ? "archive" : "restore"} customers`)
+    }
+  }
+
+  function handleTagsChanged() {
+    fetchTags()
+    fetchSegments()
+    fetchCustomers()
+  }
+
+  function handleSegmentSaved(segment: SegmentData) {
+    fetchSegments()
+    setTagFilter([])
+    setSegmentId(segment.id)
+  }
+
+  async function handleDeleteSegment() {
+    if (!segmentDeleteTarget) return
+    setIsSegmentBusy(true)
+    setSegmentError("")
+    try {
+      const res = await fetch(`/api/customers/segments/${segmentDeleteTarget.id}`, { method: "DELETE" })
+      const result = await res.json()
+      if (!result.success) {
+        setSegmentError(result.error || "Failed to delete segment.")
+        return
+      }
+      if (segmentId === segmentDeleteTarget.id) setSegmentId(null)
+      setSegmentDeleteTarget(null)
+      fetchSegments()
+    } catch {
+      setSegmentError("Failed to delete segment. Please try again.")
+    } finally {
+      setIsSegmentBusy(false)
+    }
+  }
+
+  async function handleSendReminders() {
+    if (!reminderTarget) return
+    setIsSegmentBusy(true)
+    setSegmentError("")
+    try {
+      const res = await fetch(`/api/customers/segments/${reminderTarget.id}/reminders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ overdueOnly }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setSegmentError(result.error || "Failed to send reminders.")
+        return
+      }
+      const { queued, sent, failed, skippedNoEmail } = result.data
+      if (queued === 0) {
+        toast.info("No open invoices to remind about")
+      } else {
+        toast.success(
+          `${sent} of ${queued} reminder(s) sent` +
+            (failed > 0 ? `, ${failed} failed` : "") +
+            (skippedNoEmail > 0 ? `, ${skippedNoEmail} customer(s) without email skipped` : "")
+        )
+      }
+      setReminderTarget(null)
+    } catch {
+      setSegmentError("Failed to send reminders. Please try again.")
+    } finally {
+      setIsSegmentBusy(false)
+    }
+  }
+
+  const activeSegment = segments.find((seg) => seg.id === segmentId) ?? null
+  // New segments start from the current tag filter
+  const segmentStartFilters = useMemo(() => ({ tagIds: tagFilter, tagMatch }), [tagFilter, tagMatch])
+
   const customerColumns: ColumnDef<Customer>[] = [
     {
       key: "isVip",
@@ -383,6 +611,61 @@ export default function CustomersPage() {
         </DropdownMenu>
       ),
     },
+    {
+      key: "tags",
+      label: "Tags",
+      sortValue: (row) => row.tags.map((t) => t.name).join(", ") || null,
+      searchValue: (row) => row.tags.map((t) => t.name).join(" "),
+      render: (_, customer) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+            {customer.tags.length > 0 ? (
+              <button type="button" className="flex items-center gap-1 flex-wrap max-w-56 cursor-pointer hover:opacity-80 transition-opacity">
+                {customer.tags.map((t) => (
+                  <span
+                    key={t.id}
+                    className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium"
+                  >
+                    <span
+                      className="inline-block size-2 shrink-0 rounded-full"
+                      style={{ backgroundColor: t.color || "var(--muted-foreground)" }}
+                    />
+                    {t.name}
+                  </span>
+                ))}
+              </button>
+            ) : (
+              <button type="button" className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors">No tags</button>
+            )}
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+            {allTags.length === 0 ? (
+              <DropdownMenuItem disabled>No tags yet</DropdownMenuItem>
+            ) : (
+              allTags.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag.id}
+                  checked={customer.tags.some((t) => t.id === tag.id)}
+                  onSelect={(e) => e.preventDefault()}
+                  onCheckedChange={() => toggleTag(customer, tag)}
+                >
+                  <span
+                    className="inline-block size-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: tag.color || "var(--muted-foreground)" }}
+                  />
+                  {tag.name}
+                </DropdownMenuCheckboxItem>
+              ))
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setTagsOpen(true)}>
+              <Settings2 className="mr-2 size-4" />
+              Manage tags
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
     { key: "phone", label: "Phone", render: (v) => <span className="tabular-nums">{v as string}</span> },
     { key: "email", label: "Email", render: (v) => (v as string) || <span className="text-muted-foreground">--</span> },
     {
@@ -508,6 +791,19 @@ export default function CustomersPage() {
                 <Pencil className="mr-2 size-4" />
                 Edit
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleArchive([customer], !customer.archivedAt)
+                }}
+              >
+                {customer.archivedAt ? (
+                  <ArchiveRestore className="mr-2 size-4" />
+                ) : (
+                  <Archive className="mr-2 size-4" />
+                )}
+                {customer.archivedAt ? "Restore" : "Archive"}
+              </DropdownMenuItem>
               <DropdownMenuItem
                 variant="destructive"
                 onClick={(e) => {
@@ -529,10 +825,45 @@ export default function CustomersPage() {
     <div className="space-y-4">
       <div className="flex flex-wrap items-center justify-between gap-2">
         <h1 className="text-2xl sm:text-3xl font-bold">Customers</h1>
-        <Button onClick={handleAddCustomer}>
-          <Plus className="mr-2 size-4" />
-          Add Customer
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setStatementsOpen(true)}>
+            <FileText className="mr-2 size-4" />
+            Statements
+          </Button>
+          <Button variant="outline" onClick={() => router.push("/customers/map")}>
+            <MapIcon className="mr-2 size-4" />
+            Map
+          </Button>
+          <Button variant="outline" onClick={() => router.push("/customers/analytics")}>
+            <ChartLine className="mr-2 size-4" />
+            Analytics
+          </Button>
+          <Button variant="outline" onClick={() => router.push("/customers/duplicates")}>
+            <GitMerge className="mr-2 size-4" />
+            Duplicates
+          </Button>
+          <Button variant="outline" onClick={() => router.push("/customers/price-increases")}>
+            <TrendingUp className="mr-2 size-4" />
+            Price Increases
+          </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 size-4" />
+            Import
+          </Button>
+          <Button variant="outline" asChild>
+            <a
+              href={showArchived ? "/api/customers/export?archived=only" : "/api/customers/export"}
+              download
+            >
+              <Download className="mr-2 size-4" />
+              Export
+            </a>
+          </Button>
+          <Button onClick={handleAddCustomer}>
+            <Plus className="mr-2 size-4" />
+            Add Customer
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -549,21 +880,321 @@ export default function CustomersPage() {
           searchPlaceholder="Search by name, phone, or address..."
           selectable
           onRowClick={(customer) => router.push(`/customers/${customer.id}`)}
+          toolbarContent={
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-9 gap-1.5">
+                    <Tag className="size-4" />
+                    Tags
+                    {tagFilter.length > 0 && (
+                      <Badge variant="secondary" className="ml-0.5 px-1.5">
+                        {tagFilter.length}
+                      </Badge>
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-56">
+                  {allTags.length === 0 ? (
+                    <DropdownMenuItem disabled>No tags yet</DropdownMenuItem>
+                  ) : (
+                    allTags.map((tag) => (
+                      <DropdownMenuCheckboxItem
+                        key={tag.id}
+                        checked={tagFilter.includes(tag.id)}
+                        onSelect={(e) => e.preventDefault()}
+                        onCheckedChange={(checked) =>
+                          setTagFilter((prev) =>
+                            checked ? [...prev, tag.id] : prev.filter((id) => id !== tag.id)
+                          )
+                        }
+                      >
+                        <span
+                          className="inline-block size-2.5 shrink-0 rounded-full"
+                          style={{ backgroundColor: tag.color || "var(--muted-foreground)" }}
+                        />
+                        {tag.name}
+                      </DropdownMenuCheckboxItem>
+                    ))
+                  )}
+                  {tagFilter.length > 1 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuRadioGroup
+                        value={tagMatch}
+                        onValueChange={(value) => setTagMatch(value as SegmentFilters["tagMatch"])}
+                      >
+                        <DropdownMenuRadioItem value="any" onSelect={(e) => e.preventDefault()}>
+                          Any of these tags
+                        </DropdownMenuRadioItem>
+                        <DropdownMenuRadioItem value="all" onSelect={(e) => e.preventDefault()}>
+                          All of these tags
+                        </DropdownMenuRadioItem>
+                      </DropdownMenuRadioGroup>
+                    </>
+                  )}
+                  <DropdownMenuSeparator />
+                  {tagFilter.length > 0 && (
+                    <>
+                      <DropdownMenuItem onClick={() => setSegmentDialog({ open: true })}>
+                        <Users className="mr-2 size-4" />
+                        Save as segment
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setTagFilter([])}>
+                        Clear tag filter
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  <DropdownMenuItem onClick={() => setTagsOpen(true)}>
+                    <Settings2 className="mr-2 size-4" />
+                    Manage tags
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant={activeSegment ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-9 gap-1.5 max-w-56"
+                  >
+                    <Users className="size-4 shrink-0" />
+                    <span className="truncate">{activeSegment?.name ?? "Segments"}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-60">
+                  <DropdownMenuRadioGroup
+                    value={segmentId === null ? "all" : String(segmentId)}
+                    onValueChange={(value) => setSegmentId(value === "all" ? null : parseInt(value, 10))}
+                  >
+                    <DropdownMenuRadioItem value="all">All customers</DropdownMenuRadioItem>
+                    {segments.map((seg) => (
+                      <DropdownMenuRadioItem key={seg.id} value={String(seg.id)}>
+                        <span className="truncate">{seg.name}</span>
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setSegmentDialog({ open: true })}>
+                    <Plus className="mr-2 size-4" />
+                    New segment
+                  </DropdownMenuItem>
+                  {activeSegment && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="truncate text-xs text-muted-foreground">
+                        {activeSegment.name}
+                      </DropdownMenuLabel>
+                      <DropdownMenuItem onClick={() => setSegmentDialog({ open: true, segment: activeSegment })}>
+                        <Pencil className="mr-2 size-4" />
+                        Edit segment
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setReminderTarget(activeSegment)
+                          setSegmentError("")
+                        }}
+                      >
+                        <Mail className="mr-2 size-4" />
+                        Send payment reminders
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        variant="destructive"
+                        onClick={() => {
+                          setSegmentDeleteTarget(activeSegment)
+                          setSegmentError("")
+                        }}
+                      >
+                        <Trash2 className="mr-2 size-4" />
+                        Delete segment
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <Button
+                variant={showArchived ? "secondary" : "outline"}
+                size="sm"
+                className="h-9 gap-1.5"
+                onClick={() => setShowArchived((prev) => !prev)}
+                aria-pressed={showArchived}
+              >
+                <Archive className="size-4" />
+                Archived
+              </Button>
+            </>
+          }
           renderBulkActions={(selected, clearSelection) => (
-            <Button
-              variant="destructive"
-              size="sm"
-              className="gap-1.5"
-              onClick={() => handleBulkDelete(selected, clearSelection)}
-            >
-              <Trash2 className="size-4" />
-              Delete ({selected.length})
-            </Button>
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1.5">
+                    <Tag className="size-4" />
+                    Tag ({selected.length})
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {allTags.length === 0 ? (
+                    <DropdownMenuItem onClick={() => setTagsOpen(true)}>
+                      <Settings2 className="mr-2 size-4" />
+                      Create a tag first
+                    </DropdownMenuItem>
+                  ) : (
+                    <>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {allTags.map((tag) => (
+                            <DropdownMenuItem key={tag.id} onClick={() => handleBulkTag(selected, tag, true, clearSelection)}>
+                              {tag.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {allTags.map((tag) => (
+                            <DropdownMenuItem key={tag.id} onClick={() => handleBulkTag(selected, tag, false, clearSelection)}>
+                              {tag.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => handleArchive(selected, !showArchived, clearSelection)}
+              >
+                {showArchived ? (
+                  <ArchiveRestore className="size-4" />
+                ) : (
+                  <Archive className="size-4" />
+                )}
+                {showArchived ? "Restore" : "Archive"} ({selected.length})
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => handleBulkDelete(selected, clearSelection)}
+              >
+                <Trash2 className="size-4" />
+                Delete ({selected.length})
+              </Button>
+            </>
           )}
-          emptyMessage="No customers yet. Click 'Add Customer' to get started."
+          emptyMessage={
+            tagFilter.length > 0 || activeSegment
+              ? "No customers match these filters."
+              : showArchived
+                ? "No archived customers."
+                : "No customers yet. Click 'Add Customer' to get started."
+          }
         />
       )}
 
+      <StatementDialog
+        open={statementsOpen}
+        onOpenChange={setStatementsOpen}
+        segments={segments}
+        defaultSegmentId={segmentId}
+      />
+
+      <CustomerTagsDialog open={tagsOpen} onOpenChange={setTagsOpen} onChange={handleTagsChanged} />
+
+      <SegmentDialog
+        open={segmentDialog.open}
+        onOpenChange={(open) => setSegmentDialog((prev) => ({ ...prev, open }))}
+        tags={allTags}
+        segment={segmentDialog.segment}
+        initialFilters={segmentStartFilters}
+        onSuccess={handleSegmentSaved}
+      />
+
+      <Dialog
+        open={!!segmentDeleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setSegmentDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Segment</DialogTitle>
+            <DialogDescription>
+              Delete the segment <strong>{segmentDeleteTarget?.name}</strong>? Its customers and
+              their tags are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          {segmentError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {segmentError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSegmentDeleteTarget(null)} disabled={isSegmentBusy}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteSegment} disabled={isSegmentBusy}>
+              {isSegmentBusy ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!reminderTarget}
+        onOpenChange={(open) => {
+          if (!open) setReminderTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send Payment Reminders</DialogTitle>
+            <DialogDescription>
+              Email a reminder for each open invoice of the customers in{" "}
+              <strong>{reminderTarget?.name}</strong>. Customers without an email address are
+              skipped.
+            </DialogDescription>
+          </DialogHeader>
+          {segmentError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {segmentError}
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={overdueOnly} onCheckedChange={(checked) => setOverdueOnly(checked === true)} />
+            Only invoices past their due date
+          </label>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReminderTarget(null)} disabled={isSegmentBusy}>
+              Cancel
+            </Button>
+            <Button onClick={handleSendReminders} disabled={isSegmentBusy}>
+              {isSegmentBusy ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Mail className="mr-2 size-4" />
+              )}
+              Send Reminders
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CustomerImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSuccess={fetchCustomers}
+      />
+
       <CustomerDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
@@ -0,0 +1,635 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { ArrowLeft, Download, Eye, Loader2, TrendingUp, Undo2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { DatePicker } from "@/components/ui/date-picker"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { DataTable, type ColumnDef } from "@/components/ui/data-table"
+import { cn } from "@/lib/utils"
+import type { CustomerTagData } from "@/components/customers/customer-tags-dialog"
+import type {
+  PriceChange,
+  PriceIncreaseFilters,
+  PriceRounding,
+} from "@/lib/price-increases"
+
+interface PriceIncrease {
+  id: number
+  type: "FLAT" | "PERCENT"
+  amount: string
+  rounding: PriceRounding
+  effectiveFrom: string
+  filters: PriceIncreaseFilters
+  changes: PriceChange[]
+  rolledBackAt: string | null
+  createdAt: string
+}
+
+interface ServiceTypeOption {
+  id: number
+  name: string
+}
+
+const ROUNDING_LABELS: Record<PriceRounding, string> = {
+  cent: "No rounding",
+  dollar: "Nearest $1",
+  "up-dollar": "Up to the next $1",
+  five: "Nearest $5",
+  "up-five": "Up to the next $5",
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function firstOfNextMonth(): Date {
+  const date = new Date()
+  return new Date(date.getFullYear(), date.getMonth() + 1, 1)
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+function customerCount(changes: PriceChange[]): number {
+  return new Set(changes.map((c) => c.customerId)).size
+}
+
+const changeColumns: ColumnDef<PriceChange>[] = [
+  {
+    key: "customerName",
+    label: "Customer",
+    sortValue: (row) => row.customerName,
+    render: (_, row) => (
+      <Link
+        href={`/customers/${row.customerId}`}
+        className="font-medium underline-offset-4 hover:underline"
+      >
+        {row.customerName}
+      </Link>
+    ),
+  },
+  {
+    key: "contact",
+    label: "Contact",
+    render: (_, row) => (
+      <span className="text-sm text-muted-foreground">{row.email ?? row.phone}</span>
+    ),
+  },
+  {
+    key: "location",
+    label: "Location",
+    filterable: true,
+    filterValue: (row) => row.location ?? "All locations",
+    render: (_, row) => row.location ?? <span className="text-muted-foreground">All locations</span>,
+  },
+  {
+    key: "serviceType",
+    label: "Service",
+    filterable: true,
+    filterValue: (row) => row.serviceType ?? "Any service",
+    render: (_, row) => row.serviceType ?? <span className="text-muted-foreground">Any service</span>,
+  },
+  {
+    key: "oldPrice",
+    label: "Old Price",
+    className: "text-right",
+    sortValue: (row) => row.oldPrice,
+    render: (_, row) => formatCurrency(row.oldPrice),
+  },
+  {
+    key: "newPrice",
+    label: "New Price",
+    className: "text-right",
+    sortValue: (row) => row.newPrice,
+    render: (_, row) => (
+      <span className="font-medium">
+        {formatCurrency(row.newPrice)}{" "}
+        <span className="text-xs text-muted-foreground">
+          +{formatCurrency(row.newPrice - row.oldPrice)}
+        </span>
+      </span>
+    ),
+  },
+]
+
+export default function PriceIncreasesPage() {
+  const [serviceTypes, setServiceTypes] = useState<ServiceTypeOption[]>([])
+  const [tags, setTags] = useState<CustomerTagData[]>([])
+  const [increases, setIncreases] = useState<PriceIncrease[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [type, setType] = useState<PriceIncrease["type"]>("PERCENT")
+  const [amount, setAmount] = useState("")
+  const [rounding, setRounding] = useState<PriceRounding>("up-dollar")
+  const [effectiveFrom, setEffectiveFrom] = useState<Date | undefined>(firstOfNextMonth)
+  const [filters, setFilters] = useState<PriceIncreaseFilters>({
+    serviceTypeIds: [],
+    tagIds: [],
+    vip: "all",
+  })
+
+  // The preview is only applied while the form still matches it
+  const [preview, setPreview] = useState<{ key: string; changes: PriceChange[] } | null>(null)
+  const [viewing, setViewing] = useState<PriceIncrease | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [rollbackTarget, setRollbackTarget] = useState<PriceIncrease | null>(null)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+  const [error, setError] = useState("")
+
+  const fetchIncreases = useCallback(async () => {
+    try {
+      const res = await fetch("/api/customers/price-increases")
+      const result = await res.json()
+      if (result.success) setIncreases(result.data)
+    } catch (error) {
+      console.error("Failed to fetch price increases:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/service-types").then((r) => r.json()),
+      fetch("/api/customers/tags").then((r) => r.json()),
+      fetchIncreases(),
+    ])
+      .then(([typesResult, tagsResult]) => {
+        if (typesResult.success) setServiceTypes(typesResult.data)
+        if (tagsResult.success) setTags(tagsResult.data)
+      })
+      .catch((error) => console.error("Failed to load price increase options:", error))
+      .finally(() => setIsLoading(false))
+  }, [fetchIncreases])
+
+  const payload = {
+    type,
+    amount: parseFloat(amount),
+    rounding,
+    effectiveFrom: effectiveFrom?.toISOString() ?? "",
+    filters,
+  }
+  const payloadKey = JSON.stringify(payload)
+  const previewIsCurrent = preview?.key === payloadKey
+  const applicableCount = previewIsCurrent ? preview.changes.length : 0
+
+  async function submit(dryRun: boolean) {
+    setError("")
+    if (!(payload.amount > 0)) {
+      setError("Enter an increase above zero.")
+      return null
+    }
+    if (!effectiveFrom) {
+      setError("Pick the date the new prices take effect.")
+      return null
+    }
+
+    const res = await fetch("/api/customers/price-increases", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payload, dryRun }),
+    })
+    const result = await res.json()
+    if (!result.success) {
+      setError(result.error || "Something went wrong.")
+      return null
+    }
+    return result.data
+  }
+
+  async function handlePreview() {
+    setIsPreviewing(true)
+    try {
+      const data = await submit(true)
+      if (data) {
+        setPreview({ key: payloadKey, changes: data.changes })
+        setViewing(null)
+      }
+    } catch {
+      setError("Failed to preview the increase. Please try again.")
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  async function handleApply() {
+    setIsApplying(true)
+    try {
+      const increase: PriceIncrease | null = await submit(false)
+      if (increase) {
+        toast.success(
+          `Raised ${increase.changes.length} price(s) for ${customerCount(increase.changes)} customer(s)`
+        )
+        setPreview(null)
+        setViewing(increase)
+        fetchIncreases()
+      }
+    } catch {
+      setError("Failed to apply the increase. Please try again.")
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  async function handleRollbackConfirm() {
+    if (!rollbackTarget) return
+    setIsRollingBack(true)
+    try {
+      const res = await fetch(`/api/customers/price-increases/${rollbackTarget.id}/rollback`, {
+        method: "POST",
+      })
+      const result = await res.json()
+      if (!result.success) {
+        toast.error(result.error || "Failed to roll back the increase")
+        return
+      }
+      toast.success(`Removed ${result.data.removedEntries} price(s)`)
+      setRollbackTarget(null)
+      if (viewing?.id === rollbackTarget.id) setViewing(null)
+      fetchIncreases()
+    } catch {
+      toast.error("Failed to roll back the increase")
+    } finally {
+      setIsRollingBack(false)
+    }
+  }
+
+  function describe(increase: Pick<PriceIncrease, "type" | "amount" | "rounding" | "filters">) {
+    const raise =
+      increase.type === "PERCENT"
+        ? `+${Number(increase.amount)}%`
+        : `+${formatCurrency(Number(increase.amount))}`
+    const scope = [
+      increase.filters.serviceTypeIds.length > 0 &&
+        serviceTypes
+          .filter((t) => increase.filters.serviceTypeIds.includes(t.id))
+          .map((t) => t.name)
+          .join(", "),
+      increase.filters.tagIds.length > 0 &&
+        `tagged ${tags
+          .filter((t) => increase.filters.tagIds.includes(t.id))
+          .map((t) => t.name)
+          .join(" or ")}`,
+      increase.filters.vip === "vip" && "VIP only",
+      increase.filters.vip === "non-vip" && "non-VIP only",
+    ].filter(Boolean)
+    return [raise, ROUNDING_LABELS[increase.rounding].toLowerCase(), ...scope].join(" · ")
+  }
+
+  const shown = viewing
+    ? { title: `Notification list: ${describe(viewing)}`, changes: viewing.changes }
+    : preview
+      ? { title: "Preview", changes: preview.changes }
+      : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/customers">
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">Back to customers</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl sm:text-3xl font-bold">Price Increases</h1>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Raise price book prices from a date. Each matching price gets a new entry, so services
+        before the date keep the old price and the increase can be rolled back. Customers
+        without price book entries are not affected.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>New Increase</CardTitle>
+              <CardDescription>Preview the changes before applying them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="increase-type">Increase</Label>
+                  <Select value={type} onValueChange={(v) => setType(v as PriceIncrease["type"])}>
+                    <SelectTrigger id="increase-type" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PERCENT">Percentage</SelectItem>
+                      <SelectItem value="FLAT">Fixed amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="increase-amount">
+                    {type === "PERCENT" ? "Percent" : "Amount ($)"}
+                  </Label>
+                  <Input
+                    id="increase-amount"
+                    type="number"
+                    min="0"
+                    step={type === "PERCENT" ? "0.1" : "0.01"}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder={type === "PERCENT" ? "5" : "10.00"}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="increase-rounding">Rounding</Label>
+                  <Select value={rounding} onValueChange={(v) => setRounding(v as PriceRounding)}>
+                    <SelectTrigger id="increase-rounding" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROUNDING_LABELS) as PriceRounding[]).map((rule) => (
+                        <SelectItem key={rule} value={rule}>
+                          {ROUNDING_LABELS[rule]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective From</Label>
+                  <DatePicker date={effectiveFrom} onSelect={setEffectiveFrom} />
+                </div>
+              </div>
+
+              <div className="grid gap-4 lg:grid-cols-[1fr_1fr_auto]">
+                <div className="space-y-2">
+                  <Label>Services</Label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {serviceTypes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No service types yet.</p>
+                    ) : (
+                      serviceTypes.map((serviceType) => (
+                        <FilterChip
+                          key={serviceType.id}
+                          selected={filters.serviceTypeIds.includes(serviceType.id)}
+                          onClick={() =>
+                            setFilters({
+                              ...filters,
+                              serviceTypeIds: toggle(filters.serviceTypeIds, serviceType.id),
+                            })
+                          }
+                        >
+                          {serviceType.name}
+                        </FilterChip>
+                      ))
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    None selected raises every price, including ones for any service.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Customer tags</Label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {tags.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No tags yet.</p>
+                    ) : (
+                      tags.map((tag) => (
+                        <FilterChip
+                          key={tag.id}
+                          selected={filters.tagIds.includes(tag.id)}
+                          color={tag.color}
+                          onClick={() =>
+                            setFilters({ ...filters, tagIds: toggle(filters.tagIds, tag.id) })
+                          }
+                        >
+                          {tag.name}
+                        </FilterChip>
+                      ))
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Customers with any of the selected tags.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="increase-vip">VIP status</Label>
+                  <Select
+                    value={filters.vip}
+                    onValueChange={(v) =>
+                      setFilters({ ...filters, vip: v as PriceIncreaseFilters["vip"] })
+                    }
+                  >
+                    <SelectTrigger id="increase-vip" className="w-full lg:w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All customers</SelectItem>
+                      <SelectItem value="vip">VIP only</SelectItem>
+                      <SelectItem value="non-vip">Non-VIP only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={handlePreview} disabled={isPreviewing || isApplying}>
+                  {isPreviewing ? (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  ) : (
+                    <Eye className="mr-2 size-4" />
+                  )}
+                  Preview
+                </Button>
+                <Button
+                  onClick={handleApply}
+                  disabled={applicableCount === 0 || isApplying}
+                >
+                  {isApplying ? (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  ) : (
+                    <TrendingUp className="mr-2 size-4" />
+                  )}
+                  {applicableCount > 0 ? `Apply to ${applicableCount} Price(s)` : "Apply"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {shown && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold">{shown.title}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {shown.changes.length} price(s) for {customerCount(shown.changes)} customer(s)
+                    {preview && !viewing && !previewIsCurrent && " · the form has changed since"}
+                  </p>
+                </div>
+                {viewing && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/customers/price-increases/${viewing.id}?format=csv`} download>
+                      <Download className="mr-2 size-4" />
+                      Download CSV
+                    </a>
+                  </Button>
+                )}
+              </div>
+              <DataTable
+                storageKey="price-increase-changes"
+                columns={changeColumns}
+                data={shown.changes}
+                rowKey={(row) => `${row.customerId}-${row.propertyId}-${row.serviceTypeId}`}
+                searchable
+                searchPlaceholder="Search by customer..."
+                emptyMessage="No price book prices match these filters."
+              />
+            </div>
+          )}
+
+          {increases.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold">Past Increases</h2>
+              <ul className="divide-y rounded-md border text-sm">
+                {increases.map((increase) => (
+                  <li key={increase.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <span className={cn("font-medium", increase.rolledBackAt && "text-muted-foreground line-through")}>
+                        {describe(increase)}
+                      </span>
+                      {increase.rolledBackAt && (
+                        <Badge variant="secondary" className="ml-2">
+                          Rolled back
+                        </Badge>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        From {formatDate(increase.effectiveFrom)} · {increase.changes.length} price(s),{" "}
+                        {customerCount(increase.changes)} customer(s) · applied{" "}
+                        {formatDate(increase.createdAt)}
+                        {increase.rolledBackAt && ` · rolled back ${formatDate(increase.rolledBackAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setViewing(increase)}>
+                        <Eye className="mr-2 size-4" />
+                        Customers
+                      </Button>
+                      {!increase.rolledBackAt && (
+                        <Button variant="ghost" size="sm" onClick={() => setRollbackTarget(increase)}>
+                          <Undo2 className="mr-2 size-4" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      <Dialog
+        open={!!rollbackTarget}
+        onOpenChange={(open) => {
+          if (!open) setRollbackTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll Back Price Increase</DialogTitle>
+            <DialogDescription>
+              Remove the {rollbackTarget?.changes.length} price(s) this increase added, including
+              any edited since? The prices before it apply again. Services already logged keep
+              what was charged.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRollbackTarget(null)}
+              disabled={isRollingBack}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRollbackConfirm} disabled={isRollingBack}>
+              {isRollingBack ? "Rolling back..." : "Roll Back"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function FilterChip({
+  selected,
+  color,
+  onClick,
+  children,
+}: {
+  selected: boolean
+  color?: string | null
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors",
+        selected
+          ? "border-primary bg-primary text-primary-foreground"
+          : "text-muted-foreground hover:text-foreground"
+      )}
+    >
+      {color !== undefined && (
+        <span
+          className="inline-block size-2 rounded-full"
+          style={{ backgroundColor: color || "currentColor" }}
+        />
+      )}
+      {children}
+    </button>
+  )
+}
@@ -0,0 +1,327 @@
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { EstimateActions } from "@/components/estimates/estimate-actions"
+
+interface EstimateDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+function formatCurrency(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return "$0.00"
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(value))
+}
+
+function formatDate(dateString: string | Date): string {
+  return new Date(dateString).toLocaleDateString()
+}
+
+function getStatusBadge(status: string) {
+  switch (status) {
+    case "DRAFT":
+      return (
+        <Badge variant="outline" className="text-base px-3 py-1">
+          Draft
+        </Badge>
+      )
+    case "SENT":
+      return (
+        <Badge className="bg-blue-600 text-white text-base px-3 py-1">
+          Sent
+        </Badge>
+      )
+    case "ACCEPTED":
+      return (
+        <Badge className="bg-green-600 text-white text-base px-3 py-1">
+          Accepted
+        </Badge>
+      )
+    case "DECLINED":
+      return (
+        <Badge variant="destructive" className="text-base px-3 py-1">
+          Declined
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="outline" className="text-base px-3 py-1">
+          {status}
+        </Badge>
+      )
+  }
+}
+
+export default async function EstimateDetailPage({
+  params,
+}: EstimateDetailPageProps) {
+  const session = await auth()
+
+  // Dashboard layout ensures we're authenticated
+  // If session is missing here, something is wrong - show 404 instead of redirecting
+  if (!session?.user?.id) {
+    notFound()
+  }
+
+  const { id } = await params
+  const estimateId = parseInt(id, 10)
+
+  if (isNaN(estimateId)) {
+    notFound()
+  }
+
+  const estimate = await prisma.estimate.findFirst({
+    where: {
+      id: estimateId,
+      userId: session.user.id,
+    },
+    include: {
+      customer: true,
+      taxRate: { select: { name: true } },
+      items: {
+        orderBy: { id: "asc" },
+      },
+      invoice: { select: { id: true, invoiceNumber: true } },
+    },
+  })
+
+  if (!estimate) {
+    notFound()
+  }
+
+  const hasTax = estimate.taxPercent !== null
+
+  // Serialize for client component
+  const estimateForActions = {
+    id: estimate.id,
+    estimateNumber: estimate.estimateNumber,
+    customerId: estimate.customerId,
+    issueDate: estimate.issueDate.toISOString(),
+    validUntil: estimate.validUntil?.toISOString() ?? null,
+    status: estimate.status,
+    subtotal: Number(estimate.subtotal),
+    tax: Number(estimate.tax),
+    total: Number(estimate.total),
+    taxRateId: estimate.taxRateId,
+    notes: estimate.notes,
+    terms: estimate.terms,
+    invoiceId: estimate.invoiceId,
+    items: estimate.items.map((item) => ({
+      id: item.id,
+      description: item.description,
+      serviceDate: item.serviceDate.toISOString(),
+      quantity: Number(item.quantity),
+      rate: Number(item.rate),
+      amount: Number(item.amount),
+      taxable: item.taxable,
+    })),
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Back link and actions */}
+      <div className="flex items-center gap-4 print:hidden">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/estimates">
+            <ArrowLeft className="size-4" />
+            <span className="sr-only">Back to Estimates</span>
+          </Link>
+        </Button>
+        <div className="flex-1" />
+        <EstimateActions estimate={estimateForActions} />
+      </div>
+
+      {estimate.invoice && (
+        <div className="mx-auto max-w-3xl rounded-md border bg-muted/30 px-4 py-3 text-sm print:hidden">
+          Converted to invoice{" "}
+          <Link
+            href={`/invoices/${estimate.invoice.id}`}
+            className="font-medium text-primary underline-offset-4 hover:underline"
+          >
+            {estimate.invoice.invoiceNumber}
+          </Link>
+          .
+        </div>
+      )}
+
+      {/* Estimate Document */}
+      <div className="mx-auto max-w-3xl rounded-lg border bg-card p-4 sm:p-8 shadow-sm print:border-none print:shadow-none print:p-0 print:max-w-none">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">ESTIMATE</h1>
+            <p className="text-lg text-muted-foreground mt-1">
+              {estimate.estimateNumber}
+            </p>
+          </div>
+          <div className="print:hidden">
+            {getStatusBadge(estimate.status)}
+          </div>
+        </div>
+
+        <Separator className="my-6" />
+
+        {/* Company and Customer Info */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-1">
+              From
+            </p>
+            <p className="text-lg font-semibold">GRW Services</p>
+            {/* Company details will come from Settings in a future phase */}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-1">
+              Prepared For
+            </p>
+            <p className="text-lg font-semibold">{estimate.customer.name}</p>
+            {estimate.customer.address && (
+              <p className="text-sm text-muted-foreground">
+                {estimate.customer.address}
+              </p>
+            )}
+            {estimate.customer.phone && (
+              <p className="text-sm text-muted-foreground">
+                {estimate.customer.phone}
+              </p>
+            )}
+            {estimate.customer.email && (
+              <p className="text-sm text-muted-foreground">
+                {estimate.customer.email}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Dates */}
+        <div className="mt-6 flex gap-8">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">
+              Issue Date
+            </p>
+            <p className="text-sm font-medium">
+              {formatDate(estimate.issueDate)}
+            </p>
+          </div>
+          {estimate.validUntil && (
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                Valid Until
+              </p>
+              <p className="text-sm font-medium">
+                {formatDate(estimate.validUntil)}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Line Items */}
+        <div className="mt-8 rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40%]">Description</TableHead>
+                <TableHead>Service Date</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {estimate.items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">
+                    {item.description}
+                    {hasTax && item.taxable && (
+                      <span className="ml-1 text-xs text-muted-foreground" title="Taxable">
+                        (T)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDate(item.serviceDate)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {Number(item.quantity)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">
+                    {formatCurrency(Number(item.rate))}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">
+                    {formatCurrency(Number(item.amount))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Totals */}
+        <div className="mt-4 flex justify-end">
+          <div className="w-72 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span className="tabular-nums">
+                {formatCurrency(Number(estimate.subtotal))}
+              </span>
+            </div>
+            {hasTax && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {estimate.taxRate?.name ?? "Sales Tax"} ({Number(estimate.taxPercent)}%)
+                </span>
+                <span className="tabular-nums">
+                  {formatCurrency(Number(estimate.tax))}
+                </span>
+              </div>
+            )}
+            <Separator />
+            <div className="flex justify-between text-base font-semibold">
+              <span>Total</span>
+              <span className="tabular-nums">
+                {formatCurrency(Number(estimate.total))}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Notes */}
+        {estimate.notes && (
+          <div className="mt-8">
+            <p className="text-sm font-medium text-muted-foreground mb-1">
+              Notes
+            </p>
+            <p className="text-sm whitespace-pre-wrap">{estimate.notes}</p>
+          </div>
+        )}
+
+        {/* Terms */}
+        {estimate.terms && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-muted-foreground mb-1">
+              Terms
+            </p>
+            <p className="text-sm whitespace-pre-wrap">{estimate.terms}</p>
+          </div>
+        )}
+      </div>
+
+    </div>
+  )
+}
@@ -0,0 +1,404 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Plus,
+  MoreHorizontal,
+  Eye,
+  Pencil,
+  Trash2,
+  Send,
+  Loader2,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { DataTable, type ColumnDef } from "@/components/ui/data-table"
+import dynamic from "next/dynamic"
+
+const EstimateFormDialog = dynamic(() => import("@/components/estimates/estimate-form-dialog").then((m) => m.EstimateFormDialog))
+
+interface EstimateItem {
+  id: number
+  description: string
+  serviceDate: string
+  quantity: number | string
+  rate: number | string
+  amount: number | string
+  taxable: boolean
+}
+
+interface Estimate {
+  id: number
+  estimateNumber: string
+  customerId: number
+  issueDate: string
+  validUntil: string | null
+  status: string
+  subtotal: number | string
+  tax: number | string
+  total: number | string
+  taxRateId: number | null
+  notes: string | null
+  terms: string | null
+  customer: { id: number; name: string }
+  invoice: { id: number; invoiceNumber: string } | null
+  items: EstimateItem[]
+  _count: { items: number }
+}
+
+function formatCurrency(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return "$0.00"
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(value))
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString()
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+}
+
+function getStatusBadge(status: string) {
+  switch (status) {
+    case "DRAFT":
+      return <Badge variant="outline">Draft</Badge>
+    case "SENT":
+      return <Badge className="bg-blue-600 text-white">Sent</Badge>
+    case "ACCEPTED":
+      return <Badge className="bg-green-600 text-white">Accepted</Badge>
+    case "DECLINED":
+      return <Badge variant="destructive">Declined</Badge>
+    default:
+      return <Badge variant="outline">{status}</Badge>
+  }
+}
+
+export default function EstimatesPage() {
+  const router = useRouter()
+  const [estimates, setEstimates] = useState<Estimate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Dialogs
+  const [formDialogOpen, setFormDialogOpen] = useState(false)
+  const [editingEstimate, setEditingEstimate] = useState<Estimate | undefined>(
+    undefined
+  )
+  const [deleteTarget, setDeleteTarget] = useState<Estimate | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState("")
+
+  const fetchEstimates = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/estimates")
+      const result = await res.json()
+
+      if (result.success) {
+        setEstimates(result.data)
+      }
+    } catch (error) {
+      console.error("Failed to fetch estimates:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEstimates()
+  }, [fetchEstimates])
+
+  function handleCreateEstimate() {
+    setEditingEstimate(undefined)
+    setFormDialogOpen(true)
+  }
+
+  function handleEditEstimate(estimate: Estimate) {
+    setEditingEstimate(estimate)
+    setFormDialogOpen(true)
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    setDeleteError("")
+
+    try {
+      const res = await fetch(`/api/estimates/${deleteTarget.id}`, { method: "DELETE" })
+      const result = await res.json()
+
+      if (result.success) {
+        setDeleteTarget(null)
+        fetchEstimates()
+      } else {
+        setDeleteError(result.error || "Failed to delete estimate.")
+      }
+    } catch {
+      setDeleteError("Failed to delete. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  async function handleStatusChange(estimateId: number, newStatus: string) {
+    try {
+      const res = await fetch(`/api/estimates/${estimateId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: newStatus }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        fetchEstimates()
+      }
+    } catch (error) {
+      console.error("Failed to update estimate status:", error)
+    }
+  }
+
+  const estimateColumns: ColumnDef<Estimate>[] = [
+    {
+      key: "estimateNumber",
+      label: "Estimate #",
+      render: (_, row) => (
+        <button
+          className="font-medium text-primary underline-offset-4 hover:underline"
+          onClick={(e) => {
+            e.stopPropagation()
+            router.push(`/estimates/${row.id}`)
+          }}
+        >
+          {row.estimateNumber}
+        </button>
+      ),
+    },
+    {
+      key: "customer",
+      label: "Customer",
+      filterable: true,
+      sortValue: (row) => row.customer.name,
+      filterValue: (row) => row.customer.name,
+      render: (_, row) => row.customer.name,
+    },
+    {
+      key: "issueDate",
+      label: "Date",
+      sortValue: (row) => new Date(row.issueDate).getTime(),
+      render: (_, row) => (
+        <span className="whitespace-nowrap">{formatDate(row.issueDate)}</span>
+      ),
+    },
+    {
+      key: "validUntil",
+      label: "Valid Until",
+      sortValue: (row) =>
+        row.validUntil ? new Date(row.validUntil).getTime() : 0,
+      render: (_, row) =>
+        row.validUntil ? (
+          <span className="whitespace-nowrap">{formatDate(row.validUntil)}</span>
+        ) : (
+          <span className="text-muted-foreground">&mdash;</span>
+        ),
+    },
+    {
+      key: "status",
+      label: "Status",
+      filterable: true,
+      filterValue: (row) => STATUS_LABELS[row.status] ?? row.status,
+      render: (_, row) => getStatusBadge(row.status),
+    },
+    {
+      key: "invoice",
+      label: "Invoice",
+      render: (_, row) =>
+        row.invoice ? (
+          <button
+            className="text-primary underline-offset-4 hover:underline whitespace-nowrap"
+            onClick={(e) => {
+              e.stopPropagation()
+              router.push(`/invoices/${row.invoice!.id}`)
+            }}
+          >
+            {row.invoice.invoiceNumber}
+          </button>
+        ) : (
+          <span className="text-muted-foreground">&mdash;</span>
+        ),
+    },
+    {
+      key: "total",
+      label: "Total",
+      className: "text-right",
+      sortValue: (row) => Number(row.total),
+      render: (_, row) => (
+        <span className="whitespace-nowrap">{formatCurrency(row.total)}</span>
+      ),
+    },
+    {
+      key: "_actions",
+      label: "",
+      pinned: true,
+      className: "w-12",
+      render: (_, estimate) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <MoreHorizontal className="size-4" />
+              <span className="sr-only">Actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation()
+                router.push(`/estimates/${estimate.id}`)
+              }}
+            >
+              <Eye className="mr-2 size-4" />
+              View
+            </DropdownMenuItem>
+            {estimate.status === "DRAFT" && (
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleEditEstimate(estimate)
+                }}
+              >
+                <Pencil className="mr-2 size-4" />
+                Edit
+              </DropdownMenuItem>
+            )}
+            {estimate.status === "DRAFT" && (
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleStatusChange(estimate.id, "SENT")
+                }}
+              >
+                <Send className="mr-2 size-4" />
+                Mark as Sent
+              </DropdownMenuItem>
+            )}
+            {!estimate.invoice && (
+              <DropdownMenuItem
+                variant="destructive"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setDeleteTarget(estimate)
+                  setDeleteError("")
+                }}
+              >
+                <Trash2 className="mr-2 size-4" />
+                Delete
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl sm:text-3xl font-bold">Estimates</h1>
+        <Button onClick={handleCreateEstimate}>
+          <Plus className="mr-2 size-4" />
+          Create Estimate
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <DataTable
+          storageKey="estimates"
+          columns={estimateColumns}
+          data={estimates}
+          rowKey="id"
+          searchable
+          searchPlaceholder="Search by estimate number or customer..."
+          onRowClick={(estimate) => router.push(`/estimates/${estimate.id}`)}
+          emptyMessage="No estimates yet. Click 'Create Estimate' to get started."
+        />
+      )}
+
+      {/* Form Dialog */}
+      <EstimateFormDialog
+        open={formDialogOpen}
+        onOpenChange={setFormDialogOpen}
+        estimate={editingEstimate}
+        onSuccess={fetchEstimates}
+      />
+
+      {/* Delete Confirmation */}
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Estimate</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete estimate{" "}
+              <strong>{deleteTarget?.estimateNumber}</strong>? This action
+              cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {deleteError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -395,7 +395,7 @@ export default function FinancesV2Page() {
 
   // ── Customers (ATH MOVIL phone matching) ───────────────────────
   useEffect(() => {
-    fetch("/api/customers?pageSize=500")
+    fetch("/api/customers?pageSize=500&archived=include")
       .then((r) => r.json())
       .then((data) => {
         if (data.success) {
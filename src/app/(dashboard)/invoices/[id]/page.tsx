@@ -15,6 +15,9 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { InvoiceActions } from "@/components/invoices/invoice-actions"
+import { InvoicePayments } from "@/components/invoices/invoice-payments"
+import { InvoiceAdjustments } from "@/components/invoices/invoice-adjustments"
+import { InvoiceTimeline } from "@/components/invoices/invoice-timeline"
 
 interface InvoiceDetailPageProps {
   params: Promise<{ id: string }>
@@ -46,6 +49,12 @@ function getStatusBadge(status: string) {
           Sent
         </Badge>
       )
+    case "PARTIALLY_PAID":
+      return (
+        <Badge className="bg-amber-500 text-white text-base px-3 py-1">
+          Partially Paid
+        </Badge>
+      )
     case "PAID":
       return (
         <Badge className="bg-green-600 text-white text-base px-3 py-1">
@@ -92,9 +101,29 @@ export default async function InvoiceDetailPage({
     },
     include: {
       customer: true,
+      taxRate: { select: { name: true } },
+      schedule: { select: { id: true, name: true } },
       items: {
         orderBy: { id: "asc" },
       },
+      payments: {
+        orderBy: { date: "asc" },
+        include: {
+          bankTransaction: { select: { id: true, description: true } },
+        },
+      },
+      credits: {
+        orderBy: { date: "asc" },
+      },
+      refunds: {
+        orderBy: { date: "asc" },
+        include: {
+          bankTransaction: { select: { id: true, description: true } },
+        },
+      },
+      events: {
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      },
     },
   })
 
@@ -102,19 +131,25 @@ export default async function InvoiceDetailPage({
     notFound()
   }
 
-  const balanceDue = Number(invoice.total) - Number(invoice.amountPaid)
+  const balanceDue =
+    Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid)
+  const hasTax = invoice.taxPercent !== null
 
   // Serialize for client component
   const invoiceForActions = {
     id: invoice.id,
     invoiceNumber: invoice.invoiceNumber,
     customerId: invoice.customerId,
+    customerEmail: invoice.customer.email,
+    customerPhone: invoice.customer.phone,
     issueDate: invoice.issueDate.toISOString(),
     dueDate: invoice.dueDate?.toISOString() ?? null,
     status: invoice.status,
     subtotal: Number(invoice.subtotal),
+    tax: Number(invoice.tax),
     total: Number(invoice.total),
     amountPaid: Number(invoice.amountPaid),
+    taxRateId: invoice.taxRateId,
     notes: invoice.notes,
     terms: invoice.terms,
     items: invoice.items.map((item) => ({
@@ -124,10 +159,47 @@ export default async function InvoiceDetailPage({
       quantity: Number(item.quantity),
       rate: Number(item.rate),
       amount: Number(item.amount),
+      taxable: item.taxable,
       serviceLogId: item.serviceLogId,
+      isLateFee: item.isLateFee,
     })),
   }
 
+  const paymentRows = invoice.payments.map((payment) => ({
+    id: payment.id,
+    date: payment.date.toISOString(),
+    amount: Number(payment.amount),
+    method: payment.method,
+    notes: payment.notes,
+    bankTransaction: payment.bankTransaction,
+  }))
+
+  const creditRows = invoice.credits.map((credit) => ({
+    id: credit.id,
+    type: credit.type,
+    creditNumber: credit.creditNumber,
+    date: credit.date.toISOString(),
+    amount: Number(credit.amount),
+    reason: credit.reason,
+  }))
+
+  const refundRows = invoice.refunds.map((refund) => ({
+    id: refund.id,
+    date: refund.date.toISOString(),
+    amount: Number(refund.amount),
+    method: refund.method,
+    notes: refund.notes,
+    bankTransaction: refund.bankTransaction,
+  }))
+
+  const timelineEvents = invoice.events.map((event) => ({
+    id: event.id,
+    type: event.type,
+    data: event.data,
+    actorName: event.actorName,
+    createdAt: event.createdAt.toISOString(),
+  }))
+
   return (
     <div className="space-y-6">
       {/* Back link and actions */}
@@ -212,6 +284,19 @@ export default async function InvoiceDetailPage({
               </p>
             </div>
           )}
+          {invoice.schedule && (
+            <div className="print:hidden">
+              <p className="text-sm font-medium text-muted-foreground">
+                Recurring Schedule
+              </p>
+              <Link
+                href="/invoices/schedules"
+                className="text-sm font-medium text-primary underline-offset-4 hover:underline"
+              >
+                {invoice.schedule.name}
+              </Link>
+            </div>
+          )}
         </div>
 
         {/* Line Items */}
@@ -231,6 +316,11 @@ export default async function InvoiceDetailPage({
                 <TableRow key={item.id}>
                   <TableCell className="font-medium">
                     {item.description}
+                    {hasTax && item.taxable && (
+                      <span className="ml-1 text-xs text-muted-foreground" title="Taxable">
+                        (T)
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell className="whitespace-nowrap">
                     {formatDate(item.serviceDate)}
@@ -259,6 +349,16 @@ export default async function InvoiceDetailPage({
                 {formatCurrency(Number(invoice.subtotal))}
               </span>
             </div>
+            {hasTax && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {invoice.taxRate?.name ?? "Sales Tax"} ({Number(invoice.taxPercent)}%)
+                </span>
+                <span className="tabular-nums">
+                  {formatCurrency(Number(invoice.tax))}
+                </span>
+              </div>
+            )}
             <Separator />
             <div className="flex justify-between text-base font-semibold">
               <span>Total</span>
@@ -266,6 +366,14 @@ export default async function InvoiceDetailPage({
                 {formatCurrency(Number(invoice.total))}
               </span>
             </div>
+            {Number(invoice.amountCredited) > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Credits</span>
+                <span className="tabular-nums">
+                  -{formatCurrency(Number(invoice.amountCredited))}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Amount Paid</span>
               <span className="tabular-nums">
@@ -302,6 +410,32 @@ export default async function InvoiceDetailPage({
           </div>
         )}
       </div>
+
+      {/* Payments ledger */}
+      {invoice.status !== "DRAFT" && (
+        <InvoicePayments
+          invoiceId={invoice.id}
+          status={invoice.status}
+          balanceDue={balanceDue}
+          payments={paymentRows}
+        />
+      )}
+
+      {/* Credit notes, refunds and write-offs */}
+      {invoice.status !== "DRAFT" && (
+        <InvoiceAdjustments
+          invoiceId={invoice.id}
+          status={invoice.status}
+          total={Number(invoice.total)}
+          amountPaid={Number(invoice.amountPaid)}
+          amountCredited={Number(invoice.amountCredited)}
+          credits={creditRows}
+          refunds={refundRows}
+        />
+      )}
+
+      {/* Audit trail */}
+      <InvoiceTimeline events={timelineEvents} />
     </div>
   )
 }
@@ -11,6 +11,12 @@ import {
   Send,
   CheckCircle,
   Loader2,
+  Receipt,
+  Layers,
+  Hourglass,
+  Landmark,
+  CalendarClock,
+  Repeat,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -32,6 +38,11 @@ import { DataTable, type ColumnDef } from "@/components/ui/data-table"
 import dynamic from "next/dynamic"
 
 const InvoiceFormDialog = dynamic(() => import("@/components/invoices/invoice-form-dialog").then((m) => m.InvoiceFormDialog))
+const GenerateInvoicesDialog = dynamic(() => import("@/components/invoices/generate-invoices-dialog").then((m) => m.GenerateInvoicesDialog))
+const TaxReportDialog = dynamic(() => import("@/components/invoices/tax-report-dialog").then((m) => m.TaxReportDialog))
+const ArAgingDialog = dynamic(() => import("@/components/invoices/ar-aging-dialog").then((m) => m.ArAgingDialog))
+const LateFeesDialog = dynamic(() => import("@/components/invoices/late-fees-dialog").then((m) => m.LateFeesDialog))
+const DepositMatchesDialog = dynamic(() => import("@/components/invoices/deposit-matches-dialog").then((m) => m.DepositMatchesDialog))
 
 interface InvoiceItem {
   id: number
@@ -40,6 +51,7 @@ interface InvoiceItem {
   quantity: number | string
   rate: number | string
   amount: number | string
+  taxable: boolean
   serviceLogId: number | null
 }
 
@@ -51,8 +63,10 @@ interface Invoice {
   dueDate: string | null
   status: string
   subtotal: number | string
+  tax: number | string
   total: number | string
   amountPaid: number | string
+  taxRateId: number | null
   notes: string | null
   terms: string | null
   customer: { id: number; name: string }
@@ -78,6 +92,8 @@ function getStatusBadge(status: string) {
       return <Badge variant="outline">Draft</Badge>
     case "SENT":
       return <Badge className="bg-blue-600 text-white">Sent</Badge>
+    case "PARTIALLY_PAID":
+      return <Badge className="bg-amber-500 text-white">Partially Paid</Badge>
     case "PAID":
       return <Badge className="bg-green-600 text-white">Paid</Badge>
     case "CANCELLED":
@@ -94,6 +110,11 @@ export default function InvoicesPage() {
 
   // Dialogs
   const [formDialogOpen, setFormDialogOpen] = useState(false)
+  const [taxReportOpen, setTaxReportOpen] = useState(false)
+  const [agingOpen, setAgingOpen] = useState(false)
+  const [matchesOpen, setMatchesOpen] = useState(false)
+  const [lateFeesOpen, setLateFeesOpen] = useState(false)
+  const [generateOpen, setGenerateOpen] = useState(false)
   const [editingInvoice, setEditingInvoice] = useState<Invoice | undefined>(
     undefined
   )
@@ -247,6 +268,7 @@ export default function InvoicesPage() {
         switch (row.status) {
           case "DRAFT": return "Draft"
           case "SENT": return "Sent"
+          case "PARTIALLY_PAID": return "Partially Paid"
           case "PAID": return "Paid"
           case "CANCELLED": return "Cancelled"
           default: return row.status
@@ -330,7 +352,7 @@ export default function InvoicesPage() {
                 Mark as Sent
               </DropdownMenuItem>
             )}
-            {invoice.status === "SENT" && (
+            {(invoice.status === "SENT" || invoice.status === "PARTIALLY_PAID") && (
               <DropdownMenuItem
                 onClick={(e) => {
                   e.stopPropagation()
@@ -363,10 +385,36 @@ export default function InvoicesPage() {
     <div className="space-y-4">
       <div className="flex flex-wrap items-center justify-between gap-2">
         <h1 className="text-2xl sm:text-3xl font-bold">Invoices</h1>
-        <Button onClick={handleCreateInvoice}>
-          <Plus className="mr-2 size-4" />
-          Create Invoice
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => router.push("/invoices/schedules")}>
+            <Repeat className="mr-2 size-4" />
+            Recurring
+          </Button>
+          <Button variant="outline" onClick={() => setGenerateOpen(true)}>
+            <Layers className="mr-2 size-4" />
+            Bill Unbilled
+          </Button>
+          <Button variant="outline" onClick={() => setMatchesOpen(true)}>
+            <Landmark className="mr-2 size-4" />
+            Deposit Matches
+          </Button>
+          <Button variant="outline" onClick={() => setLateFeesOpen(true)}>
+            <CalendarClock className="mr-2 size-4" />
+            Late Fees
+          </Button>
+          <Button variant="outline" onClick={() => setAgingOpen(true)}>
+            <Hourglass className="mr-2 size-4" />
+            AR Aging
+          </Button>
+          <Button variant="outline" onClick={() => setTaxReportOpen(true)}>
+            <Receipt className="mr-2 size-4" />
+            Tax Report
+          </Button>
+          <Button onClick={handleCreateInvoice}>
+            <Plus className="mr-2 size-4" />
+            Create Invoice
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -410,6 +458,28 @@ export default function InvoicesPage() {
         onSuccess={handleFormSuccess}
       />
 
+      <GenerateInvoicesDialog
+        open={generateOpen}
+        onOpenChange={setGenerateOpen}
+        onGenerated={fetchInvoices}
+      />
+
+      <TaxReportDialog open={taxReportOpen} onOpenChange={setTaxReportOpen} />
+
+      <ArAgingDialog open={agingOpen} onOpenChange={setAgingOpen} />
+
+      <DepositMatchesDialog
+        open={matchesOpen}
+        onOpenChange={setMatchesOpen}
+        onConfirmed={fetchInvoices}
+      />
+
+      <LateFeesDialog
+        open={lateFeesOpen}
+        onOpenChange={setLateFeesOpen}
+        onApplied={fetchInvoices}
+      />
+
       {/* Delete Confirmation */}
       <Dialog
         open={!!deleteTarget || bulkDeleteTargets.length > 0}
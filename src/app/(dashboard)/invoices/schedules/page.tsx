@@ -0,0 +1,510 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import {
+  ArrowLeft,
+  Loader2,
+  MoreHorizontal,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  Trash2,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { DataTable, type ColumnDef } from "@/components/ui/data-table"
+import dynamic from "next/dynamic"
+
+const InvoiceScheduleFormDialog = dynamic(() => import("@/components/invoices/invoice-schedule-form-dialog").then((m) => m.InvoiceScheduleFormDialog))
+
+interface ScheduleItem {
+  id: number
+  description: string
+  quantity: number | string
+  rate: number | string
+  taxable: boolean
+}
+
+interface GeneratedInvoice {
+  id: number
+  invoiceNumber: string
+  issueDate: string
+  total: number | string
+  status: string
+}
+
+interface InvoiceSchedule {
+  id: number
+  name: string
+  customerId: number
+  frequency: string
+  startDate: string
+  nextRunDate: string
+  endDate: string | null
+  dueDays: number | null
+  taxRateId: number | null
+  notes: string | null
+  terms: string | null
+  autoSend: boolean
+  isActive: boolean
+  lastRunAt: string | null
+  customer: { id: number; name: string; email: string | null }
+  taxRate: { id: number; name: string; percent: number | string } | null
+  items: ScheduleItem[]
+  invoices: GeneratedInvoice[]
+  upcomingRuns: string[]
+  _count: { invoices: number }
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every 2 weeks",
+  MONTHLY: "Monthly",
+  QUARTERLY: "Quarterly",
+  ANNUAL: "Yearly",
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_PAID: "Partially Paid",
+  PAID: "Paid",
+  CANCELLED: "Cancelled",
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+/** Per-invoice amount, computed the same way as the invoice totals. */
+function scheduleTotal(schedule: InvoiceSchedule): number {
+  const subtotal = schedule.items.reduce(
+    (sum, item) => sum + Number(item.quantity) * Number(item.rate),
+    0
+  )
+  const taxable = schedule.items
+    .filter((item) => item.taxable)
+    .reduce((sum, item) => sum + Number(item.quantity) * Number(item.rate), 0)
+  const tax = schedule.taxRate
+    ? Math.round(taxable * Number(schedule.taxRate.percent)) / 100
+    : 0
+  return subtotal + tax
+}
+
+export default function InvoiceSchedulesPage() {
+  const [schedules, setSchedules] = useState<InvoiceSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+  const [notice, setNotice] = useState("")
+  const [error, setError] = useState("")
+
+  // Dialogs
+  const [formDialogOpen, setFormDialogOpen] = useState(false)
+  const [editingSchedule, setEditingSchedule] = useState<InvoiceSchedule | undefined>(
+    undefined
+  )
+  const [deleteTarget, setDeleteTarget] = useState<InvoiceSchedule | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState("")
+
+  const fetchSchedules = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/invoices/schedules")
+      const result = await res.json()
+
+      if (result.success) {
+        setSchedules(result.data)
+      }
+    } catch (error) {
+      console.error("Failed to fetch invoice schedules:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [fetchSchedules])
+
+  function handleCreateSchedule() {
+    setEditingSchedule(undefined)
+    setFormDialogOpen(true)
+  }
+
+  function handleEditSchedule(schedule: InvoiceSchedule) {
+    setEditingSchedule(schedule)
+    setFormDialogOpen(true)
+  }
+
+  async function handleRunDue() {
+    setIsRunning(true)
+    setError("")
+    setNotice("")
+    try {
+      const res = await fetch("/api/invoices/schedules/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to run schedules.")
+        return
+      }
+      const { invoicesCreated, emailsSent, draftsWithoutEmail } = result.data
+      setNotice(
+        invoicesCreated === 0
+          ? "Nothing is due yet."
+          : `Generated ${invoicesCreated} invoice(s)${emailsSent > 0 ? `, emailed ${emailsSent}` : ""}.` +
+              (draftsWithoutEmail > 0
+                ? ` ${draftsWithoutEmail} left as draft: the customer has no email address.`
+                : "")
+      )
+      fetchSchedules()
+    } catch {
+      setError("Failed to run schedules. Please try again.")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  async function handleToggleActive(schedule: InvoiceSchedule) {
+    setError("")
+    try {
+      const res = await fetch(`/api/invoices/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !schedule.isActive }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to update schedule.")
+        return
+      }
+      fetchSchedules()
+    } catch (error) {
+      console.error("Failed to update invoice schedule:", error)
+    }
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    setDeleteError("")
+
+    try {
+      const res = await fetch(`/api/invoices/schedules/${deleteTarget.id}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setDeleteTarget(null)
+        fetchSchedules()
+      } else {
+        setDeleteError(result.error || "Failed to delete schedule.")
+      }
+    } catch {
+      setDeleteError("Failed to delete. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const scheduleColumns: ColumnDef<InvoiceSchedule>[] = [
+    {
+      key: "name",
+      label: "Schedule",
+      render: (_, row) => (
+        <div>
+          <p className="font-medium">{row.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {FREQUENCY_LABELS[row.frequency] ?? row.frequency}
+            {row.autoSend ? " · sent automatically" : " · drafts"}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: "customer",
+      label: "Customer",
+      filterable: true,
+      sortValue: (row) => row.customer.name,
+      filterValue: (row) => row.customer.name,
+      render: (_, row) => (
+        <Link
+          href={`/customers/${row.customer.id}`}
+          className="underline-offset-4 hover:underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {row.customer.name}
+        </Link>
+      ),
+    },
+    {
+      key: "amount",
+      label: "Amount",
+      className: "text-right",
+      sortValue: (row) => scheduleTotal(row),
+      render: (_, row) => (
+        <span className="whitespace-nowrap">{formatCurrency(scheduleTotal(row))}</span>
+      ),
+    },
+    {
+      key: "upcomingRuns",
+      label: "Upcoming",
+      sortValue: (row) => (row.isActive ? new Date(row.nextRunDate).getTime() : Infinity),
+      render: (_, row) =>
+        row.upcomingRuns.length === 0 ? (
+          <span className="text-muted-foreground">&mdash;</span>
+        ) : (
+          <ul className="space-y-0.5 text-sm">
+            {row.upcomingRuns.map((date, i) => (
+              <li
+                key={date}
+                className={
+                  i === 0
+                    ? "whitespace-nowrap font-medium"
+                    : "whitespace-nowrap text-muted-foreground"
+                }
+              >
+                {formatDate(date)}
+              </li>
+            ))}
+          </ul>
+        ),
+    },
+    {
+      key: "invoices",
+      label: "History",
+      sortValue: (row) => row._count.invoices,
+      render: (_, row) =>
+        row.invoices.length === 0 ? (
+          <span className="text-muted-foreground">No invoices yet</span>
+        ) : (
+          <ul className="space-y-0.5 text-sm">
+            {row.invoices.slice(0, 3).map((invoice) => (
+              <li key={invoice.id} className="whitespace-nowrap">
+                <Link
+                  href={`/invoices/${invoice.id}`}
+                  className="text-primary underline-offset-4 hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {invoice.invoiceNumber}
+                </Link>{" "}
+                <span className="text-muted-foreground">
+                  {formatDate(invoice.issueDate)} · {STATUS_LABELS[invoice.status] ?? invoice.status}
+                </span>
+              </li>
+            ))}
+            {row._count.invoices > 3 && (
+              <li className="text-xs text-muted-foreground">
+                +{row._count.invoices - 3} earlier
+              </li>
+            )}
+          </ul>
+        ),
+    },
+    {
+      key: "isActive",
+      label: "Status",
+      filterable: true,
+      filterValue: (row) => (row.isActive ? "Active" : "Paused"),
+      render: (_, row) =>
+        row.isActive ? (
+          <Badge className="bg-green-600 text-white">Active</Badge>
+        ) : (
+          <Badge variant="outline">
+            {row.endDate && new Date(row.nextRunDate) > new Date(row.endDate) ? "Ended" : "Paused"}
+          </Badge>
+        ),
+    },
+    {
+      key: "_actions",
+      label: "",
+      pinned: true,
+      className: "w-12",
+      render: (_, schedule) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <MoreHorizontal className="size-4" />
+              <span className="sr-only">Actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation()
+                handleEditSchedule(schedule)
+              }}
+            >
+              <Pencil className="mr-2 size-4" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation()
+                handleToggleActive(schedule)
+              }}
+            >
+              {schedule.isActive ? (
+                <Pause className="mr-2 size-4" />
+              ) : (
+                <Play className="mr-2 size-4" />
+              )}
+              {schedule.isActive ? "Pause" : "Resume"}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              variant="destructive"
+              onClick={(e) => {
+                e.stopPropagation()
+                setDeleteTarget(schedule)
+                setDeleteError("")
+              }}
+            >
+              <Trash2 className="mr-2 size-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/invoices">
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">Back to invoices</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl sm:text-3xl font-bold">Recurring Invoices</h1>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleRunDue} disabled={isRunning}>
+            {isRunning ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 size-4" />
+            )}
+            Run Due Now
+          </Button>
+          <Button onClick={handleCreateSchedule}>
+            <Plus className="mr-2 size-4" />
+            New Schedule
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <DataTable
+          storageKey="invoice-schedules"
+          columns={scheduleColumns}
+          data={schedules}
+          rowKey="id"
+          searchable
+          searchPlaceholder="Search by schedule or customer..."
+          onRowClick={handleEditSchedule}
+          emptyMessage="No recurring schedules yet. Click 'New Schedule' to bill a customer on a fixed schedule."
+        />
+      )}
+
+      {/* Form Dialog */}
+      <InvoiceScheduleFormDialog
+        open={formDialogOpen}
+        onOpenChange={setFormDialogOpen}
+        schedule={editingSchedule}
+        onSuccess={fetchSchedules}
+      />
+
+      {/* Delete Confirmation */}
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Schedule</DialogTitle>
+            <DialogDescription>
+              Delete <strong>{deleteTarget?.name}</strong>? No further invoices will be
+              generated. Invoices it already created are kept.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {deleteError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
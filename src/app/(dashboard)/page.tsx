@@ -40,6 +40,7 @@ interface DashboardData {
   invoicesByStatus: {
     DRAFT: number
     SENT: number
+    PARTIALLY_PAID: number
     PAID: number
     CANCELLED: number
   }
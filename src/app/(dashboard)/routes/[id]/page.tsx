@@ -14,7 +14,10 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { RouteDialog } from "@/components/routes/route-dialog"
 import { RouteCustomerList } from "@/components/routes/route-customer-list"
-import { AddCustomerToRouteDialog } from "@/components/routes/add-customer-to-route-dialog"
+import {
+  AddCustomerToRouteDialog,
+  routeStopKey,
+} from "@/components/routes/add-customer-to-route-dialog"
 
 interface RouteCustomerData {
   id: number
@@ -27,6 +30,12 @@ interface RouteCustomerData {
     email: string | null
     isVip: boolean
   }
+  property: {
+    id: number
+    label: string | null
+    address: string
+    accessNotes: string | null
+  } | null
 }
 
 interface RouteDetail {
@@ -71,18 +80,19 @@ export default function RouteDetailPage() {
     setRoute({ ...route, customers: reorderedCustomers })
   }
 
-  async function handleRemoveCustomer(routeCustomerId: number, customerId: number) {
+  async function handleRemoveCustomer(stop: RouteCustomerData) {
     if (!route) return
 
     const prev = route.customers
     setRoute({
       ...route,
-      customers: route.customers.filter((c) => c.id !== routeCustomerId),
+      customers: route.customers.filter((c) => c.id !== stop.id),
     })
 
     try {
+      const query = stop.property ? `?propertyId=${stop.property.id}` : ""
       const res = await fetch(
-        `/api/routes/${routeId}/customers/${customerId}`,
+        `/api/routes/${routeId}/customers/${stop.customer.id}${query}`,
         { method: "DELETE" }
       )
       const result = await res.json()
@@ -114,7 +124,9 @@ export default function RouteDetailPage() {
     )
   }
 
-  const existingCustomerIds = route.customers.map((rc) => rc.customer.id)
+  const existingStopKeys = route.customers.map((rc) =>
+    routeStopKey(rc.customer.id, rc.property?.id ?? null)
+  )
 
   return (
     <div className="space-y-6">
@@ -180,7 +192,7 @@ export default function RouteDetailPage() {
         open={addCustomerOpen}
         onOpenChange={setAddCustomerOpen}
         routeId={routeId}
-        existingCustomerIds={existingCustomerIds}
+        existingStopKeys={existingStopKeys}
         onSuccess={fetchRoute}
       />
     </div>
@@ -19,6 +19,14 @@ import {
   RefreshCw,
   ScrollText,
   RotateCcw,
+  Percent,
+  Plus,
+  Star,
+  Trash2,
+  Hash,
+  Send,
+  CalendarClock,
+  Upload,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -45,6 +53,7 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { cn } from "@/lib/utils"
 import {
   getOllamaConfig,
@@ -54,6 +63,42 @@ import {
   type OllamaModel,
 } from "@/lib/ollama"
 import { DEFAULT_ASSISTANT_INSTRUCTIONS } from "@/lib/ai/default-instructions"
+import {
+  DEFAULT_INVOICE_NUMBER_FORMAT,
+  formatDocumentNumber,
+} from "@/lib/invoice-number-format"
+
+interface TaxRate {
+  id: number
+  name: string
+  percent: number | string
+  isDefault: boolean
+  _count: { invoices: number }
+}
+
+interface EmailSettings {
+  smtpHost: string | null
+  smtpPort: number | null
+  smtpSecure: boolean
+  smtpUser: string | null
+  smtpPasswordSet: boolean
+  smtpFromEmail: string | null
+  smtpFromName: string | null
+}
+
+interface OutboxMessage {
+  id: number
+  template: string
+  to: string
+  subject: string
+  status: "PENDING" | "SENT" | "FAILED"
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  sentAt: string | null
+  createdAt: string
+  invoice: { id: number; invoiceNumber: string } | null
+}
 
 interface CompanySettings {
   id: number
@@ -65,6 +110,16 @@ interface CompanySettings {
   companyPhone: string
   companyEmail: string
   companyWebsite: string
+  invoiceNumberPrefix: string
+  invoiceNumberYearly: boolean
+  invoiceNumberPadding: number
+  invoiceNumberStart: number
+  lateFeeEnabled: boolean
+  lateFeeType: "FLAT" | "PERCENT"
+  lateFeeAmount: number | string
+  lateFeeGraceDays: number
+  lateFeeCompounds: boolean
+  lateFeeExemptVip: boolean
 }
 
 export default function SettingsPage() {
@@ -72,6 +127,11 @@ export default function SettingsPage() {
     <div className="space-y-4">
       <h1 className="text-3xl font-bold">Settings</h1>
       <CompanySettingsSection />
+      <TaxRatesSection />
+      <InvoiceNumberingSection />
+      <LateFeesSection />
+      <EmailSection />
+      <GeocodingSection />
       <ProfileSection />
       <OllamaSection />
       <AssistantInstructionsSection />
@@ -346,6 +406,1239 @@ function CompanySettingsSection() {
   )
 }
 
+// ─── Sales Tax ──────────────────────────────────────────────────────────────
+
+function TaxRatesSection() {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [message, setMessage] = useState<{
+    type: "success" | "error"
+    text: string
+  } | null>(null)
+
+  const [name, setName] = useState("")
+  const [percent, setPercent] = useState("")
+
+  const fetchTaxRates = useCallback(async () => {
+    try {
+      const res = await fetch("/api/tax-rates")
+      const result = await res.json()
+      if (result.success) setTaxRates(result.data)
+    } catch {
+      setMessage({ type: "error", text: "Failed to load tax rates." })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTaxRates()
+  }, [fetchTaxRates])
+
+  async function handleAdd() {
+    setMessage(null)
+    const parsedPercent = parseFloat(percent)
+    if (!name.trim()) {
+      setMessage({ type: "error", text: "Name is required." })
+      return
+    }
+    if (isNaN(parsedPercent) || parsedPercent < 0 || parsedPercent > 100) {
+      setMessage({ type: "error", text: "Rate must be between 0 and 100." })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const res = await fetch("/api/tax-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          percent: parsedPercent,
+          isDefault: taxRates.length === 0,
+        }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setName("")
+        setPercent("")
+        await fetchTaxRates()
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to add tax rate." })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to add tax rate." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleSetDefault(rate: TaxRate) {
+    setMessage(null)
+    setBusyId(rate.id)
+    try {
+      const res = await fetch(`/api/tax-rates/${rate.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isDefault: !rate.isDefault }),
+      })
+      const result = await res.json()
+      if (result.success) {
+        await fetchTaxRates()
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to update tax rate." })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to update tax rate." })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  async function handleDelete(rate: TaxRate) {
+    setMessage(null)
+    setBusyId(rate.id)
+    try {
+      const res = await fetch(`/api/tax-rates/${rate.id}`, { method: "DELETE" })
+      const result = await res.json()
+      if (result.success) {
+        await fetchTaxRates()
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to delete tax rate." })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to delete tax rate." })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <SettingsSection
+      icon={Percent}
+      title="Sales Tax"
+      description="Rates you can apply to invoices. The default rate is preselected on new invoices."
+      defaultOpen={false}
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {taxRates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No tax rates yet. Invoices are created without tax.
+            </p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {taxRates.map((rate) => (
+                <div key={rate.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{rate.name}</span>
+                      {rate.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {Number(rate.percent)}% · used on {rate._count.invoices} invoice(s)
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    disabled={busyId === rate.id}
+                    onClick={() => handleSetDefault(rate)}
+                    title={rate.isDefault ? "Unset default" : "Set as default"}
+                  >
+                    <Star
+                      className={cn(
+                        "size-4",
+                        rate.isDefault && "fill-amber-400 text-amber-400"
+                      )}
+                    />
+                    <span className="sr-only">
+                      {rate.isDefault ? "Unset default" : "Set as default"}
+                    </span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    disabled={busyId === rate.id || rate._count.invoices > 0}
+                    onClick={() => handleDelete(rate)}
+                    title={
+                      rate._count.invoices > 0
+                        ? "Rates used on invoices cannot be deleted"
+                        : "Delete rate"
+                    }
+                  >
+                    {busyId === rate.id ? (
+                      <Loader2 className="size-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="size-4" />
+                    )}
+                    <span className="sr-only">Delete rate</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-[1fr_8rem_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="taxRateName">Name</Label>
+              <Input
+                id="taxRateName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. IVU"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taxRatePercent">Rate (%)</Label>
+              <Input
+                id="taxRatePercent"
+                type="number"
+                step="0.001"
+                min="0"
+                max="100"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                placeholder="11.5"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 size-4" />
+              )}
+              Add Rate
+            </Button>
+          </div>
+
+          {message && (
+            <div
+              className={`rounded-md px-3 py-2 text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400"
+                  : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
+
+// ─── Invoice Numbering ──────────────────────────────────────────────────────
+
+function InvoiceNumberingSection() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{
+    type: "success" | "error"
+    text: string
+  } | null>(null)
+
+  const [prefix, setPrefix] = useState(DEFAULT_INVOICE_NUMBER_FORMAT.prefix)
+  const [yearly, setYearly] = useState(DEFAULT_INVOICE_NUMBER_FORMAT.yearly)
+  const [padding, setPadding] = useState(String(DEFAULT_INVOICE_NUMBER_FORMAT.padding))
+  const [start, setStart] = useState(String(DEFAULT_INVOICE_NUMBER_FORMAT.start))
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const res = await fetch("/api/settings")
+        const result = await res.json()
+        if (result.success && result.data) {
+          const s = result.data as CompanySettings
+          setPrefix(s.invoiceNumberPrefix)
+          setYearly(s.invoiceNumberYearly)
+          setPadding(String(s.invoiceNumberPadding))
+          setStart(String(s.invoiceNumberStart))
+        }
+      } catch {
+        setMessage({ type: "error", text: "Failed to load settings." })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const example = formatDocumentNumber(
+    {
+      prefix,
+      yearly,
+      padding: Math.min(Math.max(parseInt(padding, 10) || 1, 1), 10),
+      start: 1,
+    },
+    new Date().getFullYear(),
+    Math.max(parseInt(start, 10) || 1, 1)
+  )
+
+  async function handleSave() {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          invoiceNumberPrefix: prefix.trim(),
+          invoiceNumberYearly: yearly,
+          invoiceNumberPadding: parseInt(padding, 10),
+          invoiceNumberStart: parseInt(start, 10),
+        }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: "Invoice numbering saved." })
+      } else {
+        setMessage({
+          type: "error",
+          text: result.error || "Failed to save settings.",
+        })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save settings." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <SettingsSection
+      icon={Hash}
+      title="Invoice Numbering"
+      description="Pattern for new invoice numbers. Existing invoices keep their numbers."
+    >
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="space-y-2">
+              <Skeleton className="h-4 w-24" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="invoiceNumberPrefix">Prefix</Label>
+              <Input
+                id="invoiceNumberPrefix"
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value)}
+                placeholder="INV-"
+                maxLength={20}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoiceNumberPadding">Digits</Label>
+              <Input
+                id="invoiceNumberPadding"
+                type="number"
+                min="1"
+                max="10"
+                value={padding}
+                onChange={(e) => setPadding(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoiceNumberStart">Starting Number</Label>
+              <Input
+                id="invoiceNumberStart"
+                type="number"
+                min="1"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="invoiceNumberYearly"
+              checked={yearly}
+              onCheckedChange={(checked) => setYearly(checked === true)}
+            />
+            <Label htmlFor="invoiceNumberYearly" className="font-normal">
+              Include the year and restart numbering each January
+            </Label>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Example: <span className="font-mono text-foreground">{example}</span>
+            {" "}— raising the starting number skips ahead; lowering it never
+            reuses numbers already issued.
+          </p>
+
+          {message && (
+            <div
+              className={`rounded-md px-3 py-2 text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400"
+                  : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 size-4" />
+            )}
+            Save Changes
+          </Button>
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
+
+// ─── Late Fees ──────────────────────────────────────────────────────────────
+
+function LateFeesSection() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{
+    type: "success" | "error"
+    text: string
+  } | null>(null)
+
+  const [enabled, setEnabled] = useState(false)
+  const [type, setType] = useState<"FLAT" | "PERCENT">("FLAT")
+  const [amount, setAmount] = useState("0")
+  const [graceDays, setGraceDays] = useState("0")
+  const [compounds, setCompounds] = useState(false)
+  const [exemptVip, setExemptVip] = useState(true)
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const res = await fetch("/api/settings")
+        const result = await res.json()
+        if (result.success && result.data) {
+          const s = result.data as CompanySettings
+          setEnabled(s.lateFeeEnabled)
+          setType(s.lateFeeType)
+          setAmount(String(Number(s.lateFeeAmount)))
+          setGraceDays(String(s.lateFeeGraceDays))
+          setCompounds(s.lateFeeCompounds)
+          setExemptVip(s.lateFeeExemptVip)
+        }
+      } catch {
+        setMessage({ type: "error", text: "Failed to load settings." })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  async function handleSave() {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lateFeeEnabled: enabled,
+          lateFeeType: type,
+          lateFeeAmount: parseFloat(amount) || 0,
+          lateFeeGraceDays: parseInt(graceDays, 10) || 0,
+          lateFeeCompounds: compounds,
+          lateFeeExemptVip: exemptVip,
+        }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: "Late fee policy saved." })
+      } else {
+        setMessage({
+          type: "error",
+          text: result.error || "Failed to save settings.",
+        })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save settings." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <SettingsSection
+      icon={CalendarClock}
+      title="Late Fees"
+      description="Default fee added to SENT invoices once they are past due. Customers can be exempted or given their own policy."
+    >
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="space-y-2">
+              <Skeleton className="h-4 w-24" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="lateFeeEnabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(checked === true)}
+            />
+            <Label htmlFor="lateFeeEnabled" className="font-normal">
+              Charge late fees on overdue invoices
+            </Label>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Fee Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as "FLAT" | "PERCENT")}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FLAT">Flat amount</SelectItem>
+                  <SelectItem value="PERCENT">Percent of balance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lateFeeAmount">{type === "FLAT" ? "Amount ($)" : "Percent (%)"}</Label>
+              <Input
+                id="lateFeeAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lateFeeGraceDays">Grace Period (days)</Label>
+              <Input
+                id="lateFeeGraceDays"
+                type="number"
+                min="0"
+                value={graceDays}
+                onChange={(e) => setGraceDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="lateFeeCompounds"
+              checked={compounds}
+              onCheckedChange={(checked) => setCompounds(checked === true)}
+            />
+            <Label htmlFor="lateFeeCompounds" className="font-normal">
+              Compound monthly — charge again every 30 days on the balance including earlier fees
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="lateFeeExemptVip"
+              checked={exemptVip}
+              onCheckedChange={(checked) => setExemptVip(checked === true)}
+            />
+            <Label htmlFor="lateFeeExemptVip" className="font-normal">
+              Exempt VIP customers
+            </Label>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Fees are added as line items when you run Late Fees on the Invoices
+            page (or a scheduled call to <span className="font-mono">/api/invoices/late-fees</span>).
+          </p>
+
+          {message && (
+            <div
+              className={`rounded-md px-3 py-2 text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400"
+                  : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 size-4" />
+            )}
+            Save Changes
+          </Button>
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
+
+// ─── Email ──────────────────────────────────────────────────────────────────
+
+function EmailSection() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTesting, setIsTesting] = useState(false)
+  const [message, setMessage] = useState<{
+    type: "success" | "error"
+    text: string
+  } | null>(null)
+
+  const [smtpHost, setSmtpHost] = useState("")
+  const [smtpPort, setSmtpPort] = useState("")
+  const [smtpSecure, setSmtpSecure] = useState(false)
+  const [smtpUser, setSmtpUser] = useState("")
+  const [smtpPassword, setSmtpPassword] = useState("")
+  const [passwordSet, setPasswordSet] = useState(false)
+  const [smtpFromEmail, setSmtpFromEmail] = useState("")
+  const [smtpFromName, setSmtpFromName] = useState("")
+  const [testTo, setTestTo] = useState("")
+
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([])
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const fetchOutbox = useCallback(async () => {
+    try {
+      const res = await fetch("/api/email")
+      const result = await res.json()
+      if (result.success) setOutbox(result.data)
+    } catch {
+      // Outbox is informational; the form still works without it
+    }
+  }, [])
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const res = await fetch("/api/settings")
+        const result = await res.json()
+        if (result.success && result.data) {
+          const s = result.data as EmailSettings
+          setSmtpHost(s.smtpHost || "")
+          setSmtpPort(s.smtpPort ? String(s.smtpPort) : "")
+          setSmtpSecure(s.smtpSecure)
+          setSmtpUser(s.smtpUser || "")
+          setPasswordSet(s.smtpPasswordSet)
+          setSmtpFromEmail(s.smtpFromEmail || "")
+          setSmtpFromName(s.smtpFromName || "")
+        }
+      } catch {
+        setMessage({ type: "error", text: "Failed to load settings." })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSettings()
+    fetchOutbox()
+  }, [fetchOutbox])
+
+  async function handleSave() {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          smtpHost,
+          smtpPort: smtpPort ? parseInt(smtpPort, 10) : null,
+          smtpSecure,
+          smtpUser,
+          // Only send the password when it was typed, so saving keeps the stored one
+          ...(smtpPassword && { smtpPassword }),
+          smtpFromEmail,
+          smtpFromName,
+        }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setPasswordSet(result.data.smtpPasswordSet)
+        setSmtpPassword("")
+        setMessage({ type: "success", text: "Email settings saved." })
+      } else {
+        setMessage({
+          type: "error",
+          text: result.error || "Failed to save settings.",
+        })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save settings." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleSendTest() {
+    setIsTesting(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/email/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: testTo }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: `Test email sent to ${testTo}.` })
+      } else {
+        setMessage({ type: "error", text: result.error || "Test email failed." })
+      }
+      fetchOutbox()
+    } catch {
+      setMessage({ type: "error", text: "Test email failed." })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  async function handleRetry(email: OutboxMessage) {
+    setBusyId(email.id)
+    try {
+      await fetch(`/api/email/${email.id}/retry`, { method: "POST" })
+      await fetchOutbox()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <SettingsSection
+      icon={Mail}
+      title="Email"
+      description="SMTP server used to email invoices and reminders to customers."
+    >
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="space-y-2">
+              <Skeleton className="h-4 w-24" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="smtpHost">SMTP Host</Label>
+              <Input
+                id="smtpHost"
+                value={smtpHost}
+                onChange={(e) => setSmtpHost(e.target.value)}
+                placeholder="smtp.example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtpPort">Port</Label>
+              <Input
+                id="smtpPort"
+                type="number"
+                min="1"
+                max="65535"
+                value={smtpPort}
+                onChange={(e) => setSmtpPort(e.target.value)}
+                placeholder={smtpSecure ? "465" : "587"}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="smtpSecure"
+              checked={smtpSecure}
+              onCheckedChange={(checked) => setSmtpSecure(checked === true)}
+            />
+            <Label htmlFor="smtpSecure" className="font-normal">
+              Use TLS from the start (usually port 465)
+            </Label>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="smtpUser">Username</Label>
+              <Input
+                id="smtpUser"
+                value={smtpUser}
+                onChange={(e) => setSmtpUser(e.target.value)}
+                placeholder="Leave blank if not required"
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtpPassword">Password</Label>
+              <Input
+                id="smtpPassword"
+                type="password"
+                value={smtpPassword}
+                onChange={(e) => setSmtpPassword(e.target.value)}
+                placeholder={passwordSet ? "Saved — type to replace" : "Leave blank if not required"}
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="smtpFromEmail">From Address</Label>
+              <Input
+                id="smtpFromEmail"
+                type="email"
+                value={smtpFromEmail}
+                onChange={(e) => setSmtpFromEmail(e.target.value)}
+                placeholder="Defaults to the company email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtpFromName">From Name</Label>
+              <Input
+                id="smtpFromName"
+                value={smtpFromName}
+                onChange={(e) => setSmtpFromName(e.target.value)}
+                placeholder="Defaults to the company name"
+              />
+            </div>
+          </div>
+
+          {message && (
+            <div
+              className={`rounded-md px-3 py-2 text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400"
+                  : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 size-4" />
+            )}
+            Save Changes
+          </Button>
+
+          <Separator />
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="testTo">Send a test email</Label>
+              <Input
+                id="testTo"
+                type="email"
+                value={testTo}
+                onChange={(e) => setTestTo(e.target.value)}
+                placeholder="you@example.com"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleSendTest}
+              disabled={isTesting || !testTo}
+            >
+              {isTesting ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 size-4" />
+              )}
+              Send Test
+            </Button>
+          </div>
+
+          {outbox.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Recent emails</p>
+                <div className="divide-y rounded-md border">
+                  {outbox.map((email) => (
+                    <div key={email.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate">{email.subject}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {email.to} · {new Date(email.sentAt ?? email.createdAt).toLocaleString()}
+                          {email.status !== "SENT" && email.lastError && ` · ${email.lastError}`}
+                        </p>
+                      </div>
+                      <Badge
+                        variant={email.status === "FAILED" ? "destructive" : "outline"}
+                        className={cn(
+                          email.status === "SENT" && "border-green-500 text-green-600"
+                        )}
+                      >
+                        {email.status === "PENDING" && email.attempts > 0 ? "RETRYING" : email.status}
+                      </Badge>
+                      {email.status !== "SENT" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRetry(email)}
+                          disabled={busyId === email.id}
+                        >
+                          {busyId === email.id ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="size-4" />
+                          )}
+                          <span className="sr-only">Retry</span>
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
+
+// ─── Geocoding ──────────────────────────────────────────────────────────────
+
+// Rows per import request, matching the API's limit
+const GEOCODE_IMPORT_CHUNK = 5000
+
+interface GeocodeDatasetRow {
+  kind: "ADDRESS" | "POSTAL_CODE"
+  key: string
+  latitude: number
+  longitude: number
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ""
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === "," && !inQuotes) {
+      cells.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+/**
+ * Dataset rows from a CSV with latitude/longitude columns plus an address
+ * column, a ZIP column, or both. Rows with an address become address points;
+ * the rest become ZIP centroids.
+ */
+function parseGeocodeCsv(text: string): { rows: GeocodeDatasetRow[]; invalid: number } {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim())
+  if (lines.length < 2) {
+    throw new Error("CSV must have at least a header row and one data row")
+  }
+
+  const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase())
+  const find = (...names: string[]) => headers.findIndex((h) => names.some((n) => h.includes(n)))
+  const lat = find("lat")
+  const lng = find("lon", "lng")
+  const zip = find("zip", "postal", "postcode")
+  const address = find("address", "street")
+  if (lat < 0 || lng < 0 || (zip < 0 && address < 0)) {
+    throw new Error("CSV needs latitude and longitude columns, plus a ZIP or address column")
+  }
+
+  const rows: GeocodeDatasetRow[] = []
+  let invalid = 0
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line)
+    const latitude = parseFloat(cells[lat])
+    const longitude = parseFloat(cells[lng])
+    const addressKey = address >= 0 ? cells[address] : ""
+    const zipKey = zip >= 0 ? cells[zip] : ""
+    if (isNaN(latitude) || isNaN(longitude) || (!addressKey && !zipKey)) {
+      invalid++
+      continue
+    }
+    rows.push(
+      addressKey
+        ? {
+            kind: "ADDRESS",
+            // Customer addresses usually end with the ZIP, so keys should too
+            key: zipKey && !addressKey.includes(zipKey) ? `${addressKey} ${zipKey}` : addressKey,
+            latitude,
+            longitude,
+          }
+        : { kind: "POSTAL_CODE", key: zipKey.padStart(5, "0"), latitude, longitude }
+    )
+  }
+  return { rows, invalid }
+}
+
+function GeocodingSection() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isClearing, setIsClearing] = useState(false)
+  const [message, setMessage] = useState<{
+    type: "success" | "error"
+    text: string
+  } | null>(null)
+
+  const [nominatimUrl, setNominatimUrl] = useState("")
+  const [dataset, setDataset] = useState({ addresses: 0, postalCodes: 0 })
+
+  const fetchDataset = useCallback(async () => {
+    try {
+      const res = await fetch("/api/geocoding/points")
+      const result = await res.json()
+      if (result.success) setDataset(result.data)
+    } catch {
+      // Counts are informational
+    }
+  }, [])
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const res = await fetch("/api/settings")
+        const result = await res.json()
+        if (result.success && result.data) {
+          setNominatimUrl(result.data.nominatimUrl || "")
+        }
+      } catch {
+        setMessage({ type: "error", text: "Failed to load settings." })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSettings()
+    fetchDataset()
+  }, [fetchDataset])
+
+  async function handleSave() {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ nominatimUrl: nominatimUrl.trim() || null }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: "Geocoding settings saved." })
+      } else {
+        setMessage({
+          type: "error",
+          text: result.error || "Failed to save settings.",
+        })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to save settings." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setIsImporting(true)
+    setMessage(null)
+
+    try {
+      const { rows, invalid } = parseGeocodeCsv(await file.text())
+      let imported = 0
+      let skipped = invalid
+      for (let i = 0; i < rows.length; i += GEOCODE_IMPORT_CHUNK) {
+        const res = await fetch("/api/geocoding/points", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ points: rows.slice(i, i + GEOCODE_IMPORT_CHUNK) }),
+        })
+        const result = await res.json()
+        if (!result.success) {
+          throw new Error(result.error || "Failed to import dataset.")
+        }
+        imported += result.data.imported
+        skipped += result.data.skipped
+      }
+      setMessage({
+        type: "success",
+        text: `Imported ${imported} location(s)${skipped > 0 ? `, skipped ${skipped} unusable row(s)` : ""}.`,
+      })
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to import dataset.",
+      })
+    } finally {
+      setIsImporting(false)
+      fetchDataset()
+    }
+  }
+
+  async function handleClear() {
+    setIsClearing(true)
+    setMessage(null)
+    try {
+      const res = await fetch("/api/geocoding/points", { method: "DELETE" })
+      const result = await res.json()
+      if (result.success) {
+        setMessage({ type: "success", text: "Dataset cleared. Customers keep their locations." })
+        fetchDataset()
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to clear dataset." })
+      }
+    } catch {
+      setMessage({ type: "error", text: "Failed to clear dataset." })
+    } finally {
+      setIsClearing(false)
+    }
+  }
+
+  return (
+    <SettingsSection
+      icon={MapPin}
+      title="Geocoding"
+      description="Locates customers for the map. Works offline from an imported dataset; a self-hosted Nominatim adds street-level matches."
+      defaultOpen={false}
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-24" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Offline dataset</Label>
+            <p className="text-sm text-muted-foreground">
+              {dataset.addresses.toLocaleString()} address point(s) and{" "}
+              {dataset.postalCodes.toLocaleString()} ZIP code centroid(s). Import a CSV with
+              latitude and longitude columns plus a ZIP column (centroids) and/or an address
+              column (exact points); rows replace existing ones with the same key.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" asChild disabled={isImporting}>
+                <label className="cursor-pointer">
+                  {isImporting ? (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 size-4" />
+                  )}
+                  Import CSV
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={handleImport}
+                    disabled={isImporting}
+                  />
+                </label>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleClear}
+                disabled={isClearing || dataset.addresses + dataset.postalCodes === 0}
+              >
+                {isClearing ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <Trash2 className="mr-2 size-4" />
+                )}
+                Clear Dataset
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="nominatimUrl">Nominatim URL</Label>
+            <Input
+              id="nominatimUrl"
+              value={nominatimUrl}
+              onChange={(e) => setNominatimUrl(e.target.value)}
+              placeholder="http://localhost:8080"
+            />
+            <p className="text-xs text-muted-foreground">
+              Optional. Asked for addresses the dataset can only place by ZIP code. Leave empty to
+              use the NOMINATIM_URL environment variable, if set.
+            </p>
+          </div>
+
+          {message && (
+            <div
+              className={`rounded-md px-3 py-2 text-sm ${
+                message.type === "success"
+                  ? "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400"
+                  : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 size-4" />
+            )}
+            Save Changes
+          </Button>
+        </div>
+      )}
+    </SettingsSection>
+  )
+}
+
 // ─── Profile ────────────────────────────────────────────────────────────────
 
 function ProfileSection() {
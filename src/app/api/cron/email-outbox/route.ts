@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { processOutbox } from "@/lib/mail/outbox"
+import { forEachUser, isCronRequest } from "@/lib/cron"
+
+export const runtime = "nodejs"
+
+// GET /api/cron/email-outbox — Scheduled every few minutes: deliver every
+// user's queued messages that are due, including retries whose backoff has
+// passed. Authenticated with CRON_SECRET (see lib/cron).
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { results, failedUsers } = await forEachUser((userId) => processOutbox(userId))
+    const runs = Object.values(results)
+    return NextResponse.json({
+      success: true,
+      data: {
+        sent: runs.reduce((sum, run) => sum + run.sent, 0),
+        failed: runs.reduce((sum, run) => sum + run.failed, 0),
+        pending: runs.reduce((sum, run) => sum + run.pending, 0),
+        failedUsers,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to process scheduled email outbox:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to process email outbox" },
+      { status: 500 }
+    )
+  }
+}
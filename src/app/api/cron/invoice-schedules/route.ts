@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { runDueSchedules } from "@/lib/invoice-schedules"
+import { forEachUser, isCronRequest } from "@/lib/cron"
+
+export const runtime = "nodejs"
+
+// GET /api/cron/invoice-schedules — Scheduled daily: generate the invoices
+// that have fallen due on every user's recurring schedules. Authenticated
+// with CRON_SECRET (see lib/cron).
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { results, failedUsers } = await forEachUser((userId) => runDueSchedules(userId))
+    const runs = Object.values(results)
+    return NextResponse.json({
+      success: true,
+      data: {
+        invoicesCreated: runs.reduce((sum, run) => sum + run.invoicesCreated, 0),
+        emailsSent: runs.reduce((sum, run) => sum + run.emailsSent, 0),
+        draftsWithoutEmail: runs.reduce((sum, run) => sum + run.draftsWithoutEmail, 0),
+        failedUsers,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to run scheduled invoice schedules:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to run invoice schedules" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { applyLateFees } from "@/lib/late-fees"
+import { forEachUser, isCronRequest } from "@/lib/cron"
+
+export const runtime = "nodejs"
+
+// GET /api/cron/late-fees — Scheduled daily: charge every late fee that has
+// fallen due, for every user. Authenticated with CRON_SECRET (see lib/cron).
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { results, failedUsers } = await forEachUser((userId) => applyLateFees(userId))
+    const runs = Object.values(results)
+    return NextResponse.json({
+      success: true,
+      data: {
+        invoices: runs.reduce((sum, run) => sum + run.invoices.length, 0),
+        totalFees: Math.round(runs.reduce((sum, run) => sum + run.totalFees, 0) * 100) / 100,
+        failedUsers,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to run scheduled late fees:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to run scheduled late fees" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { updateInteractionSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string; interactionId: string }> }
+
+// PATCH /api/customers/[id]/interactions/[interactionId] — Edit a logged interaction
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, interactionId: interactionIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const interactionId = parseInt(interactionIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(interactionId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.customerInteraction.findFirst({
+      where: { id: interactionId, customerId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Interaction not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = updateInteractionSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { occurredAt, ...data } = parsed.data
+    const interaction = await prisma.customerInteraction.update({
+      where: { id: interactionId },
+      data: {
+        ...data,
+        ...(occurredAt && { occurredAt: new Date(occurredAt) }),
+      },
+    })
+
+    return NextResponse.json({ success: true, data: interaction })
+  } catch (error) {
+    console.error("Failed to update interaction:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update interaction" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/[id]/interactions/[interactionId] — Delete a logged interaction
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, interactionId: interactionIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const interactionId = parseInt(interactionIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(interactionId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.customerInteraction.findFirst({
+      where: { id: interactionId, customerId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Interaction not found" }, { status: 404 })
+    }
+
+    await prisma.customerInteraction.delete({ where: { id: interactionId } })
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete interaction:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete interaction" },
+      { status: 500 }
+    )
+  }
+}
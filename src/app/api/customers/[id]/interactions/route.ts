@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createInteractionSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/customers/[id]/interactions — Log a call, text, email, visit or note
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = createInteractionSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { occurredAt, ...data } = parsed.data
+    const interaction = await prisma.customerInteraction.create({
+      data: {
+        ...data,
+        ...(occurredAt && { occurredAt: new Date(occurredAt) }),
+        customerId,
+        userId: session.user.id,
+      },
+    })
+
+    return NextResponse.json({ success: true, data: interaction }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create interaction:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create interaction" },
+      { status: 500 }
+    )
+  }
+}
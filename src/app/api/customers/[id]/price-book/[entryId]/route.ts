@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { priceBookEntrySelect, validatePriceBookTargets } from "@/lib/price-book"
+import { updatePriceBookEntrySchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string; entryId: string }> }
+
+// PATCH /api/customers/[id]/price-book/[entryId] — Update a price book entry
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, entryId: entryIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const entryId = parseInt(entryIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(entryId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.priceBookEntry.findFirst({
+      where: { id: entryId, customerId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Price not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = updatePriceBookEntrySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const targetError = await validatePriceBookTargets(session.user.id, customerId, parsed.data)
+    if (targetError) {
+      return NextResponse.json({ success: false, error: targetError }, { status: 400 })
+    }
+
+    const { effectiveFrom, ...data } = parsed.data
+    const entry = await prisma.priceBookEntry.update({
+      where: { id: entryId },
+      data: { ...data, ...(effectiveFrom && { effectiveFrom: new Date(effectiveFrom) }) },
+      select: priceBookEntrySelect,
+    })
+
+    return NextResponse.json({ success: true, data: entry })
+  } catch (error) {
+    console.error("Failed to update price book entry:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update price book entry" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/[id]/price-book/[entryId] — Delete a price book
+// entry; the previous one for the same service comes back into effect
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, entryId: entryIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const entryId = parseInt(entryIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(entryId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.priceBookEntry.findFirst({
+      where: { id: entryId, customerId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Price not found" }, { status: 404 })
+    }
+
+    await prisma.priceBookEntry.delete({ where: { id: entryId } })
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete price book entry:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete price book entry" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { resolvePrice } from "@/lib/price-book"
+import { resolvePropertyId } from "@/lib/properties"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/[id]/price-book/resolve — The price to charge for
+// `?serviceTypeId=` at `?propertyId=` (or the customer's address) on
+// `?date=` (default today); data is null when nothing is known
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const serviceTypeParam = searchParams.get("serviceTypeId")
+  const serviceTypeId = serviceTypeParam ? parseInt(serviceTypeParam, 10) : null
+  const dateParam = searchParams.get("date")
+  const date = dateParam ? new Date(dateParam) : new Date()
+
+  if ((serviceTypeId !== null && isNaN(serviceTypeId)) || isNaN(date.getTime())) {
+    return NextResponse.json(
+      { success: false, error: "Invalid service type or date" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const propertyId = await resolvePropertyId(customerId, searchParams.get("propertyId"))
+    if (propertyId === false) {
+      return NextResponse.json({ success: false, error: "Property not found" }, { status: 400 })
+    }
+
+    const price = await resolvePrice({ customerId, propertyId, serviceTypeId }, date)
+
+    return NextResponse.json({ success: true, data: price })
+  } catch (error) {
+    console.error("Failed to resolve price:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to resolve price" },
+      { status: 500 }
+    )
+  }
+}
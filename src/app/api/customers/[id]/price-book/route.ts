@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { priceBookEntrySelect, validatePriceBookTargets } from "@/lib/price-book"
+import { createPriceBookEntrySchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/[id]/price-book — Every price book entry of the
+// customer, including past and scheduled ones, newest first
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const entries = await prisma.priceBookEntry.findMany({
+      where: { customerId },
+      orderBy: [{ effectiveFrom: "desc" }, { id: "desc" }],
+      select: priceBookEntrySelect,
+    })
+
+    return NextResponse.json({ success: true, data: entries })
+  } catch (error) {
+    console.error("Failed to fetch price book:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch price book" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/[id]/price-book — Add a price, for the customer or
+// one of their properties
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = createPriceBookEntrySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const targetError = await validatePriceBookTargets(session.user.id, customerId, parsed.data)
+    if (targetError) {
+      return NextResponse.json({ success: false, error: targetError }, { status: 400 })
+    }
+
+    const entry = await prisma.priceBookEntry.create({
+      data: {
+        ...parsed.data,
+        effectiveFrom: new Date(parsed.data.effectiveFrom),
+        customerId,
+        userId: session.user.id,
+      },
+      select: priceBookEntrySelect,
+    })
+
+    return NextResponse.json({ success: true, data: entry }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create price book entry:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create price book entry" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { propertySelect } from "@/lib/properties"
+import { updatePropertySchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string; propertyId: string }> }
+
+// PATCH /api/customers/[id]/properties/[propertyId] — Update a property
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, propertyId: propertyIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const propertyId = parseInt(propertyIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(propertyId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.property.findFirst({
+      where: { id: propertyId, customerId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Property not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = updatePropertySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const property = await prisma.property.update({
+      where: { id: propertyId },
+      data: parsed.data,
+      select: propertySelect,
+    })
+
+    return NextResponse.json({ success: true, data: property })
+  } catch (error) {
+    console.error("Failed to update property:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update property" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/[id]/properties/[propertyId] — Delete a property
+// with no service history; its route stops are removed with it
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id, propertyId: propertyIdStr } = await context.params
+  const customerId = parseInt(id, 10)
+  const propertyId = parseInt(propertyIdStr, 10)
+
+  if (isNaN(customerId) || isNaN(propertyId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.property.findFirst({
+      where: { id: propertyId, customerId, userId: session.user.id },
+      include: { _count: { select: { serviceLogs: true } } },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Property not found" }, { status: 404 })
+    }
+
+    if (existing._count.serviceLogs > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot delete property with ${existing._count.serviceLogs} service log(s). Move or remove them first.`,
+        },
+        { status: 400 }
+      )
+    }
+
+    await prisma.property.delete({ where: { id: propertyId } })
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete property:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete property" },
+      { status: 500 }
+    )
+  }
+}
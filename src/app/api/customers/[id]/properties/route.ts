@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation, propertySelect } from "@/lib/properties"
+import { createPropertySchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/[id]/properties — The customer's properties, each with
+// its due date
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+      select: {
+        serviceInterval: true,
+        properties: {
+          orderBy: { createdAt: "asc" },
+          select: { ...propertySelect, _count: { select: { serviceLogs: true } } },
+        },
+      },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const lastServiceDates = await lastServiceDatesByLocation([customerId])
+    const dueInfo = computeCustomerDueDateInfo(customer, lastServiceDates.get(customerId) ?? new Map())
+    const data = customer.properties.map((property, i) => ({
+      ...property,
+      ...dueInfo.properties[i],
+    }))
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("Failed to fetch properties:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch properties" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/[id]/properties — Add a property to the customer
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = createPropertySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const property = await prisma.property.create({
+      data: { ...parsed.data, customerId, userId: session.user.id },
+      select: propertySelect,
+    })
+
+    return NextResponse.json({ success: true, data: property }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create property:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create property" },
+      { status: 500 }
+    )
+  }
+}
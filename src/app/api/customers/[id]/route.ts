@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { computeDueDateInfo } from "@/lib/due-date"
+import { customerLateFeeSchema } from "@/lib/validations/invoices"
+import { customerLocationSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation, propertySelect } from "@/lib/properties"
+import { tagSelect } from "@/lib/customer-segments"
+import { geocodeCustomer } from "@/lib/geocoding"
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -28,12 +34,21 @@ export async function GET(request: NextRequest, context: RouteContext) {
         serviceLogs: {
           include: {
             serviceType: true,
+            property: { select: { id: true, label: true, address: true } },
           },
           orderBy: { serviceDate: "desc" },
         },
+        properties: {
+          orderBy: { createdAt: "asc" },
+          select: propertySelect,
+        },
         invoices: {
           orderBy: { issueDate: "desc" },
         },
+        tags: {
+          orderBy: { name: "asc" },
+          select: tagSelect,
+        },
       },
     })
 
@@ -86,7 +101,30 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     const body = await request.json()
     const { name, phone, email, address, serviceInterval, isVip } = body
 
-    const customer = await prisma.customer.update({
+    const lateFees =
+      body.lateFeeMode !== undefined ? customerLateFeeSchema.safeParse(body) : null
+    if (lateFees && !lateFees.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(lateFees.error) },
+        { status: 400 }
+      )
+    }
+
+    // A pin placed by hand (or cleared, to go back to the geocoder)
+    const location =
+      body.latitude !== undefined || body.longitude !== undefined
+        ? customerLocationSchema.safeParse({ latitude: body.latitude, longitude: body.longitude })
+        : null
+    if (location && !location.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(location.error) },
+        { status: 400 }
+      )
+    }
+    const addressChanged = address !== undefined && address.trim() !== existing.address
+    const placed = location?.success && location.data.latitude !== null ? location.data : null
+
+    let customer = await prisma.customer.update({
       where: { id: customerId },
       data: {
         ...(name !== undefined && { name: name.trim() }),
@@ -97,23 +135,41 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
           serviceInterval: serviceInterval ? parseInt(serviceInterval, 10) : null,
         }),
         ...(isVip !== undefined && { isVip: isVip === true }),
+        ...(lateFees?.data ?? {}),
+        ...(placed
+          ? { ...placed, geocodePrecision: "MANUAL", geocodedAt: new Date() }
+          : (location || addressChanged) && {
+              latitude: null,
+              longitude: null,
+              geocodePrecision: null,
+              geocodedAt: null,
+            }),
       },
       include: {
-        serviceLogs: {
-          orderBy: { serviceDate: "desc" as const },
-          take: 1,
-          select: { serviceDate: true },
+        properties: {
+          orderBy: { createdAt: "asc" },
+          select: propertySelect,
         },
       },
     })
 
-    const { serviceLogs, ...rest } = customer
-    const dueInfo = computeDueDateInfo(
-      serviceLogs[0]?.serviceDate,
-      rest.serviceInterval
+    if (!placed && (location || addressChanged)) {
+      const result = await geocodeCustomer(customer)
+      customer = {
+        ...customer,
+        latitude: result?.latitude ?? null,
+        longitude: result?.longitude ?? null,
+        geocodePrecision: result?.precision ?? null,
+      }
+    }
+
+    const lastServiceDates = await lastServiceDatesByLocation([customerId])
+    const dueInfo = computeCustomerDueDateInfo(
+      customer,
+      lastServiceDates.get(customerId) ?? new Map()
     )
 
-    return NextResponse.json({ success: true, data: { ...rest, ...dueInfo } })
+    return NextResponse.json({ success: true, data: { ...customer, ...dueInfo } })
   } catch (error) {
     console.error("Failed to update customer:", error)
     return NextResponse.json(
@@ -152,7 +208,7 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       return NextResponse.json(
         {
           success: false,
-          error: `Cannot delete customer with ${existing._count.serviceLogs} service log(s). Remove service logs first.`,
+          error: `Cannot delete customer with ${existing._count.serviceLogs} service log(s). Archive them instead to keep their history.`,
         },
         { status: 400 }
       )
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import {
+  buildCustomerStatements,
+  renderCustomerStatementsPdf,
+} from "@/lib/customer-statements"
+import { statementQuerySchema } from "@/lib/validations/invoices"
+import { searchParamsToObject, formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/[id]/statement?dateFrom=&dateTo=
+//
+// Account statement PDF for one customer: opening balance, charges and
+// payments in the period with a running balance, and the closing balance.
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  const parsed = statementQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: formatZodError(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const [statement] = await buildCustomerStatements(
+      session.user.id,
+      new Date(parsed.data.dateFrom),
+      new Date(parsed.data.dateTo),
+      [customerId]
+    )
+    if (!statement) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const pdf = await renderCustomerStatementsPdf([statement])
+    const slug = statement.customer.name.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "")
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statement-${slug || customerId}-${parsed.data.dateTo.split("T")[0]}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render customer statement:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to render customer statement" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getCustomerTimeline } from "@/lib/customer-timeline"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/[id]/timeline — Interactions, services, invoices,
+// payments and sent emails for the customer, newest first
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const customerId = parseInt(id, 10)
+
+  if (isNaN(customerId)) {
+    return NextResponse.json({ success: false, error: "Invalid customer ID" }, { status: 400 })
+  }
+
+  try {
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const data = await getCustomerTimeline(customerId)
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("Failed to fetch customer timeline:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch customer timeline" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { getCustomerAnalytics } from "@/lib/customer-analytics"
+
+// GET /api/customers/analytics — Lifetime value, visit frequency and churn
+// risk per customer, plus retention by signup cohort month
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const data = await getCustomerAnalytics(session.user.id)
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("Failed to compute customer analytics:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to compute customer analytics" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { archiveCustomersSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+import { skipMissedRuns } from "@/lib/invoice-schedules"
+
+// POST /api/customers/archive — Archive or restore several customers at once.
+// Archived customers keep their services, invoices and route stops; their
+// recurring invoice schedules pause and resume without billing the gap.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = archiveCustomersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customerIds, archived } = parsed.data
+    const userId = session.user.id
+
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: customerIds }, userId },
+      select: { id: true, archivedAt: true },
+    })
+    if (customers.length !== new Set(customerIds).size) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    if (!archived) {
+      await skipMissedRuns(customers.filter((c) => c.archivedAt !== null).map((c) => c.id))
+    }
+
+    // Only touch customers not already in the target state, so re-archiving
+    // keeps the original archive date
+    const { count } = await prisma.customer.updateMany({
+      where: {
+        id: { in: customerIds },
+        userId,
+        archivedAt: archived ? null : { not: null },
+      },
+      data: { archivedAt: archived ? new Date() : null },
+    })
+
+    return NextResponse.json({ success: true, data: { updated: count } })
+  } catch (error) {
+    console.error("Failed to archive customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to archive customers" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { findDuplicateCustomers } from "@/lib/customer-merge"
+
+// GET /api/customers/duplicates — Likely duplicate customer pairs, best
+// match first. Optional ?minScore= (0–100, default 40).
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const minScoreParam = request.nextUrl.searchParams.get("minScore")
+  const minScore = minScoreParam ? parseInt(minScoreParam, 10) : undefined
+  if (minScore !== undefined && (isNaN(minScore) || minScore < 0 || minScore > 100)) {
+    return NextResponse.json(
+      { success: false, error: "minScore must be between 0 and 100" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const pairs = await findDuplicateCustomers(session.user.id, minScore)
+    return NextResponse.json({ success: true, data: pairs })
+  } catch (error) {
+    console.error("Failed to find duplicate customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to find duplicate customers" },
+      { status: 500 }
+    )
+  }
+}
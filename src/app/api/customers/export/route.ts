@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { customersToCsv } from "@/lib/customer-import"
+
+// GET /api/customers/export — Customers as CSV, with last service date and
+// due status. ?archived=only|include as for GET /api/customers (archived
+// customers are left out by default)
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const archived = request.nextUrl.searchParams.get("archived")
+    const csv = await customersToCsv(
+      session.user.id,
+      archived === "only" || archived === "include" ? archived : "exclude"
+    )
+    const date = new Date().toISOString().split("T")[0]
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="customers-${date}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to export customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to export customers" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { geocodeCustomers } from "@/lib/geocoding"
+import { geocodeCustomersSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// POST /api/customers/geocode — Locate customers that haven't been looked up
+// yet (or, with `force`, retry misses and ZIP-level matches)
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = geocodeCustomersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const result = await geocodeCustomers(session.user.id, parsed.data)
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to geocode customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to geocode customers" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { importCustomers } from "@/lib/customer-import"
+import { checkRateLimit, rateLimits, rateLimitResponse } from "@/lib/rate-limit"
+import { importCustomersSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// POST /api/customers/import — Create customers from parsed CSV rows.
+// Rows matching an existing customer by phone or email are updated or
+// skipped per `duplicateAction`; pass { dryRun: true } to see what each row
+// would do first.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  const rl = checkRateLimit(`customer-import:${userId}`, rateLimits.import)
+  if (!rl.success) return rateLimitResponse(rl.resetAt)
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = importCustomersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customers, duplicateAction, dryRun } = parsed.data
+    const result = await importCustomers(userId, customers, { duplicateAction, dryRun })
+
+    return NextResponse.json({ success: true, data: result }, { status: dryRun ? 200 : 201 })
+  } catch (error) {
+    console.error("Failed to import customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to import customers" },
+      { status: 500 }
+    )
+  }
+}
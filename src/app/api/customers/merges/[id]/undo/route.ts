@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { undoCustomerMerge } from "@/lib/customer-merge"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/customers/merges/[id]/undo — Restore the merged customer and
+// move its records back from the survivor
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const mergeId = parseInt(id, 10)
+
+  if (isNaN(mergeId)) {
+    return NextResponse.json({ success: false, error: "Invalid merge ID" }, { status: 400 })
+  }
+
+  try {
+    const merge = await prisma.customerMerge.findFirst({
+      where: { id: mergeId, userId: session.user.id },
+    })
+
+    if (!merge) {
+      return NextResponse.json({ success: false, error: "Merge not found" }, { status: 404 })
+    }
+
+    if (merge.undoneAt) {
+      return NextResponse.json(
+        { success: false, error: "This merge has already been undone" },
+        { status: 400 }
+      )
+    }
+
+    const survivor = await prisma.customer.findFirst({
+      where: { id: merge.survivorId, userId: session.user.id },
+      select: { id: true },
+    })
+    if (!survivor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "The kept customer has since been merged or deleted. Undo that first.",
+        },
+        { status: 400 }
+      )
+    }
+
+    const customer = await undoCustomerMerge(session.user.id, mergeId)
+
+    return NextResponse.json({ success: true, data: customer })
+  } catch (error) {
+    console.error("Failed to undo customer merge:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to undo customer merge" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { mergeCustomers } from "@/lib/customer-merge"
+import { mergeCustomersSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+const RECENT_MERGES = 20
+
+// GET /api/customers/merges — Recent merges, newest first. `survivor` is
+// null once the kept customer has been merged away or deleted.
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const merges = await prisma.customerMerge.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_MERGES,
+      select: {
+        id: true,
+        mergedCustomerId: true,
+        mergedName: true,
+        undoneAt: true,
+        createdAt: true,
+        survivorId: true,
+      },
+    })
+
+    const survivors = await prisma.customer.findMany({
+      where: { id: { in: merges.map((m) => m.survivorId) }, userId: session.user.id },
+      select: { id: true, name: true },
+    })
+    const survivorById = new Map(survivors.map((c) => [c.id, c]))
+    const data = merges.map(({ survivorId, ...merge }) => ({
+      ...merge,
+      survivor: survivorById.get(survivorId) ?? null,
+    }))
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("Failed to fetch customer merges:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch customer merges" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/merges — Merge one customer into another. Every
+// service log, invoice, estimate, schedule, email, property and route stop
+// moves to the survivor and the duplicate is deleted; the merge can be undone.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = mergeCustomersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { survivorId, mergedId, fields } = parsed.data
+    const found = await prisma.customer.count({
+      where: { id: { in: [survivorId, mergedId] }, userId },
+    })
+    if (found !== 2) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+
+    const merge = await mergeCustomers(userId, survivorId, mergedId, fields)
+
+    return NextResponse.json({ success: true, data: merge }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to merge customers:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to merge customers" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findNewerOverlappingIncrease, rollbackPriceIncrease } from "@/lib/price-increases"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/customers/price-increases/[id]/rollback — Delete the prices the
+// increase added, so the earlier ones apply again. Refused while a newer
+// increase on the same prices is still in place.
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const increaseId = parseInt(id, 10)
+
+  if (isNaN(increaseId)) {
+    return NextResponse.json({ success: false, error: "Invalid price increase ID" }, { status: 400 })
+  }
+
+  try {
+    const increase = await prisma.priceIncrease.findFirst({
+      where: { id: increaseId, userId: session.user.id },
+    })
+
+    if (!increase) {
+      return NextResponse.json({ success: false, error: "Price increase not found" }, { status: 404 })
+    }
+
+    if (increase.rolledBackAt) {
+      return NextResponse.json(
+        { success: false, error: "This price increase has already been rolled back" },
+        { status: 400 }
+      )
+    }
+
+    const newer = await findNewerOverlappingIncrease(increase)
+    if (newer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Roll back the increase of ${newer.createdAt.toLocaleDateString()} first; it raised some of the same prices`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await rollbackPriceIncrease(increaseId)
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to roll back price increase:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to roll back price increase" },
+      { status: 500 }
+    )
+  }
+}
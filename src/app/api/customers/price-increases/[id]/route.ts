@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { priceChangesToCsv, type PriceChange } from "@/lib/price-increases"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/price-increases/[id][?format=csv] — One increase with
+// its price changes; as CSV, the list of customers to notify
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const increaseId = parseInt(id, 10)
+
+  if (isNaN(increaseId)) {
+    return NextResponse.json({ success: false, error: "Invalid price increase ID" }, { status: 400 })
+  }
+
+  try {
+    const increase = await prisma.priceIncrease.findFirst({
+      where: { id: increaseId, userId: session.user.id },
+    })
+
+    if (!increase) {
+      return NextResponse.json({ success: false, error: "Price increase not found" }, { status: 404 })
+    }
+
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      const changes = increase.changes as unknown as PriceChange[]
+      const date = increase.effectiveFrom.toISOString().split("T")[0]
+      return new Response(priceChangesToCsv(changes, increase.effectiveFrom), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="price-increase-${date}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, data: increase })
+  } catch (error) {
+    console.error("Failed to fetch price increase:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch price increase" },
+      { status: 500 }
+    )
+  }
+}
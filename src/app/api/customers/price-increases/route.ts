@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { applyPriceIncrease, previewPriceIncrease } from "@/lib/price-increases"
+import { priceIncreaseSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/customers/price-increases — Past bulk increases, newest first,
+// with each one's price changes
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const increases = await prisma.priceIncrease.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    })
+
+    return NextResponse.json({ success: true, data: increases })
+  } catch (error) {
+    console.error("Failed to fetch price increases:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch price increases" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/price-increases — Raise matching price book entries
+// from a date; with `dryRun`, only list the prices that would change
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = priceIncreaseSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { dryRun, ...input } = parsed.data
+    if (dryRun) {
+      const changes = await previewPriceIncrease(session.user.id, input)
+      return NextResponse.json({ success: true, data: { changes } })
+    }
+
+    const increase = await applyPriceIncrease(session.user.id, input)
+    if (!increase) {
+      return NextResponse.json(
+        { success: false, error: "No prices in the price book match these filters" },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: increase }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to apply price increase:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to apply price increase" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { computeDueDateInfo } from "@/lib/due-date"
+import { customerLateFeeSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation, propertySelect } from "@/lib/properties"
+import { getSegmentCustomerIds, tagFilterWhere, tagSelect } from "@/lib/customer-segments"
+import { geocodeCustomer } from "@/lib/geocoding"
 
+// GET /api/customers — Customers with due dates. Optional filters: ?search=,
+// ?serviceInterval=, ?tags=1,2 with ?tagMatch=any|all, ?segment= (a saved
+// segment's id), and ?archived=only|include (archived customers are left out
+// by default)
 export async function GET(request: NextRequest) {
   const session = await auth()
   if (!session?.user?.id) {
@@ -12,14 +21,42 @@ export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl
   const search = searchParams.get("search") || ""
   const serviceInterval = searchParams.get("serviceInterval")
+  const tagIds = (searchParams.get("tags") || "")
+    .split(",")
+    .filter(Boolean)
+    .map((id) => parseInt(id, 10))
+  const tagMatch = searchParams.get("tagMatch") === "all" ? "all" : "any"
+  const segmentParam = searchParams.get("segment")
+  const segmentId = segmentParam ? parseInt(segmentParam, 10) : null
+  const archived = searchParams.get("archived")
+
+  if (tagIds.some(isNaN) || Number.isNaN(segmentId)) {
+    return NextResponse.json({ success: false, error: "Invalid filter" }, { status: 400 })
+  }
+
+  const segmentCustomerIds =
+    segmentId !== null ? await getSegmentCustomerIds(session.user.id, segmentId) : undefined
+  if (segmentCustomerIds === null) {
+    return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+  }
 
   const where = {
     userId: session.user.id,
+    ...(archived !== "include" && {
+      archivedAt: archived === "only" ? { not: null } : null,
+    }),
+    ...tagFilterWhere(tagIds, tagMatch),
+    ...(segmentCustomerIds && { id: { in: segmentCustomerIds } }),
     ...(search && {
       OR: [
         { name: { contains: search, mode: "insensitive" as const } },
         { phone: { contains: search, mode: "insensitive" as const } },
         { address: { contains: search, mode: "insensitive" as const } },
+        {
+          properties: {
+            some: { address: { contains: search, mode: "insensitive" as const } },
+          },
+        },
       ],
     }),
     ...(serviceInterval && {
@@ -45,21 +82,33 @@ export async function GET(request: NextRequest) {
             serviceType: { select: { id: true, name: true, icon: true } },
           },
         },
+        // Stops at the customer's own address; property stops are managed on the route
         routeCustomers: {
+          where: { propertyId: null },
           select: {
             route: {
               select: { id: true, name: true, color: true },
             },
           },
         },
+        properties: {
+          orderBy: { createdAt: "asc" },
+          select: propertySelect,
+        },
+        tags: {
+          orderBy: { name: "asc" },
+          select: tagSelect,
+        },
       },
     })
 
+    const lastServiceDates = await lastServiceDatesByLocation(customers.map((c) => c.id))
+
     const data = customers.map(({ serviceLogs, routeCustomers, ...customer }) => {
       const lastLog = serviceLogs[0]
-      const dueInfo = computeDueDateInfo(
-        lastLog?.serviceDate,
-        customer.serviceInterval
+      const dueInfo = computeCustomerDueDateInfo(
+        customer,
+        lastServiceDates.get(customer.id) ?? new Map()
       )
       return {
         ...customer,
@@ -103,6 +152,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const lateFees =
+      body.lateFeeMode !== undefined ? customerLateFeeSchema.safeParse(body) : null
+    if (lateFees && !lateFees.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(lateFees.error) },
+        { status: 400 }
+      )
+    }
+
     const customer = await prisma.customer.create({
       data: {
         name: name.trim(),
@@ -112,10 +170,24 @@ export async function POST(request: NextRequest) {
         serviceInterval: serviceInterval ? parseInt(serviceInterval, 10) : null,
         isVip: isVip === true,
         userId: session.user.id,
+        ...(lateFees?.data ?? {}),
       },
     })
 
-    return NextResponse.json({ success: true, data: customer }, { status: 201 })
+    const location = await geocodeCustomer(customer)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...customer,
+          latitude: location?.latitude ?? null,
+          longitude: location?.longitude ?? null,
+          geocodePrecision: location?.precision ?? null,
+        },
+      },
+      { status: 201 }
+    )
   } catch (error) {
     console.error("Failed to create customer:", error)
     return NextResponse.json(
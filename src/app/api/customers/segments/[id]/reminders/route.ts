@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { getSegmentCustomerIds } from "@/lib/customer-segments"
+import { reminderEmail } from "@/lib/mail/templates"
+import { queueEmail, processOutbox } from "@/lib/mail/outbox"
+import { segmentRemindersSchema } from "@/lib/validations/email"
+import { formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/customers/segments/[id]/reminders — Queue a payment reminder for
+// every open invoice of the segment's customers that have an email address,
+// then deliver what the outbox can right away. The rest stays queued.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const segmentId = parseInt(id, 10)
+  if (isNaN(segmentId)) {
+    return NextResponse.json({ success: false, error: "Invalid segment ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = segmentRemindersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const customerIds = await getSegmentCustomerIds(userId, segmentId)
+    if (!customerIds) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    const now = new Date()
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        userId,
+        customerId: { in: customerIds },
+        status: { in: ["SENT", "PARTIALLY_PAID"] },
+        // Invoices without a due date are due on issue, as in AR aging
+        ...(parsed.data.overdueOnly && {
+          OR: [{ dueDate: { lt: now } }, { dueDate: null, issueDate: { lt: now } }],
+        }),
+      },
+      orderBy: { issueDate: "asc" },
+      include: { customer: { select: { id: true, name: true, email: true } } },
+    })
+
+    const company = await getCompanyLetterhead()
+    let queued = 0
+    let skippedNoEmail = 0
+
+    for (const invoice of invoices) {
+      const balanceDue =
+        Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid)
+      if (balanceDue <= 0) continue
+      if (!invoice.customer.email) {
+        skippedNoEmail++
+        continue
+      }
+
+      await queueEmail({
+        userId,
+        template: "reminder",
+        to: invoice.customer.email,
+        email: reminderEmail({
+          company,
+          customerName: invoice.customer.name,
+          invoiceNumber: invoice.invoiceNumber,
+          total: Number(invoice.total),
+          balanceDue,
+          dueDate: invoice.dueDate,
+          message: parsed.data.message,
+        }),
+        attachInvoicePdf: true,
+        invoiceId: invoice.id,
+        customerId: invoice.customer.id,
+      })
+      queued++
+    }
+
+    const delivery = queued > 0 ? await processOutbox(userId) : { sent: 0, failed: 0, pending: 0 }
+
+    return NextResponse.json({
+      success: true,
+      data: { customers: customerIds.length, queued, skippedNoEmail, ...delivery },
+    })
+  } catch (error) {
+    console.error("Failed to send segment reminders:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to send segment reminders" },
+      { status: 500 }
+    )
+  }
+}
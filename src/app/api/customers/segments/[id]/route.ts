@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parseSegmentFilters, resolveSegmentCustomerIds } from "@/lib/customer-segments"
+import { updateSegmentSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/customers/segments/[id] — A segment with the ids of the customers
+// it currently matches
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const segmentId = parseInt(id, 10)
+
+  if (isNaN(segmentId)) {
+    return NextResponse.json({ success: false, error: "Invalid segment ID" }, { status: 400 })
+  }
+
+  try {
+    const segment = await prisma.customerSegment.findFirst({
+      where: { id: segmentId, userId: session.user.id },
+    })
+
+    if (!segment) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    const filters = parseSegmentFilters(segment.filters)
+    const customerIds = await resolveSegmentCustomerIds(session.user.id, filters)
+
+    return NextResponse.json({ success: true, data: { ...segment, filters, customerIds } })
+  } catch (error) {
+    console.error("Failed to fetch customer segment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch customer segment" },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/customers/segments/[id] — Rename a segment or replace its filters
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const segmentId = parseInt(id, 10)
+
+  if (isNaN(segmentId)) {
+    return NextResponse.json({ success: false, error: "Invalid segment ID" }, { status: 400 })
+  }
+
+  try {
+    const userId = session.user.id
+    const existing = await prisma.customerSegment.findFirst({
+      where: { id: segmentId, userId },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = updateSegmentSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { name, filters } = parsed.data
+
+    if (name) {
+      const duplicate = await prisma.customerSegment.findFirst({
+        where: { userId, id: { not: segmentId }, name: { equals: name, mode: "insensitive" } },
+      })
+      if (duplicate) {
+        return NextResponse.json(
+          { success: false, error: `A segment named "${duplicate.name}" already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (filters) {
+      const tagCount = await prisma.customerTag.count({ where: { id: { in: filters.tagIds }, userId } })
+      if (tagCount !== new Set(filters.tagIds).size) {
+        return NextResponse.json({ success: false, error: "Tag not found" }, { status: 404 })
+      }
+    }
+
+    const segment = await prisma.customerSegment.update({
+      where: { id: segmentId },
+      data: { name, filters },
+    })
+
+    return NextResponse.json({ success: true, data: segment })
+  } catch (error) {
+    console.error("Failed to update customer segment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update customer segment" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/segments/[id] — Delete a saved segment (customers
+// are not affected)
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const segmentId = parseInt(id, 10)
+
+  if (isNaN(segmentId)) {
+    return NextResponse.json({ success: false, error: "Invalid segment ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.customerSegment.findFirst({
+      where: { id: segmentId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    await prisma.customerSegment.delete({ where: { id: segmentId } })
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete customer segment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete customer segment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createSegmentSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/customers/segments — The user's saved customer segments
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const segments = await prisma.customerSegment.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+    })
+
+    return NextResponse.json({ success: true, data: segments })
+  } catch (error) {
+    console.error("Failed to fetch customer segments:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch customer segments" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/segments — Save a segment definition
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createSegmentSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { name, filters } = parsed.data
+    const userId = session.user.id
+
+    const duplicate = await prisma.customerSegment.findFirst({
+      where: { userId, name: { equals: name, mode: "insensitive" } },
+    })
+    if (duplicate) {
+      return NextResponse.json(
+        { success: false, error: `A segment named "${duplicate.name}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const tagCount = await prisma.customerTag.count({ where: { id: { in: filters.tagIds }, userId } })
+    if (tagCount !== new Set(filters.tagIds).size) {
+      return NextResponse.json({ success: false, error: "Tag not found" }, { status: 404 })
+    }
+
+    const segment = await prisma.customerSegment.create({
+      data: { name, filters, userId },
+    })
+
+    return NextResponse.json({ success: true, data: segment }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create customer segment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create customer segment" },
+      { status: 500 }
+    )
+  }
+}
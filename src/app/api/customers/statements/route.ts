@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import {
+  buildCustomerStatements,
+  renderCustomerStatementsPdf,
+} from "@/lib/customer-statements"
+import { getSegmentCustomerIds } from "@/lib/customer-segments"
+import { statementQuerySchema } from "@/lib/validations/invoices"
+import { searchParamsToObject, formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+// GET /api/customers/statements?dateFrom=&dateTo=&segmentId=
+//
+// Batch mode: one PDF with a statement page for every customer whose
+// closing balance is not zero, optionally only those in a saved segment.
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const parsed = statementQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: formatZodError(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { segmentId } = parsed.data
+    const customerIds = segmentId
+      ? await getSegmentCustomerIds(session.user.id, segmentId)
+      : undefined
+    if (customerIds === null) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    const statements = (
+      await buildCustomerStatements(
+        session.user.id,
+        new Date(parsed.data.dateFrom),
+        new Date(parsed.data.dateTo),
+        customerIds
+      )
+    ).filter((s) => s.closingBalance !== 0)
+
+    if (statements.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: segmentId
+            ? "No customers in this segment have a balance for this period"
+            : "No customers have a balance for this period",
+        },
+        { status: 404 }
+      )
+    }
+
+    const pdf = await renderCustomerStatementsPdf(statements)
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statements-${parsed.data.dateTo.split("T")[0]}.pdf"`,
+        "Cache-Control": "no-store",
+        "X-Statement-Count": String(statements.length),
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render customer statements:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to render customer statements" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import type { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { parseSegmentFilters, tagSelect } from "@/lib/customer-segments"
+import { updateTagSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/customers/tags/[id] — Rename or recolor a tag
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const tagId = parseInt(id, 10)
+
+  if (isNaN(tagId)) {
+    return NextResponse.json({ success: false, error: "Invalid tag ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.customerTag.findFirst({
+      where: { id: tagId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Tag not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = updateTagSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.name) {
+      const duplicate = await prisma.customerTag.findFirst({
+        where: {
+          userId: session.user.id,
+          id: { not: tagId },
+          name: { equals: parsed.data.name, mode: "insensitive" },
+        },
+      })
+      if (duplicate) {
+        return NextResponse.json(
+          { success: false, error: `A tag named "${duplicate.name}" already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const tag = await prisma.customerTag.update({
+      where: { id: tagId },
+      data: parsed.data,
+      select: tagSelect,
+    })
+
+    return NextResponse.json({ success: true, data: tag })
+  } catch (error) {
+    console.error("Failed to update customer tag:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update customer tag" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/tags/[id] — Delete a tag, removing it from every
+// customer and from the filters of saved segments
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const tagId = parseInt(id, 10)
+
+  if (isNaN(tagId)) {
+    return NextResponse.json({ success: false, error: "Invalid tag ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.customerTag.findFirst({
+      where: { id: tagId, userId: session.user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Tag not found" }, { status: 404 })
+    }
+
+    const segments = await prisma.customerSegment.findMany({
+      where: { userId: session.user.id },
+      select: { id: true, filters: true },
+    })
+
+    await prisma.$transaction([
+      ...segments.flatMap((segment) => {
+        const filters = parseSegmentFilters(segment.filters)
+        if (!filters.tagIds.includes(tagId)) return []
+        const tagIds = filters.tagIds.filter((t) => t !== tagId)
+        return [
+          prisma.customerSegment.update({
+            where: { id: segment.id },
+            data: { filters: { ...filters, tagIds } as unknown as Prisma.InputJsonValue },
+          }),
+        ]
+      }),
+      prisma.customerTag.delete({ where: { id: tagId } }),
+    ])
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete customer tag:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete customer tag" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { assignTagsSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// POST /api/customers/tags/assign — Add and/or remove tags on several
+// customers at once
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = assignTagsSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customerIds, addTagIds, removeTagIds } = parsed.data
+    const userId = session.user.id
+
+    const [customers, tags] = await Promise.all([
+      prisma.customer.findMany({ where: { id: { in: customerIds }, userId }, select: { id: true } }),
+      prisma.customerTag.findMany({
+        where: { id: { in: [...addTagIds, ...removeTagIds] }, userId },
+        select: { id: true },
+      }),
+    ])
+
+    if (customers.length !== new Set(customerIds).size) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 })
+    }
+    if (tags.length !== new Set([...addTagIds, ...removeTagIds]).size) {
+      return NextResponse.json({ success: false, error: "Tag not found" }, { status: 404 })
+    }
+
+    await prisma.$transaction(
+      customers.map((customer) =>
+        prisma.customer.update({
+          where: { id: customer.id },
+          data: {
+            tags: {
+              connect: addTagIds.map((id) => ({ id })),
+              disconnect: removeTagIds.map((id) => ({ id })),
+            },
+          },
+        })
+      )
+    )
+
+    return NextResponse.json({ success: true, data: { updated: customers.length } })
+  } catch (error) {
+    console.error("Failed to assign customer tags:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to assign customer tags" },
+      { status: 500 }
+    )
+  }
+}
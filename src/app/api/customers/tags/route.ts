@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { tagSelect } from "@/lib/customer-segments"
+import { createTagSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/customers/tags — The user's customer tags with usage counts
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const tags = await prisma.customerTag.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+      select: { ...tagSelect, _count: { select: { customers: true } } },
+    })
+
+    return NextResponse.json({ success: true, data: tags })
+  } catch (error) {
+    console.error("Failed to fetch customer tags:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch customer tags" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/tags — Create a tag
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createTagSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const duplicate = await prisma.customerTag.findFirst({
+      where: {
+        userId: session.user.id,
+        name: { equals: parsed.data.name, mode: "insensitive" },
+      },
+    })
+    if (duplicate) {
+      return NextResponse.json(
+        { success: false, error: `A tag named "${duplicate.name}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const tag = await prisma.customerTag.create({
+      data: { ...parsed.data, userId: session.user.id },
+      select: tagSelect,
+    })
+
+    return NextResponse.json({ success: true, data: tag }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create customer tag:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create customer tag" },
+      { status: 500 }
+    )
+  }
+}
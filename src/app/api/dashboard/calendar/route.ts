@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { computeCustomerDueDateInfo, computeDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation } from "@/lib/properties"
 
 export async function GET(request: NextRequest) {
   const session = await auth()
@@ -59,46 +61,60 @@ export async function GET(request: NextRequest) {
         take: 200,
       }),
 
-      // Customers with service intervals (for next-due calculation)
+      // Active customers with a service interval on their own address or
+      // any property (for next-due calculation)
       prisma.customer.findMany({
         where: {
           userId,
-          serviceInterval: { not: null },
+          archivedAt: null,
+          OR: [
+            { serviceInterval: { not: null } },
+            { properties: { some: { serviceInterval: { not: null } } } },
+          ],
         },
         select: {
           id: true,
           name: true,
           serviceInterval: true,
-          serviceLogs: {
-            orderBy: { serviceDate: "desc" },
-            take: 1,
-            select: { serviceDate: true },
-          },
+          properties: { select: { id: true, label: true, address: true, serviceInterval: true } },
         },
       }),
     ])
 
-    // Calculate next service due dates for customers
-    const customerDueDates = customers
-      .map((customer) => {
-        const lastService = customer.serviceLogs[0]
-        if (!lastService || !customer.serviceInterval) return null
+    // Next service due per location, each tracked from its own last service
+    const lastServiceDates = await lastServiceDatesByLocation(customers.map((c) => c.id))
+    const customerDueDates = customers.flatMap((customer) => {
+      const dates = lastServiceDates.get(customer.id) ?? new Map()
+      const own = computeDueDateInfo(dates.get(null), customer.serviceInterval)
+      const { properties } = computeCustomerDueDateInfo(customer, dates)
 
-        const nextDue = new Date(lastService.serviceDate)
-        nextDue.setDate(nextDue.getDate() + customer.serviceInterval)
+      const locations = [
+        { propertyId: null, location: null, nextDueDate: own.nextDueDate, interval: customer.serviceInterval },
+        ...customer.properties.map((property, i) => ({
+          propertyId: property.id,
+          location: property.label ?? property.address,
+          nextDueDate: properties[i].nextDueDate,
+          interval: property.serviceInterval ?? customer.serviceInterval,
+        })),
+      ]
 
+      return locations.flatMap(({ propertyId, location, nextDueDate, interval }) => {
+        if (!nextDueDate) return []
         // Only include if the due date falls within our range
-        if (nextDue >= startDate && nextDue <= endDate) {
-          return {
+        const nextDue = new Date(nextDueDate)
+        if (nextDue < startDate || nextDue > endDate) return []
+        return [
+          {
             customerId: customer.id,
             customerName: customer.name,
-            nextServiceDate: nextDue.toISOString(),
-            serviceInterval: customer.serviceInterval,
-          }
-        }
-        return null
+            propertyId,
+            location,
+            nextServiceDate: nextDueDate,
+            serviceInterval: interval,
+          },
+        ]
       })
-      .filter(Boolean)
+    })
 
     return NextResponse.json({
       success: true,
@@ -25,10 +25,18 @@ export async function GET() {
     // First day of current month (end of last month range)
     const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 1)
 
+    // Credit notes and write-offs reduce revenue in the month they're issued
+    const creditWhere = {
+      userId,
+      invoice: { status: { not: "CANCELLED" as const } },
+    }
+
     // Run all queries in parallel
     const [
       revenueThisMonth,
       revenueLastMonth,
+      creditsThisMonth,
+      creditsLastMonth,
       totalCustomers,
       newCustomersThisMonth,
       servicesThisMonth,
@@ -57,9 +65,21 @@ export async function GET() {
         },
       }),
 
-      // Total customers
+      // Credits this month
+      prisma.invoiceCredit.aggregate({
+        _sum: { amount: true },
+        where: { ...creditWhere, date: { gte: thisMonthStart, lt: thisMonthEnd } },
+      }),
+
+      // Credits last month
+      prisma.invoiceCredit.aggregate({
+        _sum: { amount: true },
+        where: { ...creditWhere, date: { gte: lastMonthStart, lt: lastMonthEnd } },
+      }),
+
+      // Total customers, not counting archived ones
       prisma.customer.count({
-        where: { userId },
+        where: { userId, archivedAt: null },
       }),
 
       // New customers this month
@@ -130,16 +150,22 @@ export async function GET() {
           now.getMonth() - 5,
           1
         )
-        const logs = await prisma.serviceLog.findMany({
-          where: {
-            userId,
-            serviceDate: { gte: sixMonthsAgo, lt: thisMonthEnd },
-          },
-          select: {
-            serviceDate: true,
-            priceCharged: true,
-          },
-        })
+        const [logs, credits] = await Promise.all([
+          prisma.serviceLog.findMany({
+            where: {
+              userId,
+              serviceDate: { gte: sixMonthsAgo, lt: thisMonthEnd },
+            },
+            select: {
+              serviceDate: true,
+              priceCharged: true,
+            },
+          }),
+          prisma.invoiceCredit.findMany({
+            where: { ...creditWhere, date: { gte: sixMonthsAgo, lt: thisMonthEnd } },
+            select: { date: true, amount: true },
+          }),
+        ])
 
         // Aggregate by month
         const monthlyMap = new Map<string, number>()
@@ -159,6 +185,13 @@ export async function GET() {
           monthlyMap.set(key, current + Number(log.priceCharged))
         }
 
+        for (const credit of credits) {
+          const d = new Date(credit.date)
+          const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`
+          const current = monthlyMap.get(key) || 0
+          monthlyMap.set(key, current - Number(credit.amount))
+        }
+
         return Array.from(monthlyMap.entries()).map(([month, revenue]) => ({
           month,
           revenue,
@@ -173,6 +206,7 @@ export async function GET() {
     const invoiceStatusMap: Record<string, number> = {
       DRAFT: 0,
       SENT: 0,
+      PARTIALLY_PAID: 0,
       PAID: 0,
       CANCELLED: 0,
     }
@@ -183,8 +217,12 @@ export async function GET() {
     return NextResponse.json({
       success: true,
       data: {
-        revenueThisMonth: Number(revenueThisMonth._sum.priceCharged || 0),
-        revenueLastMonth: Number(revenueLastMonth._sum.priceCharged || 0),
+        revenueThisMonth:
+          Number(revenueThisMonth._sum.priceCharged || 0) -
+          Number(creditsThisMonth._sum.amount || 0),
+        revenueLastMonth:
+          Number(revenueLastMonth._sum.priceCharged || 0) -
+          Number(creditsLastMonth._sum.amount || 0),
         totalCustomers,
         newCustomersThisMonth,
         servicesThisMonth,
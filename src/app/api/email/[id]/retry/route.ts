@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { deliverEmail, requeueEmail } from "@/lib/mail/outbox"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/email/[id]/retry — Send a pending or failed message now
+export async function POST(_request: Request, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const emailId = parseInt(id, 10)
+  if (isNaN(emailId)) {
+    return NextResponse.json({ success: false, error: "Invalid email ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.emailMessage.findFirst({
+      where: { id: emailId, userId: session.user.id },
+      select: { status: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Email not found" }, { status: 404 })
+    }
+
+    if (existing.status === "SENT") {
+      return NextResponse.json(
+        { success: false, error: "Email has already been sent" },
+        { status: 400 }
+      )
+    }
+
+    await requeueEmail(emailId)
+    const delivered = await deliverEmail(emailId)
+
+    return NextResponse.json({ success: true, data: delivered })
+  } catch (error) {
+    console.error("Failed to retry email:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to retry email" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { processOutbox } from "@/lib/mail/outbox"
+
+export const runtime = "nodejs"
+
+// POST /api/email/process — Deliver every queued message that is due for
+// (re)sending, on demand; /api/cron/email-outbox does this on a schedule
+export async function POST() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await processOutbox(session.user.id)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to process email outbox:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to process email outbox" },
+      { status: 500 }
+    )
+  }
+}
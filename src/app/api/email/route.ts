@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { emailListQuerySchema } from "@/lib/validations/email"
+import { searchParamsToObject, formatZodError } from "@/lib/validations/finances"
+
+// GET /api/email — Recent outbox messages, optionally by status or invoice
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const parsed = emailListQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: formatZodError(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const messages = await prisma.emailMessage.findMany({
+      where: {
+        userId: session.user.id,
+        ...(parsed.data.status && { status: parsed.data.status }),
+        ...(parsed.data.invoiceId && { invoiceId: parsed.data.invoiceId }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        template: true,
+        to: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        nextAttemptAt: true,
+        lastError: true,
+        sentAt: true,
+        createdAt: true,
+        invoice: { select: { id: true, invoiceNumber: true } },
+      },
+    })
+
+    return NextResponse.json({ success: true, data: messages })
+  } catch (error) {
+    console.error("Failed to fetch emails:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch emails" },
+      { status: 500 }
+    )
+  }
+}
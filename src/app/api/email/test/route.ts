@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { testEmail } from "@/lib/mail/templates"
+import { queueEmail, deliverEmail } from "@/lib/mail/outbox"
+import { testEmailSchema } from "@/lib/validations/email"
+import { formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+// POST /api/email/test — Send a test message with the saved SMTP settings
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const parsed = testEmailSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const queued = await queueEmail({
+      userId: session.user.id,
+      template: "test",
+      to: parsed.data.to,
+      email: testEmail(await getCompanyLetterhead()),
+    })
+    const delivered = (await deliverEmail(queued.id)) ?? queued
+
+    if (delivered.status !== "SENT") {
+      return NextResponse.json(
+        { success: false, error: delivered.lastError || "Test email could not be sent" },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: delivered })
+  } catch (error) {
+    console.error("Failed to send test email:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to send test email" },
+      { status: 500 }
+    )
+  }
+}
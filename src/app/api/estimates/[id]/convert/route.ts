@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { nextInvoiceNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+import { convertEstimateSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/estimates/[id]/convert — Turn an ACCEPTED estimate into a DRAFT
+// invoice with the same lines and tax. With `createServiceLogs`, each line
+// also becomes a PENDING service log that the invoice line links to, so the
+// quoted work shows up on the schedule.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const actor = sessionActor(session.user)
+  const { id } = await context.params
+  const estimateId = parseInt(id, 10)
+  if (isNaN(estimateId)) {
+    return NextResponse.json({ success: false, error: "Invalid estimate ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = convertEstimateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { createServiceLogs, serviceTypeId } = parsed.data
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId },
+      include: { items: { orderBy: { id: "asc" } } },
+    })
+    if (!estimate) {
+      return NextResponse.json({ success: false, error: "Estimate not found" }, { status: 404 })
+    }
+
+    if (estimate.status !== "ACCEPTED") {
+      return NextResponse.json(
+        { success: false, error: "Only ACCEPTED estimates can be converted" },
+        { status: 400 }
+      )
+    }
+
+    if (estimate.invoiceId) {
+      return NextResponse.json(
+        { success: false, error: "Estimate has already been converted to an invoice" },
+        { status: 400 }
+      )
+    }
+
+    if (serviceTypeId) {
+      const serviceType = await prisma.serviceType.findFirst({
+        where: { id: serviceTypeId, userId },
+        select: { id: true },
+      })
+      if (!serviceType) {
+        return NextResponse.json(
+          { success: false, error: "Service type not found" },
+          { status: 400 }
+        )
+      }
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const serviceLogIds: (number | null)[] = []
+      for (const item of estimate.items) {
+        if (!createServiceLogs) {
+          serviceLogIds.push(null)
+          continue
+        }
+        const log = await tx.serviceLog.create({
+          data: {
+            customerId: estimate.customerId,
+            serviceDate: item.serviceDate,
+            priceCharged: item.amount,
+            notes: item.description,
+            status: "PENDING",
+            paymentStatus: "UNPAID",
+            serviceTypeId: serviceTypeId ?? null,
+            userId,
+          },
+          select: { id: true },
+        })
+        serviceLogIds.push(log.id)
+      }
+
+      const created = await tx.invoice.create({
+        data: {
+          invoiceNumber: await nextInvoiceNumber(tx, userId),
+          customerId: estimate.customerId,
+          issueDate: new Date(),
+          status: "DRAFT",
+          subtotal: estimate.subtotal,
+          tax: estimate.tax,
+          total: estimate.total,
+          amountPaid: 0,
+          taxRateId: estimate.taxRateId,
+          taxPercent: estimate.taxPercent,
+          notes: estimate.notes,
+          terms: estimate.terms,
+          serviceTypeId: serviceTypeId ?? null,
+          userId,
+          items: {
+            create: estimate.items.map((item, i) => ({
+              description: item.description,
+              serviceDate: item.serviceDate,
+              quantity: item.quantity,
+              rate: item.rate,
+              amount: item.amount,
+              taxable: item.taxable,
+              serviceLogId: serviceLogIds[i],
+            })),
+          },
+        },
+        select: { id: true, invoiceNumber: true },
+      })
+
+      await tx.estimate.update({
+        where: { id: estimateId },
+        data: { invoiceId: created.id },
+      })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId: created.id,
+        userId,
+        type: "CREATED",
+        data: {
+          invoiceNumber: created.invoiceNumber,
+          total: Number(estimate.total),
+          source: "estimate",
+          estimateNumber: estimate.estimateNumber,
+        },
+        actor,
+      })
+
+      return created
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          invoice,
+          serviceLogsCreated: createServiceLogs ? estimate.items.length : 0,
+        },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Failed to convert estimate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to convert estimate" },
+      { status: 500 }
+    )
+  }
+}
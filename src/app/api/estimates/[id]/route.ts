@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { EstimateStatus, Prisma } from "@/generated/prisma"
+import { calculateInvoiceTotals, type InvoiceItemInput } from "@/lib/invoice-totals"
+import { updateEstimateSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Allowed manual status moves. DECLINED can be re-sent after a revision;
+// ACCEPTED is final — the next step is converting to an invoice.
+const STATUS_TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
+  DRAFT: ["SENT"],
+  SENT: ["DRAFT", "ACCEPTED", "DECLINED"],
+  ACCEPTED: [],
+  DECLINED: ["DRAFT", "SENT"],
+}
+
+// GET /api/estimates/[id]
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const estimateId = parseInt(id, 10)
+  if (isNaN(estimateId)) {
+    return NextResponse.json({ success: false, error: "Invalid estimate ID" }, { status: 400 })
+  }
+
+  try {
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId: session.user.id },
+      include: {
+        customer: {
+          select: { id: true, name: true, phone: true, email: true, address: true },
+        },
+        taxRate: true,
+        invoice: { select: { id: true, invoiceNumber: true } },
+        items: { orderBy: { id: "asc" } },
+      },
+    })
+
+    if (!estimate) {
+      return NextResponse.json({ success: false, error: "Estimate not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: estimate })
+  } catch (error) {
+    console.error("Failed to fetch estimate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch estimate" },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/estimates/[id] — Edit a DRAFT estimate and/or move its status
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const estimateId = parseInt(id, 10)
+  if (isNaN(estimateId)) {
+    return NextResponse.json({ success: false, error: "Invalid estimate ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json()
+    const parsed = updateEstimateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId },
+      include: { items: { orderBy: { id: "asc" } } },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Estimate not found" }, { status: 404 })
+    }
+
+    if (existing.invoiceId) {
+      return NextResponse.json(
+        { success: false, error: "Estimate has already been converted to an invoice" },
+        { status: 400 }
+      )
+    }
+
+    const { status, items, taxRateId, customerId, issueDate, validUntil, notes, terms } =
+      parsed.data
+    const isContentEdit =
+      items !== undefined ||
+      taxRateId !== undefined ||
+      customerId !== undefined ||
+      issueDate !== undefined ||
+      validUntil !== undefined ||
+      notes !== undefined ||
+      terms !== undefined
+
+    if (isContentEdit && existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { success: false, error: "Only DRAFT estimates can be edited" },
+        { status: 400 }
+      )
+    }
+
+    if (status && status !== existing.status && !STATUS_TRANSITIONS[existing.status].includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Cannot change status from ${existing.status} to ${status}` },
+        { status: 400 }
+      )
+    }
+
+    if (customerId !== undefined) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: customerId, userId },
+        select: { id: true },
+      })
+      if (!customer) {
+        return NextResponse.json(
+          { success: false, error: "Customer not found" },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updateData: Prisma.EstimateUncheckedUpdateInput = {}
+    if (status !== undefined) updateData.status = status
+    if (customerId !== undefined) updateData.customerId = customerId
+    if (issueDate !== undefined) updateData.issueDate = new Date(issueDate)
+    if (validUntil !== undefined) updateData.validUntil = validUntil ? new Date(validUntil) : null
+    if (notes !== undefined) updateData.notes = notes
+    if (terms !== undefined) updateData.terms = terms
+
+    if (items === undefined && taxRateId === undefined) {
+      const estimate = await prisma.estimate.update({
+        where: { id: estimateId },
+        data: updateData,
+        include: {
+          customer: { select: { id: true, name: true } },
+          items: true,
+        },
+      })
+      return NextResponse.json({ success: true, data: estimate })
+    }
+
+    // Totals need recomputing: resolve the rate (omitted keeps the snapshot)
+    let taxPercent = existing.taxPercent
+    if (taxRateId !== undefined) {
+      const taxRate = taxRateId === null
+        ? null
+        : await prisma.taxRate.findFirst({ where: { id: taxRateId, userId } })
+      if (taxRateId !== null && !taxRate) {
+        return NextResponse.json(
+          { success: false, error: "Tax rate not found" },
+          { status: 400 }
+        )
+      }
+      taxPercent = taxRate?.percent ?? null
+      updateData.taxRateId = taxRate?.id ?? null
+      updateData.taxPercent = taxPercent
+    }
+
+    const itemInputs: InvoiceItemInput[] =
+      items ??
+      existing.items.map((item) => ({
+        description: item.description,
+        serviceDate: item.serviceDate.toISOString(),
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        taxable: item.taxable,
+      }))
+    const totals = calculateInvoiceTotals(itemInputs, taxPercent)
+    updateData.subtotal = totals.subtotal
+    updateData.tax = totals.tax
+    updateData.total = totals.total
+
+    const estimate = await prisma.$transaction(async (tx) => {
+      if (items !== undefined) {
+        await tx.estimateItem.deleteMany({ where: { estimateId } })
+        await tx.estimateItem.createMany({
+          data: totals.items.map((item) => ({
+            estimateId,
+            description: item.description,
+            serviceDate: item.serviceDate,
+            quantity: item.quantity,
+            rate: item.rate,
+            amount: item.amount,
+            taxable: item.taxable,
+          })),
+        })
+      }
+
+      return tx.estimate.update({
+        where: { id: estimateId },
+        data: updateData,
+        include: {
+          customer: { select: { id: true, name: true } },
+          items: true,
+        },
+      })
+    })
+
+    return NextResponse.json({ success: true, data: estimate })
+  } catch (error) {
+    console.error("Failed to update estimate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update estimate" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/estimates/[id] — Converted estimates are kept as the quote of record
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const estimateId = parseInt(id, 10)
+  if (isNaN(estimateId)) {
+    return NextResponse.json({ success: false, error: "Invalid estimate ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.estimate.findFirst({
+      where: { id: estimateId, userId: session.user.id },
+      select: { id: true, invoiceId: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Estimate not found" }, { status: 404 })
+    }
+
+    if (existing.invoiceId) {
+      return NextResponse.json(
+        { success: false, error: "Converted estimates cannot be deleted" },
+        { status: 400 }
+      )
+    }
+
+    await prisma.estimate.delete({ where: { id: estimateId } })
+
+    return NextResponse.json({ success: true, message: "Estimate deleted" })
+  } catch (error) {
+    console.error("Failed to delete estimate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete estimate" },
+      { status: 500 }
+    )
+  }
+}
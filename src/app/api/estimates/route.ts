@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { EstimateStatus, Prisma } from "@/generated/prisma"
+import { calculateInvoiceTotals } from "@/lib/invoice-totals"
+import { nextEstimateNumber } from "@/lib/invoice-numbers"
+import { createEstimateSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/estimates — List estimates, optionally filtered by customer/status
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { searchParams } = request.nextUrl
+  const customerId = searchParams.get("customerId")
+  const status = searchParams.get("status")
+  const search = searchParams.get("search")
+
+  try {
+    const where: Prisma.EstimateWhereInput = { userId }
+
+    if (customerId) {
+      where.customerId = parseInt(customerId, 10)
+    }
+
+    if (status && Object.values(EstimateStatus).includes(status as EstimateStatus)) {
+      where.status = status as EstimateStatus
+    }
+
+    if (search) {
+      where.estimateNumber = { contains: search, mode: "insensitive" }
+    }
+
+    const estimates = await prisma.estimate.findMany({
+      where,
+      orderBy: { issueDate: "desc" },
+      include: {
+        customer: { select: { id: true, name: true } },
+        invoice: { select: { id: true, invoiceNumber: true } },
+        items: { orderBy: { id: "asc" } },
+        _count: { select: { items: true } },
+      },
+    })
+
+    return NextResponse.json({ success: true, data: estimates })
+  } catch (error) {
+    console.error("Failed to fetch estimates:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch estimates" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/estimates — Create a DRAFT estimate
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const body = await request.json()
+    const parsed = createEstimateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customerId, issueDate, validUntil, notes, terms, taxRateId, items } = parsed.data
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId },
+      select: { id: true },
+    })
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: "Customer not found" },
+        { status: 400 }
+      )
+    }
+
+    const taxRate =
+      taxRateId === undefined
+        ? await prisma.taxRate.findFirst({ where: { userId, isDefault: true } })
+        : taxRateId === null
+          ? null
+          : await prisma.taxRate.findFirst({ where: { id: taxRateId, userId } })
+
+    if (taxRateId && !taxRate) {
+      return NextResponse.json(
+        { success: false, error: "Tax rate not found" },
+        { status: 400 }
+      )
+    }
+
+    const totals = calculateInvoiceTotals(items, taxRate?.percent ?? null)
+    const estimate = await prisma.$transaction(async (tx) =>
+      tx.estimate.create({
+        data: {
+          estimateNumber: await nextEstimateNumber(tx, userId),
+          customerId,
+          issueDate: new Date(issueDate),
+          validUntil: validUntil ? new Date(validUntil) : null,
+          status: "DRAFT",
+          subtotal: totals.subtotal,
+          tax: totals.tax,
+          total: totals.total,
+          taxRateId: taxRate?.id ?? null,
+          taxPercent: taxRate?.percent ?? null,
+          notes: notes ?? null,
+          terms: terms ?? null,
+          userId,
+          items: {
+            create: totals.items.map((item) => ({
+              description: item.description,
+              serviceDate: item.serviceDate,
+              quantity: item.quantity,
+              rate: item.rate,
+              amount: item.amount,
+              taxable: item.taxable,
+            })),
+          },
+        },
+        include: {
+          customer: { select: { id: true, name: true } },
+          items: true,
+        },
+      })
+    )
+
+    return NextResponse.json({ success: true, data: estimate }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create estimate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create estimate" },
+      { status: 500 }
+    )
+  }
+}
@@ -281,27 +281,39 @@ export async function POST(request: NextRequest) {
     // Apply categorization rules to newly added uncategorized transactions
     let ruleCategorized = 0
     let billsMatched = 0
+    let invoiceMatches = 0
 
     if (addedCount > 0) {
       await applyCategorizationRules(userId, addedPlaidIds)
 
-      // Auto-match bills for newly synced transactions
+      // Auto-match bills and suggest invoice matches for newly synced transactions
       try {
         const { autoMatchBills } = await import("@/lib/auto-categorize")
         const newTxns = await prisma.bankTransaction.findMany({
           where: { plaidTransactionId: { in: addedPlaidIds } },
           select: { id: true },
         })
-        const result = await autoMatchBills(userId, newTxns.map((t) => t.id))
+        const newIds = newTxns.map((t) => t.id)
+        const result = await autoMatchBills(userId, newIds)
         billsMatched = result.matched
+
+        const { suggestInvoiceMatches } = await import("@/lib/invoice-matching")
+        const matchResult = await suggestInvoiceMatches(userId, newIds)
+        invoiceMatches = matchResult.suggested
       } catch (err) {
-        console.error("Bill auto-match failed (non-fatal):", err)
+        console.error("Bill/invoice auto-match failed (non-fatal):", err)
       }
     }
 
     return NextResponse.json({
       success: true,
-      data: { added: addedCount, modified: modifiedCount, removed: removedCount, billsMatched },
+      data: {
+        added: addedCount,
+        modified: modifiedCount,
+        removed: removedCount,
+        billsMatched,
+        invoiceMatches,
+      },
     })
   } catch (error: unknown) {
     const plaidError = (error as { response?: { data?: unknown } })?.response?.data
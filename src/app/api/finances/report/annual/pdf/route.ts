@@ -46,11 +46,25 @@ export async function GET(request: NextRequest) {
           parent: { select: { name: true } },
         },
       },
+      _count: { select: { invoiceRefunds: true } },
     },
     orderBy: { date: "asc" },
   })
 
-  const report = aggregateAnnualReport(transactions)
+  // Credit notes aren't tied to a bank account, so they're left out of
+  // single-account reports
+  const invoiceCredits = accountId
+    ? []
+    : await prisma.invoiceCredit.findMany({
+        where: {
+          userId,
+          date: { gte: start, lt: end },
+          invoice: { status: { not: "CANCELLED" } },
+        },
+        select: { date: true, amount: true, type: true },
+      })
+
+  const report = aggregateAnnualReport(transactions, invoiceCredits)
 
   const generatedAt = new Date().toLocaleDateString("en-US", {
     year: "numeric",
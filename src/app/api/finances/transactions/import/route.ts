@@ -181,6 +181,7 @@ export async function POST(request: NextRequest) {
     let importedCount = 0
     let ruleCategorized = 0
     let billsMatched = 0
+    let invoiceMatches = 0
 
     if (transactionsToInsert.length > 0) {
       const result = await prisma.bankTransaction.createMany({
@@ -211,6 +212,10 @@ export async function POST(request: NextRequest) {
 
         const billResult = await autoMatchBills(userId, importedIds)
         billsMatched = billResult.matched
+
+        const { suggestInvoiceMatches } = await import("@/lib/invoice-matching")
+        const matchResult = await suggestInvoiceMatches(userId, importedIds)
+        invoiceMatches = matchResult.suggested
       } catch (err) {
         console.error("Auto-categorize/bill-match on import failed (non-fatal):", err)
       }
@@ -223,6 +228,7 @@ export async function POST(request: NextRequest) {
         skipped: skippedCount,
         ruleCategorized,
         billsMatched,
+        invoiceMatches,
         errors,
       },
     })
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getGeocodeDatasetSummary, importGeocodePoints } from "@/lib/geocoding"
+import { importGeocodePointsSchema } from "@/lib/validations/customers"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/geocoding/points — How many address points and ZIP centroids the
+// offline dataset holds
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const summary = await getGeocodeDatasetSummary()
+
+    return NextResponse.json({ success: true, data: summary })
+  } catch (error) {
+    console.error("Failed to fetch geocoding dataset:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch geocoding dataset" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/geocoding/points — Import a chunk of dataset rows (parsed from
+// CSV on the client); rows replace existing ones with the same key
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = importGeocodePointsSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const result = await importGeocodePoints(parsed.data.points)
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to import geocoding dataset:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to import geocoding dataset" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/geocoding/points — Clear the dataset. Customers keep the
+// locations already found.
+export async function DELETE() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { count } = await prisma.geocodePoint.deleteMany()
+
+    return NextResponse.json({ success: true, data: { deleted: count } })
+  } catch (error) {
+    console.error("Failed to clear geocoding dataset:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to clear geocoding dataset" },
+      { status: 500 }
+    )
+  }
+}
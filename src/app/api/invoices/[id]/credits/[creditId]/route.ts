@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string; creditId: string }> }
+
+// DELETE /api/invoices/[id]/credits/[creditId] — Remove a credit note or
+// write-off and restore the balance it covered
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id, creditId } = await context.params
+  const invoiceId = parseInt(id, 10)
+  const credId = parseInt(creditId, 10)
+
+  if (isNaN(invoiceId) || isNaN(credId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const credit = await prisma.invoiceCredit.findFirst({
+      where: { id: credId, invoiceId, userId },
+      select: { id: true, type: true, creditNumber: true, amount: true, reason: true },
+    })
+
+    if (!credit) {
+      return NextResponse.json({ success: false, error: "Credit not found" }, { status: 404 })
+    }
+
+    const actor = sessionActor(session.user)
+    const state = await prisma.$transaction(async (tx) => {
+      await tx.invoiceCredit.delete({ where: { id: credId } })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "CREDIT_DELETED",
+        data: {
+          creditType: credit.type,
+          creditNumber: credit.creditNumber,
+          amount: Number(credit.amount),
+          reason: credit.reason,
+        },
+        actor,
+      })
+      return syncInvoicePaymentState(tx, invoiceId, actor, "credit")
+    })
+
+    return NextResponse.json({ success: true, data: state })
+  } catch (error) {
+    console.error("Failed to delete invoice credit:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete invoice credit" },
+      { status: 500 }
+    )
+  }
+}
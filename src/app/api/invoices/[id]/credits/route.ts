@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createCreditNoteSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { nextCreditNoteNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/[id]/credits — Issue a credit note against an invoice.
+// A credit on a paid invoice leaves a negative balance to refund.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createCreditNoteSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, status: true, total: true, amountCredited: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status === "DRAFT" || invoice.status === "CANCELLED") {
+      return NextResponse.json(
+        { success: false, error: `Cannot credit a ${invoice.status} invoice` },
+        { status: 400 }
+      )
+    }
+
+    const { date, amount, reason } = parsed.data
+    const creditable = Number(invoice.total) - Number(invoice.amountCredited)
+    if (amount > creditable + 0.005) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Credit cannot exceed the uncredited invoice total of $${creditable.toFixed(2)}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const actor = sessionActor(session.user)
+    const result = await prisma.$transaction(async (tx) => {
+      const creditNumber = await nextCreditNoteNumber(tx, userId)
+      const credit = await tx.invoiceCredit.create({
+        data: {
+          invoiceId,
+          type: "CREDIT_NOTE",
+          creditNumber,
+          date: new Date(date),
+          amount,
+          reason: reason ?? null,
+          userId,
+        },
+      })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "CREDIT_ISSUED",
+        data: { creditType: "CREDIT_NOTE", creditNumber, amount, reason: reason ?? null },
+        actor,
+      })
+
+      const state = await syncInvoicePaymentState(tx, invoiceId, actor, "credit")
+      return { credit, ...state }
+    })
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to issue credit note:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to issue credit note" },
+      { status: 500 }
+    )
+  }
+}
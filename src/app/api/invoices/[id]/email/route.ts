@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { invoiceEmail, reminderEmail } from "@/lib/mail/templates"
+import { queueEmail, deliverEmail } from "@/lib/mail/outbox"
+import { sendInvoiceEmailSchema } from "@/lib/validations/email"
+import { formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/[id]/email — Email the invoice (PDF attached) or a
+// payment reminder to the customer. The message goes through the outbox:
+// if SMTP fails it stays queued for retry and the response says so.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = sendInvoiceEmailSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { template, message } = parsed.data
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      include: { customer: { select: { id: true, name: true, email: true } } },
+    })
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status === "CANCELLED") {
+      return NextResponse.json(
+        { success: false, error: "Cancelled invoices cannot be emailed" },
+        { status: 400 }
+      )
+    }
+
+    if (template === "reminder" && invoice.status !== "SENT" && invoice.status !== "PARTIALLY_PAID") {
+      return NextResponse.json(
+        { success: false, error: "Reminders can only be sent for open invoices" },
+        { status: 400 }
+      )
+    }
+
+    const to = parsed.data.to ?? invoice.customer.email
+    if (!to) {
+      return NextResponse.json(
+        { success: false, error: "Customer has no email address" },
+        { status: 400 }
+      )
+    }
+
+    const company = await getCompanyLetterhead()
+    const data = {
+      company,
+      customerName: invoice.customer.name,
+      invoiceNumber: invoice.invoiceNumber,
+      total: Number(invoice.total),
+      balanceDue:
+        Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid),
+      dueDate: invoice.dueDate,
+      message,
+    }
+
+    const queued = await queueEmail({
+      userId,
+      template,
+      to,
+      email: template === "invoice" ? invoiceEmail(data) : reminderEmail(data),
+      attachInvoicePdf: true,
+      invoiceId,
+      customerId: invoice.customer.id,
+    })
+    const delivered = (await deliverEmail(queued.id)) ?? queued
+
+    return NextResponse.json(
+      { success: true, data: delivered },
+      { status: delivered.status === "SENT" ? 200 : 202 }
+    )
+  } catch (error) {
+    console.error("Failed to email invoice:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to email invoice" },
+      { status: 500 }
+    )
+  }
+}
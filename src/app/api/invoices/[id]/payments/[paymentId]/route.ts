@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string; paymentId: string }> }
+
+// DELETE /api/invoices/[id]/payments/[paymentId] — Remove a payment and
+// recalculate the invoice balance
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id, paymentId } = await context.params
+  const invoiceId = parseInt(id, 10)
+  const payId = parseInt(paymentId, 10)
+
+  if (isNaN(invoiceId) || isNaN(payId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const payment = await prisma.invoicePayment.findFirst({
+      where: { id: payId, invoiceId, userId },
+      select: { id: true, amount: true, method: true, date: true },
+    })
+
+    if (!payment) {
+      return NextResponse.json({ success: false, error: "Payment not found" }, { status: 404 })
+    }
+
+    const state = await prisma.$transaction(async (tx) => {
+      await tx.invoicePayment.delete({ where: { id: payId } })
+
+      const actor = sessionActor(session.user!)
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "PAYMENT_DELETED",
+        data: {
+          amount: Number(payment.amount),
+          method: payment.method,
+          date: payment.date.toISOString(),
+        },
+        actor,
+      })
+      return syncInvoicePaymentState(tx, invoiceId, actor)
+    })
+
+    return NextResponse.json({ success: true, data: state })
+  } catch (error) {
+    console.error("Failed to delete invoice payment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete invoice payment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createInvoicePaymentSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/invoices/[id]/payments — List payments recorded against an invoice
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    const payments = await prisma.invoicePayment.findMany({
+      where: { invoiceId },
+      orderBy: { date: "asc" },
+      include: {
+        bankTransaction: {
+          select: { id: true, date: true, description: true, amount: true },
+        },
+      },
+    })
+
+    return NextResponse.json({ success: true, data: payments })
+  } catch (error) {
+    console.error("Failed to fetch invoice payments:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoice payments" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/payments — Record a (partial) payment
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json()
+    const parsed = createInvoicePaymentSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, status: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status === "DRAFT" || invoice.status === "CANCELLED") {
+      return NextResponse.json(
+        { success: false, error: `Cannot record payments on a ${invoice.status} invoice` },
+        { status: 400 }
+      )
+    }
+
+    const { date, amount, method, bankTransactionId, notes } = parsed.data
+
+    if (bankTransactionId) {
+      const txn = await prisma.bankTransaction.findFirst({
+        where: { id: bankTransactionId, userId },
+        select: { id: true },
+      })
+      if (!txn) {
+        return NextResponse.json(
+          { success: false, error: "Bank transaction not found" },
+          { status: 404 }
+        )
+      }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const payment = await tx.invoicePayment.create({
+        data: {
+          invoiceId,
+          date: new Date(date),
+          amount,
+          method,
+          bankTransactionId: bankTransactionId ?? null,
+          notes: notes ?? null,
+          userId,
+        },
+      })
+
+      const actor = sessionActor(session.user!)
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "PAYMENT_RECORDED",
+        data: { amount, method, date: payment.date.toISOString() },
+        actor,
+      })
+
+      const state = await syncInvoicePaymentState(tx, invoiceId, actor)
+      return { payment, ...state }
+    })
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to record invoice payment:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to record invoice payment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { renderInvoicePdf } from "@/lib/invoice-pdf"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/invoices/[id]/pdf[?inline=1]
+//
+// Renders the invoice with the company letterhead from Settings. Downloads
+// as an attachment unless `inline=1` is passed (used for in-browser preview).
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const rendered = await renderInvoicePdf(invoiceId, session.user.id)
+    if (!rendered) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    const disposition =
+      request.nextUrl.searchParams.get("inline") === "1" ? "inline" : "attachment"
+
+    return new Response(new Uint8Array(rendered.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${rendered.invoiceNumber}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render invoice PDF:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to render invoice PDF" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string; refundId: string }> }
+
+// DELETE /api/invoices/[id]/refunds/[refundId] — Remove a refund. A credit
+// note issued alongside it is a separate row and stays until removed.
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id, refundId } = await context.params
+  const invoiceId = parseInt(id, 10)
+  const refId = parseInt(refundId, 10)
+
+  if (isNaN(invoiceId) || isNaN(refId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const refund = await prisma.invoiceRefund.findFirst({
+      where: { id: refId, invoiceId, userId },
+      select: { id: true, amount: true, method: true, date: true },
+    })
+
+    if (!refund) {
+      return NextResponse.json({ success: false, error: "Refund not found" }, { status: 404 })
+    }
+
+    const actor = sessionActor(session.user)
+    const state = await prisma.$transaction(async (tx) => {
+      await tx.invoiceRefund.delete({ where: { id: refId } })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "REFUND_DELETED",
+        data: {
+          amount: Number(refund.amount),
+          method: refund.method,
+          date: refund.date.toISOString(),
+        },
+        actor,
+      })
+      return syncInvoicePaymentState(tx, invoiceId, actor)
+    })
+
+    return NextResponse.json({ success: true, data: state })
+  } catch (error) {
+    console.error("Failed to delete invoice refund:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete invoice refund" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@/generated/prisma"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createInvoiceRefundSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { nextCreditNoteNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/[id]/refunds — Record money returned to the customer.
+// With issueCreditNote (the default), the part of the refund that isn't
+// returning an overpayment is also credited, so the balance stays settled.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createInvoiceRefundSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, status: true, total: true, amountPaid: true, amountCredited: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status === "DRAFT") {
+      return NextResponse.json(
+        { success: false, error: "Cannot refund a DRAFT invoice" },
+        { status: 400 }
+      )
+    }
+
+    const { date, amount, method, bankTransactionId, notes, issueCreditNote } = parsed.data
+
+    if (amount > Number(invoice.amountPaid) + 0.005) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Refund cannot exceed the $${Number(invoice.amountPaid).toFixed(2)} received`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (bankTransactionId) {
+      const txn = await prisma.bankTransaction.findFirst({
+        where: { id: bankTransactionId, userId },
+        select: { id: true, type: true },
+      })
+      if (!txn) {
+        return NextResponse.json(
+          { success: false, error: "Bank transaction not found" },
+          { status: 404 }
+        )
+      }
+      if (txn.type !== "OUTFLOW") {
+        return NextResponse.json(
+          { success: false, error: "A refund must be linked to an outgoing transaction" },
+          { status: 400 }
+        )
+      }
+    }
+
+    const refundAmount = new Prisma.Decimal(amount)
+    const overpaid = Prisma.Decimal.max(
+      invoice.amountPaid.add(invoice.amountCredited).sub(invoice.total),
+      0
+    )
+    const creditAmount = issueCreditNote
+      ? Prisma.Decimal.min(
+          Prisma.Decimal.max(refundAmount.sub(overpaid), 0),
+          invoice.total.sub(invoice.amountCredited)
+        )
+      : new Prisma.Decimal(0)
+
+    const actor = sessionActor(session.user)
+    const result = await prisma.$transaction(async (tx) => {
+      const refund = await tx.invoiceRefund.create({
+        data: {
+          invoiceId,
+          date: new Date(date),
+          amount: refundAmount,
+          method,
+          bankTransactionId: bankTransactionId ?? null,
+          notes: notes ?? null,
+          userId,
+        },
+      })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "REFUND_RECORDED",
+        data: { amount, method, date: refund.date.toISOString() },
+        actor,
+      })
+
+      let credit = null
+      if (creditAmount.gt(0)) {
+        const creditNumber = await nextCreditNoteNumber(tx, userId)
+        const reason = notes ? `Refund: ${notes}` : "Refund"
+        credit = await tx.invoiceCredit.create({
+          data: {
+            invoiceId,
+            type: "CREDIT_NOTE",
+            creditNumber,
+            date: new Date(date),
+            amount: creditAmount,
+            reason,
+            userId,
+          },
+        })
+        await recordInvoiceEvent(tx, {
+          invoiceId,
+          userId,
+          type: "CREDIT_ISSUED",
+          data: {
+            creditType: "CREDIT_NOTE",
+            creditNumber,
+            amount: Number(creditAmount),
+            reason,
+          },
+          actor,
+        })
+      }
+
+      const state = await syncInvoicePaymentState(tx, invoiceId, actor)
+      return { refund, credit, ...state }
+    })
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to record invoice refund:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to record invoice refund" },
+      { status: 500 }
+    )
+  }
+}
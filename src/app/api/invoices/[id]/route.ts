@@ -1,10 +1,47 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { InvoiceStatus, Prisma } from "@/generated/prisma"
+import { InvoiceStatus, PaymentMethod, Prisma } from "@/generated/prisma"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { calculateInvoiceTotals, type InvoiceItemInput } from "@/lib/invoice-totals"
+import {
+  diffInvoiceSnapshots,
+  recordInvoiceEvent,
+  sessionActor,
+  snapshotInvoice,
+  type InvoiceEventActor,
+  type InvoiceSnapshot,
+} from "@/lib/invoice-events"
+import { invoiceTaxRateIdSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
 
 type RouteContext = { params: Promise<{ id: string }> }
 
+// Audit an edit: the field/item/total diff (if any) and a direct status change
+async function recordEditEvents(
+  tx: Prisma.TransactionClient,
+  invoiceId: number,
+  userId: string,
+  actor: InvoiceEventActor | null,
+  before: InvoiceSnapshot,
+  fromStatus: InvoiceStatus,
+  toStatus: InvoiceStatus | undefined
+) {
+  const diff = diffInvoiceSnapshots(before, await snapshotInvoice(tx, invoiceId))
+  if (diff) {
+    await recordInvoiceEvent(tx, { invoiceId, userId, type: "UPDATED", data: diff, actor })
+  }
+  if (toStatus && toStatus !== fromStatus) {
+    await recordInvoiceEvent(tx, {
+      invoiceId,
+      userId,
+      type: "STATUS_CHANGED",
+      data: { from: fromStatus, to: toStatus },
+      actor,
+    })
+  }
+}
+
 export async function GET(
   request: NextRequest,
   context: RouteContext
@@ -24,11 +61,15 @@ export async function GET(
         customer: {
           select: { id: true, name: true, phone: true, email: true, address: true },
         },
+        taxRate: true,
         items: {
           include: {
             serviceLog: true,
           },
         },
+        payments: {
+          orderBy: { date: "asc" },
+        },
       },
     })
 
@@ -73,7 +114,7 @@ export async function PATCH(
     // Verify ownership
     const existing = await prisma.invoice.findUnique({
       where: { id: invoiceId },
-      select: { id: true, userId: true },
+      select: { id: true, userId: true, status: true },
     })
 
     if (!existing) {
@@ -90,6 +131,7 @@ export async function PATCH(
       )
     }
 
+    const actor = sessionActor(session.user)
     const body = await request.json()
     const {
       customerId,
@@ -99,9 +141,19 @@ export async function PATCH(
       terms,
       serviceTypeId,
       status,
+      paymentMethod,
       items,
     } = body
 
+    const parsedTaxRateId = invoiceTaxRateIdSchema.safeParse(body.taxRateId)
+    if (!parsedTaxRateId.success) {
+      return NextResponse.json(
+        { success: false, error: `taxRateId: ${formatZodError(parsedTaxRateId.error)}` },
+        { status: 400 }
+      )
+    }
+    const taxRateId = parsedTaxRateId.data
+
     // Build the update data
     const updateData: Record<string, unknown> = {}
 
@@ -136,59 +188,196 @@ export async function PATCH(
           { status: 400 }
         )
       }
-      updateData.status = status as InvoiceStatus
+      // PARTIALLY_PAID is derived from the payment ledger, never set by hand
+      if (status === "PARTIALLY_PAID") {
+        return NextResponse.json(
+          { success: false, error: "Record a payment to mark an invoice partially paid" },
+          { status: 400 }
+        )
+      }
 
-      // If marking as PAID, set amountPaid = total
+      // Marking as PAID settles the outstanding balance with a single payment
+      // so amountPaid stays derived from the ledger
       if (status === "PAID") {
-        const current = await prisma.invoice.findUnique({
+        if (existing.status === "CANCELLED") {
+          return NextResponse.json(
+            { success: false, error: "Cannot record payments on a CANCELLED invoice" },
+            { status: 400 }
+          )
+        }
+        const otherFields = Object.keys(body).filter(
+          (key) => key !== "status" && key !== "paymentMethod" && body[key] !== undefined
+        )
+        if (otherFields.length > 0) {
+          return NextResponse.json(
+            { success: false, error: "Mark an invoice paid on its own, then save other changes" },
+            { status: 400 }
+          )
+        }
+
+        const method =
+          paymentMethod && Object.values(PaymentMethod).includes(paymentMethod as PaymentMethod)
+            ? (paymentMethod as PaymentMethod)
+            : "OTHER"
+
+        const invoice = await prisma.$transaction(async (tx) => {
+          const current = await tx.invoice.findUniqueOrThrow({
+            where: { id: invoiceId },
+            select: { total: true, status: true, amountCredited: true },
+          })
+          if (current.status === "DRAFT") {
+            await tx.invoice.update({ where: { id: invoiceId }, data: { status: "SENT" } })
+            await recordInvoiceEvent(tx, {
+              invoiceId,
+              userId,
+              type: "STATUS_CHANGED",
+              data: { from: "DRAFT", to: "SENT" },
+              actor,
+            })
+          }
+
+          const [paid, refunded] = await Promise.all([
+            tx.invoicePayment.aggregate({ _sum: { amount: true }, where: { invoiceId } }),
+            tx.invoiceRefund.aggregate({ _sum: { amount: true }, where: { invoiceId } }),
+          ])
+          const outstanding = current.total
+            .sub(current.amountCredited)
+            .sub(paid._sum.amount ?? 0)
+            .add(refunded._sum.amount ?? 0)
+          if (outstanding.gt(0)) {
+            const payment = await tx.invoicePayment.create({
+              data: {
+                invoiceId,
+                date: new Date(),
+                amount: outstanding,
+                method,
+                userId,
+              },
+            })
+            await recordInvoiceEvent(tx, {
+              invoiceId,
+              userId,
+              type: "PAYMENT_RECORDED",
+              data: {
+                amount: Number(outstanding),
+                method,
+                date: payment.date.toISOString(),
+              },
+              actor,
+            })
+          }
+
+          await syncInvoicePaymentState(tx, invoiceId, actor)
+
+          return tx.invoice.findUnique({
+            where: { id: invoiceId },
+            include: {
+              customer: { select: { id: true, name: true } },
+              items: true,
+            },
+          })
+        })
+
+        return NextResponse.json({ success: true, data: invoice })
+      }
+
+      // A manual status change can't contradict the ledger: an invoice with
+      // ledger rows never returns to DRAFT, and one with money received can't
+      // be cancelled until it's refunded. A move to SENT is re-derived below.
+      if (status !== existing.status && (status === "DRAFT" || status === "CANCELLED")) {
+        const ledger = await prisma.invoice.findUniqueOrThrow({
           where: { id: invoiceId },
-          select: { total: true },
+          select: {
+            amountPaid: true,
+            _count: { select: { payments: true, credits: true, refunds: true } },
+          },
         })
-        if (current) {
-          updateData.amountPaid = current.total
+        const { payments, credits, refunds } = ledger._count
+        if (status === "DRAFT" && payments + credits + refunds > 0) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "An invoice with payments, credits or refunds can't go back to DRAFT",
+            },
+            { status: 400 }
+          )
+        }
+        if (status === "CANCELLED" && ledger.amountPaid.gt(0)) {
+          return NextResponse.json(
+            { success: false, error: "Refund the payments before cancelling this invoice" },
+            { status: 400 }
+          )
         }
       }
+
+      updateData.status = status as InvoiceStatus
     }
 
-    // If items are provided, replace them and recalculate totals
-    if (items !== undefined) {
-      if (!Array.isArray(items) || items.length === 0) {
+    // If items or the tax rate change, recalculate totals (replacing items
+    // only when a new list was sent)
+    if (items !== undefined || taxRateId !== undefined) {
+      if (items !== undefined && (!Array.isArray(items) || items.length === 0)) {
         return NextResponse.json(
           { success: false, error: "At least one item is required" },
           { status: 400 }
         )
       }
 
-      const calculatedItems = items.map(
-        (item: { description: string; serviceDate: string; quantity: number; rate: number; serviceLogId?: number }) => {
-          const quantity = new Prisma.Decimal(item.quantity)
-          const rate = new Prisma.Decimal(item.rate)
-          const amount = quantity.mul(rate)
-          return {
-            description: item.description.trim(),
-            serviceDate: new Date(item.serviceDate),
-            quantity,
-            rate,
-            amount,
-            serviceLogId: item.serviceLogId ? parseInt(String(item.serviceLogId), 10) : null,
-          }
+      const current = await prisma.invoice.findUniqueOrThrow({
+        where: { id: invoiceId },
+        select: {
+          taxRateId: true,
+          taxPercent: true,
+          items: { orderBy: { id: "asc" } },
+        },
+      })
+
+      // Resolve the tax rate: omitted keeps the invoice's snapshot, null removes tax
+      let taxRate: { id: number; percent: Prisma.Decimal } | null =
+        current.taxRateId !== null && current.taxPercent !== null
+          ? { id: current.taxRateId, percent: current.taxPercent }
+          : null
+      if (taxRateId !== undefined) {
+        taxRate = taxRateId
+          ? await prisma.taxRate.findFirst({
+              where: { id: taxRateId, userId },
+              select: { id: true, percent: true },
+            })
+          : null
+        if (taxRateId && !taxRate) {
+          return NextResponse.json(
+            { success: false, error: "Tax rate not found" },
+            { status: 400 }
+          )
         }
-      )
+      }
 
-      const subtotal = calculatedItems.reduce(
-        (sum: Prisma.Decimal, item: { amount: Prisma.Decimal }) => sum.add(item.amount),
-        new Prisma.Decimal(0)
+      const itemInputs: InvoiceItemInput[] =
+        items !== undefined
+          ? items
+          : current.items.map((item) => ({
+              description: item.description,
+              serviceDate: item.serviceDate.toISOString(),
+              quantity: Number(item.quantity),
+              rate: Number(item.rate),
+              taxable: item.taxable,
+              serviceLogId: item.serviceLogId ?? undefined,
+              isLateFee: item.isLateFee,
+            }))
+
+      const { items: calculatedItems, subtotal, tax, total } = calculateInvoiceTotals(
+        itemInputs,
+        taxRate?.percent ?? null
       )
-      const total = subtotal
 
       updateData.subtotal = subtotal
+      updateData.tax = tax
       updateData.total = total
+      updateData.taxRateId = taxRate?.id ?? null
+      updateData.taxPercent = taxRate?.percent ?? null
 
       const invoice = await prisma.$transaction(async (tx) => {
-        // Delete existing items
-        await tx.invoiceItem.deleteMany({
-          where: { invoiceId },
-        })
+        const before = await snapshotInvoice(tx, invoiceId)
 
         // Update invoice
         await tx.invoice.update({
@@ -196,18 +385,39 @@ export async function PATCH(
           data: updateData,
         })
 
-        // Create new items
-        await tx.invoiceItem.createMany({
-          data: calculatedItems.map((item) => ({
-            invoiceId,
-            description: item.description,
-            serviceDate: item.serviceDate,
-            quantity: item.quantity,
-            rate: item.rate,
-            amount: item.amount,
-            serviceLogId: item.serviceLogId,
-          })),
-        })
+        if (items !== undefined) {
+          // Replace existing items
+          await tx.invoiceItem.deleteMany({
+            where: { invoiceId },
+          })
+
+          await tx.invoiceItem.createMany({
+            data: calculatedItems.map((item) => ({
+              invoiceId,
+              description: item.description,
+              serviceDate: item.serviceDate,
+              quantity: item.quantity,
+              rate: item.rate,
+              amount: item.amount,
+              taxable: item.taxable,
+              serviceLogId: item.serviceLogId,
+              isLateFee: item.isLateFee,
+            })),
+          })
+        }
+
+        await recordEditEvents(
+          tx,
+          invoiceId,
+          userId,
+          actor,
+          before,
+          existing.status,
+          updateData.status as InvoiceStatus | undefined
+        )
+
+        // Totals changed — re-derive the paid status against the new total
+        await syncInvoicePaymentState(tx, invoiceId, actor)
 
         return tx.invoice.findUnique({
           where: { id: invoiceId },
@@ -222,13 +432,34 @@ export async function PATCH(
     }
 
     // No items replacement, just update fields
-    const invoice = await prisma.invoice.update({
-      where: { id: invoiceId },
-      data: updateData,
-      include: {
-        customer: { select: { id: true, name: true } },
-        items: true,
-      },
+    const invoice = await prisma.$transaction(async (tx) => {
+      const before = await snapshotInvoice(tx, invoiceId)
+      await tx.invoice.update({
+        where: { id: invoiceId },
+        data: updateData,
+      })
+      await recordEditEvents(
+        tx,
+        invoiceId,
+        userId,
+        actor,
+        before,
+        existing.status,
+        updateData.status as InvoiceStatus | undefined
+      )
+
+      // A status set by hand (e.g. back to SENT) is re-derived from the ledger
+      if (updateData.status !== undefined) {
+        await syncInvoicePaymentState(tx, invoiceId, actor)
+      }
+
+      return tx.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+          customer: { select: { id: true, name: true } },
+          items: true,
+        },
+      })
     })
 
     return NextResponse.json({ success: true, data: invoice })
@@ -257,7 +488,12 @@ export async function DELETE(
   try {
     const invoice = await prisma.invoice.findUnique({
       where: { id: invoiceId },
-      select: { id: true, userId: true, status: true },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        _count: { select: { payments: true, credits: true, refunds: true } },
+      },
     })
 
     if (!invoice) {
@@ -281,6 +517,15 @@ export async function DELETE(
       )
     }
 
+    // Deleting would cascade away the ledger rows and their audit trail
+    const { payments, credits, refunds } = invoice._count
+    if (payments + credits + refunds > 0) {
+      return NextResponse.json(
+        { success: false, error: "Cannot delete an invoice with payments, credits or refunds" },
+        { status: 400 }
+      )
+    }
+
     await prisma.invoice.delete({
       where: { id: invoiceId },
     })
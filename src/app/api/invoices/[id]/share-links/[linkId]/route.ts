@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+type RouteContext = { params: Promise<{ id: string; linkId: string }> }
+
+// DELETE /api/invoices/[id]/share-links/[linkId] — Revoke a link. The row is
+// kept so the view history stays visible.
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id, linkId } = await context.params
+  const invoiceId = parseInt(id, 10)
+  const shareLinkId = parseInt(linkId, 10)
+  if (isNaN(invoiceId) || isNaN(shareLinkId)) {
+    return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.invoiceShareLink.findFirst({
+      where: { id: shareLinkId, invoiceId, userId },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Share link not found" }, { status: 404 })
+    }
+
+    const link = existing.revokedAt
+      ? existing
+      : await prisma.invoiceShareLink.update({
+          where: { id: shareLinkId },
+          data: { revokedAt: new Date() },
+        })
+
+    return NextResponse.json({ success: true, data: link })
+  } catch (error) {
+    console.error("Failed to revoke share link:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to revoke share link" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateShareToken } from "@/lib/invoice-share-links"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+import { createShareLinkSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/invoices/[id]/share-links — All links ever created for the invoice
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const links = await prisma.invoiceShareLink.findMany({
+      where: { invoiceId, userId },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ success: true, data: links })
+  } catch (error) {
+    console.error("Failed to fetch share links:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch share links" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/share-links — Create a public link. Like emailing,
+// sharing a DRAFT invoice moves it to SENT.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createShareLinkSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, status: true },
+    })
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status === "CANCELLED") {
+      return NextResponse.json(
+        { success: false, error: "Cancelled invoices cannot be shared" },
+        { status: 400 }
+      )
+    }
+
+    const actor = sessionActor(session.user)
+    const link = await prisma.$transaction(async (tx) => {
+      const created = await tx.invoiceShareLink.create({
+        data: {
+          token: generateShareToken(),
+          invoiceId,
+          userId,
+          expiresAt: new Date(Date.now() + parsed.data.expiresInDays * DAY_MS),
+        },
+      })
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "SHARED",
+        data: { expiresAt: created.expiresAt.toISOString() },
+        actor,
+      })
+      if (invoice.status === "DRAFT") {
+        await tx.invoice.update({ where: { id: invoiceId }, data: { status: "SENT" } })
+        await recordInvoiceEvent(tx, {
+          invoiceId,
+          userId,
+          type: "STATUS_CHANGED",
+          data: { from: "DRAFT", to: "SENT", reason: "share" },
+          actor,
+        })
+      }
+      return created
+    })
+
+    return NextResponse.json({ success: true, data: link }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create share link:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create share link" },
+      { status: 500 }
+    )
+  }
+}
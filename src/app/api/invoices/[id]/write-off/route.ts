@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { writeOffInvoiceSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/[id]/write-off — Write off the outstanding balance as
+// bad debt. The invoice is settled; payments received so far are kept.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user!.id!
+  const { id } = await context.params
+  const invoiceId = parseInt(id, 10)
+
+  if (isNaN(invoiceId)) {
+    return NextResponse.json({ success: false, error: "Invalid invoice ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = writeOffInvoiceSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, status: true, total: true, amountPaid: true, amountCredited: true },
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: "Invoice not found" }, { status: 404 })
+    }
+
+    if (invoice.status !== "SENT" && invoice.status !== "PARTIALLY_PAID") {
+      return NextResponse.json(
+        { success: false, error: "Only unpaid sent invoices can be written off" },
+        { status: 400 }
+      )
+    }
+
+    const balance = invoice.total.sub(invoice.amountPaid).sub(invoice.amountCredited)
+    if (balance.lte(0)) {
+      return NextResponse.json(
+        { success: false, error: "Invoice has no outstanding balance" },
+        { status: 400 }
+      )
+    }
+
+    const { date, reason } = parsed.data
+    const actor = sessionActor(session.user)
+    const result = await prisma.$transaction(async (tx) => {
+      const credit = await tx.invoiceCredit.create({
+        data: {
+          invoiceId,
+          type: "WRITE_OFF",
+          date: new Date(date),
+          amount: balance,
+          reason: reason ?? null,
+          userId,
+        },
+      })
+
+      await recordInvoiceEvent(tx, {
+        invoiceId,
+        userId,
+        type: "CREDIT_ISSUED",
+        data: {
+          creditType: "WRITE_OFF",
+          creditNumber: null,
+          amount: Number(balance),
+          reason: reason ?? null,
+        },
+        actor,
+      })
+
+      const state = await syncInvoicePaymentState(tx, invoiceId, actor, "credit")
+      return { credit, ...state }
+    })
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to write off invoice:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to write off invoice" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { renderToBuffer } from "@react-pdf/renderer"
+import { auth } from "@/lib/auth"
+import { buildArAgingReport } from "@/lib/ar-aging"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { ArAgingPdf } from "@/components/invoices/pdf/ar-aging-pdf"
+
+export const runtime = "nodejs"
+
+// GET /api/invoices/aging/pdf — The AR aging report as a printable PDF
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const [report, company] = await Promise.all([
+      buildArAgingReport(session.user.id),
+      getCompanyLetterhead(),
+    ])
+
+    const pdf = await renderToBuffer(ArAgingPdf({ report, company }))
+    const date = report.asOf.split("T")[0]
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="ar-aging-${date}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render AR aging PDF:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to render AR aging PDF" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { buildArAgingReport, arAgingToCsv } from "@/lib/ar-aging"
+import { arAgingQuerySchema } from "@/lib/validations/invoices"
+import { searchParamsToObject, formatZodError } from "@/lib/validations/finances"
+
+// GET /api/invoices/aging[?format=csv]
+//
+// Open receivables per customer, bucketed by days past due, with the
+// underlying invoices and unbilled services for drill-down.
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const parsed = arAgingQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: formatZodError(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const report = await buildArAgingReport(userId)
+
+    if (parsed.data.format === "csv") {
+      const date = report.asOf.split("T")[0]
+      return new Response(arAgingToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="ar-aging-${date}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    console.error("Failed to build AR aging report:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to build AR aging report" },
+      { status: 500 }
+    )
+  }
+}
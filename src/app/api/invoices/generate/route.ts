@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { calculateInvoiceTotals } from "@/lib/invoice-totals"
+import { nextInvoiceNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+import { generateInvoicesSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+interface CustomerSummary {
+  customerId: number
+  customerName: string
+  serviceCount: number
+  total: number
+  invoiceId: number | null
+  invoiceNumber: string | null
+}
+
+// POST /api/invoices/generate — Bill every COMPLETE, unpaid service log that
+// is not on any invoice yet, one DRAFT invoice per customer. Logs already
+// marked paid are skipped and counted. Scoped by optional customer and
+// service-date range; `dryRun` returns the same summary without creating
+// anything. If a customer fails, the response is an error that still carries
+// the summary of the invoices created before it.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const actor = sessionActor(session.user)
+
+  try {
+    const body = await request.json()
+    const parsed = generateInvoicesSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customerId, dateFrom, dateTo, dryRun } = parsed.data
+
+    const where: Prisma.ServiceLogWhereInput = {
+      userId,
+      status: "COMPLETE",
+      invoiceItems: { none: {} },
+      ...(customerId && { customerId }),
+      ...((dateFrom || dateTo) && {
+        serviceDate: {
+          ...(dateFrom && { gte: new Date(dateFrom) }),
+          ...(dateTo && { lte: new Date(dateTo) }),
+        },
+      }),
+    }
+
+    const [logs, paidSkipped, defaultTaxRate] = await Promise.all([
+      prisma.serviceLog.findMany({
+        where: { ...where, paymentStatus: "UNPAID" },
+        orderBy: [{ customerId: "asc" }, { serviceDate: "asc" }],
+        include: {
+          customer: { select: { id: true, name: true } },
+          serviceType: { select: { name: true } },
+        },
+      }),
+      // Paid at the time of service; billing them would charge twice
+      prisma.serviceLog.count({ where: { ...where, paymentStatus: "PAID" } }),
+      prisma.taxRate.findFirst({ where: { userId, isDefault: true } }),
+    ])
+
+    const byCustomer = new Map<number, typeof logs>()
+    for (const log of logs) {
+      const group = byCustomer.get(log.customerId) ?? []
+      group.push(log)
+      byCustomer.set(log.customerId, group)
+    }
+
+    const totalsFor = (group: typeof logs) =>
+      calculateInvoiceTotals(
+        group.map((log) => ({
+          description: log.serviceType?.name ?? "Service",
+          serviceDate: log.serviceDate.toISOString(),
+          quantity: 1,
+          rate: Number(log.priceCharged),
+          taxable: defaultTaxRate !== null,
+          serviceLogId: log.id,
+        })),
+        defaultTaxRate?.percent ?? null
+      )
+
+    const summaries: CustomerSummary[] = []
+    let failed = false
+    for (const [groupCustomerId, group] of byCustomer) {
+      const summary: CustomerSummary = {
+        customerId: groupCustomerId,
+        customerName: group[0].customer.name,
+        serviceCount: group.length,
+        total: Number(totalsFor(group).total),
+        invoiceId: null,
+        invoiceNumber: null,
+      }
+
+      if (!dryRun) {
+        // Invoices are created one customer at a time; a failure part-way
+        // leaves the remaining services unbilled for the next run.
+        try {
+          const invoice = await prisma.$transaction(async (tx) => {
+            // Lock the logs and drop any billed or paid since they were read,
+            // so overlapping runs can't bill a service twice
+            const ids = group.map((log) => log.id)
+            await tx.$queryRaw`SELECT id FROM "ServiceLog" WHERE id IN (${Prisma.join(ids)}) FOR UPDATE`
+            const billable = new Set(
+              (
+                await tx.serviceLog.findMany({
+                  where: { ...where, id: { in: ids }, paymentStatus: "UNPAID" },
+                  select: { id: true },
+                })
+              ).map((log) => log.id)
+            )
+            const toBill = group.filter((log) => billable.has(log.id))
+            if (toBill.length === 0) return null
+
+            const totals = totalsFor(toBill)
+            const created = await tx.invoice.create({
+              data: {
+                invoiceNumber: await nextInvoiceNumber(tx, userId),
+                customerId: groupCustomerId,
+                issueDate: new Date(),
+                status: "DRAFT",
+                subtotal: totals.subtotal,
+                tax: totals.tax,
+                total: totals.total,
+                amountPaid: 0,
+                taxRateId: defaultTaxRate?.id ?? null,
+                taxPercent: defaultTaxRate?.percent ?? null,
+                userId,
+                items: {
+                  create: totals.items.map((item) => ({
+                    description: item.description,
+                    serviceDate: item.serviceDate,
+                    quantity: item.quantity,
+                    rate: item.rate,
+                    amount: item.amount,
+                    taxable: item.taxable,
+                    serviceLogId: item.serviceLogId,
+                  })),
+                },
+              },
+              select: { id: true, invoiceNumber: true },
+            })
+            await recordInvoiceEvent(tx, {
+              invoiceId: created.id,
+              userId,
+              type: "CREATED",
+              data: {
+                invoiceNumber: created.invoiceNumber,
+                total: Number(totals.total),
+                source: "bulk",
+              },
+              actor,
+            })
+            return { ...created, serviceCount: toBill.length, total: Number(totals.total) }
+          })
+          // Everything was billed by an overlapping run
+          if (!invoice) continue
+          summary.invoiceId = invoice.id
+          summary.invoiceNumber = invoice.invoiceNumber
+          summary.serviceCount = invoice.serviceCount
+          summary.total = invoice.total
+        } catch (error) {
+          console.error(`Failed to generate invoice for customer ${groupCustomerId}:`, error)
+          failed = true
+          break
+        }
+      }
+
+      summaries.push(summary)
+    }
+
+    const data = {
+      dryRun,
+      invoiceCount: summaries.length,
+      serviceCount: summaries.reduce((sum, s) => sum + s.serviceCount, 0),
+      paidSkipped,
+      total: Math.round(summaries.reduce((sum, s) => sum + s.total, 0) * 100) / 100,
+      customers: summaries,
+    }
+
+    if (failed) {
+      // The invoices already created stay; report them with the error
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            summaries.length > 0
+              ? `Failed part-way: ${summaries.length} invoice(s) were created, the remaining services are still unbilled`
+              : "Failed to generate invoices",
+          data,
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("Failed to generate invoices:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to generate invoices" },
+      { status: 500 }
+    )
+  }
+}
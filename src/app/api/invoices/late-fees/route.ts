@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { applyLateFees } from "@/lib/late-fees"
+import { sessionActor } from "@/lib/invoice-events"
+import { applyLateFeesSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+// POST /api/invoices/late-fees — Charge every late fee that has fallen due
+// (from the Invoices page; /api/cron/late-fees runs it on a schedule). Safe
+// to call repeatedly; pass { dryRun: true } to preview.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = applyLateFeesSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyLateFees(session.user.id, {
+      dryRun: parsed.data.dryRun,
+      actor: sessionActor(session.user),
+    })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to apply late fees:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to apply late fees" },
+      { status: 500 }
+    )
+  }
+}
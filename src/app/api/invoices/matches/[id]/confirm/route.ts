@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { guessPaymentMethod } from "@/lib/invoice-matching"
+import { syncInvoicePaymentState } from "@/lib/invoice-payments"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+import { confirmInvoiceMatchSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/matches/[id]/confirm — Accept a suggestion: record an
+// invoice payment linked to the deposit. The deposit's other suggestions are
+// dismissed, and so are the invoice's once it is fully paid.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const actor = sessionActor(session.user)
+  const { id } = await context.params
+  const matchId = parseInt(id, 10)
+  if (isNaN(matchId)) {
+    return NextResponse.json({ success: false, error: "Invalid match ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = confirmInvoiceMatchSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const match = await prisma.invoiceMatch.findFirst({
+      where: { id: matchId, userId, status: "SUGGESTED" },
+      include: {
+        bankTransaction: {
+          select: {
+            id: true,
+            date: true,
+            amount: true,
+            description: true,
+            _count: { select: { invoicePayments: true } },
+          },
+        },
+        invoice: {
+          select: { id: true, status: true, total: true, amountPaid: true, amountCredited: true },
+        },
+      },
+    })
+    if (!match) {
+      return NextResponse.json({ success: false, error: "Match not found" }, { status: 404 })
+    }
+
+    const { bankTransaction: deposit, invoice } = match
+    if (deposit._count.invoicePayments > 0) {
+      return NextResponse.json(
+        { success: false, error: "This deposit is already linked to an invoice payment" },
+        { status: 400 }
+      )
+    }
+    if (invoice.status !== "SENT" && invoice.status !== "PARTIALLY_PAID") {
+      return NextResponse.json(
+        { success: false, error: `Cannot record payments on a ${invoice.status} invoice` },
+        { status: 400 }
+      )
+    }
+
+    const balance =
+      Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid)
+    const amount = parsed.data.amount ?? Math.min(Number(deposit.amount), balance)
+    const method = parsed.data.method ?? guessPaymentMethod(deposit.description)
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the deposit and claim the match, so a double-click or a second
+      // suggestion for the same deposit can't record it twice
+      await tx.$queryRaw`SELECT id FROM "BankTransaction" WHERE id = ${deposit.id} FOR UPDATE`
+      if ((await tx.invoicePayment.count({ where: { bankTransactionId: deposit.id } })) > 0) {
+        return { error: "This deposit is already linked to an invoice payment" }
+      }
+      const resolvedAt = new Date()
+      const claimed = await tx.invoiceMatch.updateMany({
+        where: { id: matchId, status: "SUGGESTED" },
+        data: { status: "CONFIRMED", resolvedAt },
+      })
+      if (claimed.count === 0) {
+        return { error: "This suggestion has already been resolved" }
+      }
+
+      const payment = await tx.invoicePayment.create({
+        data: {
+          invoiceId: invoice.id,
+          date: deposit.date,
+          amount,
+          method,
+          bankTransactionId: deposit.id,
+          notes: "Matched from bank deposit",
+          userId,
+        },
+      })
+      await recordInvoiceEvent(tx, {
+        invoiceId: invoice.id,
+        userId,
+        type: "PAYMENT_RECORDED",
+        data: { amount, method, date: payment.date.toISOString() },
+        actor,
+      })
+      const state = await syncInvoicePaymentState(tx, invoice.id, actor)
+
+      await tx.invoiceMatch.updateMany({
+        where: {
+          status: "SUGGESTED",
+          OR: [
+            { bankTransactionId: deposit.id },
+            ...(state.status === "PAID" ? [{ invoiceId: invoice.id }] : []),
+          ],
+        },
+        data: { status: "DISMISSED", resolvedAt },
+      })
+
+      return { payment, ...state }
+    })
+
+    // Both checks run before anything is written
+    if ("error" in result) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to confirm invoice match:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to confirm invoice match" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/invoices/matches/[id]/dismiss — Reject a suggestion. The row is
+// kept so rescans don't suggest the same pair again.
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const matchId = parseInt(id, 10)
+  if (isNaN(matchId)) {
+    return NextResponse.json({ success: false, error: "Invalid match ID" }, { status: 400 })
+  }
+
+  try {
+    const result = await prisma.invoiceMatch.updateMany({
+      where: { id: matchId, userId, status: "SUGGESTED" },
+      data: { status: "DISMISSED", resolvedAt: new Date() },
+    })
+    if (result.count === 0) {
+      return NextResponse.json({ success: false, error: "Match not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: "Match dismissed" })
+  } catch (error) {
+    console.error("Failed to dismiss invoice match:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to dismiss invoice match" },
+      { status: 500 }
+    )
+  }
+}
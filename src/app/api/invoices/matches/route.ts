@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { suggestInvoiceMatches } from "@/lib/invoice-matching"
+import { scanInvoiceMatchesSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/invoices/matches — Review queue: unlinked deposits with their
+// suggested invoices, best match first. Suggestions whose invoice has since
+// been settled or whose deposit was linked some other way are left out.
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const matches = await prisma.invoiceMatch.findMany({
+      where: {
+        userId,
+        status: "SUGGESTED",
+        invoice: { status: { in: ["SENT", "PARTIALLY_PAID"] } },
+        bankTransaction: { invoicePayments: { none: {} } },
+      },
+      orderBy: [{ bankTransaction: { date: "desc" } }, { score: "desc" }],
+      include: {
+        bankTransaction: {
+          select: {
+            id: true,
+            date: true,
+            description: true,
+            merchantName: true,
+            amount: true,
+            account: { select: { name: true } },
+          },
+        },
+        invoice: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            issueDate: true,
+            total: true,
+            amountPaid: true,
+            amountCredited: true,
+            customer: { select: { id: true, name: true } },
+          },
+        },
+      },
+    })
+
+    const deposits = new Map<
+      number,
+      {
+        transaction: (typeof matches)[number]["bankTransaction"]
+        candidates: {
+          matchId: number
+          score: number
+          reasons: string[]
+          invoice: (typeof matches)[number]["invoice"] & { balance: number }
+        }[]
+      }
+    >()
+    for (const match of matches) {
+      const group = deposits.get(match.bankTransactionId) ?? {
+        transaction: match.bankTransaction,
+        candidates: [],
+      }
+      group.candidates.push({
+        matchId: match.id,
+        score: match.score,
+        reasons: match.reasons,
+        invoice: {
+          ...match.invoice,
+          balance:
+            Number(match.invoice.total) -
+            Number(match.invoice.amountCredited) -
+            Number(match.invoice.amountPaid),
+        },
+      })
+      deposits.set(match.bankTransactionId, group)
+    }
+
+    return NextResponse.json({ success: true, data: Array.from(deposits.values()) })
+  } catch (error) {
+    console.error("Failed to fetch invoice matches:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoice matches" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/matches — Rescan recent unlinked deposits, e.g. after
+// new invoices were sent for money that already arrived
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = scanInvoiceMatchesSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const deposits = await prisma.bankTransaction.findMany({
+      where: {
+        userId,
+        type: "INFLOW",
+        date: { gte: new Date(Date.now() - parsed.data.days * DAY_MS) },
+        invoicePayments: { none: {} },
+      },
+      select: { id: true },
+    })
+
+    const result = await suggestInvoiceMatches(userId, deposits.map((d) => d.id))
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to scan for invoice matches:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to scan for invoice matches" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { InvoiceStatus, Prisma } from "@/generated/prisma"
+import { InvoiceStatus } from "@/generated/prisma"
+import { calculateInvoiceTotals, type InvoiceItemInput } from "@/lib/invoice-totals"
+import { nextInvoiceNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, sessionActor } from "@/lib/invoice-events"
+import { invoiceTaxRateIdSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
 
 export async function GET(request: NextRequest) {
   const session = await auth()
@@ -48,6 +53,7 @@ export async function GET(request: NextRequest) {
         customer: {
           select: { id: true, name: true },
         },
+        taxRate: { select: { id: true, name: true } },
         items: true,
         _count: {
           select: { items: true },
@@ -100,61 +106,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate invoice number: INV-YYYY-NNNN
-    const currentYear = new Date().getFullYear()
-    const yearPrefix = `INV-${currentYear}-`
-
-    const lastInvoice = await prisma.invoice.findFirst({
-      where: {
-        invoiceNumber: { startsWith: yearPrefix },
-      },
-      orderBy: { invoiceNumber: "desc" },
-      select: { invoiceNumber: true },
-    })
-
-    let nextSequence = 1
-    if (lastInvoice) {
-      const lastSequence = parseInt(lastInvoice.invoiceNumber.split("-")[2], 10)
-      nextSequence = lastSequence + 1
+    const parsedTaxRateId = invoiceTaxRateIdSchema.safeParse(body.taxRateId)
+    if (!parsedTaxRateId.success) {
+      return NextResponse.json(
+        { success: false, error: `taxRateId: ${formatZodError(parsedTaxRateId.error)}` },
+        { status: 400 }
+      )
+    }
+    const taxRateId = parsedTaxRateId.data
+
+    // Resolve the tax rate: omitted = the user's default rate, null = untaxed
+    const taxRate =
+      taxRateId === undefined
+        ? await prisma.taxRate.findFirst({ where: { userId, isDefault: true } })
+        : taxRateId === null
+          ? null
+          : await prisma.taxRate.findFirst({
+              where: { id: taxRateId, userId },
+            })
+
+    if (taxRateId && !taxRate) {
+      return NextResponse.json(
+        { success: false, error: "Tax rate not found" },
+        { status: 400 }
+      )
     }
 
-    const invoiceNumber = `${yearPrefix}${String(nextSequence).padStart(4, "0")}`
-
-    // Calculate item amounts and totals
-    const calculatedItems = items.map(
-      (item: { description: string; serviceDate: string; quantity: number; rate: number; serviceLogId?: number }) => {
-        const quantity = new Prisma.Decimal(item.quantity)
-        const rate = new Prisma.Decimal(item.rate)
-        const amount = quantity.mul(rate)
-        return {
-          description: item.description.trim(),
-          serviceDate: new Date(item.serviceDate),
-          quantity,
-          rate,
-          amount,
-          serviceLogId: item.serviceLogId ? parseInt(String(item.serviceLogId), 10) : null,
-        }
-      }
-    )
-
-    const subtotal = calculatedItems.reduce(
-      (sum: Prisma.Decimal, item: { amount: Prisma.Decimal }) => sum.add(item.amount),
-      new Prisma.Decimal(0)
+    const { items: calculatedItems, subtotal, tax, total } = calculateInvoiceTotals(
+      items as InvoiceItemInput[],
+      taxRate?.percent ?? null
     )
-    const total = subtotal // No tax for now
 
     // Create invoice and items in a transaction
     const invoice = await prisma.$transaction(async (tx) => {
       const created = await tx.invoice.create({
         data: {
-          invoiceNumber,
+          invoiceNumber: await nextInvoiceNumber(tx, userId),
           customerId: parseInt(String(customerId), 10),
           issueDate: new Date(issueDate),
           dueDate: dueDate ? new Date(dueDate) : null,
           status: "DRAFT",
           subtotal,
+          tax,
           total,
           amountPaid: 0,
+          taxRateId: taxRate?.id ?? null,
+          taxPercent: taxRate?.percent ?? null,
           notes: notes?.trim() || null,
           terms: terms?.trim() || null,
           serviceTypeId: serviceTypeId ? parseInt(String(serviceTypeId), 10) : null,
@@ -170,10 +167,19 @@ export async function POST(request: NextRequest) {
           quantity: item.quantity,
           rate: item.rate,
           amount: item.amount,
+          taxable: item.taxable,
           serviceLogId: item.serviceLogId,
         })),
       })
 
+      await recordInvoiceEvent(tx, {
+        invoiceId: created.id,
+        userId,
+        type: "CREATED",
+        data: { invoiceNumber: created.invoiceNumber, total: Number(total), source: "manual" },
+        actor: sessionActor(session.user!),
+      })
+
       return tx.invoice.findUnique({
         where: { id: created.id },
         include: {
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import type { Prisma } from "@/generated/prisma"
+import { scheduleInclude, withUpcomingRuns } from "@/lib/invoice-schedules"
+import { updateInvoiceScheduleSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/invoices/schedules/[id]
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const scheduleId = parseInt(id, 10)
+  if (isNaN(scheduleId)) {
+    return NextResponse.json({ success: false, error: "Invalid schedule ID" }, { status: 400 })
+  }
+
+  try {
+    const schedule = await prisma.invoiceSchedule.findFirst({
+      where: { id: scheduleId, userId: session.user.id },
+      include: scheduleInclude,
+    })
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: "Schedule not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: withUpcomingRuns(schedule) })
+  } catch (error) {
+    console.error("Failed to fetch invoice schedule:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoice schedule" },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/invoices/schedules/[id] — Edit the template, pause/resume, or
+// move the next run. Invoices already generated are not touched.
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const scheduleId = parseInt(id, 10)
+  if (isNaN(scheduleId)) {
+    return NextResponse.json({ success: false, error: "Invalid schedule ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = updateInvoiceScheduleSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.invoiceSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      select: { id: true, nextRunDate: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Schedule not found" }, { status: 404 })
+    }
+
+    const { customerId, taxRateId, items, nextRunDate, endDate, ...fields } = parsed.data
+
+    if (customerId !== undefined) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: customerId, userId },
+        select: { id: true },
+      })
+      if (!customer) {
+        return NextResponse.json(
+          { success: false, error: "Customer not found" },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (taxRateId) {
+      const taxRate = await prisma.taxRate.findFirst({ where: { id: taxRateId, userId } })
+      if (!taxRate) {
+        return NextResponse.json(
+          { success: false, error: "Tax rate not found" },
+          { status: 400 }
+        )
+      }
+    }
+
+    const runDate = nextRunDate ? new Date(nextRunDate) : existing.nextRunDate
+    if (endDate && new Date(endDate) < runDate) {
+      return NextResponse.json(
+        { success: false, error: "End date must be on or after the next run date" },
+        { status: 400 }
+      )
+    }
+
+    const updateData: Prisma.InvoiceScheduleUncheckedUpdateInput = { ...fields }
+    if (customerId !== undefined) updateData.customerId = customerId
+    if (taxRateId !== undefined) updateData.taxRateId = taxRateId
+    if (endDate !== undefined) updateData.endDate = endDate ? new Date(endDate) : null
+    if (nextRunDate !== undefined) {
+      updateData.nextRunDate = runDate
+      updateData.startDate = runDate
+    }
+
+    const schedule = await prisma.$transaction(async (tx) => {
+      if (items !== undefined) {
+        await tx.invoiceScheduleItem.deleteMany({ where: { scheduleId } })
+        await tx.invoiceScheduleItem.createMany({
+          data: items.map((item) => ({ ...item, scheduleId })),
+        })
+      }
+
+      return tx.invoiceSchedule.update({
+        where: { id: scheduleId },
+        data: updateData,
+        include: scheduleInclude,
+      })
+    })
+
+    return NextResponse.json({ success: true, data: withUpcomingRuns(schedule) })
+  } catch (error) {
+    console.error("Failed to update invoice schedule:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update invoice schedule" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/invoices/schedules/[id] — Generated invoices are kept and
+// simply lose their link to the schedule
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const scheduleId = parseInt(id, 10)
+  if (isNaN(scheduleId)) {
+    return NextResponse.json({ success: false, error: "Invalid schedule ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.invoiceSchedule.findFirst({
+      where: { id: scheduleId, userId: session.user.id },
+      select: { id: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Schedule not found" }, { status: 404 })
+    }
+
+    await prisma.invoiceSchedule.delete({ where: { id: scheduleId } })
+
+    return NextResponse.json({ success: true, message: "Schedule deleted" })
+  } catch (error) {
+    console.error("Failed to delete invoice schedule:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete invoice schedule" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { scheduleInclude, withUpcomingRuns } from "@/lib/invoice-schedules"
+import { createInvoiceScheduleSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/invoices/schedules — List recurring schedules with their next
+// runs and recently generated invoices
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const schedules = await prisma.invoiceSchedule.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ isActive: "desc" }, { nextRunDate: "asc" }],
+      include: scheduleInclude,
+    })
+
+    return NextResponse.json({ success: true, data: schedules.map(withUpcomingRuns) })
+  } catch (error) {
+    console.error("Failed to fetch invoice schedules:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoice schedules" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/schedules — Create a schedule; the first run is on startDate
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = createInvoiceScheduleSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const { customerId, startDate, endDate, taxRateId, items, ...fields } = parsed.data
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, userId },
+      select: { id: true },
+    })
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: "Customer not found" },
+        { status: 400 }
+      )
+    }
+
+    const taxRate =
+      taxRateId === undefined
+        ? await prisma.taxRate.findFirst({ where: { userId, isDefault: true } })
+        : taxRateId === null
+          ? null
+          : await prisma.taxRate.findFirst({ where: { id: taxRateId, userId } })
+
+    if (taxRateId && !taxRate) {
+      return NextResponse.json(
+        { success: false, error: "Tax rate not found" },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await prisma.invoiceSchedule.create({
+      data: {
+        name: fields.name,
+        customerId,
+        frequency: fields.frequency,
+        startDate: new Date(startDate),
+        nextRunDate: new Date(startDate),
+        endDate: endDate ? new Date(endDate) : null,
+        dueDays: fields.dueDays ?? null,
+        taxRateId: taxRate?.id ?? null,
+        notes: fields.notes ?? null,
+        terms: fields.terms ?? null,
+        autoSend: fields.autoSend,
+        userId,
+        items: { create: items },
+      },
+      include: scheduleInclude,
+    })
+
+    return NextResponse.json({ success: true, data: withUpcomingRuns(schedule) }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create invoice schedule:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create invoice schedule" },
+      { status: 500 }
+    )
+  }
+}
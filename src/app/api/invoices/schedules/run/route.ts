@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { runDueSchedules } from "@/lib/invoice-schedules"
+import { sessionActor } from "@/lib/invoice-events"
+import { runInvoiceSchedulesSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+export const runtime = "nodejs"
+
+// POST /api/invoices/schedules/run — Generate every invoice that has fallen
+// due on the recurring schedules ("Run Due Now"; /api/cron/invoice-schedules
+// runs it daily). Each period is billed once no matter how often it's called.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = runInvoiceSchedulesSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const result = await runDueSchedules(session.user.id, {
+      scheduleId: parsed.data.scheduleId ?? undefined,
+      actor: sessionActor(session.user),
+    })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Failed to run invoice schedules:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to run invoice schedules" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { taxReportQuerySchema } from "@/lib/validations/invoices"
+import { searchParamsToObject, formatZodError } from "@/lib/validations/finances"
+
+type GroupBy = "month" | "quarter" | "year"
+
+interface PeriodRow {
+  period: string
+  taxRate: string
+  taxPercent: number
+  invoiceCount: number
+  taxableSales: number
+  taxBilled: number
+  taxCollected: number
+}
+
+function periodKey(date: Date, groupBy: GroupBy): string {
+  const year = date.getFullYear()
+  if (groupBy === "year") return String(year)
+  if (groupBy === "quarter") return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`
+  return `${year}-${String(date.getMonth() + 1).padStart(2, "0")}`
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+// GET /api/invoices/tax-report?dateFrom=&dateTo=&groupBy=month|quarter|year
+//
+// Sales tax per period and rate, for filing. "Billed" is accrual basis (by
+// invoice issue date); "collected" is cash basis — each payment contributes
+// its proportional share of the invoice's tax on the payment date.
+export async function GET(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const parsed = taxReportQuerySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: formatZodError(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  const { dateFrom, dateTo, groupBy } = parsed.data
+  const dateRange = {
+    ...(dateFrom && { gte: new Date(dateFrom) }),
+    ...(dateTo && { lte: new Date(dateTo) }),
+  }
+
+  try {
+    const [invoices, payments] = await Promise.all([
+      prisma.invoice.findMany({
+        where: {
+          userId,
+          status: { notIn: ["DRAFT", "CANCELLED"] },
+          taxPercent: { not: null },
+          ...(dateFrom || dateTo ? { issueDate: dateRange } : {}),
+        },
+        select: {
+          issueDate: true,
+          tax: true,
+          taxPercent: true,
+          taxRate: { select: { name: true } },
+          items: { where: { taxable: true }, select: { amount: true } },
+        },
+      }),
+      prisma.invoicePayment.findMany({
+        where: {
+          userId,
+          invoice: {
+            status: { notIn: ["DRAFT", "CANCELLED"] },
+            tax: { gt: 0 },
+          },
+          ...(dateFrom || dateTo ? { date: dateRange } : {}),
+        },
+        select: {
+          date: true,
+          amount: true,
+          invoice: {
+            select: {
+              tax: true,
+              total: true,
+              taxPercent: true,
+              taxRate: { select: { name: true } },
+            },
+          },
+        },
+      }),
+    ])
+
+    const rows = new Map<string, PeriodRow>()
+    function rowFor(period: string, taxRate: string, taxPercent: number): PeriodRow {
+      const key = `${period}|${taxRate}|${taxPercent}`
+      let row = rows.get(key)
+      if (!row) {
+        row = {
+          period,
+          taxRate,
+          taxPercent,
+          invoiceCount: 0,
+          taxableSales: 0,
+          taxBilled: 0,
+          taxCollected: 0,
+        }
+        rows.set(key, row)
+      }
+      return row
+    }
+
+    for (const inv of invoices) {
+      const row = rowFor(
+        periodKey(inv.issueDate, groupBy),
+        inv.taxRate?.name ?? "Sales Tax",
+        Number(inv.taxPercent)
+      )
+      row.invoiceCount += 1
+      row.taxableSales += inv.items.reduce((sum, item) => sum + Number(item.amount), 0)
+      row.taxBilled += Number(inv.tax)
+    }
+
+    for (const payment of payments) {
+      const total = Number(payment.invoice.total)
+      if (total <= 0) continue
+      const row = rowFor(
+        periodKey(payment.date, groupBy),
+        payment.invoice.taxRate?.name ?? "Sales Tax",
+        Number(payment.invoice.taxPercent)
+      )
+      row.taxCollected += Number(payment.amount) * (Number(payment.invoice.tax) / total)
+    }
+
+    const periods = Array.from(rows.values())
+      .map((row) => ({
+        ...row,
+        taxableSales: round2(row.taxableSales),
+        taxBilled: round2(row.taxBilled),
+        taxCollected: round2(row.taxCollected),
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period) || a.taxRate.localeCompare(b.taxRate))
+
+    const totals = periods.reduce(
+      (acc, row) => ({
+        taxableSales: round2(acc.taxableSales + row.taxableSales),
+        taxBilled: round2(acc.taxBilled + row.taxBilled),
+        taxCollected: round2(acc.taxCollected + row.taxCollected),
+      }),
+      { taxableSales: 0, taxBilled: 0, taxCollected: 0 }
+    )
+
+    return NextResponse.json({ success: true, data: { groupBy, periods, totals } })
+  } catch (error) {
+    console.error("Failed to build tax report:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to build tax report" },
+      { status: 500 }
+    )
+  }
+}
@@ -4,6 +4,8 @@ import { prisma } from "@/lib/prisma"
 
 type RouteContext = { params: Promise<{ id: string; customerId: string }> }
 
+// DELETE /api/routes/[id]/customers/[customerId] — Remove the customer's stop
+// at their own address, or with ?propertyId= the stop at that property
 export async function DELETE(request: NextRequest, context: RouteContext) {
   const session = await auth()
   if (!session?.user?.id) {
@@ -14,7 +16,10 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   const routeId = parseInt(id, 10)
   const customerId = parseInt(customerIdStr, 10)
 
-  if (isNaN(routeId) || isNaN(customerId)) {
+  const propertyIdParam = request.nextUrl.searchParams.get("propertyId")
+  const propertyId = propertyIdParam ? parseInt(propertyIdParam, 10) : null
+
+  if (isNaN(routeId) || isNaN(customerId) || Number.isNaN(propertyId)) {
     return NextResponse.json({ success: false, error: "Invalid ID" }, { status: 400 })
   }
 
@@ -27,8 +32,8 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ success: false, error: "Route not found" }, { status: 404 })
     }
 
-    const routeCustomer = await prisma.routeCustomer.findUnique({
-      where: { routeId_customerId: { routeId, customerId } },
+    const routeCustomer = await prisma.routeCustomer.findFirst({
+      where: { routeId, customerId, propertyId },
     })
 
     if (!routeCustomer) {
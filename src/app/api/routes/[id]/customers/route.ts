@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { propertySelect, resolvePropertyId } from "@/lib/properties"
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -27,7 +28,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
     }
 
     const body = await request.json()
-    const { customerId } = body
+    const { customerId, propertyId: rawPropertyId } = body
 
     if (!customerId) {
       return NextResponse.json(
@@ -47,44 +48,73 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
-    const existing = await prisma.routeCustomer.findUnique({
-      where: { routeId_customerId: { routeId, customerId } },
-    })
-
-    if (existing) {
+    if (customer.archivedAt) {
       return NextResponse.json(
-        { success: false, error: "Customer is already in this route" },
+        { success: false, error: "Restore this customer before adding them to a route" },
         { status: 400 }
       )
     }
 
-    const maxPosition = await prisma.routeCustomer.aggregate({
-      where: { routeId },
-      _max: { position: true },
-    })
+    const propertyId = await resolvePropertyId(customerId, rawPropertyId)
+    if (propertyId === false) {
+      return NextResponse.json(
+        { success: false, error: "Property not found for this customer" },
+        { status: 400 }
+      )
+    }
 
-    const nextPosition = (maxPosition._max.position ?? -1) + 1
-
-    const routeCustomer = await prisma.routeCustomer.create({
-      data: {
-        routeId,
-        customerId,
-        position: nextPosition,
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            name: true,
-            phone: true,
-            address: true,
-            email: true,
-            isVip: true,
+    const routeCustomer = await prisma.$transaction(async (tx) => {
+      // The unique index treats a null propertyId as distinct, so lock the
+      // route and check here; concurrent adds then wait and see this stop
+      await tx.$queryRaw`SELECT id FROM "Route" WHERE id = ${routeId} FOR UPDATE`
+
+      const existing = await tx.routeCustomer.findFirst({
+        where: { routeId, customerId, propertyId },
+      })
+      if (existing) return null
+
+      const maxPosition = await tx.routeCustomer.aggregate({
+        where: { routeId },
+        _max: { position: true },
+      })
+
+      const nextPosition = (maxPosition._max.position ?? -1) + 1
+
+      return tx.routeCustomer.create({
+        data: {
+          routeId,
+          customerId,
+          propertyId,
+          position: nextPosition,
+        },
+        include: {
+          customer: {
+            select: {
+              id: true,
+              name: true,
+              phone: true,
+              address: true,
+              email: true,
+              isVip: true,
+            },
           },
+          property: { select: propertySelect },
         },
-      },
+      })
     })
 
+    if (!routeCustomer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: propertyId
+            ? "This property is already in this route"
+            : "Customer is already in this route",
+        },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json({ success: true, data: routeCustomer }, { status: 201 })
   } catch (error) {
     console.error("Failed to add customer to route:", error)
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getSegmentCustomerIds } from "@/lib/customer-segments"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/routes/[id]/customers/segment — Append a stop at the customer's
+// own address for every customer in a saved segment who isn't on the route yet
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const routeId = parseInt(id, 10)
+
+  if (isNaN(routeId)) {
+    return NextResponse.json({ success: false, error: "Invalid route ID" }, { status: 400 })
+  }
+
+  try {
+    const route = await prisma.route.findFirst({
+      where: { id: routeId, userId: session.user.id },
+    })
+
+    if (!route) {
+      return NextResponse.json({ success: false, error: "Route not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const segmentId = parseInt(String(body.segmentId), 10)
+    if (isNaN(segmentId)) {
+      return NextResponse.json(
+        { success: false, error: "Segment ID is required" },
+        { status: 400 }
+      )
+    }
+
+    const customerIds = await getSegmentCustomerIds(session.user.id, segmentId)
+    if (!customerIds) {
+      return NextResponse.json({ success: false, error: "Segment not found" }, { status: 404 })
+    }
+
+    const toAdd = await prisma.$transaction(async (tx) => {
+      // Own-address stops aren't covered by the unique index (null
+      // propertyId), so lock the route while checking for them
+      await tx.$queryRaw`SELECT id FROM "Route" WHERE id = ${routeId} FOR UPDATE`
+
+      const onRoute = new Set(
+        (
+          await tx.routeCustomer.findMany({
+            where: { routeId, propertyId: null },
+            select: { customerId: true },
+          })
+        ).map((rc) => rc.customerId)
+      )
+      const newIds = customerIds.filter((customerId) => !onRoute.has(customerId))
+
+      const maxPosition = await tx.routeCustomer.aggregate({
+        where: { routeId },
+        _max: { position: true },
+      })
+      const start = (maxPosition._max.position ?? -1) + 1
+
+      await tx.routeCustomer.createMany({
+        data: newIds.map((customerId, i) => ({ routeId, customerId, position: start + i })),
+      })
+      return newIds
+    })
+
+    return NextResponse.json(
+      { success: true, data: { added: toAdd.length, skipped: customerIds.length - toAdd.length } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Failed to add segment to route:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to add segment to route" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { propertySelect } from "@/lib/properties"
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -24,7 +25,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
         userId: session.user.id,
       },
       include: {
+        // Archived customers keep their stops, hidden until restored
         customers: {
+          where: { customer: { archivedAt: null } },
           orderBy: { position: "asc" },
           include: {
             customer: {
@@ -37,6 +40,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
                 isVip: true,
               },
             },
+            property: { select: propertySelect },
           },
         },
       },
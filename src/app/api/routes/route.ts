@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { priceLocationKey, resolvePrices } from "@/lib/price-book"
 
 export async function GET(request: NextRequest) {
   const session = await auth()
@@ -28,39 +29,38 @@ export async function GET(request: NextRequest) {
       where,
       orderBy: { name: "asc" },
       include: {
+        // Archived customers keep their stops, hidden until restored
         _count: {
-          select: { customers: true },
+          select: { customers: { where: { customer: { archivedAt: null } } } },
         },
         customers: {
+          where: { customer: { archivedAt: null } },
           orderBy: { position: "asc" },
           select: {
-            customer: {
-              select: {
-                name: true,
-                serviceLogs: {
-                  select: { priceCharged: true },
-                },
-              },
-            },
+            customerId: true,
+            propertyId: true,
+            customer: { select: { name: true } },
+            property: { select: { label: true, address: true } },
           },
         },
       },
     })
 
+    // Each stop is worth today's price for the service last done there
+    const prices = await resolvePrices(routes.flatMap((route) => route.customers))
+
     const data = routes.map(({ customers, ...route }) => {
       let estimatedRevenue = 0
       for (const rc of customers) {
-        const logs = rc.customer.serviceLogs
-        if (logs.length > 0) {
-          const avg =
-            logs.reduce((sum, l) => sum + Number(l.priceCharged), 0) /
-            logs.length
-          estimatedRevenue += avg
-        }
+        estimatedRevenue += prices.get(priceLocationKey(rc.customerId, rc.propertyId))?.price ?? 0
       }
       return {
         ...route,
-        customerNames: customers.map((rc) => rc.customer.name),
+        customerNames: customers.map((rc) =>
+          rc.property
+            ? `${rc.customer.name} (${rc.property.label ?? rc.property.address})`
+            : rc.customer.name
+        ),
         estimatedRevenue: Math.round(estimatedRevenue * 100) / 100,
       }
     })
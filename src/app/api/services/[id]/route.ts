@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { PaymentMethod } from "@/generated/prisma"
+import { resolvePropertyId } from "@/lib/properties"
 
 type RouteContext = { params: Promise<{ id: string }> }
 
@@ -29,6 +30,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
       },
       include: {
         customer: true,
+        property: true,
         serviceType: true,
         timeEntries: {
           orderBy: { date: "asc" },
@@ -88,6 +90,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     const body = await request.json()
     const {
       customerId,
+      propertyId: rawPropertyId,
       serviceDate,
       priceCharged,
       notes,
@@ -100,6 +103,22 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       timeEntries,
     } = body
 
+    // Moving the log to another customer drops a property that isn't theirs
+    const targetCustomerId =
+      customerId !== undefined ? parseInt(String(customerId), 10) : existing.customerId
+    const propertyId =
+      rawPropertyId !== undefined
+        ? await resolvePropertyId(targetCustomerId, rawPropertyId)
+        : targetCustomerId !== existing.customerId
+          ? null
+          : undefined
+    if (propertyId === false) {
+      return NextResponse.json(
+        { success: false, error: "Property not found for this customer" },
+        { status: 400 }
+      )
+    }
+
     const paymentMethodProvided = paymentMethod !== undefined
     const normalizedPaymentMethod =
       paymentMethod &&
@@ -141,6 +160,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         where: { id: serviceLogId },
         data: {
           ...(customerId !== undefined && { customerId: parseInt(String(customerId), 10) }),
+          ...(propertyId !== undefined && { propertyId }),
           ...(serviceDate !== undefined && { serviceDate: new Date(serviceDate) }),
           ...(priceCharged !== undefined && { priceCharged }),
           ...(notes !== undefined && { notes: notes?.trim() || null }),
@@ -163,6 +183,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         },
         include: {
           customer: { select: { id: true, name: true } },
+          property: { select: { id: true, label: true, address: true } },
           serviceType: { select: { id: true, name: true, icon: true } },
           timeEntries: {
             orderBy: { date: "asc" },
@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { ServiceStatus, PaymentStatus, PaymentMethod } from "@/generated/prisma"
 import { computeDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation, resolvePropertyId } from "@/lib/properties"
 
 export async function GET(request: NextRequest) {
   const session = await auth()
@@ -70,13 +71,11 @@ export async function GET(request: NextRequest) {
             id: true,
             name: true,
             serviceInterval: true,
-            serviceLogs: {
-              orderBy: { serviceDate: "desc" as const },
-              take: 1,
-              select: { serviceDate: true },
-            },
           },
         },
+        property: {
+          select: { id: true, label: true, address: true, serviceInterval: true },
+        },
         serviceType: {
           select: { id: true, name: true, icon: true },
         },
@@ -87,9 +86,18 @@ export async function GET(request: NextRequest) {
       },
     })
 
+    const lastServiceDates = await lastServiceDatesByLocation([
+      ...new Set(serviceLogs.map((log) => log.customerId)),
+    ])
+
+    // Due date of the location the log was at: its property, or the
+    // customer's own address
     const data = serviceLogs.map((log) => {
-      const { serviceLogs: custLogs, serviceInterval, ...custRest } = log.customer
-      const dueInfo = computeDueDateInfo(custLogs[0]?.serviceDate, serviceInterval)
+      const { serviceInterval, ...custRest } = log.customer
+      const dueInfo = computeDueDateInfo(
+        lastServiceDates.get(log.customerId)?.get(log.propertyId),
+        log.property?.serviceInterval ?? serviceInterval
+      )
       const serviceName = log.serviceType?.name ?? "Service"
       const amountPaid = log.paymentStatus === "PAID" ? Number(log.priceCharged) : 0
       return {
@@ -120,6 +128,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const {
       customerId,
+      propertyId: rawPropertyId,
       serviceDate,
       priceCharged,
       notes,
@@ -139,6 +148,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const propertyId = await resolvePropertyId(parseInt(String(customerId), 10), rawPropertyId)
+    if (propertyId === false) {
+      return NextResponse.json(
+        { success: false, error: "Property not found for this customer" },
+        { status: 400 }
+      )
+    }
+
     const normalizedPaymentMethod =
       paymentMethod &&
       Object.values(PaymentMethod).includes(paymentMethod as PaymentMethod)
@@ -158,6 +175,7 @@ export async function POST(request: NextRequest) {
       const created = await tx.serviceLog.create({
         data: {
           customerId: parseInt(String(customerId), 10),
+          propertyId,
           serviceDate: new Date(serviceDate),
           priceCharged,
           notes: notes?.trim() || null,
@@ -189,6 +207,7 @@ export async function POST(request: NextRequest) {
         where: { id: created.id },
         include: {
           customer: { select: { id: true, name: true } },
+          property: { select: { id: true, label: true, address: true } },
           serviceType: { select: { id: true, name: true, icon: true } },
           timeEntries: true,
         },
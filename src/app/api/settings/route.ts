@@ -1,6 +1,21 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { DEFAULT_INVOICE_NUMBER_FORMAT } from "@/lib/invoice-number-format"
+import { encrypt } from "@/lib/encryption"
+import { invoiceNumberingSchema, lateFeeSettingsSchema } from "@/lib/validations/invoices"
+import { smtpSettingsSchema } from "@/lib/validations/email"
+import { formatZodError } from "@/lib/validations/finances"
+import type { Settings } from "@/generated/prisma"
+
+// The SMTP password never leaves the server; clients only learn whether one is set
+function toResponse({ smtpPassword, ...settings }: Settings) {
+  return { ...settings, smtpPasswordSet: !!smtpPassword }
+}
+
+function withoutUndefined<T extends Record<string, unknown>>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>
+}
 
 export async function GET() {
   const session = await auth()
@@ -29,13 +44,31 @@ export async function GET() {
           companyEmail: null,
           companyWebsite: null,
           assistantInstructions: null,
+          invoiceNumberPrefix: DEFAULT_INVOICE_NUMBER_FORMAT.prefix,
+          invoiceNumberYearly: DEFAULT_INVOICE_NUMBER_FORMAT.yearly,
+          invoiceNumberPadding: DEFAULT_INVOICE_NUMBER_FORMAT.padding,
+          invoiceNumberStart: DEFAULT_INVOICE_NUMBER_FORMAT.start,
+          smtpHost: null,
+          smtpPort: null,
+          smtpSecure: false,
+          smtpUser: null,
+          smtpPasswordSet: false,
+          smtpFromEmail: null,
+          smtpFromName: null,
+          lateFeeEnabled: false,
+          lateFeeType: "FLAT",
+          lateFeeAmount: 0,
+          lateFeeGraceDays: 0,
+          lateFeeCompounds: false,
+          lateFeeExemptVip: true,
+          nominatimUrl: null,
           createdAt: null,
           updatedAt: null,
         },
       })
     }
 
-    return NextResponse.json({ success: true, data: settings })
+    return NextResponse.json({ success: true, data: toResponse(settings) })
   } catch (error) {
     console.error("Failed to fetch settings:", error)
     return NextResponse.json(
@@ -69,6 +102,7 @@ export async function PATCH(request: NextRequest) {
       "ollamaUrl",
       "ollamaModel",
       "assistantInstructions",
+      "nominatimUrl",
     ]
 
     // Filter to only allowed fields
@@ -79,7 +113,63 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    if (Object.keys(updateData).length === 0) {
+    // Numbering fields are typed, so they go through the schema
+    const numbering = invoiceNumberingSchema.safeParse({
+      invoiceNumberPrefix: body.invoiceNumberPrefix,
+      invoiceNumberYearly: body.invoiceNumberYearly,
+      invoiceNumberPadding: body.invoiceNumberPadding,
+      invoiceNumberStart: body.invoiceNumberStart,
+    })
+    if (!numbering.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(numbering.error) },
+        { status: 400 }
+      )
+    }
+
+    const smtp = smtpSettingsSchema.safeParse({
+      smtpHost: body.smtpHost,
+      smtpPort: body.smtpPort,
+      smtpSecure: body.smtpSecure,
+      smtpUser: body.smtpUser,
+      smtpPassword: body.smtpPassword,
+      smtpFromEmail: body.smtpFromEmail,
+      smtpFromName: body.smtpFromName,
+    })
+    if (!smtp.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(smtp.error) },
+        { status: 400 }
+      )
+    }
+    const { smtpPassword, ...smtpData } = smtp.data
+
+    const lateFees = lateFeeSettingsSchema.safeParse({
+      lateFeeEnabled: body.lateFeeEnabled,
+      lateFeeType: body.lateFeeType,
+      lateFeeAmount: body.lateFeeAmount,
+      lateFeeGraceDays: body.lateFeeGraceDays,
+      lateFeeCompounds: body.lateFeeCompounds,
+      lateFeeExemptVip: body.lateFeeExemptVip,
+    })
+    if (!lateFees.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(lateFees.error) },
+        { status: 400 }
+      )
+    }
+
+    const data = {
+      ...updateData,
+      ...withoutUndefined(numbering.data),
+      ...withoutUndefined(smtpData),
+      ...withoutUndefined(lateFees.data),
+      ...(smtpPassword !== undefined && {
+        smtpPassword: smtpPassword ? encrypt(smtpPassword) : null,
+      }),
+    }
+
+    if (Object.keys(data).length === 0) {
       return NextResponse.json(
         { success: false, error: "No valid fields provided" },
         { status: 400 }
@@ -93,15 +183,15 @@ export async function PATCH(request: NextRequest) {
     if (existing) {
       settings = await prisma.settings.update({
         where: { id: existing.id },
-        data: updateData,
+        data,
       })
     } else {
       settings = await prisma.settings.create({
-        data: updateData,
+        data,
       })
     }
 
-    return NextResponse.json({ success: true, data: settings })
+    return NextResponse.json({ success: true, data: toResponse(settings) })
   } catch (error) {
     console.error("Failed to update settings:", error)
     return NextResponse.json(
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { updateTaxRateSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PATCH /api/tax-rates/[id] — Update a tax rate. Existing invoices keep the
+// percent they were billed at (Invoice.taxPercent).
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { id } = await context.params
+  const taxRateId = parseInt(id, 10)
+  if (isNaN(taxRateId)) {
+    return NextResponse.json({ success: false, error: "Invalid tax rate ID" }, { status: 400 })
+  }
+
+  try {
+    const body = await request.json()
+    const parsed = updateTaxRateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.taxRate.findFirst({
+      where: { id: taxRateId, userId },
+      select: { id: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Tax rate not found" }, { status: 404 })
+    }
+
+    const taxRate = await prisma.$transaction(async (tx) => {
+      if (parsed.data.isDefault) {
+        await tx.taxRate.updateMany({
+          where: { userId, isDefault: true, id: { not: taxRateId } },
+          data: { isDefault: false },
+        })
+      }
+      return tx.taxRate.update({
+        where: { id: taxRateId },
+        data: parsed.data,
+      })
+    })
+
+    return NextResponse.json({ success: true, data: taxRate })
+  } catch (error) {
+    console.error("Failed to update tax rate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update tax rate" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tax-rates/[id] — Delete a tax rate that no invoice uses
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await context.params
+  const taxRateId = parseInt(id, 10)
+  if (isNaN(taxRateId)) {
+    return NextResponse.json({ success: false, error: "Invalid tax rate ID" }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.taxRate.findFirst({
+      where: { id: taxRateId, userId: session.user.id },
+      include: { _count: { select: { invoices: true } } },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Tax rate not found" }, { status: 404 })
+    }
+
+    if (existing._count.invoices > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot delete a tax rate used by ${existing._count.invoices} invoice(s).`,
+        },
+        { status: 400 }
+      )
+    }
+
+    await prisma.taxRate.delete({ where: { id: taxRateId } })
+
+    return NextResponse.json({ success: true, data: null })
+  } catch (error) {
+    console.error("Failed to delete tax rate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete tax rate" },
+      { status: 500 }
+    )
+  }
+}
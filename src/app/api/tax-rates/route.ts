@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createTaxRateSchema } from "@/lib/validations/invoices"
+import { formatZodError } from "@/lib/validations/finances"
+
+// GET /api/tax-rates — List the user's sales tax rates
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const taxRates = await prisma.taxRate.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+      include: {
+        _count: { select: { invoices: true } },
+      },
+    })
+
+    return NextResponse.json({ success: true, data: taxRates })
+  } catch (error) {
+    console.error("Failed to fetch tax rates:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch tax rates" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tax-rates — Create a tax rate. Marking it default clears the
+// flag on every other rate.
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  try {
+    const body = await request.json()
+    const parsed = createTaxRateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatZodError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const taxRate = await prisma.$transaction(async (tx) => {
+      if (parsed.data.isDefault) {
+        await tx.taxRate.updateMany({
+          where: { userId, isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+      return tx.taxRate.create({
+        data: { ...parsed.data, userId },
+      })
+    })
+
+    return NextResponse.json({ success: true, data: taxRate }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create tax rate:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create tax rate" },
+      { status: 500 }
+    )
+  }
+}
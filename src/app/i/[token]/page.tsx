@@ -0,0 +1,265 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { FileDown } from "lucide-react"
+import { prisma } from "@/lib/prisma"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import {
+  findActiveShareLink,
+  isPreviewBot,
+  recordShareLinkView,
+} from "@/lib/invoice-share-links"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+// Never cache: each request checks expiry/revocation and records the view
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Invoice",
+  robots: { index: false, follow: false },
+}
+
+interface PublicInvoicePageProps {
+  params: Promise<{ token: string }>
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  SENT: { label: "Due", className: "bg-blue-600 text-white" },
+  PARTIALLY_PAID: { label: "Partially Paid", className: "bg-amber-500 text-white" },
+  PAID: { label: "Paid", className: "bg-green-600 text-white" },
+  CANCELLED: { label: "Cancelled", className: "bg-destructive text-white" },
+}
+
+function LinkUnavailable() {
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="max-w-sm rounded-lg border bg-card p-6 text-center shadow-sm">
+        <h1 className="text-lg font-semibold">Link unavailable</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          This invoice link has expired or been turned off. Please ask the
+          sender for a new one.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default async function PublicInvoicePage({ params }: PublicInvoicePageProps) {
+  const { token } = await params
+  const link = await findActiveShareLink(token)
+  if (!link) return <LinkUnavailable />
+
+  const [invoice, company] = await Promise.all([
+    prisma.invoice.findFirst({
+      where: { id: link.invoiceId, userId: link.userId },
+      include: {
+        customer: { select: { name: true, address: true } },
+        taxRate: { select: { name: true } },
+        items: { orderBy: { id: "asc" } },
+      },
+    }),
+    getCompanyLetterhead(),
+  ])
+  if (!invoice) return <LinkUnavailable />
+
+  const userAgent = (await headers()).get("user-agent")
+  if (!isPreviewBot(userAgent)) {
+    await recordShareLinkView(link.id)
+  }
+
+  const hasTax = invoice.taxPercent !== null
+  const balanceDue =
+    Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid)
+  const badge = STATUS_BADGES[invoice.status]
+
+  return (
+    <div className="min-h-screen bg-muted/30 px-4 py-8">
+      <div className="mx-auto max-w-3xl space-y-4">
+        <div className="flex justify-end print:hidden">
+          <Button variant="outline" asChild>
+            <a href={`/i/${token}/pdf`}>
+              <FileDown className="mr-2 size-4" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+
+        <div className="rounded-lg border bg-card p-4 sm:p-8 shadow-sm">
+          {/* Header */}
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-lg font-semibold">{company.name}</p>
+              {company.address && (
+                <p className="text-sm text-muted-foreground">{company.address}</p>
+              )}
+              {company.cityLine && (
+                <p className="text-sm text-muted-foreground">{company.cityLine}</p>
+              )}
+              {company.phone && (
+                <p className="text-sm text-muted-foreground">{company.phone}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <h1 className="text-3xl font-bold">INVOICE</h1>
+              <p className="text-lg text-muted-foreground mt-1">{invoice.invoiceNumber}</p>
+              {badge && <Badge className={`mt-2 ${badge.className}`}>{badge.label}</Badge>}
+            </div>
+          </div>
+
+          <Separator className="my-6" />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-1">Bill To</p>
+              <p className="text-lg font-semibold">{invoice.customer.name}</p>
+              {invoice.customer.address && (
+                <p className="text-sm text-muted-foreground">{invoice.customer.address}</p>
+              )}
+            </div>
+            <div className="flex gap-8 sm:justify-end">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Issue Date</p>
+                <p className="text-sm font-medium">{formatDate(invoice.issueDate)}</p>
+              </div>
+              {invoice.dueDate && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Due Date</p>
+                  <p className="text-sm font-medium">{formatDate(invoice.dueDate)}</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Line Items */}
+          <div className="mt-8 rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40%]">Description</TableHead>
+                  <TableHead>Service Date</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoice.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">
+                      {item.description}
+                      {hasTax && item.taxable && (
+                        <span className="ml-1 text-xs text-muted-foreground" title="Taxable">
+                          (T)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(item.serviceDate)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {Number(item.quantity)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatCurrency(Number(item.rate))}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatCurrency(Number(item.amount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Totals */}
+          <div className="mt-4 flex justify-end">
+            <div className="w-72 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span className="tabular-nums">{formatCurrency(Number(invoice.subtotal))}</span>
+              </div>
+              {hasTax && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {invoice.taxRate?.name ?? "Sales Tax"} ({Number(invoice.taxPercent)}%)
+                  </span>
+                  <span className="tabular-nums">{formatCurrency(Number(invoice.tax))}</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between text-base font-semibold">
+                <span>Total</span>
+                <span className="tabular-nums">{formatCurrency(Number(invoice.total))}</span>
+              </div>
+              {Number(invoice.amountCredited) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Credits</span>
+                  <span className="tabular-nums">
+                    -{formatCurrency(Number(invoice.amountCredited))}
+                  </span>
+                </div>
+              )}
+              {Number(invoice.amountPaid) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Amount Paid</span>
+                  <span className="tabular-nums">
+                    {formatCurrency(Number(invoice.amountPaid))}
+                  </span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between text-lg font-bold">
+                <span>Balance Due</span>
+                <span className="tabular-nums">{formatCurrency(balanceDue)}</span>
+              </div>
+            </div>
+          </div>
+
+          {invoice.notes && (
+            <div className="mt-8">
+              <p className="text-sm font-medium text-muted-foreground mb-1">Notes</p>
+              <p className="text-sm whitespace-pre-wrap">{invoice.notes}</p>
+            </div>
+          )}
+          {invoice.terms && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-muted-foreground mb-1">Terms</p>
+              <p className="text-sm whitespace-pre-wrap">{invoice.terms}</p>
+            </div>
+          )}
+        </div>
+
+        {(company.email || company.website) && (
+          <p className="text-center text-xs text-muted-foreground">
+            Questions? {[company.email, company.website].filter(Boolean).join(" · ")}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
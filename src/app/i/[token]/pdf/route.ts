@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { renderInvoicePdf } from "@/lib/invoice-pdf"
+import { findActiveShareLink } from "@/lib/invoice-share-links"
+
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// GET /i/[token]/pdf — Public PDF download for a share link. No session:
+// the token is the credential, so it is re-checked on every request.
+export async function GET(_request: Request, context: RouteContext) {
+  const { token } = await context.params
+
+  try {
+    const link = await findActiveShareLink(token)
+    if (!link) {
+      return NextResponse.json({ success: false, error: "Link unavailable" }, { status: 404 })
+    }
+
+    const rendered = await renderInvoicePdf(link.invoiceId, link.userId)
+    if (!rendered) {
+      return NextResponse.json({ success: false, error: "Link unavailable" }, { status: 404 })
+    }
+
+    return new Response(new Uint8Array(rendered.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${rendered.invoiceNumber}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render shared invoice PDF:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to render invoice PDF" },
+      { status: 500 }
+    )
+  }
+}
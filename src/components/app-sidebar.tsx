@@ -9,6 +9,7 @@ import {
   Route,
   Wrench,
   FileText,
+  FileSignature,
   DollarSign,
   Settings,
   LogOut,
@@ -44,6 +45,7 @@ const mainNavItems = [
   { title: "Customers", url: "/customers", icon: Users },
   { title: "Routes", url: "/routes", icon: Route },
   { title: "Services", url: "/services", icon: Wrench },
+  { title: "Estimates", url: "/estimates", icon: FileSignature },
   { title: "Invoices", url: "/invoices", icon: FileText },
 ]
 
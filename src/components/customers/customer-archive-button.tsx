@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Archive, ArchiveRestore, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface CustomerArchiveButtonProps {
+  customer: { id: number; name: string; archivedAt: string | null }
+}
+
+export function CustomerArchiveButton({ customer }: CustomerArchiveButtonProps) {
+  const router = useRouter()
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const isArchived = customer.archivedAt !== null
+
+  async function setArchived(archived: boolean) {
+    setIsSaving(true)
+    setError("")
+    // Archiving reports errors in its confirm dialog; restoring has none
+    const fail = (message: string) => (archived ? setError(message) : toast.error(message))
+    try {
+      const res = await fetch("/api/customers/archive", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customerIds: [customer.id], archived }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        fail(result.error || (archived ? "Failed to archive customer." : "Failed to restore customer"))
+        return
+      }
+      toast.success(archived ? `${customer.name} archived` : `${customer.name} restored`)
+      setConfirmOpen(false)
+      router.refresh()
+    } catch {
+      fail(archived ? "Failed to archive. Please try again." : "Failed to restore customer")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isArchived) {
+    return (
+      <Button variant="outline" onClick={() => setArchived(false)} disabled={isSaving}>
+        {isSaving ? (
+          <Loader2 className="mr-2 size-4 animate-spin" />
+        ) : (
+          <ArchiveRestore className="mr-2 size-4" />
+        )}
+        Restore
+      </Button>
+    )
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => {
+          setError("")
+          setConfirmOpen(true)
+        }}
+      >
+        <Archive className="mr-2 size-4" />
+        Archive
+      </Button>
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Archive Customer</DialogTitle>
+            <DialogDescription>
+              Archive <strong>{customer.name}</strong>? They drop out of routes, due dates and
+              customer pickers until restored. Their services and invoices stay in your reports.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={() => setArchived(true)} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Archive
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -14,6 +14,11 @@ interface CustomerData {
   address: string
   serviceInterval: number | null
   isVip?: boolean
+  lateFeeMode?: "DEFAULT" | "EXEMPT" | "CUSTOM"
+  lateFeeType?: "FLAT" | "PERCENT" | null
+  lateFeeAmount?: number | string | null
+  lateFeeGraceDays?: number | null
+  lateFeeCompounds?: boolean | null
 }
 
 interface CustomerEditButtonProps {
@@ -5,6 +5,13 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Loader2 } from "lucide-react"
 
 interface CustomerData {
@@ -15,6 +22,11 @@ interface CustomerData {
   address: string
   serviceInterval: number | null
   isVip?: boolean
+  lateFeeMode?: "DEFAULT" | "EXEMPT" | "CUSTOM"
+  lateFeeType?: "FLAT" | "PERCENT" | null
+  lateFeeAmount?: number | string | null
+  lateFeeGraceDays?: number | null
+  lateFeeCompounds?: boolean | null
 }
 
 interface CustomerFormProps {
@@ -31,6 +43,15 @@ export function CustomerForm({ customer, onSuccess }: CustomerFormProps) {
     customer?.serviceInterval?.toString() ?? ""
   )
   const [isVip, setIsVip] = useState(customer?.isVip ?? false)
+  const [lateFeeMode, setLateFeeMode] = useState(customer?.lateFeeMode ?? "DEFAULT")
+  const [lateFeeType, setLateFeeType] = useState(customer?.lateFeeType ?? "FLAT")
+  const [lateFeeAmount, setLateFeeAmount] = useState(
+    customer?.lateFeeAmount != null ? String(Number(customer.lateFeeAmount)) : ""
+  )
+  const [lateFeeGraceDays, setLateFeeGraceDays] = useState(
+    customer?.lateFeeGraceDays?.toString() ?? ""
+  )
+  const [lateFeeCompounds, setLateFeeCompounds] = useState(customer?.lateFeeCompounds ?? false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState("")
 
@@ -45,6 +66,11 @@ export function CustomerForm({ customer, onSuccess }: CustomerFormProps) {
       return
     }
 
+    if (lateFeeMode === "CUSTOM" && !lateFeeAmount) {
+      setError("Enter the custom late fee amount.")
+      return
+    }
+
     setIsSubmitting(true)
 
     try {
@@ -62,6 +88,11 @@ export function CustomerForm({ customer, onSuccess }: CustomerFormProps) {
           address: address.trim(),
           serviceInterval: serviceInterval ? parseInt(serviceInterval, 10) : null,
           isVip,
+          lateFeeMode,
+          lateFeeType,
+          lateFeeAmount: lateFeeAmount ? parseFloat(lateFeeAmount) : null,
+          lateFeeGraceDays: lateFeeGraceDays ? parseInt(lateFeeGraceDays, 10) : null,
+          lateFeeCompounds,
         }),
       })
 
@@ -149,6 +180,77 @@ export function CustomerForm({ customer, onSuccess }: CustomerFormProps) {
         <Label htmlFor="isVip">VIP Customer</Label>
       </div>
 
+      <div className="space-y-2">
+        <Label>Late Fees</Label>
+        <Select
+          value={lateFeeMode}
+          onValueChange={(v) => setLateFeeMode(v as typeof lateFeeMode)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="DEFAULT">Default policy</SelectItem>
+            <SelectItem value="EXEMPT">Exempt</SelectItem>
+            <SelectItem value="CUSTOM">Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {lateFeeMode === "CUSTOM" && (
+        <div className="space-y-4 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Fee Type</Label>
+              <Select
+                value={lateFeeType}
+                onValueChange={(v) => setLateFeeType(v as typeof lateFeeType)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FLAT">Flat amount</SelectItem>
+                  <SelectItem value="PERCENT">Percent of balance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lateFeeAmount">
+                {lateFeeType === "FLAT" ? "Amount ($)" : "Percent (%)"}
+              </Label>
+              <Input
+                id="lateFeeAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={lateFeeAmount}
+                onChange={(e) => setLateFeeAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lateFeeGraceDays">Grace Period (days)</Label>
+            <Input
+              id="lateFeeGraceDays"
+              type="number"
+              min="0"
+              value={lateFeeGraceDays}
+              onChange={(e) => setLateFeeGraceDays(e.target.value)}
+              placeholder="Same as default"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <Switch
+              id="lateFeeCompounds"
+              checked={lateFeeCompounds}
+              onCheckedChange={setLateFeeCompounds}
+            />
+            <Label htmlFor="lateFeeCompounds">Compound monthly</Label>
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-end gap-2 pt-2">
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
@@ -0,0 +1,677 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Upload, FileText, CheckCircle2, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+interface CustomerImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+type DuplicateAction = "update" | "skip"
+
+interface ParsedRow {
+  raw: string[]
+  name?: string
+  phone?: string
+  email?: string | null
+  address?: string
+  serviceInterval?: number | null
+  isVip?: boolean
+  errors: string[]
+}
+
+interface ColumnMapping {
+  name?: number
+  phone?: number
+  email?: number
+  address?: number
+  serviceInterval?: number
+  isVip?: number
+}
+
+// From the server's dry run, one per valid row
+interface RowCheck {
+  row: number
+  action: "create" | "update" | "skip"
+  match: { customerId: number; name: string; by: "phone" | "email" } | null
+  duplicateOfRow: number | null
+}
+
+const FIELDS: { key: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { key: "name", label: "Name", required: true },
+  { key: "phone", label: "Phone", required: true },
+  { key: "address", label: "Address", required: true },
+  { key: "email", label: "Email", required: false },
+  { key: "serviceInterval", label: "Service Interval (days)", required: false },
+  { key: "isVip", label: "VIP", required: false },
+]
+
+const PREVIEW_LIMIT = 100
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function CustomerImportDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: CustomerImportDialogProps) {
+  const [step, setStep] = useState<"upload" | "map" | "preview">("upload")
+  const [file, setFile] = useState<File | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [parsedRows, setParsedRows] = useState<ParsedRow[]>([])
+  const [checks, setChecks] = useState<RowCheck[]>([])
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>("skip")
+  // Per-row choices for matched customers, keyed by index into the valid rows
+  const [rowActions, setRowActions] = useState<Record<number, DuplicateAction>>({})
+  const [isChecking, setIsChecking] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+  const [successMessage, setSuccessMessage] = useState("")
+
+  useEffect(() => {
+    if (!open) {
+      // Reset all state when dialog closes
+      setTimeout(() => {
+        setStep("upload")
+        setFile(null)
+        setHeaders([])
+        setRows([])
+        setMapping({})
+        setParsedRows([])
+        setChecks([])
+        setDuplicateAction("skip")
+        setRowActions({})
+        setError("")
+        setSuccessMessage("")
+      }, 200)
+    }
+  }, [open])
+
+  function parseCSV(text: string): { headers: string[]; rows: string[][] } {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim())
+    if (lines.length < 2) {
+      throw new Error("CSV must have at least a header row and one data row")
+    }
+
+    const parsedLines = lines.map((line) => {
+      const cells: string[] = []
+      let current = ""
+      let inQuotes = false
+
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+
+        if (char === '"') {
+          // A doubled quote inside a quoted cell is a literal quote
+          if (inQuotes && line[i + 1] === '"') {
+            current += '"'
+            i++
+          } else {
+            inQuotes = !inQuotes
+          }
+        } else if (char === "," && !inQuotes) {
+          cells.push(current.trim())
+          current = ""
+        } else {
+          current += char
+        }
+      }
+      cells.push(current.trim())
+      return cells
+    })
+
+    return {
+      headers: parsedLines[0],
+      rows: parsedLines.slice(1),
+    }
+  }
+
+  function autoDetectColumns(headers: string[]): ColumnMapping {
+    const detected: ColumnMapping = {}
+    const lower = headers.map((h) => h.toLowerCase().trim())
+
+    // Same approach as the transaction importer: exact-ish matches first,
+    // then partial includes
+    const patterns: Record<keyof ColumnMapping, RegExp[]> = {
+      email: [/^e-?mail$/, /^e-?mail.?address$/, /e-?mail/],
+      phone: [/^phone$/, /^phone.?number$/, /^mobile$/, /^cell$/, /phone/, /mobile/, /cell/, /tel/],
+      address: [/^address$/, /^street$/, /^street.?address$/, /address/, /street/, /location/],
+      serviceInterval: [/^service.?interval/, /interval/, /frequency/, /every/],
+      isVip: [/^vip$/, /vip/],
+      name: [/^name$/, /^customer.?name$/, /^full.?name$/, /^client$/, /^customer$/, /name/, /client/, /customer/],
+    }
+
+    const used = new Set<number>()
+    for (const key of Object.keys(patterns) as (keyof ColumnMapping)[]) {
+      outer: for (const pattern of patterns[key]) {
+        for (let i = 0; i < lower.length; i++) {
+          if (used.has(i)) continue
+          if (pattern.test(lower[i])) {
+            detected[key] = i
+            used.add(i)
+            break outer
+          }
+        }
+      }
+    }
+
+    return detected
+  }
+
+  function parseVip(value: string): boolean {
+    return /^(y|yes|true|1|x|vip)$/i.test(value.trim())
+  }
+
+  function validateAndParseRows(m?: ColumnMapping, r?: string[][]): ParsedRow[] {
+    const effectiveMapping = m ?? mapping
+    const effectiveRows = r ?? rows
+
+    return effectiveRows.map((row) => {
+      const parsed: ParsedRow = { raw: row, errors: [] }
+      const cell = (key: keyof ColumnMapping) =>
+        effectiveMapping[key] !== undefined ? row[effectiveMapping[key]!]?.trim() ?? "" : ""
+
+      const name = cell("name")
+      if (!name) parsed.errors.push("Name is required")
+      else parsed.name = name
+
+      const phone = cell("phone")
+      if (!phone) parsed.errors.push("Phone is required")
+      else if (phone.replace(/\D/g, "").length < 7) parsed.errors.push("Invalid phone")
+      else parsed.phone = phone
+
+      const address = cell("address")
+      if (!address) parsed.errors.push("Address is required")
+      else parsed.address = address
+
+      const email = cell("email")
+      if (email && !EMAIL_PATTERN.test(email)) parsed.errors.push("Invalid email")
+      else parsed.email = email ? email.toLowerCase() : null
+
+      const interval = cell("serviceInterval")
+      if (interval) {
+        const days = parseInt(interval.replace(/[^0-9]/g, ""), 10)
+        if (isNaN(days) || days <= 0) parsed.errors.push("Invalid service interval")
+        else parsed.serviceInterval = days
+      }
+
+      if (effectiveMapping.isVip !== undefined) {
+        parsed.isVip = parseVip(cell("isVip"))
+      }
+
+      return parsed
+    })
+  }
+
+  function toPayload(row: ParsedRow) {
+    return {
+      name: row.name!,
+      phone: row.phone!,
+      email: row.email ?? null,
+      address: row.address!,
+      serviceInterval: row.serviceInterval ?? null,
+      ...(row.isVip !== undefined && { isVip: row.isVip }),
+    }
+  }
+
+  // Ask the server which valid rows match existing customers
+  async function checkDuplicates(validated: ParsedRow[]) {
+    const validRows = validated.filter((row) => row.errors.length === 0)
+    setChecks([])
+    setRowActions({})
+    if (validRows.length === 0) return
+
+    setIsChecking(true)
+    try {
+      const res = await fetch("/api/customers/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customers: validRows.map(toPayload), dryRun: true }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to check for existing customers")
+        return
+      }
+      setChecks(result.data.rows)
+    } catch {
+      setError("Failed to check for existing customers. Please try again.")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const selectedFile = e.target.files?.[0]
+    if (!selectedFile) return
+
+    setError("")
+    setFile(selectedFile)
+
+    try {
+      const text = await selectedFile.text()
+      const { headers: parsedHeaders, rows: parsedRows } = parseCSV(text)
+      setHeaders(parsedHeaders)
+      setRows(parsedRows)
+
+      const detected = autoDetectColumns(parsedHeaders)
+      setMapping(detected)
+
+      // If required fields are detected, skip straight to preview
+      if (FIELDS.every((f) => !f.required || detected[f.key] !== undefined)) {
+        const validated = validateAndParseRows(detected, parsedRows)
+        setParsedRows(validated)
+        setStep("preview")
+        await checkDuplicates(validated)
+      } else {
+        setStep("map")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to parse CSV file")
+      setFile(null)
+    }
+  }
+
+  async function handlePreview() {
+    setError("")
+
+    const missing = FIELDS.find((f) => f.required && mapping[f.key] === undefined)
+    if (missing) {
+      setError(`Please map the ${missing.label} column`)
+      return
+    }
+
+    const validated = validateAndParseRows()
+    setParsedRows(validated)
+    setStep("preview")
+    await checkDuplicates(validated)
+  }
+
+  const validRows = parsedRows.filter((row) => row.errors.length === 0)
+  const errorCount = parsedRows.length - validRows.length
+
+  function actionFor(index: number): "create" | "update" | "skip" {
+    const check = checks[index]
+    if (!check) return "create"
+    if (check.duplicateOfRow) return "skip"
+    if (!check.match) return "create"
+    return rowActions[index] ?? duplicateAction
+  }
+
+  const actions = validRows.map((_, index) => actionFor(index))
+  const createCount = actions.filter((a) => a === "create").length
+  const updateCount = actions.filter((a) => a === "update").length
+  const skipCount = actions.filter((a) => a === "skip").length
+  const matchCount = checks.filter((c) => c.match && !c.duplicateOfRow).length
+
+  async function handleImport() {
+    if (validRows.length === 0) {
+      setError("No valid customers to import")
+      return
+    }
+
+    setIsSubmitting(true)
+    setError("")
+    setSuccessMessage("")
+
+    try {
+      const customers = validRows.map((row, index) => ({
+        ...toPayload(row),
+        ...(rowActions[index] && { duplicateAction: rowActions[index] }),
+      }))
+
+      const res = await fetch("/api/customers/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customers, duplicateAction }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to import customers")
+        return
+      }
+
+      const { created, updated, skipped } = result.data
+      setSuccessMessage(
+        `Imported ${created} new customer(s), updated ${updated}, skipped ${skipped}`
+      )
+
+      // Close dialog after brief delay
+      setTimeout(() => {
+        onOpenChange(false)
+        onSuccess()
+      }, 1500)
+    } catch {
+      setError("Failed to import customers. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Rows that need a decision first, then errors, then new customers
+  const validIndex = new Map(validRows.map((row, index) => [row, index]))
+  function previewRank(row: ParsedRow): number {
+    const index = validIndex.get(row)
+    if (index === undefined) return 1
+    return checks[index]?.match || checks[index]?.duplicateOfRow ? 0 : 2
+  }
+  const previewRows = [...parsedRows]
+    .sort((a, b) => previewRank(a) - previewRank(b))
+    .slice(0, PREVIEW_LIMIT)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Import Customers from CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file with one customer per row"}
+            {step === "map" && "Map CSV columns to customer fields"}
+            {step === "preview" &&
+              "Existing customers are matched by phone or email — choose whether to update or skip them"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Progress Indicator */}
+        <div className="flex items-center gap-2 text-sm mb-4">
+          <div
+            className={`flex items-center gap-1 ${
+              step === "upload" ? "font-semibold" : "text-muted-foreground"
+            }`}
+          >
+            <Upload className="size-4" />
+            <span>Upload</span>
+          </div>
+          <span className="text-muted-foreground">→</span>
+          <div
+            className={`flex items-center gap-1 ${
+              step === "map" ? "font-semibold" : "text-muted-foreground"
+            }`}
+          >
+            <FileText className="size-4" />
+            <span>Map Columns</span>
+          </div>
+          <span className="text-muted-foreground">→</span>
+          <div
+            className={`flex items-center gap-1 ${
+              step === "preview" ? "font-semibold" : "text-muted-foreground"
+            }`}
+          >
+            <CheckCircle2 className="size-4" />
+            <span>Preview</span>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive flex items-center gap-2">
+            <AlertCircle className="size-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="rounded-md bg-green-500/10 px-3 py-2 text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle2 className="size-4 flex-shrink-0" />
+            <span>{successMessage}</span>
+          </div>
+        )}
+
+        {/* Step 1: Upload */}
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="border-2 border-dashed rounded-lg p-8 text-center">
+              <Upload className="size-12 mx-auto text-muted-foreground mb-4" />
+              <Label htmlFor="customer-csv-file" className="cursor-pointer text-sm font-medium">
+                <span className="text-primary hover:underline">Choose a CSV file</span>
+                <span className="text-muted-foreground"> or drag and drop</span>
+              </Label>
+              <input
+                id="customer-csv-file"
+                type="file"
+                accept=".csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              {file && (
+                <div className="mt-4 text-sm text-muted-foreground">Selected: {file.name}</div>
+              )}
+            </div>
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>CSV file should contain:</p>
+              <ul className="list-disc list-inside ml-2">
+                <li>Header row with column names</li>
+                <li>Name, Phone and Address columns</li>
+                <li>Optional Email, Service Interval (days) and VIP (yes/no) columns</li>
+                <li>A customer export from this page can be edited and re-imported</li>
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* Step 2: Map Columns */}
+        {step === "map" && (
+          <div className="space-y-4 overflow-y-auto">
+            <div className="text-sm text-muted-foreground">
+              Map your CSV columns to customer fields. Required fields are marked with *.
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.key]?.toString() ?? "__none__"}
+                    onValueChange={(val) =>
+                      setMapping({
+                        ...mapping,
+                        [field.key]: val !== "__none__" ? parseInt(val) : undefined,
+                      })
+                    }
+                  >
+                    <SelectTrigger id={`map-${field.key}`} className="w-full">
+                      <SelectValue placeholder={`Select ${field.label.toLowerCase()} column`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__none__">None</SelectItem>
+                      {headers.map((header, idx) => (
+                        <SelectItem key={idx} value={idx.toString()}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setStep(parsedRows.length > 0 ? "preview" : "upload")}
+              >
+                {parsedRows.length > 0 ? "Back to Preview" : "Back"}
+              </Button>
+              <Button type="button" onClick={handlePreview}>
+                {parsedRows.length > 0 ? "Update Preview" : "Preview Import"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === "preview" && (
+          <div className="flex flex-col gap-4 min-h-0">
+            <div className="rounded-md bg-muted px-3 py-2 text-sm shrink-0">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">
+                  {isChecking
+                    ? "Checking for existing customers..."
+                    : `${createCount} new · ${updateCount} to update · ${skipCount} to skip`}
+                </span>
+                {errorCount > 0 && (
+                  <span className="text-destructive">{errorCount} error(s)</span>
+                )}
+              </div>
+            </div>
+
+            {matchCount > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm shrink-0">
+                <span>
+                  {matchCount} row(s) match an existing customer. By default:
+                </span>
+                <Select
+                  value={duplicateAction}
+                  onValueChange={(val) => {
+                    setDuplicateAction(val as DuplicateAction)
+                    setRowActions({})
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip them</SelectItem>
+                    <SelectItem value="update">Update them</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="border rounded-lg overflow-auto min-h-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Interval</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => {
+                    const index = validIndex.get(row)
+                    const check = index !== undefined ? checks[index] : undefined
+                    return (
+                      <TableRow
+                        key={parsedRows.indexOf(row)}
+                        className={row.errors.length > 0 ? "bg-destructive/5" : ""}
+                      >
+                        <TableCell className="max-w-48 truncate">
+                          {row.name || row.raw[mapping.name ?? 0]}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {row.phone || row.raw[mapping.phone ?? 0]}
+                        </TableCell>
+                        <TableCell className="max-w-48 truncate">{row.email || "—"}</TableCell>
+                        <TableCell className="max-w-48 truncate">
+                          {row.address || row.raw[mapping.address ?? 0]}
+                        </TableCell>
+                        <TableCell>
+                          {row.serviceInterval ? `${row.serviceInterval}d` : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <div className="flex items-center gap-1 text-destructive">
+                              <AlertCircle className="size-4 flex-shrink-0" />
+                              <span className="text-xs">{row.errors.join(", ")}</span>
+                            </div>
+                          ) : check?.duplicateOfRow ? (
+                            <span className="text-xs text-muted-foreground">
+                              Skipped: repeats row {check.duplicateOfRow}
+                            </span>
+                          ) : check?.match && index !== undefined ? (
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                Matches <strong>{check.match.name}</strong> by {check.match.by}
+                              </span>
+                              <Select
+                                value={actionFor(index)}
+                                onValueChange={(val) =>
+                                  setRowActions({ ...rowActions, [index]: val as DuplicateAction })
+                                }
+                              >
+                                <SelectTrigger className="h-7 w-24 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="skip">Skip</SelectItem>
+                                  <SelectItem value="update">Update</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ) : isChecking ? (
+                            <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                          ) : (
+                            <Badge variant="outline" className="text-green-600">
+                              New
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {parsedRows.length > PREVIEW_LIMIT && (
+              <div className="text-xs text-muted-foreground text-center">
+                Showing {PREVIEW_LIMIT} of {parsedRows.length} rows, matches and errors first
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2 shrink-0">
+              <Button type="button" variant="outline" onClick={() => setStep("map")}>
+                Adjust Mapping
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={isSubmitting || isChecking || createCount + updateCount === 0}
+              >
+                {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+                Import {createCount + updateCount} Customer(s)
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
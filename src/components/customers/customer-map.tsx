@@ -0,0 +1,221 @@
+"use client"
+
+import { useState, useMemo, useRef } from "react"
+import { Minus, Plus, Maximize } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { DueStatus } from "@/lib/due-date"
+
+export interface CustomerMapPoint {
+  id: number
+  name: string
+  address: string
+  latitude: number
+  longitude: number
+  dueStatus: DueStatus
+  daysUntilDue: number | null
+  isVip: boolean
+}
+
+export const DUE_STATUS_COLORS: Record<NonNullable<DueStatus> | "none", string> = {
+  late: "#dc2626",
+  "due-today": "#f59e0b",
+  "due-soon": "#eab308",
+  "on-track": "#16a34a",
+  none: "#94a3b8",
+}
+
+// Most urgent first; a marker holding several customers takes the first color
+const STATUS_ORDER = ["late", "due-today", "due-soon", "on-track", "none"] as const
+
+interface CustomerMapProps {
+  points: CustomerMapPoint[]
+  selectedKey: string | null
+  onSelect: (key: string | null, customers: CustomerMapPoint[]) => void
+}
+
+const WIDTH = 1000
+const HEIGHT = 600
+const PADDING = 40
+// Smallest area the view fits to, in Mercator units (~1.5 km), so a single
+// customer doesn't zoom in without limit
+const MIN_SPAN = 0.00004
+const ZOOM_STEP = 1.5
+
+/** Web Mercator, 0..1 on both axes. */
+function project(latitude: number, longitude: number): [number, number] {
+  const lat = (Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180
+  return [(longitude + 180) / 360, (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2]
+}
+
+function statusKey(status: DueStatus) {
+  return status ?? "none"
+}
+
+/** Key for customers sharing a location, e.g. several at one ZIP centroid. */
+export function markerKey(point: { latitude: number; longitude: number }): string {
+  return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`
+}
+
+/**
+ * Customers plotted by location and colored by due status. Drawn as plain
+ * SVG on a projected grid rather than over map tiles, so it needs no tile
+ * server and keeps working offline.
+ */
+export function CustomerMap({ points, selectedKey, onSelect }: CustomerMapProps) {
+  const markers = useMemo(() => {
+    const byKey = new Map<string, CustomerMapPoint[]>()
+    for (const point of points) {
+      const key = markerKey(point)
+      byKey.set(key, [...(byKey.get(key) ?? []), point])
+    }
+    return [...byKey.entries()].map(([key, customers]) => {
+      const [x, y] = project(customers[0].latitude, customers[0].longitude)
+      const status = STATUS_ORDER.find((s) => customers.some((c) => statusKey(c.dueStatus) === s))!
+      return { key, customers, x, y, status, isVip: customers.some((c) => c.isVip) }
+    })
+  }, [points])
+
+  const fitted = useMemo(() => {
+    if (markers.length === 0) return { cx: 0.5, cy: 0.5, scale: WIDTH }
+    const xs = markers.map((m) => m.x)
+    const ys = markers.map((m) => m.y)
+    const minX = Math.min(...xs)
+    const maxX = Math.max(...xs)
+    const minY = Math.min(...ys)
+    const maxY = Math.max(...ys)
+    const scale = Math.min(
+      (WIDTH - PADDING * 2) / Math.max(maxX - minX, MIN_SPAN),
+      (HEIGHT - PADDING * 2) / Math.max(maxY - minY, MIN_SPAN)
+    )
+    return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, scale }
+  }, [markers])
+
+  // null follows the fitted view, so new data re-fits until the user moves the map
+  const [view, setView] = useState<typeof fitted | null>(null)
+  const current = view ?? fitted
+  const drag = useRef<{ x: number; y: number; cx: number; cy: number; moved: boolean } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  function toScreen(x: number, y: number): [number, number] {
+    return [(x - current.cx) * current.scale + WIDTH / 2, (y - current.cy) * current.scale + HEIGHT / 2]
+  }
+
+  function zoom(factor: number) {
+    setView({ ...current, scale: current.scale * factor })
+  }
+
+  // SVG units per screen pixel, to turn pointer movement into map movement
+  function svgUnitsPerPixel(): number {
+    const width = svgRef.current?.getBoundingClientRect().width || WIDTH
+    return WIDTH / width
+  }
+
+  function handlePointerDown(e: React.PointerEvent<SVGSVGElement>) {
+    drag.current = { x: e.clientX, y: e.clientY, cx: current.cx, cy: current.cy, moved: false }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  function handlePointerMove(e: React.PointerEvent<SVGSVGElement>) {
+    const start = drag.current
+    if (!start) return
+    const dx = e.clientX - start.x
+    const dy = e.clientY - start.y
+    if (!start.moved && Math.hypot(dx, dy) < 4) return
+    start.moved = true
+    const units = svgUnitsPerPixel() / current.scale
+    setView({ ...current, cx: start.cx - dx * units, cy: start.cy - dy * units })
+  }
+
+  function handlePointerUp(e: React.PointerEvent<SVGSVGElement>) {
+    const start = drag.current
+    drag.current = null
+    e.currentTarget.releasePointerCapture(e.pointerId)
+    // A click on empty map clears the selection; markers stop propagation
+    if (start && !start.moved) onSelect(null, [])
+  }
+
+  // Grid every power of ten of the visible span, for a sense of distance
+  const gridStep = 10 ** Math.floor(Math.log10(WIDTH / current.scale / 4))
+  const left = current.cx - WIDTH / 2 / current.scale
+  const top = current.cy - HEIGHT / 2 / current.scale
+  const gridX = Array.from({ length: 12 }, (_, i) => (Math.floor(left / gridStep) + i) * gridStep)
+  const gridY = Array.from({ length: 10 }, (_, i) => (Math.floor(top / gridStep) + i) * gridStep)
+
+  return (
+    <div className="relative overflow-hidden rounded-md border bg-muted/30">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="block h-auto w-full touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {gridX.map((x) => {
+          const [sx] = toScreen(x, 0)
+          return <line key={`x${x}`} x1={sx} x2={sx} y1={0} y2={HEIGHT} className="stroke-border" />
+        })}
+        {gridY.map((y) => {
+          const [, sy] = toScreen(0, y)
+          return <line key={`y${y}`} x1={0} x2={WIDTH} y1={sy} y2={sy} className="stroke-border" />
+        })}
+
+        {markers.map((marker) => {
+          const [sx, sy] = toScreen(marker.x, marker.y)
+          const count = marker.customers.length
+          const radius = count > 1 ? Math.min(16, 8 + Math.log2(count) * 2) : 7
+          const isSelected = marker.key === selectedKey
+          return (
+            <g
+              key={marker.key}
+              transform={`translate(${sx} ${sy})`}
+              className="cursor-pointer"
+              onPointerDown={(e) => e.stopPropagation()}
+              onPointerUp={(e) => {
+                e.stopPropagation()
+                onSelect(marker.key, marker.customers)
+              }}
+            >
+              <title>
+                {count > 1
+                  ? `${count} customers: ${marker.customers.map((c) => c.name).join(", ")}`
+                  : `${marker.customers[0].name} — ${marker.customers[0].address}`}
+              </title>
+              <circle
+                r={radius + (isSelected ? 3 : 0)}
+                fill={DUE_STATUS_COLORS[marker.status]}
+                stroke={marker.isVip ? "#facc15" : "white"}
+                strokeWidth={isSelected ? 4 : 2}
+                fillOpacity={0.9}
+              />
+              {count > 1 && (
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="pointer-events-none fill-white text-[11px] font-semibold"
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="absolute right-2 top-2 flex flex-col gap-1">
+        <Button variant="outline" size="icon" className="size-8 bg-background" onClick={() => zoom(ZOOM_STEP)}>
+          <Plus className="size-4" />
+          <span className="sr-only">Zoom in</span>
+        </Button>
+        <Button variant="outline" size="icon" className="size-8 bg-background" onClick={() => zoom(1 / ZOOM_STEP)}>
+          <Minus className="size-4" />
+          <span className="sr-only">Zoom out</span>
+        </Button>
+        <Button variant="outline" size="icon" className="size-8 bg-background" onClick={() => setView(null)}>
+          <Maximize className="size-4" />
+          <span className="sr-only">Fit all customers</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
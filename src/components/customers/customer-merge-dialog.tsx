@@ -0,0 +1,212 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ArrowLeftRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+
+export interface MergeCandidate {
+  id: number
+  name: string
+  phone: string
+  email: string | null
+  address: string
+  serviceInterval: number | null
+  isVip: boolean
+  createdAt: string
+  _count: { serviceLogs: number; invoices: number }
+}
+
+interface CustomerMergeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Suggested survivor first
+  customers: [MergeCandidate, MergeCandidate] | null
+  onSuccess: () => void
+}
+
+type FieldKey = "name" | "phone" | "email" | "address" | "serviceInterval" | "isVip"
+type FieldSource = "survivor" | "merged"
+
+const FIELDS: { key: FieldKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "phone", label: "Phone" },
+  { key: "email", label: "Email" },
+  { key: "address", label: "Address" },
+  { key: "serviceInterval", label: "Service Interval" },
+  { key: "isVip", label: "VIP" },
+]
+
+function displayValue(customer: MergeCandidate, key: FieldKey): string {
+  const value = customer[key]
+  if (key === "isVip") return value ? "Yes" : "No"
+  if (key === "serviceInterval") return value ? `${value} days` : "—"
+  return value ? String(value) : "—"
+}
+
+/** Mirrors the server default: survivor, unless its email/interval is blank. */
+function defaultSources(survivor: MergeCandidate): Record<FieldKey, FieldSource> {
+  return {
+    name: "survivor",
+    phone: "survivor",
+    email: survivor.email ? "survivor" : "merged",
+    address: "survivor",
+    serviceInterval: survivor.serviceInterval ? "survivor" : "merged",
+    isVip: "survivor",
+  }
+}
+
+export function CustomerMergeDialog({
+  open,
+  onOpenChange,
+  customers,
+  onSuccess,
+}: CustomerMergeDialogProps) {
+  const [swapped, setSwapped] = useState(false)
+  const [sources, setSources] = useState<Record<FieldKey, FieldSource> | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const survivor = customers ? customers[swapped ? 1 : 0] : null
+  const merged = customers ? customers[swapped ? 0 : 1] : null
+
+  useEffect(() => {
+    if (open && customers) {
+      setSwapped(false)
+      setSources(defaultSources(customers[0]))
+      setError("")
+    }
+  }, [open, customers])
+
+  function handleSwap() {
+    if (!customers) return
+    setSwapped(!swapped)
+    setSources(defaultSources(customers[swapped ? 0 : 1]))
+  }
+
+  async function handleMerge() {
+    if (!survivor || !merged || !sources) return
+    setIsSubmitting(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/customers/merges", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ survivorId: survivor.id, mergedId: merged.id, fields: sources }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to merge customers.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to merge customers. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Customers</DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. Everything linked to{" "}
+            <strong>{merged?.name}</strong> moves to <strong>{survivor?.name}</strong>, and the
+            merge can be undone later.
+          </DialogDescription>
+        </DialogHeader>
+
+        {survivor && merged && sources && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-[8rem_1fr_auto_1fr] items-center gap-2 text-sm">
+              <span />
+              <div className="font-medium">
+                Keep
+                <p className="text-xs font-normal text-muted-foreground">
+                  {survivor._count.serviceLogs} service(s) · {survivor._count.invoices} invoice(s)
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                onClick={handleSwap}
+                title="Swap which customer is kept"
+              >
+                <ArrowLeftRight className="size-4" />
+                <span className="sr-only">Swap</span>
+              </Button>
+              <div className="font-medium">
+                Merge in
+                <p className="text-xs font-normal text-muted-foreground">
+                  {merged._count.serviceLogs} service(s) · {merged._count.invoices} invoice(s)
+                </p>
+              </div>
+
+              {FIELDS.map((field) => {
+                const same = displayValue(survivor, field.key) === displayValue(merged, field.key)
+                return [
+                  <span key={`${field.key}-label`} className="text-muted-foreground">
+                    {field.label}
+                  </span>,
+                  ...(["survivor", "merged"] as const).map((source, i) => {
+                    const customer = source === "survivor" ? survivor : merged
+                    const selected = same ? source === "survivor" : sources[field.key] === source
+                    return (
+                      <button
+                        key={`${field.key}-${source}`}
+                        type="button"
+                        disabled={same}
+                        onClick={() => setSources({ ...sources, [field.key]: source })}
+                        className={cn(
+                          "rounded-md border px-2 py-1.5 text-left break-words",
+                          i === 1 && "col-start-4",
+                          selected ? "border-primary bg-primary/5" : "text-muted-foreground",
+                          same && "cursor-default"
+                        )}
+                      >
+                        {displayValue(customer, field.key)}
+                      </button>
+                    )
+                  }),
+                ]
+              })}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isSubmitting || !survivor}>
+            {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { BadgeDollarSign, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  PriceBookEntryDialog,
+  type PriceBookEntryData,
+  type PriceBookOptions,
+} from "@/components/customers/price-book-entry-dialog"
+import { cn } from "@/lib/utils"
+
+interface CustomerPriceBookProps extends PriceBookOptions {
+  customerId: number
+  // Newest first
+  entries: PriceBookEntryData[]
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+/**
+ * For each location and service, the newest entry already in effect is
+ * current; newer ones are scheduled and older ones superseded.
+ */
+function entryStatuses(entries: PriceBookEntryData[]): Map<number, "current" | "scheduled" | "past"> {
+  const now = Date.now()
+  const statuses = new Map<number, "current" | "scheduled" | "past">()
+  const hasCurrent = new Set<string>()
+  for (const entry of entries) {
+    const key = `${entry.propertyId}:${entry.serviceTypeId}`
+    if (new Date(entry.effectiveFrom).getTime() > now) {
+      statuses.set(entry.id, "scheduled")
+    } else if (hasCurrent.has(key)) {
+      statuses.set(entry.id, "past")
+    } else {
+      statuses.set(entry.id, "current")
+      hasCurrent.add(key)
+    }
+  }
+  return statuses
+}
+
+export function CustomerPriceBook({
+  customerId,
+  entries,
+  properties,
+  serviceTypes,
+}: CustomerPriceBookProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<PriceBookEntryData | undefined>(undefined)
+  const [deleteTarget, setDeleteTarget] = useState<PriceBookEntryData | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState("")
+
+  const statuses = entryStatuses(entries)
+  const serviceName = (id: number | null) =>
+    serviceTypes.find((t) => t.id === id)?.name ?? "Any service"
+  const locationName = (id: number | null) => {
+    const property = properties.find((p) => p.id === id)
+    return property ? property.label ?? property.address : null
+  }
+
+  function handleAdd() {
+    setEditing(undefined)
+    setDialogOpen(true)
+  }
+
+  function handleEdit(entry: PriceBookEntryData) {
+    setEditing(entry)
+    setDialogOpen(true)
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    setDeleteError("")
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}/price-book/${deleteTarget.id}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setDeleteTarget(null)
+        router.refresh()
+      } else {
+        setDeleteError(result.error || "Failed to delete price.")
+      }
+    } catch {
+      setDeleteError("Failed to delete. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Price Book</CardTitle>
+        <CardDescription>
+          Agreed prices, pre-filled when logging a service and used for route estimates
+        </CardDescription>
+        <CardAction>
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus className="mr-2 size-4" />
+            Add Price
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">
+            No prices yet. Services are pre-filled with the last price charged.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {entries.map((entry) => {
+              const status = statuses.get(entry.id)
+              const location = locationName(entry.propertyId)
+              return (
+                <li
+                  key={entry.id}
+                  className={cn("flex items-start gap-3 px-3 py-3", status === "past" && "opacity-60")}
+                >
+                  <BadgeDollarSign className="text-muted-foreground mt-0.5 size-4 shrink-0" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">
+                        {serviceName(entry.serviceTypeId)}
+                        {location && <span className="text-muted-foreground"> · {location}</span>}
+                      </p>
+                      {status === "scheduled" && <Badge variant="outline">Scheduled</Badge>}
+                      {status === "past" && <Badge variant="secondary">Superseded</Badge>}
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      From {new Date(entry.effectiveFrom).toLocaleDateString()}
+                      {entry.notes && ` · ${entry.notes}`}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium tabular-nums">
+                    {formatCurrency(Number(entry.price))}
+                  </span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="size-8">
+                        <MoreHorizontal className="size-4" />
+                        <span className="sr-only">Actions</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleEdit(entry)}>
+                        <Pencil className="mr-2 size-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        variant="destructive"
+                        onClick={() => {
+                          setDeleteTarget(entry)
+                          setDeleteError("")
+                        }}
+                      >
+                        <Trash2 className="mr-2 size-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <PriceBookEntryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customerId={customerId}
+        properties={properties}
+        serviceTypes={serviceTypes}
+        entry={editing}
+        onSuccess={() => router.refresh()}
+      />
+
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Price</DialogTitle>
+            <DialogDescription>
+              Delete the {deleteTarget && formatCurrency(Number(deleteTarget.price))} price for{" "}
+              <strong>{deleteTarget && serviceName(deleteTarget.serviceTypeId)}</strong>? Any
+              earlier price for the same service applies again.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {deleteError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Building2, KeyRound, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { DueStatusBadge } from "@/components/ui/due-status-badge"
+import { PropertyDialog, type PropertyData } from "@/components/customers/property-dialog"
+import type { DueStatus } from "@/lib/due-date"
+
+interface PropertyWithDue extends PropertyData {
+  daysUntilDue: number | null
+  dueStatus: DueStatus
+  serviceCount: number
+}
+
+interface CustomerPropertiesProps {
+  customerId: number
+  customerInterval: number | null
+  properties: PropertyWithDue[]
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+export function CustomerProperties({
+  customerId,
+  customerInterval,
+  properties,
+}: CustomerPropertiesProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<PropertyData | undefined>(undefined)
+  const [deleteTarget, setDeleteTarget] = useState<PropertyWithDue | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState("")
+
+  function handleAdd() {
+    setEditing(undefined)
+    setDialogOpen(true)
+  }
+
+  function handleEdit(property: PropertyData) {
+    setEditing(property)
+    setDialogOpen(true)
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    setDeleteError("")
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}/properties/${deleteTarget.id}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        setDeleteTarget(null)
+        router.refresh()
+      } else {
+        setDeleteError(result.error || "Failed to delete property.")
+      }
+    } catch {
+      setDeleteError("Failed to delete. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Properties</CardTitle>
+        <CardDescription>
+          {properties.length === 0
+            ? "Other locations serviced for this customer"
+            : `${properties.length} property(ies), each due on its own schedule`}
+        </CardDescription>
+        <CardAction>
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus className="mr-2 size-4" />
+            Add Property
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {properties.length === 0 ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">
+            No extra properties. Services are logged at the customer&apos;s address.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {properties.map((property) => {
+              const interval = property.serviceInterval ?? customerInterval
+              return (
+                <li key={property.id} className="flex items-start gap-3 px-3 py-3">
+                  <Building2 className="text-muted-foreground mt-0.5 size-4 shrink-0" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">{property.label ?? property.address}</p>
+                      <DueStatusBadge
+                        daysUntilDue={property.daysUntilDue}
+                        dueStatus={property.dueStatus}
+                      />
+                    </div>
+                    {property.label && (
+                      <p className="text-muted-foreground text-sm">{property.address}</p>
+                    )}
+                    <p className="text-muted-foreground text-xs">
+                      {interval ? `Every ${interval} days` : "No interval"}
+                      {property.serviceInterval == null && interval ? " (customer's)" : ""}
+                      {property.defaultPrice != null &&
+                        ` · ${formatCurrency(Number(property.defaultPrice))}`}
+                      {` · ${property.serviceCount} service(s)`}
+                    </p>
+                    {property.accessNotes && (
+                      <p className="text-muted-foreground flex items-start gap-1 text-xs">
+                        <KeyRound className="mt-0.5 size-3 shrink-0" />
+                        <span className="whitespace-pre-line">{property.accessNotes}</span>
+                      </p>
+                    )}
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="size-8">
+                        <MoreHorizontal className="size-4" />
+                        <span className="sr-only">Actions</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleEdit(property)}>
+                        <Pencil className="mr-2 size-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        variant="destructive"
+                        onClick={() => {
+                          setDeleteTarget(property)
+                          setDeleteError("")
+                        }}
+                      >
+                        <Trash2 className="mr-2 size-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <PropertyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customerId={customerId}
+        customerInterval={customerInterval}
+        property={editing}
+        onSuccess={() => router.refresh()}
+      />
+
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Property</DialogTitle>
+            <DialogDescription>
+              Delete <strong>{deleteTarget?.label ?? deleteTarget?.address}</strong>? It is also
+              removed from any routes. Properties with service history can&apos;t be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {deleteError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
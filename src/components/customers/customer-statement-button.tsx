@@ -0,0 +1,28 @@
+"use client"
+
+import { useState } from "react"
+import { FileText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { StatementDialog } from "@/components/customers/statement-dialog"
+
+interface CustomerStatementButtonProps {
+  customer: { id: number; name: string }
+}
+
+export function CustomerStatementButton({ customer }: CustomerStatementButtonProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setDialogOpen(true)}>
+        <FileText className="mr-2 size-4" />
+        Statement
+      </Button>
+      <StatementDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customer={customer}
+      />
+    </>
+  )
+}
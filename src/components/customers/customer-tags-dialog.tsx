@@ -0,0 +1,248 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export interface CustomerTagData {
+  id: number
+  name: string
+  color: string | null
+}
+
+interface TagWithCount extends CustomerTagData {
+  _count: { customers: number }
+}
+
+interface CustomerTagsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after any tag is created, renamed or deleted */
+  onChange: () => void
+}
+
+const DEFAULT_COLOR = "#64748b"
+
+export function CustomerTagsDialog({ open, onOpenChange, onChange }: CustomerTagsDialogProps) {
+  const [tags, setTags] = useState<TagWithCount[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR)
+  const [editing, setEditing] = useState<{ id: number; name: string; color: string } | null>(null)
+  const [busyId, setBusyId] = useState<number | "new" | null>(null)
+  const [error, setError] = useState("")
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const res = await fetch("/api/customers/tags")
+      const result = await res.json()
+      if (result.success) setTags(result.data)
+    } catch (error) {
+      console.error("Failed to fetch customer tags:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setNewName("")
+    setNewColor(DEFAULT_COLOR)
+    setEditing(null)
+    setError("")
+    setIsLoading(true)
+    fetchTags().finally(() => setIsLoading(false))
+  }, [open, fetchTags])
+
+  async function save(id: number | "new", url: string, method: string, body: object) {
+    setBusyId(id)
+    setError("")
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return false
+      }
+      await fetchTags()
+      onChange()
+      return true
+    } catch {
+      setError("Failed to save tag. Please try again.")
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    if (!newName.trim()) return
+    if (await save("new", "/api/customers/tags", "POST", { name: newName.trim(), color: newColor })) {
+      setNewName("")
+    }
+  }
+
+  async function handleRename() {
+    if (!editing || !editing.name.trim()) return
+    const body = { name: editing.name.trim(), color: editing.color }
+    if (await save(editing.id, `/api/customers/tags/${editing.id}`, "PATCH", body)) {
+      setEditing(null)
+    }
+  }
+
+  async function handleDelete(tag: TagWithCount) {
+    setBusyId(tag.id)
+    setError("")
+    try {
+      const res = await fetch(`/api/customers/tags/${tag.id}`, { method: "DELETE" })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to delete tag.")
+        return
+      }
+      setTags((prev) => prev.filter((t) => t.id !== tag.id))
+      onChange()
+    } catch {
+      setError("Failed to delete tag. Please try again.")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Customer Tags</DialogTitle>
+          <DialogDescription>
+            Deleting a tag removes it from every customer and saved segment.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="h-9 w-9 shrink-0 cursor-pointer rounded-md border bg-transparent p-1"
+            aria-label="Tag color"
+          />
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tag, e.g. Salt water"
+            maxLength={50}
+          />
+          <Button type="submit" size="icon" disabled={!newName.trim() || busyId === "new"}>
+            {busyId === "new" ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+            <span className="sr-only">Add tag</span>
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No tags yet.</p>
+        ) : (
+          <ul className="max-h-80 divide-y overflow-y-auto rounded-md border">
+            {tags.map((tag) =>
+              editing?.id === tag.id ? (
+                <li key={tag.id} className="flex items-center gap-2 px-3 py-2">
+                  <input
+                    type="color"
+                    value={editing.color}
+                    onChange={(e) => setEditing({ ...editing, color: e.target.value })}
+                    className="h-8 w-8 shrink-0 cursor-pointer rounded-md border bg-transparent p-1"
+                    aria-label="Tag color"
+                  />
+                  <Input
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault()
+                        handleRename()
+                      }
+                    }}
+                    maxLength={50}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="size-8"
+                    onClick={handleRename}
+                    disabled={busyId === tag.id}
+                  >
+                    <Check className="size-4" />
+                    <span className="sr-only">Save</span>
+                  </Button>
+                  <Button size="icon" variant="ghost" className="size-8" onClick={() => setEditing(null)}>
+                    <X className="size-4" />
+                    <span className="sr-only">Cancel</span>
+                  </Button>
+                </li>
+              ) : (
+                <li key={tag.id} className="flex items-center gap-2 px-3 py-2">
+                  <span
+                    className="inline-block size-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: tag.color || "var(--muted-foreground)" }}
+                  />
+                  <span className="flex-1 truncate text-sm">{tag.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {tag._count.customers} customer(s)
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="size-8"
+                    onClick={() =>
+                      setEditing({ id: tag.id, name: tag.name, color: tag.color || DEFAULT_COLOR })
+                    }
+                  >
+                    <Pencil className="size-4" />
+                    <span className="sr-only">Edit {tag.name}</span>
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="size-8 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(tag)}
+                    disabled={busyId === tag.id}
+                  >
+                    {busyId === tag.id ? (
+                      <Loader2 className="size-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="size-4" />
+                    )}
+                    <span className="sr-only">Delete {tag.name}</span>
+                  </Button>
+                </li>
+              )
+            )}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
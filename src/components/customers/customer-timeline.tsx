@@ -0,0 +1,332 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  BanknoteArrowDown,
+  FileText,
+  Mail,
+  MapPinned,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Phone,
+  Plus,
+  Search,
+  StickyNote,
+  Trash2,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  InteractionDialog,
+  type InteractionData,
+  type InteractionType,
+} from "@/components/customers/interaction-dialog"
+import type { TimelineEntry, TimelineEntryType } from "@/lib/customer-timeline"
+
+interface CustomerTimelineProps {
+  customerId: number
+  entries: TimelineEntry[]
+}
+
+const TYPE_FILTERS: { type: TimelineEntryType; label: string; icon: LucideIcon }[] = [
+  { type: "CALL", label: "Calls", icon: Phone },
+  { type: "TEXT", label: "Texts", icon: MessageSquare },
+  { type: "EMAIL", label: "Emails", icon: Mail },
+  { type: "VISIT", label: "Visits", icon: MapPinned },
+  { type: "NOTE", label: "Notes", icon: StickyNote },
+  { type: "SERVICE", label: "Services", icon: Wrench },
+  { type: "INVOICE", label: "Invoices", icon: FileText },
+  { type: "PAYMENT", label: "Payments", icon: BanknoteArrowDown },
+]
+
+const ICONS = Object.fromEntries(TYPE_FILTERS.map((f) => [f.type, f.icon])) as Record<
+  TimelineEntryType,
+  LucideIcon
+>
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+// Service, invoice and payment dates are calendar days stored at midnight UTC;
+// logged interactions and emails carry a time
+function formatEntryDate(entry: TimelineEntry): string {
+  const timed = entry.interactionId !== null || entry.key.startsWith("email-")
+  return new Date(entry.date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    ...(timed ? { hour: "numeric", minute: "2-digit" } : { timeZone: "UTC" }),
+  })
+}
+
+export function CustomerTimeline({ customerId, entries }: CustomerTimelineProps) {
+  const router = useRouter()
+  const [activeTypes, setActiveTypes] = useState<Set<TimelineEntryType>>(new Set())
+  const [search, setSearch] = useState("")
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<InteractionData | undefined>(undefined)
+  const [deleteTarget, setDeleteTarget] = useState<TimelineEntry | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteError, setDeleteError] = useState("")
+
+  const counts = new Map<TimelineEntryType, number>()
+  for (const entry of entries) counts.set(entry.type, (counts.get(entry.type) ?? 0) + 1)
+
+  const query = search.trim().toLowerCase()
+  const visible = entries.filter(
+    (entry) =>
+      (activeTypes.size === 0 || activeTypes.has(entry.type)) &&
+      (!query ||
+        entry.title.toLowerCase().includes(query) ||
+        (entry.body?.toLowerCase().includes(query) ?? false))
+  )
+
+  function toggleType(type: TimelineEntryType) {
+    setActiveTypes((prev) => {
+      const next = new Set(prev)
+      if (next.has(type)) {
+        next.delete(type)
+      } else {
+        next.add(type)
+      }
+      return next
+    })
+  }
+
+  function handleAdd() {
+    setEditing(undefined)
+    setDialogOpen(true)
+  }
+
+  function handleEdit(entry: TimelineEntry) {
+    if (entry.interactionId === null) return
+    setEditing({
+      id: entry.interactionId,
+      type: entry.type as InteractionType,
+      body: entry.body ?? "",
+      occurredAt: entry.date,
+    })
+    setDialogOpen(true)
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    setDeleteError("")
+
+    try {
+      const res = await fetch(
+        `/api/customers/${customerId}/interactions/${deleteTarget.interactionId}`,
+        { method: "DELETE" }
+      )
+      const result = await res.json()
+
+      if (result.success) {
+        setDeleteTarget(null)
+        router.refresh()
+      } else {
+        setDeleteError(result.error || "Failed to delete entry.")
+      }
+    } catch {
+      setDeleteError("Failed to delete. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+        <CardDescription>
+          Calls, messages and notes alongside services, invoices and payments
+        </CardDescription>
+        <CardAction>
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus className="mr-2 size-4" />
+            Log Interaction
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative w-full sm:w-56">
+            <Search className="absolute left-2.5 top-2.5 size-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search notes..."
+              className="pl-8"
+            />
+          </div>
+          {TYPE_FILTERS.filter((f) => counts.has(f.type)).map(({ type, label, icon: Icon }) => (
+            <Button
+              key={type}
+              variant="outline"
+              size="sm"
+              onClick={() => toggleType(type)}
+              className={cn(
+                "h-8 gap-1.5",
+                activeTypes.has(type) && "border-primary bg-primary/10"
+              )}
+            >
+              <Icon className="size-3.5" />
+              {label}
+              <span className="text-xs text-muted-foreground">{counts.get(type)}</span>
+            </Button>
+          ))}
+          {activeTypes.size > 0 && (
+            <Button variant="ghost" size="sm" className="h-8" onClick={() => setActiveTypes(new Set())}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">
+            {entries.length === 0
+              ? "Nothing yet. Log a call or note to start the timeline."
+              : "No entries match these filters."}
+          </p>
+        ) : (
+          <ol className="ml-3 space-y-4 border-l pl-6">
+            {visible.map((entry) => {
+              const Icon = ICONS[entry.type]
+              return (
+                <li key={entry.key} className="relative">
+                  <span className="absolute -left-[35px] flex size-6 items-center justify-center rounded-full border bg-background">
+                    <Icon className="size-3.5 text-muted-foreground" />
+                  </span>
+                  <div className="flex items-start gap-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">
+                        {entry.href ? (
+                          <Link href={entry.href} className="underline-offset-4 hover:underline">
+                            {entry.title}
+                          </Link>
+                        ) : (
+                          entry.title
+                        )}
+                        {entry.amount !== null && (
+                          <span className="ml-2 font-normal text-muted-foreground">
+                            {formatCurrency(entry.amount)}
+                          </span>
+                        )}
+                      </p>
+                      {entry.body && (
+                        <p className="mt-1 whitespace-pre-line break-words text-sm text-muted-foreground">
+                          {entry.body}
+                        </p>
+                      )}
+                      <p className="mt-1 text-xs text-muted-foreground">{formatEntryDate(entry)}</p>
+                    </div>
+                    {entry.interactionId !== null && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="size-8">
+                            <MoreHorizontal className="size-4" />
+                            <span className="sr-only">Actions</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => handleEdit(entry)}>
+                            <Pencil className="mr-2 size-4" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            variant="destructive"
+                            onClick={() => {
+                              setDeleteTarget(entry)
+                              setDeleteError("")
+                            }}
+                          >
+                            <Trash2 className="mr-2 size-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </CardContent>
+
+      <InteractionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customerId={customerId}
+        interaction={editing}
+        onSuccess={() => router.refresh()}
+      />
+
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Entry</DialogTitle>
+            <DialogDescription>
+              Delete this {deleteTarget?.title.toLowerCase()} from the timeline? This cannot be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {deleteError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteTarget(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export type InteractionType = "CALL" | "TEXT" | "EMAIL" | "VISIT" | "NOTE"
+
+export const INTERACTION_LABELS: Record<InteractionType, string> = {
+  CALL: "Call",
+  TEXT: "Text",
+  EMAIL: "Email",
+  VISIT: "Visit",
+  NOTE: "Note",
+}
+
+export interface InteractionData {
+  id: number
+  type: InteractionType
+  body: string
+  occurredAt: string
+}
+
+interface InteractionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  customerId: number
+  interaction?: InteractionData
+  onSuccess: () => void
+}
+
+// datetime-local inputs take local time without a zone
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+export function InteractionDialog({
+  open,
+  onOpenChange,
+  customerId,
+  interaction,
+  onSuccess,
+}: InteractionDialogProps) {
+  const [type, setType] = useState<InteractionType>("NOTE")
+  const [body, setBody] = useState("")
+  const [occurredAt, setOccurredAt] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const isEditing = !!interaction
+
+  useEffect(() => {
+    if (!open) return
+    setType(interaction?.type ?? "NOTE")
+    setBody(interaction?.body ?? "")
+    setOccurredAt(toLocalInput(interaction ? new Date(interaction.occurredAt) : new Date()))
+    setError("")
+  }, [open, interaction])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!body.trim()) {
+      setError("Details are required.")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = isEditing
+        ? `/api/customers/${customerId}/interactions/${interaction.id}`
+        : `/api/customers/${customerId}/interactions`
+
+      const res = await fetch(url, {
+        method: isEditing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          body: body.trim(),
+          ...(occurredAt && { occurredAt: new Date(occurredAt).toISOString() }),
+        }),
+      })
+
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to save entry. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Entry" : "Log Interaction"}</DialogTitle>
+          <DialogDescription>
+            Calls, messages, visits and notes appear on the customer&apos;s timeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="interaction-type">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as InteractionType)}>
+                <SelectTrigger id="interaction-type" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INTERACTION_LABELS) as InteractionType[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {INTERACTION_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="interaction-date">When</Label>
+              <Input
+                id="interaction-date"
+                type="datetime-local"
+                value={occurredAt}
+                onChange={(e) => setOccurredAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="interaction-body">Details *</Label>
+            <Textarea
+              id="interaction-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Called about a green pool, booking an extra visit Friday…"
+              rows={5}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {isEditing ? "Save Changes" : "Log Entry"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,233 @@
+import { Document, Page, View, Text, StyleSheet } from "@react-pdf/renderer"
+import type { CustomerStatement } from "@/lib/customer-statements"
+import type { InvoicePdfCompany } from "@/components/invoices/pdf/invoice-pdf"
+
+// ── Formatting ────────────────────────────────────────────────────
+
+function fmtExact(n: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(n)
+}
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+// ── Styles ────────────────────────────────────────────────────────
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  border: "#e2e8f0",
+  emerald: "#059669",
+  bgMuted: "#f8fafc",
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 40,
+    paddingBottom: 48,
+    paddingHorizontal: 40,
+    fontSize: 10,
+    color: COLORS.text,
+    fontFamily: "Helvetica",
+  },
+  letterhead: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingBottom: 14,
+    borderBottomWidth: 2,
+    borderColor: COLORS.text,
+  },
+  companyName: { fontSize: 16, fontFamily: "Helvetica-Bold", marginBottom: 4 },
+  companyLine: { fontSize: 9, color: COLORS.muted, marginBottom: 1 },
+  docTitle: { fontSize: 22, fontFamily: "Helvetica-Bold", textAlign: "right" },
+  docSubtitle: { fontSize: 10, color: COLORS.muted, textAlign: "right", marginTop: 2 },
+  metaRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 18,
+  },
+  label: {
+    fontSize: 8,
+    color: COLORS.muted,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 3,
+  },
+  customerName: { fontSize: 11, fontFamily: "Helvetica-Bold", marginBottom: 2 },
+  customerLine: { fontSize: 9, color: COLORS.muted, marginBottom: 1 },
+  summary: { alignItems: "flex-end" },
+  summaryRow: { flexDirection: "row", marginBottom: 3 },
+  summaryLabel: { fontSize: 9, color: COLORS.muted, width: 90, textAlign: "right", marginRight: 8 },
+  summaryValue: { fontSize: 9, width: 80, textAlign: "right" },
+  table: {
+    marginTop: 22,
+    borderTopWidth: 1,
+    borderColor: COLORS.border,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: COLORS.bgMuted,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 5,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  thDate: { flex: 1.6, fontSize: 8, color: COLORS.muted, fontFamily: "Helvetica-Bold" },
+  thDesc: { flex: 4, fontSize: 8, color: COLORS.muted, fontFamily: "Helvetica-Bold" },
+  thNum: { flex: 1.5, fontSize: 8, color: COLORS.muted, textAlign: "right", fontFamily: "Helvetica-Bold" },
+  tdDate: { flex: 1.6, fontSize: 9, color: COLORS.muted },
+  tdDesc: { flex: 4, fontSize: 9 },
+  tdNum: { flex: 1.5, fontSize: 9, textAlign: "right" },
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignSelf: "flex-end",
+    width: 220,
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+    marginTop: 12,
+    backgroundColor: COLORS.bgMuted,
+  },
+  balanceLabel: { fontSize: 11, fontFamily: "Helvetica-Bold" },
+  balanceValue: { fontSize: 11, fontFamily: "Helvetica-Bold" },
+  pageFooter: {
+    position: "absolute",
+    bottom: 20,
+    left: 40,
+    right: 40,
+    fontSize: 8,
+    color: COLORS.muted,
+    textAlign: "center",
+  },
+})
+
+// ── Document ──────────────────────────────────────────────────────
+
+interface Props {
+  statements: CustomerStatement[]
+  company: InvoicePdfCompany
+}
+
+export function CustomerStatementPdf({ statements, company }: Props) {
+  const contactLine = [company.phone, company.email, company.website].filter(Boolean).join(" · ")
+  const title =
+    statements.length === 1
+      ? `Statement — ${statements[0].customer.name}`
+      : "Customer Statements"
+
+  return (
+    <Document title={title} author={company.name}>
+      {statements.map((statement) => (
+        <Page key={statement.customer.id} size="LETTER" style={styles.page}>
+          {/* ── Letterhead ───────────────────────────────────── */}
+          <View style={styles.letterhead}>
+            <View>
+              <Text style={styles.companyName}>{company.name}</Text>
+              {company.address && <Text style={styles.companyLine}>{company.address}</Text>}
+              {company.cityLine && <Text style={styles.companyLine}>{company.cityLine}</Text>}
+              {company.phone && <Text style={styles.companyLine}>{company.phone}</Text>}
+            </View>
+            <View>
+              <Text style={styles.docTitle}>STATEMENT</Text>
+              <Text style={styles.docSubtitle}>
+                {fmtDate(statement.dateFrom)} – {fmtDate(statement.dateTo)}
+              </Text>
+            </View>
+          </View>
+
+          {/* ── Customer + Summary ───────────────────────────── */}
+          <View style={styles.metaRow}>
+            <View>
+              <Text style={styles.label}>STATEMENT FOR</Text>
+              <Text style={styles.customerName}>{statement.customer.name}</Text>
+              {statement.customer.address && (
+                <Text style={styles.customerLine}>{statement.customer.address}</Text>
+              )}
+              {statement.customer.phone && (
+                <Text style={styles.customerLine}>{statement.customer.phone}</Text>
+              )}
+              {statement.customer.email && (
+                <Text style={styles.customerLine}>{statement.customer.email}</Text>
+              )}
+            </View>
+            <View style={styles.summary}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Opening Balance</Text>
+                <Text style={styles.summaryValue}>{fmtExact(statement.openingBalance)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Charges</Text>
+                <Text style={styles.summaryValue}>{fmtExact(statement.totalCharges)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Payments & Credits</Text>
+                <Text style={[styles.summaryValue, { color: COLORS.emerald }]}>
+                  -{fmtExact(statement.totalPayments)}
+                </Text>
+              </View>
+            </View>
+          </View>
+
+          {/* ── Activity ─────────────────────────────────────── */}
+          <View style={styles.table}>
+            <View style={styles.tableHeader} fixed>
+              <Text style={styles.thDate}>DATE</Text>
+              <Text style={styles.thDesc}>DESCRIPTION</Text>
+              <Text style={styles.thNum}>CHARGES</Text>
+              <Text style={styles.thNum}>CREDITS</Text>
+              <Text style={styles.thNum}>BALANCE</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.tdDate}>{fmtDate(statement.dateFrom)}</Text>
+              <Text style={styles.tdDesc}>Opening balance</Text>
+              <Text style={styles.tdNum} />
+              <Text style={styles.tdNum} />
+              <Text style={styles.tdNum}>{fmtExact(statement.openingBalance)}</Text>
+            </View>
+            {statement.entries.map((entry, i) => (
+              <View key={i} style={styles.tableRow} wrap={false}>
+                <Text style={styles.tdDate}>{fmtDate(entry.date)}</Text>
+                <Text style={styles.tdDesc}>{entry.description}</Text>
+                <Text style={styles.tdNum}>{entry.charge ? fmtExact(entry.charge) : ""}</Text>
+                <Text style={[styles.tdNum, { color: COLORS.emerald }]}>
+                  {entry.payment ? fmtExact(entry.payment) : ""}
+                </Text>
+                <Text style={styles.tdNum}>{fmtExact(entry.balance)}</Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.balanceRow} wrap={false}>
+            <Text style={styles.balanceLabel}>Balance Due</Text>
+            <Text style={styles.balanceValue}>{fmtExact(statement.closingBalance)}</Text>
+          </View>
+
+          <Text
+            style={styles.pageFooter}
+            fixed
+            render={({ subPageNumber, subPageTotalPages }) =>
+              `${company.name}${contactLine ? ` · ${contactLine}` : ""} · Page ${subPageNumber} of ${subPageTotalPages}`
+            }
+          />
+        </Page>
+      ))}
+    </Document>
+  )
+}
@@ -0,0 +1,241 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export interface PriceBookEntryData {
+  id: number
+  propertyId: number | null
+  serviceTypeId: number | null
+  price: number | string
+  effectiveFrom: string
+  notes: string | null
+}
+
+export interface PriceBookOptions {
+  properties: { id: number; label: string | null; address: string }[]
+  serviceTypes: { id: number; name: string }[]
+}
+
+interface PriceBookEntryDialogProps extends PriceBookOptions {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  customerId: number
+  entry?: PriceBookEntryData
+  onSuccess: () => void
+}
+
+const CUSTOMER_LOCATION = "__customer__"
+const ANY_SERVICE = "__any__"
+
+function startOfToday(): Date {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return today
+}
+
+export function PriceBookEntryDialog({
+  open,
+  onOpenChange,
+  customerId,
+  properties,
+  serviceTypes,
+  entry,
+  onSuccess,
+}: PriceBookEntryDialogProps) {
+  const [location, setLocation] = useState(CUSTOMER_LOCATION)
+  const [serviceType, setServiceType] = useState(ANY_SERVICE)
+  const [price, setPrice] = useState("")
+  const [effectiveFrom, setEffectiveFrom] = useState<Date | undefined>(undefined)
+  const [notes, setNotes] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const isEditing = !!entry
+
+  useEffect(() => {
+    if (!open) return
+    setLocation(entry?.propertyId ? String(entry.propertyId) : CUSTOMER_LOCATION)
+    setServiceType(entry?.serviceTypeId ? String(entry.serviceTypeId) : ANY_SERVICE)
+    setPrice(entry ? String(Number(entry.price)) : "")
+    setEffectiveFrom(entry ? new Date(entry.effectiveFrom) : startOfToday())
+    setNotes(entry?.notes ?? "")
+    setError("")
+  }, [open, entry])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    const amount = parseFloat(price)
+    if (price === "" || isNaN(amount) || amount < 0) {
+      setError("Enter a valid price.")
+      return
+    }
+    if (!effectiveFrom) {
+      setError("Pick the date the price takes effect.")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = isEditing
+        ? `/api/customers/${customerId}/price-book/${entry.id}`
+        : `/api/customers/${customerId}/price-book`
+
+      const res = await fetch(url, {
+        method: isEditing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          propertyId: location === CUSTOMER_LOCATION ? null : parseInt(location, 10),
+          serviceTypeId: serviceType === ANY_SERVICE ? null : parseInt(serviceType, 10),
+          price: amount,
+          effectiveFrom: effectiveFrom.toISOString(),
+          notes: notes.trim() || null,
+        }),
+      })
+
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to save price. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Price" : "Add Price"}</DialogTitle>
+          <DialogDescription>
+            Pre-filled when logging this service. To change a price from a date on, add a new
+            one rather than editing the old, so past services keep their price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="price-book-service">Service</Label>
+              <Select value={serviceType} onValueChange={setServiceType}>
+                <SelectTrigger id="price-book-service" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SERVICE}>Any service</SelectItem>
+                  {serviceTypes.map((type) => (
+                    <SelectItem key={type.id} value={String(type.id)}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {properties.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="price-book-location">Location</Label>
+                <Select value={location} onValueChange={setLocation}>
+                  <SelectTrigger id="price-book-location" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOMER_LOCATION}>All locations</SelectItem>
+                    {properties.map((property) => (
+                      <SelectItem key={property.id} value={String(property.id)}>
+                        {property.label ?? property.address}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="price-book-price">Price *</Label>
+              <Input
+                id="price-book-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="0.00"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Effective From *</Label>
+              <DatePicker date={effectiveFrom} onSelect={setEffectiveFrom} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="price-book-notes">Notes</Label>
+            <Textarea
+              id="price-book-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Includes filter cleaning"
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {isEditing ? "Save Changes" : "Add Price"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
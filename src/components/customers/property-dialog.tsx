@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export interface PropertyData {
+  id: number
+  label: string | null
+  address: string
+  accessNotes: string | null
+  serviceInterval: number | null
+  defaultPrice: number | string | null
+}
+
+interface PropertyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  customerId: number
+  // Shown as the interval placeholder, since properties fall back to it
+  customerInterval: number | null
+  property?: PropertyData
+  onSuccess: () => void
+}
+
+export function PropertyDialog({
+  open,
+  onOpenChange,
+  customerId,
+  customerInterval,
+  property,
+  onSuccess,
+}: PropertyDialogProps) {
+  const [label, setLabel] = useState("")
+  const [address, setAddress] = useState("")
+  const [accessNotes, setAccessNotes] = useState("")
+  const [serviceInterval, setServiceInterval] = useState("")
+  const [defaultPrice, setDefaultPrice] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const isEditing = !!property
+
+  useEffect(() => {
+    if (!open) return
+    setLabel(property?.label ?? "")
+    setAddress(property?.address ?? "")
+    setAccessNotes(property?.accessNotes ?? "")
+    setServiceInterval(property?.serviceInterval?.toString() ?? "")
+    setDefaultPrice(property?.defaultPrice != null ? String(Number(property.defaultPrice)) : "")
+    setError("")
+  }, [open, property])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!address.trim()) {
+      setError("Address is required.")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = isEditing
+        ? `/api/customers/${customerId}/properties/${property.id}`
+        : `/api/customers/${customerId}/properties`
+
+      const res = await fetch(url, {
+        method: isEditing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: label.trim() || null,
+          address: address.trim(),
+          accessNotes: accessNotes.trim() || null,
+          serviceInterval: serviceInterval ? parseInt(serviceInterval, 10) : null,
+          defaultPrice: defaultPrice ? parseFloat(defaultPrice) : null,
+        }),
+      })
+
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to save property. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Property" : "Add Property"}</DialogTitle>
+          <DialogDescription>
+            A separate location serviced for this customer, with its own schedule and price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="property-label">Label</Label>
+            <Input
+              id="property-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Unit 4B, Clubhouse"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="property-address">Address *</Label>
+            <Input
+              id="property-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="123 Main St, City, ST 12345"
+              required
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="property-interval">Service Interval (days)</Label>
+              <Input
+                id="property-interval"
+                type="number"
+                min="1"
+                value={serviceInterval}
+                onChange={(e) => setServiceInterval(e.target.value)}
+                placeholder={customerInterval ? `Customer's: ${customerInterval}` : "e.g. 30"}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="property-price">Default Price</Label>
+              <Input
+                id="property-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={defaultPrice}
+                onChange={(e) => setDefaultPrice(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="property-access">Access Notes</Label>
+            <Textarea
+              id="property-access"
+              value={accessNotes}
+              onChange={(e) => setAccessNotes(e.target.value)}
+              placeholder="Gate code, key location, pets…"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {isEditing ? "Save Changes" : "Add Property"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
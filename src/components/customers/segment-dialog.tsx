@@ -0,0 +1,305 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import type { DueStatusFilter, SegmentFilters } from "@/lib/customer-segments"
+import type { CustomerTagData } from "@/components/customers/customer-tags-dialog"
+
+export interface SegmentData {
+  id: number
+  name: string
+  filters: SegmentFilters
+}
+
+export const EMPTY_SEGMENT_FILTERS: SegmentFilters = {
+  tagIds: [],
+  tagMatch: "any",
+  serviceIntervals: [],
+  dueStatuses: [],
+  minBalance: null,
+  maxBalance: null,
+}
+
+const INTERVAL_OPTIONS = [
+  { value: 14, label: "2 Weeks" },
+  { value: 21, label: "3 Weeks" },
+  { value: 28, label: "Monthly" },
+]
+
+const DUE_STATUS_OPTIONS: { value: DueStatusFilter; label: string }[] = [
+  { value: "late", label: "Late" },
+  { value: "due-today", label: "Due Today" },
+  { value: "due-soon", label: "Due Soon" },
+  { value: "on-track", label: "On Track" },
+  { value: "none", label: "No Schedule" },
+]
+
+interface SegmentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tags: CustomerTagData[]
+  /** Omit to create a segment */
+  segment?: SegmentData
+  /** Starting filters for a new segment, e.g. the customer list's tag filter */
+  initialFilters?: Partial<SegmentFilters>
+  onSuccess: (segment: SegmentData) => void
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+function parseAmount(value: string): number | null {
+  return value.trim() === "" ? null : Number(value)
+}
+
+export function SegmentDialog({
+  open,
+  onOpenChange,
+  tags,
+  segment,
+  initialFilters,
+  onSuccess,
+}: SegmentDialogProps) {
+  const [name, setName] = useState("")
+  const [filters, setFilters] = useState<SegmentFilters>(EMPTY_SEGMENT_FILTERS)
+  const [minBalance, setMinBalance] = useState("")
+  const [maxBalance, setMaxBalance] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const isEditing = !!segment
+
+  useEffect(() => {
+    if (!open) return
+    const start = { ...EMPTY_SEGMENT_FILTERS, ...(segment?.filters ?? initialFilters) }
+    setName(segment?.name ?? "")
+    setFilters(start)
+    setMinBalance(start.minBalance?.toString() ?? "")
+    setMaxBalance(start.maxBalance?.toString() ?? "")
+    setError("")
+  }, [open, segment, initialFilters])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!name.trim()) {
+      setError("Name is required.")
+      return
+    }
+    const min = parseAmount(minBalance)
+    const max = parseAmount(maxBalance)
+    if ((min !== null && isNaN(min)) || (max !== null && isNaN(max))) {
+      setError("Balances must be numbers.")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const res = await fetch(
+        isEditing ? `/api/customers/segments/${segment.id}` : "/api/customers/segments",
+        {
+          method: isEditing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: name.trim(),
+            filters: { ...filters, minBalance: min, maxBalance: max },
+          }),
+        }
+      )
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess(result.data)
+    } catch {
+      setError("Failed to save segment. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Segment" : "Save Segment"}</DialogTitle>
+          <DialogDescription>
+            Customers matching every filter below. Membership updates as tags, schedules and
+            balances change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">Name *</Label>
+            <Input
+              id="segment-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Salt water pools, past due"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label>Tags</Label>
+              <Select
+                value={filters.tagMatch}
+                onValueChange={(value) =>
+                  setFilters({ ...filters, tagMatch: value as SegmentFilters["tagMatch"] })
+                }
+              >
+                <SelectTrigger size="sm" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any of these</SelectItem>
+                  <SelectItem value="all">All of these</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {tags.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tags yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => {
+                  const selected = filters.tagIds.includes(tag.id)
+                  return (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => setFilters({ ...filters, tagIds: toggle(filters.tagIds, tag.id) })}
+                      className={cn(
+                        "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors",
+                        selected
+                          ? "border-primary bg-primary text-primary-foreground"
+                          : "text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      <span
+                        className="inline-block size-2 rounded-full"
+                        style={{ backgroundColor: tag.color || "currentColor" }}
+                      />
+                      {tag.name}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Service interval</Label>
+              {INTERVAL_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={filters.serviceIntervals.includes(option.value)}
+                    onCheckedChange={() =>
+                      setFilters({
+                        ...filters,
+                        serviceIntervals: toggle(filters.serviceIntervals, option.value),
+                      })
+                    }
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Due status</Label>
+              {DUE_STATUS_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={filters.dueStatuses.includes(option.value)}
+                    onCheckedChange={() =>
+                      setFilters({ ...filters, dueStatuses: toggle(filters.dueStatuses, option.value) })
+                    }
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment-min-balance">Min balance</Label>
+              <Input
+                id="segment-min-balance"
+                type="number"
+                min="0"
+                step="0.01"
+                value={minBalance}
+                onChange={(e) => setMinBalance(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-max-balance">Max balance</Label>
+              <Input
+                id="segment-max-balance"
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxBalance}
+                onChange={(e) => setMaxBalance(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {isEditing ? "Save Changes" : "Save Segment"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
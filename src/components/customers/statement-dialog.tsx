@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface StatementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Omit for batch mode: every customer with a non-zero balance */
+  customer?: { id: number; name: string }
+  /** Batch mode: saved segments that can narrow the batch */
+  segments?: { id: number; name: string }[]
+  defaultSegmentId?: number | null
+}
+
+function toDateInput(d: Date): string {
+  return d.toISOString().split("T")[0]
+}
+
+export function StatementDialog({
+  open,
+  onOpenChange,
+  customer,
+  segments = [],
+  defaultSegmentId = null,
+}: StatementDialogProps) {
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
+  const [segmentId, setSegmentId] = useState("all")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  // Default to last month, the usual statement period
+  useEffect(() => {
+    if (!open) return
+    const now = new Date()
+    setDateFrom(toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)))
+    setDateTo(toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)))
+    setSegmentId(defaultSegmentId !== null ? String(defaultSegmentId) : "all")
+    setError("")
+  }, [open, defaultSegmentId])
+
+  async function handleDownload() {
+    if (!dateFrom || !dateTo) {
+      setError("Choose a start and end date.")
+      return
+    }
+
+    setIsLoading(true)
+    setError("")
+    try {
+      const params = new URLSearchParams({ dateFrom, dateTo: `${dateTo}T23:59:59` })
+      if (!customer && segmentId !== "all") params.set("segmentId", segmentId)
+      const url = customer
+        ? `/api/customers/${customer.id}/statement?${params}`
+        : `/api/customers/statements?${params}`
+      const res = await fetch(url)
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null)
+        setError(data?.error || "Failed to generate statement.")
+        return
+      }
+
+      const blob = await res.blob()
+      const disposition = res.headers.get("Content-Disposition") || ""
+      const match = disposition.match(/filename="?([^";]+)"?/)
+      const objectUrl = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = objectUrl
+      a.download = match?.[1] || "statement.pdf"
+      a.click()
+      URL.revokeObjectURL(objectUrl)
+      onOpenChange(false)
+    } catch {
+      setError("Failed to generate statement. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{customer ? "Account Statement" : "Batch Statements"}</DialogTitle>
+          <DialogDescription>
+            {customer
+              ? `Opening balance, charges, payments and closing balance for ${customer.name}.`
+              : "One statement per customer with a non-zero balance at the end of the period, in a single PDF."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <DatePicker
+              date={dateFrom ? new Date(dateFrom + "T00:00:00") : undefined}
+              onSelect={(d) => setDateFrom(d ? toDateInput(d) : "")}
+              placeholder="Start date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <DatePicker
+              date={dateTo ? new Date(dateTo + "T00:00:00") : undefined}
+              onSelect={(d) => setDateTo(d ? toDateInput(d) : "")}
+              placeholder="End date"
+            />
+          </div>
+        </div>
+
+        {!customer && segments.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="statement-segment">Customers</Label>
+            <Select value={segmentId} onValueChange={setSegmentId}>
+              <SelectTrigger id="statement-segment" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All customers</SelectItem>
+                {segments.map((segment) => (
+                  <SelectItem key={segment.id} value={String(segment.id)}>
+                    {segment.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 size-4" />
+            )}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -43,10 +43,13 @@ export function AgendaPanel({ selectedDate, onEventClick }: AgendaPanelProps) {
         const allEvents: CalendarEvent[] = [
           ...result.data.services,
           ...result.data.invoices,
-          ...(result.data.customerDueDates || []).map((d: any) => ({
-            id: d.customerId,
+          // One per location, so a customer can have several
+          ...(result.data.customerDueDates || []).map((d: any, i: number) => ({
+            id: i,
             type: "customer-due" as const,
-            title: `${d.customerName} — service due`,
+            title: d.location
+              ? `${d.customerName} — service due at ${d.location}`
+              : `${d.customerName} — service due`,
             date: d.nextServiceDate,
             customerName: d.customerName,
             customerId: d.customerId,
@@ -0,0 +1,377 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Pencil,
+  Send,
+  ThumbsUp,
+  ThumbsDown,
+  FileText,
+  Trash2,
+  Printer,
+  Loader2,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { EstimateFormDialog } from "@/components/estimates/estimate-form-dialog"
+
+const NO_SERVICE_TYPE = "none"
+
+interface EstimateForActions {
+  id: number
+  estimateNumber: string
+  customerId: number
+  issueDate: string
+  validUntil: string | null
+  status: string
+  subtotal: number | string
+  tax: number | string
+  total: number | string
+  taxRateId: number | null
+  notes: string | null
+  terms: string | null
+  invoiceId: number | null
+  items: Array<{
+    id: number
+    description: string
+    serviceDate: string
+    quantity: number | string
+    rate: number | string
+    amount: number | string
+    taxable: boolean
+  }>
+}
+
+interface EstimateActionsProps {
+  estimate: EstimateForActions
+}
+
+export function EstimateActions({ estimate }: EstimateActionsProps) {
+  const router = useRouter()
+  const [formDialogOpen, setFormDialogOpen] = useState(false)
+  const [convertDialogOpen, setConvertDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState("")
+
+  const isConverted = estimate.invoiceId !== null
+
+  async function handleStatusChange(newStatus: string) {
+    setIsUpdating(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/estimates/${estimate.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: newStatus }),
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        router.refresh()
+      } else {
+        setError(result.error || "Failed to update estimate.")
+      }
+    } catch (error) {
+      console.error("Failed to update estimate status:", error)
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  async function handleDelete() {
+    setIsDeleting(true)
+    setError("")
+
+    try {
+      const res = await fetch(`/api/estimates/${estimate.id}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+
+      if (result.success) {
+        router.push("/estimates")
+      } else {
+        setError(result.error || "Failed to delete estimate.")
+      }
+    } catch {
+      setError("Failed to delete estimate. Please try again.")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 print:hidden">
+        {estimate.status === "DRAFT" && (
+          <Button variant="outline" onClick={() => setFormDialogOpen(true)}>
+            <Pencil className="mr-2 size-4" />
+            Edit
+          </Button>
+        )}
+        {(estimate.status === "DRAFT" || estimate.status === "DECLINED") && (
+          <Button
+            variant="outline"
+            onClick={() => handleStatusChange("SENT")}
+            disabled={isUpdating}
+          >
+            <Send className="mr-2 size-4" />
+            Mark as Sent
+          </Button>
+        )}
+        {estimate.status === "SENT" && (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => handleStatusChange("ACCEPTED")}
+              disabled={isUpdating}
+            >
+              <ThumbsUp className="mr-2 size-4" />
+              Accepted
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleStatusChange("DECLINED")}
+              disabled={isUpdating}
+            >
+              <ThumbsDown className="mr-2 size-4" />
+              Declined
+            </Button>
+          </>
+        )}
+        {estimate.status === "ACCEPTED" && !isConverted && (
+          <Button onClick={() => setConvertDialogOpen(true)}>
+            <FileText className="mr-2 size-4" />
+            Convert to Invoice
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="mr-2 size-4" />
+          Print
+        </Button>
+        {!isConverted && (
+          <Button
+            variant="destructive"
+            onClick={() => {
+              setDeleteDialogOpen(true)
+              setError("")
+            }}
+          >
+            <Trash2 className="mr-2 size-4" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {error && !deleteDialogOpen && (
+        <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive print:hidden">
+          {error}
+        </div>
+      )}
+
+      {/* Edit Dialog */}
+      <EstimateFormDialog
+        open={formDialogOpen}
+        onOpenChange={setFormDialogOpen}
+        estimate={estimate}
+        onSuccess={() => router.refresh()}
+      />
+
+      <ConvertEstimateDialog
+        open={convertDialogOpen}
+        onOpenChange={setConvertDialogOpen}
+        estimateId={estimate.id}
+        itemCount={estimate.items.length}
+        onConverted={(invoiceId) => router.push(`/invoices/${invoiceId}`)}
+      />
+
+      {/* Delete Confirmation */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Estimate</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete estimate{" "}
+              <strong>{estimate.estimateNumber}</strong>? This action cannot be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+// ─── Convert Dialog ──────────────────────────────────────────────────────────
+
+function ConvertEstimateDialog({
+  open,
+  onOpenChange,
+  estimateId,
+  itemCount,
+  onConverted,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  estimateId: number
+  itemCount: number
+  onConverted: (invoiceId: number) => void
+}) {
+  const [createServiceLogs, setCreateServiceLogs] = useState(false)
+  const [serviceTypeId, setServiceTypeId] = useState(NO_SERVICE_TYPE)
+  const [serviceTypes, setServiceTypes] = useState<{ id: number; name: string }[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    setCreateServiceLogs(false)
+    setServiceTypeId(NO_SERVICE_TYPE)
+    setError("")
+
+    fetch("/api/service-types")
+      .then((r) => r.json())
+      .then((result) => {
+        if (result.success) setServiceTypes(result.data)
+      })
+      .catch((err) => console.error("Failed to load service types:", err))
+  }, [open])
+
+  async function handleConvert() {
+    setIsSubmitting(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/estimates/${estimateId}/convert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          createServiceLogs,
+          serviceTypeId:
+            serviceTypeId === NO_SERVICE_TYPE ? null : parseInt(serviceTypeId, 10),
+        }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to convert estimate.")
+        return
+      }
+
+      onOpenChange(false)
+      onConverted(result.data.invoice.id)
+    } catch {
+      setError("Failed to convert estimate. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Convert to Invoice</DialogTitle>
+          <DialogDescription>
+            Creates a draft invoice with the same line items and tax.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="convert-service-logs"
+              checked={createServiceLogs}
+              onCheckedChange={(checked) => setCreateServiceLogs(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="convert-service-logs">Schedule the quoted work</Label>
+              <p className="text-xs text-muted-foreground">
+                Adds {itemCount} pending service log(s), one per line item,
+                linked to the new invoice.
+              </p>
+            </div>
+          </div>
+
+          {createServiceLogs && (
+            <div className="space-y-2">
+              <Label htmlFor="convert-service-type">Service Type</Label>
+              <Select value={serviceTypeId} onValueChange={setServiceTypeId}>
+                <SelectTrigger id="convert-service-type" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SERVICE_TYPE}>None</SelectItem>
+                  {serviceTypes.map((t) => (
+                    <SelectItem key={t.id} value={String(t.id)}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConvert} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Create Invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
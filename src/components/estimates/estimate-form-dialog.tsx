@@ -0,0 +1,597 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DatePicker } from "@/components/ui/date-picker"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Separator } from "@/components/ui/separator"
+
+interface Customer {
+  id: number
+  name: string
+}
+
+interface TaxRate {
+  id: number
+  name: string
+  percent: number | string
+  isDefault: boolean
+}
+
+interface LineItemInput {
+  description: string
+  serviceDate: string
+  quantity: string
+  rate: string
+  taxable: boolean
+}
+
+interface EstimateItemData {
+  id?: number
+  description: string
+  serviceDate: string
+  quantity: number | string
+  rate: number | string
+  amount: number | string
+  taxable?: boolean
+}
+
+interface EstimateData {
+  id?: number
+  estimateNumber?: string
+  customerId: number
+  issueDate: string
+  validUntil: string | null
+  status?: string
+  subtotal: number | string
+  tax?: number | string
+  total: number | string
+  taxRateId?: number | null
+  notes: string | null
+  terms: string | null
+  customer?: { id: number; name: string }
+  items?: EstimateItemData[]
+}
+
+interface EstimateFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  estimate?: EstimateData
+  onSuccess: () => void
+}
+
+const NO_TAX = "none"
+
+function toDateInputValue(dateString: string | null | undefined): string {
+  if (!dateString) return ""
+  const d = new Date(dateString)
+  if (isNaN(d.getTime())) return ""
+  return d.toISOString().split("T")[0]
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+export function EstimateFormDialog({
+  open,
+  onOpenChange,
+  estimate,
+  onSuccess,
+}: EstimateFormDialogProps) {
+  const isEditing = !!estimate?.id
+
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
+  const [isLoadingData, setIsLoadingData] = useState(true)
+
+  // Form fields
+  const [customerId, setCustomerId] = useState("")
+  const [issueDate, setIssueDate] = useState("")
+  const [validUntil, setValidUntil] = useState("")
+  const [notes, setNotes] = useState("")
+  const [terms, setTerms] = useState("")
+  const [taxRateId, setTaxRateId] = useState(NO_TAX)
+  const [lineItems, setLineItems] = useState<LineItemInput[]>([])
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Fetch customers and tax rates when dialog opens
+  useEffect(() => {
+    if (!open) return
+    setIsLoadingData(true)
+
+    Promise.all([
+      fetch("/api/customers").then((r) => r.json()),
+      fetch("/api/tax-rates").then((r) => r.json()),
+    ])
+      .then(([customersResult, taxRatesResult]) => {
+        if (customersResult.success) setCustomers(customersResult.data)
+        if (taxRatesResult.success) {
+          const rates: TaxRate[] = taxRatesResult.data
+          setTaxRates(rates)
+          // New estimates start on the default rate
+          if (!estimate) {
+            const defaultRate = rates.find((r) => r.isDefault)
+            setTaxRateId(defaultRate ? String(defaultRate.id) : NO_TAX)
+          }
+        }
+      })
+      .catch((err) => console.error("Failed to load estimate form data:", err))
+      .finally(() => setIsLoadingData(false))
+  }, [open, estimate])
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    if (estimate) {
+      setCustomerId(String(estimate.customerId))
+      setIssueDate(toDateInputValue(estimate.issueDate))
+      setValidUntil(toDateInputValue(estimate.validUntil))
+      setNotes(estimate.notes ?? "")
+      setTerms(estimate.terms ?? "")
+      setTaxRateId(estimate.taxRateId ? String(estimate.taxRateId) : NO_TAX)
+      setLineItems(
+        estimate.items?.map((item) => ({
+          description: item.description,
+          serviceDate: toDateInputValue(item.serviceDate),
+          quantity: String(Number(item.quantity)),
+          rate: String(Number(item.rate)),
+          taxable: item.taxable ?? false,
+        })) ?? []
+      )
+    } else {
+      setCustomerId("")
+      setIssueDate(new Date().toISOString().split("T")[0])
+      setValidUntil("")
+      setNotes("")
+      setTerms("")
+      setLineItems([])
+    }
+
+    setError("")
+  }, [open, estimate])
+
+  // Calculate line item amounts and totals
+  function getLineItemAmount(item: LineItemInput): number {
+    const qty = parseFloat(item.quantity) || 0
+    const rate = parseFloat(item.rate) || 0
+    return qty * rate
+  }
+
+  const selectedTaxRate = taxRates.find((r) => String(r.id) === taxRateId) ?? null
+  const subtotal = lineItems.reduce(
+    (sum, item) => sum + getLineItemAmount(item),
+    0
+  )
+  const taxableAmount = lineItems
+    .filter((item) => item.taxable)
+    .reduce((sum, item) => sum + getLineItemAmount(item), 0)
+  const tax = selectedTaxRate
+    ? Math.round(taxableAmount * Number(selectedTaxRate.percent)) / 100
+    : 0
+  const total = subtotal + tax
+
+  function addLineItem() {
+    setLineItems((prev) => [
+      ...prev,
+      {
+        description: "",
+        serviceDate: issueDate || new Date().toISOString().split("T")[0],
+        quantity: "1",
+        rate: "",
+        taxable: selectedTaxRate !== null,
+      },
+    ])
+  }
+
+  function removeLineItem(index: number) {
+    setLineItems((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  function updateLineItem(
+    index: number,
+    field: keyof LineItemInput,
+    value: string | number | boolean | null
+  ) {
+    setLineItems((prev) =>
+      prev.map((item, i) =>
+        i === index ? { ...item, [field]: value } : item
+      )
+    )
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!customerId) {
+      setError("Customer is required.")
+      return
+    }
+    if (!issueDate) {
+      setError("Issue date is required.")
+      return
+    }
+    if (lineItems.length === 0) {
+      setError("At least one line item is required.")
+      return
+    }
+
+    // Validate all line items have description and rate
+    for (let i = 0; i < lineItems.length; i++) {
+      const item = lineItems[i]
+      if (!item.description.trim()) {
+        setError(`Line item ${i + 1}: Description is required.`)
+        return
+      }
+      if (!item.rate || parseFloat(item.rate) <= 0) {
+        setError(`Line item ${i + 1}: Rate must be greater than zero.`)
+        return
+      }
+      if (!item.serviceDate) {
+        setError(`Line item ${i + 1}: Service date is required.`)
+        return
+      }
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const payload = {
+        customerId: parseInt(customerId, 10),
+        issueDate: new Date(issueDate).toISOString(),
+        validUntil: validUntil ? new Date(validUntil).toISOString() : null,
+        notes: notes.trim() || null,
+        terms: terms.trim() || null,
+        taxRateId: taxRateId === NO_TAX ? null : parseInt(taxRateId, 10),
+        items: lineItems.map((item) => ({
+          description: item.description.trim(),
+          serviceDate: new Date(item.serviceDate).toISOString(),
+          quantity: parseFloat(item.quantity) || 1,
+          rate: parseFloat(item.rate) || 0,
+          taxable: item.taxable,
+        })),
+      }
+
+      const url = isEditing
+        ? `/api/estimates/${estimate.id}`
+        : "/api/estimates"
+
+      const res = await fetch(url, {
+        method: isEditing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to save estimate. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-screen flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit Estimate" : "Create Estimate"}
+          </DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Update the estimate details below."
+              : "Quote a price before the work starts."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingData ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-4">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              {/* Header Fields */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="est-customer">Customer *</Label>
+                  <Select value={customerId} onValueChange={setCustomerId}>
+                    <SelectTrigger id="est-customer" className="w-full">
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map((c) => (
+                        <SelectItem key={c.id} value={String(c.id)}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Issue Date *</Label>
+                  <DatePicker
+                    date={issueDate ? new Date(issueDate + "T00:00:00") : undefined}
+                    onSelect={(d) => setIssueDate(d ? d.toISOString().split("T")[0] : "")}
+                    placeholder="Pick a date"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valid Until</Label>
+                  <DatePicker
+                    date={validUntil ? new Date(validUntil + "T00:00:00") : undefined}
+                    onSelect={(d) => setValidUntil(d ? d.toISOString().split("T")[0] : "")}
+                    placeholder="Pick a date"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="est-tax-rate">Sales Tax</Label>
+                  <Select value={taxRateId} onValueChange={setTaxRateId}>
+                    <SelectTrigger id="est-tax-rate" className="w-full">
+                      <SelectValue placeholder="No tax" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TAX}>No tax</SelectItem>
+                      {taxRates.map((r) => (
+                        <SelectItem key={r.id} value={String(r.id)}>
+                          {r.name} ({Number(r.percent)}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="est-notes">Notes</Label>
+                <Textarea
+                  id="est-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional notes to include on the estimate"
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="est-terms">Terms</Label>
+                <Textarea
+                  id="est-terms"
+                  value={terms}
+                  onChange={(e) => setTerms(e.target.value)}
+                  placeholder="e.g. 50% deposit to schedule"
+                  rows={2}
+                />
+              </div>
+
+              <Separator />
+
+              {/* Line Items */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-medium">Line Items</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addLineItem}
+                  >
+                    <Plus className="mr-1 size-3.5" />
+                    Add Item
+                  </Button>
+                </div>
+
+                {/* Line Item Rows */}
+                {lineItems.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No line items. Click &quot;Add Item&quot; to add items.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {/* Column headers */}
+                    <div className="hidden md:grid md:grid-cols-12 items-center gap-2 px-2 text-xs font-medium text-muted-foreground">
+                      <span className="col-span-3">Description</span>
+                      <span className="col-span-2">Service Date</span>
+                      <span className="col-span-2">Qty</span>
+                      <span className="col-span-2">Rate</span>
+                      <span className="col-span-1 text-center">Tax</span>
+                      <span className="col-span-2 text-right">Amount</span>
+                    </div>
+
+                    {lineItems.map((item, index) => (
+                      <div
+                        key={index}
+                        className="grid grid-cols-1 md:grid-cols-12 items-start md:items-center gap-2 rounded-md border p-2"
+                      >
+                        <div className="md:col-span-3">
+                          <Label className="md:hidden text-xs text-muted-foreground">Description</Label>
+                          <Input
+                            value={item.description}
+                            onChange={(e) =>
+                              updateLineItem(index, "description", e.target.value)
+                            }
+                            placeholder="Description"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label className="md:hidden text-xs text-muted-foreground">Service Date</Label>
+                          <DatePicker
+                            date={item.serviceDate ? new Date(item.serviceDate + "T00:00:00") : undefined}
+                            onSelect={(d) =>
+                              updateLineItem(
+                                index,
+                                "serviceDate",
+                                d ? d.toISOString().split("T")[0] : ""
+                              )
+                            }
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label className="md:hidden text-xs text-muted-foreground">Qty</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={item.quantity}
+                            onChange={(e) =>
+                              updateLineItem(index, "quantity", e.target.value)
+                            }
+                            placeholder="1"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label className="md:hidden text-xs text-muted-foreground">Rate</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={item.rate}
+                            onChange={(e) =>
+                              updateLineItem(index, "rate", e.target.value)
+                            }
+                            placeholder="0.00"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-1 flex items-center gap-2 md:justify-center">
+                          <Checkbox
+                            id={`est-item-taxable-${index}`}
+                            checked={item.taxable}
+                            disabled={!selectedTaxRate}
+                            onCheckedChange={(checked) =>
+                              updateLineItem(index, "taxable", checked === true)
+                            }
+                            aria-label="Taxable"
+                          />
+                          <Label
+                            htmlFor={`est-item-taxable-${index}`}
+                            className="md:hidden text-xs text-muted-foreground"
+                          >
+                            Taxable
+                          </Label>
+                        </div>
+                        <div className="md:col-span-2 flex items-center justify-between md:justify-end gap-2">
+                          <span className="md:hidden text-xs text-muted-foreground">Amount:</span>
+                          <div className="text-right text-sm font-medium tabular-nums">
+                            {formatCurrency(getLineItemAmount(item))}
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 shrink-0 md:hidden"
+                            onClick={() => removeLineItem(index)}
+                          >
+                            <X className="size-4" />
+                            <span className="sr-only">Remove item</span>
+                          </Button>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="hidden md:flex size-8 shrink-0"
+                          onClick={() => removeLineItem(index)}
+                        >
+                          <X className="size-4" />
+                          <span className="sr-only">Remove item</span>
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Totals */}
+              {lineItems.length > 0 && (
+                <div className="flex justify-end">
+                  <div className="w-64 space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span className="font-medium tabular-nums">
+                        {formatCurrency(subtotal)}
+                      </span>
+                    </div>
+                    {selectedTaxRate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {selectedTaxRate.name} ({Number(selectedTaxRate.percent)}%)
+                        </span>
+                        <span className="font-medium tabular-nums">
+                          {formatCurrency(tax)}
+                        </span>
+                      </div>
+                    )}
+                    <Separator />
+                    <div className="flex justify-between text-base font-semibold">
+                      <span>Total</span>
+                      <span className="tabular-nums">
+                        {formatCurrency(total)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  )}
+                  {isEditing ? "Save Changes" : "Create Estimate"}
+                </Button>
+              </div>
+            </form>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
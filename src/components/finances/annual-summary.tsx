@@ -53,6 +53,9 @@ export interface AnnualData {
     personalIncome: number
     businessExpenses: number
     personalExpenses: number
+    customerRefunds: number
+    creditNotes: number
+    writeOffs: number
     net: number
     totalTransactions: number
     uncategorizedCount: number
@@ -361,9 +364,18 @@ export function AnnualSummary({
               <div className="rounded-md border text-sm mt-3">
                 <div className="divide-y">
                   <SummaryRow label="Service / Business Income" value={fmtExact(totals.serviceIncome)} positive />
+                  {totals.customerRefunds > 0 && (
+                    <SummaryRow label="Customer Refunds (netted from income)" value={`-${fmtExact(totals.customerRefunds)}`} muted />
+                  )}
                   <SummaryRow label="Personal Income" value={fmtExact(totals.personalIncome)} />
                   <SummaryRow label="Business Expenses" value={`-${fmtExact(totals.businessExpenses)}`} negative />
                   <SummaryRow label="Personal Expenses" value={`-${fmtExact(totals.personalExpenses)}`} muted />
+                  {(totals.creditNotes > 0 || totals.writeOffs > 0) && (
+                    <>
+                      <SummaryRow label="Credit Notes Issued (not cash, for reference)" value={fmtExact(totals.creditNotes)} muted />
+                      <SummaryRow label="Bad Debt Written Off (not cash, for reference)" value={fmtExact(totals.writeOffs)} muted />
+                    </>
+                  )}
                   <div className="px-3 py-2 flex justify-between font-semibold text-sm">
                     <span>Net (Biz Income - Biz Expenses)</span>
                     <span className={netPositive ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}>
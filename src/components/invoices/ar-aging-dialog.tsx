@@ -0,0 +1,237 @@
+"use client"
+
+import { Fragment, useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { ChevronRight, Download, FileText, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { AgingBucket, ArAgingReport } from "@/lib/ar-aging"
+
+const BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1–30" },
+  { key: "days31to60", label: "31–60" },
+  { key: "days61to90", label: "61–90" },
+  { key: "days90plus", label: "90+" },
+]
+
+interface ArAgingDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+export function ArAgingDialog({ open, onOpenChange }: ArAgingDialogProps) {
+  const [report, setReport] = useState<ArAgingReport | null>(null)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const res = await fetch("/api/invoices/aging")
+      const result = await res.json()
+      if (result.success) {
+        setReport(result.data)
+      } else {
+        setError(result.error || "Failed to load aging report.")
+      }
+    } catch {
+      setError("Failed to load aging report.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setExpanded(new Set())
+      fetchReport()
+    }
+  }, [open, fetchReport])
+
+  function toggle(customerId: number) {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(customerId)) next.delete(customerId)
+      else next.add(customerId)
+      return next
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Accounts Receivable Aging</DialogTitle>
+          <DialogDescription>
+            Open invoices and unbilled completed services by days past due.
+            Click a customer to see the documents.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/invoices/aging?format=csv" download>
+              <Download className="mr-2 size-4" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/invoices/aging/pdf" download>
+              <FileText className="mr-2 size-4" />
+              PDF
+            </a>
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report && report.customers.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No open receivables. Everyone is paid up.
+          </p>
+        ) : report ? (
+          <div className="max-h-[60vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {BUCKETS.map((b) => (
+                    <TableHead key={b.key} className="text-right">
+                      {b.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.customers.map((customer) => {
+                  const isOpen = expanded.has(customer.customerId)
+                  return (
+                    <Fragment key={customer.customerId}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => toggle(customer.customerId)}
+                      >
+                        <TableCell className="font-medium whitespace-nowrap">
+                          <ChevronRight
+                            className={cn(
+                              "mr-1 inline size-4 text-muted-foreground transition-transform",
+                              isOpen && "rotate-90"
+                            )}
+                          />
+                          {customer.customerName}
+                        </TableCell>
+                        {BUCKETS.map((b) => (
+                          <TableCell
+                            key={b.key}
+                            className={cn(
+                              "text-right tabular-nums",
+                              b.key !== "current" &&
+                                customer.totals[b.key] > 0 &&
+                                "text-destructive"
+                            )}
+                          >
+                            {customer.totals[b.key] ? formatCurrency(customer.totals[b.key]) : "—"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right tabular-nums font-medium">
+                          {formatCurrency(customer.totals.total)}
+                        </TableCell>
+                      </TableRow>
+                      {isOpen &&
+                        customer.documents.map((doc) => (
+                          <TableRow
+                            key={`${doc.type}-${doc.id}`}
+                            className="bg-muted/30 text-xs hover:bg-muted/30"
+                          >
+                            <TableCell className="pl-8 whitespace-nowrap">
+                              <Link
+                                href={
+                                  doc.type === "invoice"
+                                    ? `/invoices/${doc.id}`
+                                    : `/customers/${customer.customerId}`
+                                }
+                                className="text-primary underline-offset-4 hover:underline"
+                              >
+                                {doc.type === "invoice" ? doc.reference : `Unbilled: ${doc.reference}`}
+                              </Link>
+                              <span className="ml-2 text-muted-foreground">
+                                due {formatDate(doc.dueDate)}
+                                {doc.daysPastDue > 0 && ` · ${doc.daysPastDue}d late`}
+                              </span>
+                            </TableCell>
+                            {BUCKETS.map((b) => (
+                              <TableCell key={b.key} className="text-right tabular-nums">
+                                {doc.bucket === b.key ? formatCurrency(doc.balance) : ""}
+                              </TableCell>
+                            ))}
+                            <TableCell />
+                          </TableRow>
+                        ))}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  {BUCKETS.map((b) => (
+                    <TableCell key={b.key} className="text-right tabular-nums font-semibold">
+                      {formatCurrency(report.totals[b.key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right tabular-nums font-semibold">
+                    {formatCurrency(report.totals.total)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Check, Loader2, RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface MatchCandidate {
+  matchId: number
+  score: number
+  reasons: string[]
+  invoice: {
+    id: number
+    invoiceNumber: string
+    issueDate: string
+    balance: number
+    customer: { id: number; name: string }
+  }
+}
+
+interface DepositMatches {
+  transaction: {
+    id: number
+    date: string
+    description: string
+    merchantName: string | null
+    amount: number | string
+    account: { name: string }
+  }
+  candidates: MatchCandidate[]
+}
+
+interface DepositMatchesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirmed: () => void
+}
+
+function formatCurrency(value: number | string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(value))
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+export function DepositMatchesDialog({
+  open,
+  onOpenChange,
+  onConfirmed,
+}: DepositMatchesDialogProps) {
+  const [deposits, setDeposits] = useState<DepositMatches[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isScanning, setIsScanning] = useState(false)
+  const [busyMatchId, setBusyMatchId] = useState<number | null>(null)
+  const [notice, setNotice] = useState("")
+  const [error, setError] = useState("")
+
+  const fetchMatches = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const res = await fetch("/api/invoices/matches")
+      const result = await res.json()
+      if (result.success) {
+        setDeposits(result.data)
+      } else {
+        setError(result.error || "Failed to load matches.")
+      }
+    } catch {
+      setError("Failed to load matches.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setNotice("")
+      fetchMatches()
+    }
+  }, [open, fetchMatches])
+
+  async function handleScan() {
+    setIsScanning(true)
+    setError("")
+    setNotice("")
+    try {
+      const res = await fetch("/api/invoices/matches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to scan deposits.")
+        return
+      }
+      setNotice(
+        result.data.suggested === 0
+          ? "No new matches found."
+          : `Found ${result.data.suggested} new match(es).`
+      )
+      fetchMatches()
+    } catch {
+      setError("Failed to scan deposits. Please try again.")
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  async function handleResolve(candidate: MatchCandidate, action: "confirm" | "dismiss") {
+    setBusyMatchId(candidate.matchId)
+    setError("")
+    setNotice("")
+    try {
+      const res = await fetch(`/api/invoices/matches/${candidate.matchId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || `Failed to ${action} match.`)
+        return
+      }
+      if (action === "confirm") {
+        setNotice(`Payment recorded on ${candidate.invoice.invoiceNumber}.`)
+        onConfirmed()
+      }
+      fetchMatches()
+    } catch {
+      setError(`Failed to ${action} match. Please try again.`)
+    } finally {
+      setBusyMatchId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Deposit Matches</DialogTitle>
+          <DialogDescription>
+            Bank deposits that look like payments on open invoices. Confirming
+            records the payment and links the deposit to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+            {isScanning ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 size-4" />
+            )}
+            Rescan last 90 days
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deposits.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing to review. New deposits are checked on every bank sync and import.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] space-y-3 overflow-auto">
+            {deposits.map(({ transaction, candidates }) => (
+              <div key={transaction.id} className="rounded-md border">
+                <div className="flex items-start justify-between gap-4 border-b bg-muted/30 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{transaction.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(transaction.date)} · {transaction.account.name}
+                      {transaction.merchantName && ` · ${transaction.merchantName}`}
+                    </p>
+                  </div>
+                  <span className="whitespace-nowrap text-sm font-semibold tabular-nums text-green-600">
+                    +{formatCurrency(transaction.amount)}
+                  </span>
+                </div>
+                <div className="divide-y">
+                  {candidates.map((candidate) => (
+                    <div
+                      key={candidate.matchId}
+                      className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+                    >
+                      <div className="min-w-0 text-sm">
+                        <div className="flex items-center gap-2">
+                          <Link
+                            href={`/invoices/${candidate.invoice.id}`}
+                            className="font-medium text-primary underline-offset-4 hover:underline"
+                          >
+                            {candidate.invoice.invoiceNumber}
+                          </Link>
+                          <span>{candidate.invoice.customer.name}</span>
+                          <Badge variant="outline">Score {candidate.score}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(candidate.invoice.balance)} due · issued{" "}
+                          {formatDate(candidate.invoice.issueDate)} · {candidate.reasons.join(", ")}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          onClick={() => handleResolve(candidate, "confirm")}
+                          disabled={busyMatchId !== null}
+                        >
+                          {busyMatchId === candidate.matchId ? (
+                            <Loader2 className="mr-1 size-4 animate-spin" />
+                          ) : (
+                            <Check className="mr-1 size-4" />
+                          )}
+                          Confirm
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResolve(candidate, "dismiss")}
+                          disabled={busyMatchId !== null}
+                        >
+                          <X className="mr-1 size-4" />
+                          Dismiss
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface EmailInvoiceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoice: { id: number; invoiceNumber: string; status: string; customerEmail: string | null }
+  template: "invoice" | "reminder"
+  onSent: () => void
+}
+
+export function EmailInvoiceDialog({
+  open,
+  onOpenChange,
+  invoice,
+  template,
+  onSent,
+}: EmailInvoiceDialogProps) {
+  const [to, setTo] = useState("")
+  const [message, setMessage] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    setTo(invoice.customerEmail ?? "")
+    setMessage("")
+    setError("")
+  }, [open, invoice.customerEmail])
+
+  async function handleSend() {
+    setIsSending(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/invoices/${invoice.id}/email`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template, to, message: message || null }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to send email.")
+        return
+      }
+
+      if (result.data.status !== "SENT") {
+        // Queued for retry — keep the dialog open so the reason is visible
+        setError(
+          `Email could not be sent yet and will be retried: ${result.data.lastError ?? "unknown error"}`
+        )
+        onSent()
+        return
+      }
+
+      onSent()
+      onOpenChange(false)
+    } catch {
+      setError("Failed to send email. Please try again.")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const isReminder = template === "reminder"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isReminder ? "Send Payment Reminder" : "Email Invoice"}</DialogTitle>
+          <DialogDescription>
+            {isReminder
+              ? `Reminds the customer of the balance on ${invoice.invoiceNumber}, with the invoice PDF attached.`
+              : invoice.status === "DRAFT"
+                ? `Sends ${invoice.invoiceNumber} with its PDF attached and marks it as sent.`
+                : `Sends ${invoice.invoiceNumber} again with its PDF attached.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-to">To</Label>
+            <Input
+              id="email-to"
+              type="email"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="customer@example.com"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="email-message">Message (optional)</Label>
+            <Textarea
+              id="email-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Leave blank to use the standard wording"
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !to}>
+            {isSending ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 size-4" />
+            )}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+const ALL_CUSTOMERS = "all"
+
+interface CustomerSummary {
+  customerId: number
+  customerName: string
+  serviceCount: number
+  total: number
+  invoiceId: number | null
+  invoiceNumber: string | null
+}
+
+interface GenerateResult {
+  dryRun: boolean
+  invoiceCount: number
+  serviceCount: number
+  // Unbilled services already marked paid, left off the invoices
+  paidSkipped: number
+  total: number
+  customers: CustomerSummary[]
+}
+
+interface GenerateInvoicesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onGenerated: () => void
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function toDateInput(d: Date): string {
+  return d.toISOString().split("T")[0]
+}
+
+export function GenerateInvoicesDialog({
+  open,
+  onOpenChange,
+  onGenerated,
+}: GenerateInvoicesDialogProps) {
+  const [customers, setCustomers] = useState<{ id: number; name: string }[]>([])
+  const [customerId, setCustomerId] = useState(ALL_CUSTOMERS)
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
+  const [result, setResult] = useState<GenerateResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  // Default to last month, the usual billing run
+  useEffect(() => {
+    if (!open) return
+    const now = new Date()
+    setDateFrom(toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)))
+    setDateTo(toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)))
+    setCustomerId(ALL_CUSTOMERS)
+    setResult(null)
+    setError("")
+
+    fetch("/api/customers")
+      .then((r) => r.json())
+      .then((res) => {
+        if (res.success) setCustomers(res.data)
+      })
+      .catch((err) => console.error("Failed to load customers:", err))
+  }, [open])
+
+  async function run(dryRun: boolean) {
+    setIsLoading(true)
+    setError("")
+    try {
+      const res = await fetch("/api/invoices/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId: customerId === ALL_CUSTOMERS ? null : parseInt(customerId, 10),
+          dateFrom: dateFrom || undefined,
+          dateTo: dateTo ? `${dateTo}T23:59:59` : undefined,
+          dryRun,
+        }),
+      })
+      const data = await res.json()
+
+      if (!data.success) {
+        setError(data.error || "Failed to generate invoices.")
+        // A run that failed part-way still created some invoices
+        if (data.data?.customers?.length > 0) {
+          setResult(data.data)
+          onGenerated()
+        }
+        return
+      }
+
+      setResult(data.data)
+      if (!dryRun) onGenerated()
+    } catch {
+      setError("Failed to generate invoices. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const isGenerated = result !== null && !result.dryRun
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Invoice Unbilled Services</DialogTitle>
+          <DialogDescription>
+            Creates one draft invoice per customer for completed services that
+            are not on any invoice yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="generate-customer">Customer</Label>
+            <Select
+              value={customerId}
+              onValueChange={(v) => {
+                setCustomerId(v)
+                setResult(null)
+              }}
+              disabled={isGenerated}
+            >
+              <SelectTrigger id="generate-customer" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CUSTOMERS}>All customers</SelectItem>
+                {customers.map((c) => (
+                  <SelectItem key={c.id} value={String(c.id)}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>From</Label>
+            <DatePicker
+              date={dateFrom ? new Date(dateFrom + "T00:00:00") : undefined}
+              onSelect={(d) => {
+                setDateFrom(d ? toDateInput(d) : "")
+                setResult(null)
+              }}
+              placeholder="Any time"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <DatePicker
+              date={dateTo ? new Date(dateTo + "T00:00:00") : undefined}
+              onSelect={(d) => {
+                setDateTo(d ? toDateInput(d) : "")
+                setResult(null)
+              }}
+              placeholder="Today"
+            />
+          </div>
+        </div>
+
+        {result && (
+          result.customers.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No unbilled completed services in this range.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {isGenerated ? "Generated" : "Will generate"}{" "}
+                <strong>{result.invoiceCount}</strong> invoice(s) covering{" "}
+                <strong>{result.serviceCount}</strong> service(s), totaling{" "}
+                <strong>{formatCurrency(result.total)}</strong>.
+              </p>
+              <div className="max-h-72 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Services</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      {isGenerated && <TableHead>Invoice</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.customers.map((c) => (
+                      <TableRow key={c.customerId}>
+                        <TableCell>{c.customerName}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {c.serviceCount}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(c.total)}
+                        </TableCell>
+                        {isGenerated && (
+                          <TableCell>
+                            {c.invoiceId && (
+                              <Link
+                                href={`/invoices/${c.invoiceId}`}
+                                className="text-primary underline-offset-4 hover:underline"
+                              >
+                                {c.invoiceNumber}
+                              </Link>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )
+        )}
+        {result && result.paidSkipped > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Skipped <strong>{result.paidSkipped}</strong> service(s) already marked paid.
+          </p>
+        )}
+
+        <DialogFooter>
+          {isGenerated ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => run(true)}
+                disabled={isLoading}
+              >
+                {isLoading && !result && <Loader2 className="mr-2 size-4 animate-spin" />}
+                Preview
+              </Button>
+              <Button
+                onClick={() => run(false)}
+                disabled={isLoading || !result || result.customers.length === 0}
+              >
+                {isLoading && result && <Loader2 className="mr-2 size-4 animate-spin" />}
+                Generate Invoices
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { Pencil, Send, CheckCircle, Trash2, Printer } from "lucide-react"
+import { Pencil, Send, CheckCircle, Trash2, Printer, FileDown, Loader2, Mail, BellRing, Link2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -13,17 +13,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { InvoiceFormDialog } from "@/components/invoices/invoice-form-dialog"
+import { EmailInvoiceDialog } from "@/components/invoices/email-invoice-dialog"
+import { ShareInvoiceDialog } from "@/components/invoices/share-invoice-dialog"
 
 interface InvoiceForActions {
   id: number
   invoiceNumber: string
   customerId: number
+  customerEmail: string | null
+  customerPhone: string | null
   issueDate: string
   dueDate: string | null
   status: string
   subtotal: number | string
+  tax: number | string
   total: number | string
   amountPaid: number | string
+  taxRateId: number | null
   notes: string | null
   terms: string | null
   items: Array<{
@@ -33,6 +39,7 @@ interface InvoiceForActions {
     quantity: number | string
     rate: number | string
     amount: number | string
+    taxable: boolean
     serviceLogId: number | null
   }>
 }
@@ -47,7 +54,10 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
   const [deleteError, setDeleteError] = useState("")
+  const [emailTemplate, setEmailTemplate] = useState<"invoice" | "reminder" | null>(null)
+  const [shareDialogOpen, setShareDialogOpen] = useState(false)
 
   async function handleStatusChange(newStatus: string) {
     setIsUpdating(true)
@@ -95,6 +105,28 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
     window.print()
   }
 
+  async function handleDownloadPdf() {
+    setIsDownloading(true)
+    try {
+      const res = await fetch(`/api/invoices/${invoice.id}/pdf`)
+      if (!res.ok) throw new Error("Failed to generate PDF")
+      const blob = await res.blob()
+      const disposition = res.headers.get("Content-Disposition") || ""
+      const match = disposition.match(/filename="?([^";]+)"?/)
+      const filename = match?.[1] || `${invoice.invoiceNumber}.pdf`
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Failed to download invoice PDF:", error)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
   function handleFormSuccess() {
     router.refresh()
   }
@@ -111,6 +143,24 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
             Edit
           </Button>
         )}
+        {invoice.status !== "CANCELLED" && (
+          <Button variant="outline" onClick={() => setEmailTemplate("invoice")}>
+            <Mail className="mr-2 size-4" />
+            {invoice.status === "DRAFT" ? "Email Invoice" : "Resend"}
+          </Button>
+        )}
+        {(invoice.status === "SENT" || invoice.status === "PARTIALLY_PAID") && (
+          <Button variant="outline" onClick={() => setEmailTemplate("reminder")}>
+            <BellRing className="mr-2 size-4" />
+            Send Reminder
+          </Button>
+        )}
+        {invoice.status !== "CANCELLED" && (
+          <Button variant="outline" onClick={() => setShareDialogOpen(true)}>
+            <Link2 className="mr-2 size-4" />
+            Share Link
+          </Button>
+        )}
         {invoice.status === "DRAFT" && (
           <Button
             variant="outline"
@@ -121,7 +171,7 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
             Mark as Sent
           </Button>
         )}
-        {invoice.status === "SENT" && (
+        {(invoice.status === "SENT" || invoice.status === "PARTIALLY_PAID") && (
           <Button
             variant="outline"
             onClick={() => handleStatusChange("PAID")}
@@ -131,6 +181,14 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
             Mark as Paid
           </Button>
         )}
+        <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading}>
+          {isDownloading ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <FileDown className="mr-2 size-4" />
+          )}
+          PDF
+        </Button>
         <Button variant="outline" onClick={handlePrint}>
           <Printer className="mr-2 size-4" />
           Print
@@ -157,6 +215,21 @@ export function InvoiceActions({ invoice }: InvoiceActionsProps) {
         onSuccess={handleFormSuccess}
       />
 
+      <EmailInvoiceDialog
+        open={emailTemplate !== null}
+        onOpenChange={(open) => !open && setEmailTemplate(null)}
+        invoice={invoice}
+        template={emailTemplate ?? "invoice"}
+        onSent={() => router.refresh()}
+      />
+
+      <ShareInvoiceDialog
+        open={shareDialogOpen}
+        onOpenChange={setShareDialogOpen}
+        invoice={invoice}
+        onShared={() => router.refresh()}
+      />
+
       {/* Delete Confirmation */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,499 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Ban, FileMinus, Link2, Loader2, Trash2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+const PAYMENT_METHODS = [
+  { value: "ATH", label: "ATH Móvil" },
+  { value: "PAYPAL", label: "PayPal" },
+  { value: "CASH", label: "Cash" },
+  { value: "OTHER", label: "Other" },
+] as const
+
+const NO_TRANSACTION = "none"
+
+type AdjustmentMode = "credit" | "refund" | "write-off"
+
+interface CreditRow {
+  id: number
+  type: "CREDIT_NOTE" | "WRITE_OFF"
+  creditNumber: string | null
+  date: string
+  amount: number
+  reason: string | null
+}
+
+interface RefundRow {
+  id: number
+  date: string
+  amount: number
+  method: string
+  notes: string | null
+  bankTransaction: { id: number; description: string } | null
+}
+
+interface TransactionOption {
+  id: number
+  date: string
+  description: string
+  amount: number | string
+}
+
+interface InvoiceAdjustmentsProps {
+  invoiceId: number
+  status: string
+  total: number
+  amountPaid: number
+  amountCredited: number
+  credits: CreditRow[]
+  refunds: RefundRow[]
+}
+
+function formatCurrency(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return "$0.00"
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(value))
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString()
+}
+
+function getMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label ?? method
+}
+
+export function InvoiceAdjustments({
+  invoiceId,
+  status,
+  total,
+  amountPaid,
+  amountCredited,
+  credits,
+  refunds,
+}: InvoiceAdjustmentsProps) {
+  const router = useRouter()
+  const [mode, setMode] = useState<AdjustmentMode | null>(null)
+  const [deletingKey, setDeletingKey] = useState<string | null>(null)
+
+  const balanceDue = Math.round((total - amountCredited - amountPaid) * 100) / 100
+  const creditable = Math.round((total - amountCredited) * 100) / 100
+  const isOpen = status === "SENT" || status === "PARTIALLY_PAID"
+  const canCredit = status !== "CANCELLED" && creditable > 0
+  const canRefund = amountPaid > 0
+  const canWriteOff = isOpen && balanceDue > 0
+
+  const rows = [
+    ...credits.map((c) => ({
+      key: `credit-${c.id}`,
+      url: `/api/invoices/${invoiceId}/credits/${c.id}`,
+      date: c.date,
+      label: c.type === "WRITE_OFF" ? "Write-off" : `Credit note ${c.creditNumber ?? ""}`.trim(),
+      detail: c.reason,
+      linked: null as string | null,
+      amount: -c.amount,
+    })),
+    ...refunds.map((r) => ({
+      key: `refund-${r.id}`,
+      url: `/api/invoices/${invoiceId}/refunds/${r.id}`,
+      date: r.date,
+      label: `Refund · ${getMethodLabel(r.method)}`,
+      detail: r.notes,
+      linked: r.bankTransaction?.description ?? null,
+      amount: r.amount,
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  async function handleDelete(key: string, url: string) {
+    setDeletingKey(key)
+    try {
+      const res = await fetch(url, { method: "DELETE" })
+      const result = await res.json()
+      if (result.success) {
+        router.refresh()
+      }
+    } catch (error) {
+      console.error("Failed to delete adjustment:", error)
+    } finally {
+      setDeletingKey(null)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl rounded-lg border bg-card p-4 sm:p-8 shadow-sm print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Credits &amp; Refunds</h2>
+          <p className="text-sm text-muted-foreground">
+            {rows.length === 0
+              ? "No credit notes, refunds or write-offs."
+              : `${formatCurrency(amountCredited)} credited`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {canCredit && (
+            <Button variant="outline" size="sm" onClick={() => setMode("credit")}>
+              <FileMinus className="mr-1 size-3.5" />
+              Credit Note
+            </Button>
+          )}
+          {canRefund && (
+            <Button variant="outline" size="sm" onClick={() => setMode("refund")}>
+              <Undo2 className="mr-1 size-3.5" />
+              Refund
+            </Button>
+          )}
+          {canWriteOff && (
+            <Button variant="outline" size="sm" onClick={() => setMode("write-off")}>
+              <Ban className="mr-1 size-3.5" />
+              Write Off
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="mt-4 rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="whitespace-nowrap">{formatDate(row.date)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5 whitespace-nowrap">
+                      {row.label}
+                      {row.linked && (
+                        <Link2
+                          className="size-3.5 text-muted-foreground"
+                          aria-label={`Linked to ${row.linked}`}
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{row.detail || "—"}</TableCell>
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">
+                    {formatCurrency(row.amount)}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      disabled={deletingKey === row.key}
+                      onClick={() => handleDelete(row.key, row.url)}
+                    >
+                      {deletingKey === row.key ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="size-4" />
+                      )}
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <AdjustmentDialog
+        mode={mode}
+        onClose={() => setMode(null)}
+        invoiceId={invoiceId}
+        balanceDue={balanceDue}
+        creditable={creditable}
+        amountPaid={amountPaid}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  )
+}
+
+// ─── Adjustment Dialog ───────────────────────────────────────────────────────
+
+const DIALOG_COPY: Record<AdjustmentMode, { title: string; submit: string }> = {
+  credit: { title: "Issue Credit Note", submit: "Issue Credit" },
+  refund: { title: "Record Refund", submit: "Record Refund" },
+  "write-off": { title: "Write Off Balance", submit: "Write Off" },
+}
+
+function AdjustmentDialog({
+  mode,
+  onClose,
+  invoiceId,
+  balanceDue,
+  creditable,
+  amountPaid,
+  onSuccess,
+}: {
+  mode: AdjustmentMode | null
+  onClose: () => void
+  invoiceId: number
+  balanceDue: number
+  creditable: number
+  amountPaid: number
+  onSuccess: () => void
+}) {
+  const [date, setDate] = useState("")
+  const [amount, setAmount] = useState("")
+  const [method, setMethod] = useState<string>("ATH")
+  const [bankTransactionId, setBankTransactionId] = useState(NO_TRANSACTION)
+  const [notes, setNotes] = useState("")
+  const [issueCreditNote, setIssueCreditNote] = useState(true)
+  const [transactions, setTransactions] = useState<TransactionOption[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Reset form when dialog opens; a refund defaults to any overpayment
+  useEffect(() => {
+    if (!mode) return
+    setDate(new Date().toISOString().split("T")[0])
+    setAmount(mode === "refund" && balanceDue < 0 ? (-balanceDue).toFixed(2) : "")
+    setMethod("ATH")
+    setBankTransactionId(NO_TRANSACTION)
+    setNotes("")
+    setIssueCreditNote(true)
+    setError("")
+  }, [mode, balanceDue])
+
+  // Recent outgoing transactions the refund can be linked to
+  useEffect(() => {
+    if (mode !== "refund") return
+    fetch("/api/finances/transactions?type=OUTFLOW&pageSize=50")
+      .then((r) => r.json())
+      .then((result) => {
+        if (result.success) setTransactions(result.data)
+      })
+      .catch((err) => console.error("Failed to load transactions:", err))
+  }, [mode])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!mode) return
+    setError("")
+
+    if (!date) {
+      setError("Date is required.")
+      return
+    }
+
+    const parsedAmount = parseFloat(amount)
+    if (mode !== "write-off" && (!parsedAmount || parsedAmount <= 0)) {
+      setError("Amount must be greater than zero.")
+      return
+    }
+
+    const isoDate = new Date(date).toISOString()
+    const reason = notes.trim() || null
+    const request =
+      mode === "credit"
+        ? { url: "credits", body: { date: isoDate, amount: parsedAmount, reason } }
+        : mode === "refund"
+          ? {
+              url: "refunds",
+              body: {
+                date: isoDate,
+                amount: parsedAmount,
+                method,
+                bankTransactionId:
+                  bankTransactionId === NO_TRANSACTION ? null : parseInt(bankTransactionId, 10),
+                notes: reason,
+                issueCreditNote,
+              },
+            }
+          : { url: "write-off", body: { date: isoDate, reason } }
+
+    setIsSubmitting(true)
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/${request.url}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request.body),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to save.")
+        return
+      }
+
+      onClose()
+      onSuccess()
+    } catch {
+      setError("Failed to save. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const copy = mode ? DIALOG_COPY[mode] : DIALOG_COPY.credit
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>
+            {mode === "credit" &&
+              `Reduces what the customer owes. Up to ${formatCurrency(creditable)} can be credited.`}
+            {mode === "refund" &&
+              `Money returned to the customer. ${formatCurrency(amountPaid)} has been received.`}
+            {mode === "write-off" &&
+              `The remaining ${formatCurrency(balanceDue)} will be written off as bad debt and the invoice settled.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Date *</Label>
+              <DatePicker
+                date={date ? new Date(date + "T00:00:00") : undefined}
+                onSelect={(d) => setDate(d ? d.toISOString().split("T")[0] : "")}
+              />
+            </div>
+            {mode !== "write-off" && (
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-amount">Amount *</Label>
+                <Input
+                  id="adjustment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+          </div>
+
+          {mode === "refund" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="refund-method">Method *</Label>
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger id="refund-method" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((m) => (
+                      <SelectItem key={m.value} value={m.value}>
+                        {m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="refund-transaction">Bank Withdrawal</Label>
+                <Select value={bankTransactionId} onValueChange={setBankTransactionId}>
+                  <SelectTrigger id="refund-transaction" className="w-full">
+                    <SelectValue placeholder="Not linked" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TRANSACTION}>Not linked</SelectItem>
+                    {transactions.map((t) => (
+                      <SelectItem key={t.id} value={String(t.id)}>
+                        {formatDate(t.date)} · {formatCurrency(t.amount)} · {t.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="refund-credit"
+                  checked={issueCreditNote}
+                  onCheckedChange={(checked) => setIssueCreditNote(checked === true)}
+                />
+                <Label htmlFor="refund-credit" className="font-normal">
+                  Issue a credit note so the invoice stays settled
+                </Label>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-notes">{mode === "refund" ? "Notes" : "Reason"}</Label>
+            <Textarea
+              id="adjustment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={
+                mode === "write-off"
+                  ? "e.g. Customer moved away, unreachable"
+                  : "e.g. Missed visit on Mar 12"
+              }
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={mode === "write-off" ? "destructive" : "default"}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {copy.submit}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { DatePicker } from "@/components/ui/date-picker"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Textarea } from "@/components/ui/textarea"
 import {
   Select,
@@ -29,12 +30,21 @@ interface Customer {
   name: string
 }
 
+interface TaxRate {
+  id: number
+  name: string
+  percent: number | string
+  isDefault: boolean
+}
+
 interface LineItemInput {
   description: string
   serviceDate: string
   quantity: string
   rate: string
+  taxable: boolean
   serviceLogId: number | null
+  isLateFee?: boolean
 }
 
 interface InvoiceItemData {
@@ -44,7 +54,9 @@ interface InvoiceItemData {
   quantity: number | string
   rate: number | string
   amount: number | string
+  taxable?: boolean
   serviceLogId: number | null
+  isLateFee?: boolean
 }
 
 interface InvoiceData {
@@ -55,8 +67,10 @@ interface InvoiceData {
   dueDate: string | null
   status?: string
   subtotal: number | string
+  tax?: number | string
   total: number | string
   amountPaid: number | string
+  taxRateId?: number | null
   notes: string | null
   terms: string | null
   customer?: { id: number; name: string }
@@ -79,6 +93,8 @@ interface InvoiceFormDialogProps {
   onSuccess: () => void
 }
 
+const NO_TAX = "none"
+
 function toDateInputValue(dateString: string | null | undefined): string {
   if (!dateString) return ""
   const d = new Date(dateString)
@@ -102,6 +118,7 @@ export function InvoiceFormDialog({
   const isEditing = !!invoice?.id
 
   const [customers, setCustomers] = useState<Customer[]>([])
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
   const [isLoadingData, setIsLoadingData] = useState(true)
 
   // Form fields
@@ -110,6 +127,7 @@ export function InvoiceFormDialog({
   const [dueDate, setDueDate] = useState("")
   const [notes, setNotes] = useState("")
   const [terms, setTerms] = useState("")
+  const [taxRateId, setTaxRateId] = useState(NO_TAX)
   const [lineItems, setLineItems] = useState<LineItemInput[]>([])
 
   // Import services state
@@ -120,19 +138,30 @@ export function InvoiceFormDialog({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState("")
 
-  // Fetch customers when dialog opens
+  // Fetch customers and tax rates when dialog opens
   useEffect(() => {
     if (!open) return
     setIsLoadingData(true)
 
-    fetch("/api/customers")
-      .then((r) => r.json())
-      .then((result) => {
-        if (result.success) setCustomers(result.data)
+    Promise.all([
+      fetch("/api/customers").then((r) => r.json()),
+      fetch("/api/tax-rates").then((r) => r.json()),
+    ])
+      .then(([customersResult, taxRatesResult]) => {
+        if (customersResult.success) setCustomers(customersResult.data)
+        if (taxRatesResult.success) {
+          const rates: TaxRate[] = taxRatesResult.data
+          setTaxRates(rates)
+          // New invoices start on the default rate
+          if (!invoice) {
+            const defaultRate = rates.find((r) => r.isDefault)
+            setTaxRateId(defaultRate ? String(defaultRate.id) : NO_TAX)
+          }
+        }
       })
-      .catch((err) => console.error("Failed to load customers:", err))
+      .catch((err) => console.error("Failed to load invoice form data:", err))
       .finally(() => setIsLoadingData(false))
-  }, [open])
+  }, [open, invoice])
 
   // Reset form when dialog opens
   useEffect(() => {
@@ -144,13 +173,16 @@ export function InvoiceFormDialog({
       setDueDate(toDateInputValue(invoice.dueDate))
       setNotes(invoice.notes ?? "")
       setTerms(invoice.terms ?? "")
+      setTaxRateId(invoice.taxRateId ? String(invoice.taxRateId) : NO_TAX)
       setLineItems(
         invoice.items?.map((item) => ({
           description: item.description,
           serviceDate: toDateInputValue(item.serviceDate),
           quantity: String(Number(item.quantity)),
           rate: String(Number(item.rate)),
+          taxable: item.taxable ?? false,
           serviceLogId: item.serviceLogId ?? null,
+          isLateFee: item.isLateFee ?? false,
         })) ?? []
       )
     } else {
@@ -174,11 +206,18 @@ export function InvoiceFormDialog({
     return qty * rate
   }
 
+  const selectedTaxRate = taxRates.find((r) => String(r.id) === taxRateId) ?? null
   const subtotal = lineItems.reduce(
     (sum, item) => sum + getLineItemAmount(item),
     0
   )
-  const total = subtotal
+  const taxableAmount = lineItems
+    .filter((item) => item.taxable)
+    .reduce((sum, item) => sum + getLineItemAmount(item), 0)
+  const tax = selectedTaxRate
+    ? Math.round(taxableAmount * Number(selectedTaxRate.percent)) / 100
+    : 0
+  const total = subtotal + tax
 
   function addLineItem() {
     setLineItems((prev) => [
@@ -188,6 +227,7 @@ export function InvoiceFormDialog({
         serviceDate: issueDate || new Date().toISOString().split("T")[0],
         quantity: "1",
         rate: "",
+        taxable: selectedTaxRate !== null,
         serviceLogId: null,
       },
     ])
@@ -200,7 +240,7 @@ export function InvoiceFormDialog({
   function updateLineItem(
     index: number,
     field: keyof LineItemInput,
-    value: string | number | null
+    value: string | number | boolean | null
   ) {
     setLineItems((prev) =>
       prev.map((item, i) =>
@@ -248,6 +288,7 @@ export function InvoiceFormDialog({
         serviceDate: toDateInputValue(service.serviceDate),
         quantity: "1",
         rate: String(Number(service.priceCharged)),
+        taxable: selectedTaxRate !== null,
         serviceLogId: service.id,
       },
     ])
@@ -266,6 +307,7 @@ export function InvoiceFormDialog({
           serviceDate: toDateInputValue(service.serviceDate),
           quantity: "1",
           rate: String(Number(service.priceCharged)),
+          taxable: selectedTaxRate !== null,
           serviceLogId: service.id,
         })
       }
@@ -319,12 +361,15 @@ export function InvoiceFormDialog({
         dueDate: dueDate ? new Date(dueDate).toISOString() : null,
         notes: notes.trim() || null,
         terms: terms.trim() || null,
+        taxRateId: taxRateId === NO_TAX ? null : parseInt(taxRateId, 10),
         items: lineItems.map((item) => ({
           description: item.description.trim(),
           serviceDate: new Date(item.serviceDate).toISOString(),
           quantity: parseFloat(item.quantity) || 1,
           rate: parseFloat(item.rate) || 0,
+          taxable: item.taxable,
           serviceLogId: item.serviceLogId ?? undefined,
+          isLateFee: item.isLateFee,
         })),
       }
 
@@ -418,7 +463,22 @@ export function InvoiceFormDialog({
                     placeholder="Pick a date"
                   />
                 </div>
-                <div />
+                <div className="space-y-2">
+                  <Label htmlFor="inv-tax-rate">Sales Tax</Label>
+                  <Select value={taxRateId} onValueChange={setTaxRateId}>
+                    <SelectTrigger id="inv-tax-rate" className="w-full">
+                      <SelectValue placeholder="No tax" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TAX}>No tax</SelectItem>
+                      {taxRates.map((r) => (
+                        <SelectItem key={r.id} value={String(r.id)}>
+                          {r.name} ({Number(r.percent)}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -558,9 +618,10 @@ export function InvoiceFormDialog({
                     {/* Column headers */}
                     <div className="hidden md:grid md:grid-cols-12 items-center gap-2 px-2 text-xs font-medium text-muted-foreground">
                       <span className="col-span-3">Description</span>
-                      <span className="col-span-3">Service Date</span>
+                      <span className="col-span-2">Service Date</span>
                       <span className="col-span-2">Qty</span>
                       <span className="col-span-2">Rate</span>
+                      <span className="col-span-1 text-center">Tax</span>
                       <span className="col-span-2 text-right">Amount</span>
                     </div>
 
@@ -580,7 +641,7 @@ export function InvoiceFormDialog({
                             className="h-8"
                           />
                         </div>
-                        <div className="md:col-span-3">
+                        <div className="md:col-span-2">
                           <Label className="md:hidden text-xs text-muted-foreground">Service Date</Label>
                           <DatePicker
                             date={item.serviceDate ? new Date(item.serviceDate + "T00:00:00") : undefined}
@@ -622,6 +683,23 @@ export function InvoiceFormDialog({
                             className="h-8"
                           />
                         </div>
+                        <div className="md:col-span-1 flex items-center gap-2 md:justify-center">
+                          <Checkbox
+                            id={`inv-item-taxable-${index}`}
+                            checked={item.taxable}
+                            disabled={!selectedTaxRate}
+                            onCheckedChange={(checked) =>
+                              updateLineItem(index, "taxable", checked === true)
+                            }
+                            aria-label="Taxable"
+                          />
+                          <Label
+                            htmlFor={`inv-item-taxable-${index}`}
+                            className="md:hidden text-xs text-muted-foreground"
+                          >
+                            Taxable
+                          </Label>
+                        </div>
                         <div className="md:col-span-2 flex items-center justify-between md:justify-end gap-2">
                           <span className="md:hidden text-xs text-muted-foreground">Amount:</span>
                           <div className="text-right text-sm font-medium tabular-nums">
@@ -664,6 +742,16 @@ export function InvoiceFormDialog({
                         {formatCurrency(subtotal)}
                       </span>
                     </div>
+                    {selectedTaxRate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {selectedTaxRate.name} ({Number(selectedTaxRate.percent)}%)
+                        </span>
+                        <span className="font-medium tabular-nums">
+                          {formatCurrency(tax)}
+                        </span>
+                      </div>
+                    )}
                     <Separator />
                     <div className="flex justify-between text-base font-semibold">
                       <span>Total</span>
@@ -0,0 +1,391 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, Plus, Trash2, Link2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+const PAYMENT_METHODS = [
+  { value: "ATH", label: "ATH Móvil" },
+  { value: "PAYPAL", label: "PayPal" },
+  { value: "CASH", label: "Cash" },
+  { value: "OTHER", label: "Other" },
+] as const
+
+const NO_TRANSACTION = "none"
+
+interface PaymentRow {
+  id: number
+  date: string
+  amount: number
+  method: string
+  notes: string | null
+  bankTransaction: { id: number; description: string } | null
+}
+
+interface TransactionOption {
+  id: number
+  date: string
+  description: string
+  amount: number | string
+}
+
+interface InvoicePaymentsProps {
+  invoiceId: number
+  status: string
+  balanceDue: number
+  payments: PaymentRow[]
+}
+
+function formatCurrency(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return "$0.00"
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(value))
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString()
+}
+
+function getMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label ?? method
+}
+
+export function InvoicePayments({
+  invoiceId,
+  status,
+  balanceDue,
+  payments,
+}: InvoicePaymentsProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [deletingId, setDeletingId] = useState<number | null>(null)
+
+  const canRecord = status === "SENT" || status === "PARTIALLY_PAID"
+
+  async function handleDelete(paymentId: number) {
+    setDeletingId(paymentId)
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/payments/${paymentId}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+      if (result.success) {
+        router.refresh()
+      }
+    } catch (error) {
+      console.error("Failed to delete payment:", error)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl rounded-lg border bg-card p-4 sm:p-8 shadow-sm print:hidden">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Payments</h2>
+          <p className="text-sm text-muted-foreground">
+            {payments.length === 0
+              ? "No payments recorded yet."
+              : `${payments.length} payment(s) · ${formatCurrency(balanceDue)} outstanding`}
+          </p>
+        </div>
+        {canRecord && balanceDue > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-1 size-3.5" />
+            Record Payment
+          </Button>
+        )}
+      </div>
+
+      {payments.length > 0 && (
+        <div className="mt-4 rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDate(payment.date)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5">
+                      {getMethodLabel(payment.method)}
+                      {payment.bankTransaction && (
+                        <Link2
+                          className="size-3.5 text-muted-foreground"
+                          aria-label={`Linked to ${payment.bankTransaction.description}`}
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {payment.notes || "—"}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">
+                    {formatCurrency(payment.amount)}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      disabled={deletingId === payment.id}
+                      onClick={() => handleDelete(payment.id)}
+                    >
+                      {deletingId === payment.id ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="size-4" />
+                      )}
+                      <span className="sr-only">Delete payment</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <RecordPaymentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        invoiceId={invoiceId}
+        balanceDue={balanceDue}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  )
+}
+
+// ─── Record Payment Dialog ───────────────────────────────────────────────────
+
+function RecordPaymentDialog({
+  open,
+  onOpenChange,
+  invoiceId,
+  balanceDue,
+  onSuccess,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoiceId: number
+  balanceDue: number
+  onSuccess: () => void
+}) {
+  const [date, setDate] = useState("")
+  const [amount, setAmount] = useState("")
+  const [method, setMethod] = useState<string>("ATH")
+  const [bankTransactionId, setBankTransactionId] = useState(NO_TRANSACTION)
+  const [notes, setNotes] = useState("")
+  const [transactions, setTransactions] = useState<TransactionOption[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (!open) return
+    setDate(new Date().toISOString().split("T")[0])
+    setAmount(balanceDue > 0 ? balanceDue.toFixed(2) : "")
+    setMethod("ATH")
+    setBankTransactionId(NO_TRANSACTION)
+    setNotes("")
+    setError("")
+  }, [open, balanceDue])
+
+  // Recent deposits the payment can be linked to
+  useEffect(() => {
+    if (!open) return
+    fetch("/api/finances/transactions?type=INFLOW&pageSize=50")
+      .then((r) => r.json())
+      .then((result) => {
+        if (result.success) setTransactions(result.data)
+      })
+      .catch((err) => console.error("Failed to load transactions:", err))
+  }, [open])
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    const parsedAmount = parseFloat(amount)
+    if (!date) {
+      setError("Payment date is required.")
+      return
+    }
+    if (!parsedAmount || parsedAmount <= 0) {
+      setError("Amount must be greater than zero.")
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: new Date(date).toISOString(),
+          amount: parsedAmount,
+          method,
+          bankTransactionId:
+            bankTransactionId === NO_TRANSACTION ? null : parseInt(bankTransactionId, 10),
+          notes: notes.trim() || null,
+        }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to record payment.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to record payment. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(balanceDue)} outstanding on this invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Date *</Label>
+              <DatePicker
+                date={date ? new Date(date + "T00:00:00") : undefined}
+                onSelect={(d) => setDate(d ? d.toISOString().split("T")[0] : "")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-method">Method *</Label>
+            <Select value={method} onValueChange={setMethod}>
+              <SelectTrigger id="payment-method" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-transaction">Bank Deposit</Label>
+            <Select value={bankTransactionId} onValueChange={setBankTransactionId}>
+              <SelectTrigger id="payment-transaction" className="w-full">
+                <SelectValue placeholder="Not linked" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRANSACTION}>Not linked</SelectItem>
+                {transactions.map((t) => (
+                  <SelectItem key={t.id} value={String(t.id)}>
+                    {formatDate(t.date)} · {formatCurrency(t.amount)} · {t.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea
+              id="payment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Deposit, balance in cash on completion"
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,605 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DatePicker } from "@/components/ui/date-picker"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Separator } from "@/components/ui/separator"
+
+interface Customer {
+  id: number
+  name: string
+}
+
+interface TaxRate {
+  id: number
+  name: string
+  percent: number | string
+  isDefault: boolean
+}
+
+interface TemplateItemInput {
+  description: string
+  quantity: string
+  rate: string
+  taxable: boolean
+}
+
+export interface InvoiceScheduleData {
+  id: number
+  name: string
+  customerId: number
+  frequency: string
+  nextRunDate: string
+  endDate: string | null
+  dueDays: number | null
+  taxRateId: number | null
+  notes: string | null
+  terms: string | null
+  autoSend: boolean
+  items: {
+    description: string
+    quantity: number | string
+    rate: number | string
+    taxable: boolean
+  }[]
+}
+
+interface InvoiceScheduleFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  schedule?: InvoiceScheduleData
+  onSuccess: () => void
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every 2 weeks",
+  MONTHLY: "Monthly",
+  QUARTERLY: "Quarterly",
+  ANNUAL: "Yearly",
+}
+
+const NO_TAX = "none"
+
+function toDateInputValue(dateString: string | null | undefined): string {
+  if (!dateString) return ""
+  const d = new Date(dateString)
+  if (isNaN(d.getTime())) return ""
+  return d.toISOString().split("T")[0]
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+export function InvoiceScheduleFormDialog({
+  open,
+  onOpenChange,
+  schedule,
+  onSuccess,
+}: InvoiceScheduleFormDialogProps) {
+  const isEditing = !!schedule
+
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
+  const [isLoadingData, setIsLoadingData] = useState(true)
+
+  // Form fields
+  const [name, setName] = useState("")
+  const [customerId, setCustomerId] = useState("")
+  const [frequency, setFrequency] = useState("MONTHLY")
+  const [runDate, setRunDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [dueDays, setDueDays] = useState("")
+  const [taxRateId, setTaxRateId] = useState(NO_TAX)
+  const [autoSend, setAutoSend] = useState(false)
+  const [notes, setNotes] = useState("")
+  const [terms, setTerms] = useState("")
+  const [lineItems, setLineItems] = useState<TemplateItemInput[]>([])
+
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Fetch customers and tax rates when dialog opens
+  useEffect(() => {
+    if (!open) return
+    setIsLoadingData(true)
+
+    Promise.all([
+      fetch("/api/customers").then((r) => r.json()),
+      fetch("/api/tax-rates").then((r) => r.json()),
+    ])
+      .then(([customersResult, taxRatesResult]) => {
+        if (customersResult.success) setCustomers(customersResult.data)
+        if (taxRatesResult.success) {
+          const rates: TaxRate[] = taxRatesResult.data
+          setTaxRates(rates)
+          if (!schedule) {
+            const defaultRate = rates.find((r) => r.isDefault)
+            setTaxRateId(defaultRate ? String(defaultRate.id) : NO_TAX)
+          }
+        }
+      })
+      .catch((err) => console.error("Failed to load schedule form data:", err))
+      .finally(() => setIsLoadingData(false))
+  }, [open, schedule])
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    if (schedule) {
+      setName(schedule.name)
+      setCustomerId(String(schedule.customerId))
+      setFrequency(schedule.frequency)
+      setRunDate(toDateInputValue(schedule.nextRunDate))
+      setEndDate(toDateInputValue(schedule.endDate))
+      setDueDays(schedule.dueDays === null ? "" : String(schedule.dueDays))
+      setTaxRateId(schedule.taxRateId ? String(schedule.taxRateId) : NO_TAX)
+      setAutoSend(schedule.autoSend)
+      setNotes(schedule.notes ?? "")
+      setTerms(schedule.terms ?? "")
+      setLineItems(
+        schedule.items.map((item) => ({
+          description: item.description,
+          quantity: String(Number(item.quantity)),
+          rate: String(Number(item.rate)),
+          taxable: item.taxable,
+        }))
+      )
+    } else {
+      setName("")
+      setCustomerId("")
+      setFrequency("MONTHLY")
+      setRunDate(new Date().toISOString().split("T")[0])
+      setEndDate("")
+      setDueDays("")
+      setAutoSend(false)
+      setNotes("")
+      setTerms("")
+      setLineItems([])
+    }
+
+    setError("")
+  }, [open, schedule])
+
+  function getLineItemAmount(item: TemplateItemInput): number {
+    const qty = parseFloat(item.quantity) || 0
+    const rate = parseFloat(item.rate) || 0
+    return qty * rate
+  }
+
+  const selectedTaxRate = taxRates.find((r) => String(r.id) === taxRateId) ?? null
+  const subtotal = lineItems.reduce((sum, item) => sum + getLineItemAmount(item), 0)
+  const taxableAmount = lineItems
+    .filter((item) => item.taxable)
+    .reduce((sum, item) => sum + getLineItemAmount(item), 0)
+  const tax = selectedTaxRate
+    ? Math.round(taxableAmount * Number(selectedTaxRate.percent)) / 100
+    : 0
+  const total = subtotal + tax
+
+  function addLineItem() {
+    setLineItems((prev) => [
+      ...prev,
+      { description: "", quantity: "1", rate: "", taxable: selectedTaxRate !== null },
+    ])
+  }
+
+  function removeLineItem(index: number) {
+    setLineItems((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  function updateLineItem(
+    index: number,
+    field: keyof TemplateItemInput,
+    value: string | boolean
+  ) {
+    setLineItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, [field]: value } : item))
+    )
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!name.trim()) {
+      setError("Name is required.")
+      return
+    }
+    if (!customerId) {
+      setError("Customer is required.")
+      return
+    }
+    if (!runDate) {
+      setError(isEditing ? "Next run date is required." : "Start date is required.")
+      return
+    }
+    if (lineItems.length === 0) {
+      setError("At least one line item is required.")
+      return
+    }
+
+    for (let i = 0; i < lineItems.length; i++) {
+      const item = lineItems[i]
+      if (!item.description.trim()) {
+        setError(`Line item ${i + 1}: Description is required.`)
+        return
+      }
+      if (!item.rate || parseFloat(item.rate) <= 0) {
+        setError(`Line item ${i + 1}: Rate must be greater than zero.`)
+        return
+      }
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const runDateIso = new Date(runDate).toISOString()
+      const payload = {
+        name: name.trim(),
+        customerId: parseInt(customerId, 10),
+        frequency,
+        endDate: endDate ? new Date(endDate).toISOString() : null,
+        dueDays: dueDays === "" ? null : parseInt(dueDays, 10),
+        taxRateId: taxRateId === NO_TAX ? null : parseInt(taxRateId, 10),
+        autoSend,
+        notes: notes.trim() || null,
+        terms: terms.trim() || null,
+        items: lineItems.map((item) => ({
+          description: item.description.trim(),
+          quantity: parseFloat(item.quantity) || 1,
+          rate: parseFloat(item.rate) || 0,
+          taxable: item.taxable,
+        })),
+        // Only send a moved run date: it re-anchors the schedule's day of month
+        ...(isEditing
+          ? runDate !== toDateInputValue(schedule.nextRunDate) && { nextRunDate: runDateIso }
+          : { startDate: runDateIso }),
+      }
+
+      const res = await fetch(
+        isEditing ? `/api/invoices/schedules/${schedule.id}` : "/api/invoices/schedules",
+        {
+          method: isEditing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      )
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Something went wrong.")
+        return
+      }
+
+      onOpenChange(false)
+      onSuccess()
+    } catch {
+      setError("Failed to save schedule. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-screen flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Schedule" : "New Recurring Schedule"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Changes apply to invoices generated from now on."
+              : "Bill a customer the same lines on a fixed schedule."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingData ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-4">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sched-name">Name *</Label>
+                  <Input
+                    id="sched-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Monthly pool maintenance"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sched-customer">Customer *</Label>
+                  <Select value={customerId} onValueChange={setCustomerId}>
+                    <SelectTrigger id="sched-customer" className="w-full">
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map((c) => (
+                        <SelectItem key={c.id} value={String(c.id)}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sched-frequency">Frequency</Label>
+                  <Select value={frequency} onValueChange={setFrequency}>
+                    <SelectTrigger id="sched-frequency" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{isEditing ? "Next Run *" : "First Invoice Date *"}</Label>
+                  <DatePicker
+                    date={runDate ? new Date(runDate + "T00:00:00") : undefined}
+                    onSelect={(d) => setRunDate(d ? d.toISOString().split("T")[0] : "")}
+                    placeholder="Pick a date"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>End Date</Label>
+                  <DatePicker
+                    date={endDate ? new Date(endDate + "T00:00:00") : undefined}
+                    onSelect={(d) => setEndDate(d ? d.toISOString().split("T")[0] : "")}
+                    placeholder="No end date"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sched-due-days">Due In (days)</Label>
+                  <Input
+                    id="sched-due-days"
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={dueDays}
+                    onChange={(e) => setDueDays(e.target.value)}
+                    placeholder="No due date"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sched-tax-rate">Sales Tax</Label>
+                  <Select value={taxRateId} onValueChange={setTaxRateId}>
+                    <SelectTrigger id="sched-tax-rate" className="w-full">
+                      <SelectValue placeholder="No tax" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TAX}>No tax</SelectItem>
+                      {taxRates.map((r) => (
+                        <SelectItem key={r.id} value={String(r.id)}>
+                          {r.name} ({Number(r.percent)}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-start gap-2 pt-7">
+                  <Checkbox
+                    id="sched-auto-send"
+                    checked={autoSend}
+                    onCheckedChange={(checked) => setAutoSend(checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="sched-auto-send">Send automatically</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Generate as Sent and email the customer. Otherwise invoices are
+                      left as drafts for review.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sched-notes">Notes</Label>
+                <Textarea
+                  id="sched-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional notes to include on each invoice"
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sched-terms">Terms</Label>
+                <Textarea
+                  id="sched-terms"
+                  value={terms}
+                  onChange={(e) => setTerms(e.target.value)}
+                  placeholder="e.g. Due on receipt"
+                  rows={2}
+                />
+              </div>
+
+              <Separator />
+
+              {/* Line Items */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-medium">Line Items</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addLineItem}>
+                    <Plus className="mr-1 size-3.5" />
+                    Add Item
+                  </Button>
+                </div>
+
+                {lineItems.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No line items. Click &quot;Add Item&quot; to add items. Each invoice
+                    uses its run date as the service date.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="hidden md:grid md:grid-cols-12 items-center gap-2 px-2 text-xs font-medium text-muted-foreground">
+                      <span className="col-span-5">Description</span>
+                      <span className="col-span-2">Qty</span>
+                      <span className="col-span-2">Rate</span>
+                      <span className="col-span-1 text-center">Tax</span>
+                      <span className="col-span-2 text-right">Amount</span>
+                    </div>
+
+                    {lineItems.map((item, index) => (
+                      <div
+                        key={index}
+                        className="grid grid-cols-1 md:grid-cols-12 items-start md:items-center gap-2 rounded-md border p-2"
+                      >
+                        <div className="md:col-span-5">
+                          <Label className="md:hidden text-xs text-muted-foreground">Description</Label>
+                          <Input
+                            value={item.description}
+                            onChange={(e) => updateLineItem(index, "description", e.target.value)}
+                            placeholder="Description"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label className="md:hidden text-xs text-muted-foreground">Qty</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={item.quantity}
+                            onChange={(e) => updateLineItem(index, "quantity", e.target.value)}
+                            placeholder="1"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label className="md:hidden text-xs text-muted-foreground">Rate</Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={item.rate}
+                            onChange={(e) => updateLineItem(index, "rate", e.target.value)}
+                            placeholder="0.00"
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="md:col-span-1 flex items-center gap-2 md:justify-center">
+                          <Checkbox
+                            id={`sched-item-taxable-${index}`}
+                            checked={item.taxable}
+                            disabled={!selectedTaxRate}
+                            onCheckedChange={(checked) =>
+                              updateLineItem(index, "taxable", checked === true)
+                            }
+                            aria-label="Taxable"
+                          />
+                          <Label
+                            htmlFor={`sched-item-taxable-${index}`}
+                            className="md:hidden text-xs text-muted-foreground"
+                          >
+                            Taxable
+                          </Label>
+                        </div>
+                        <div className="md:col-span-2 flex items-center justify-between md:justify-end gap-2">
+                          <span className="md:hidden text-xs text-muted-foreground">Amount:</span>
+                          <div className="text-right text-sm font-medium tabular-nums">
+                            {formatCurrency(getLineItemAmount(item))}
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 shrink-0"
+                            onClick={() => removeLineItem(index)}
+                          >
+                            <X className="size-4" />
+                            <span className="sr-only">Remove item</span>
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {lineItems.length > 0 && (
+                <div className="flex justify-end">
+                  <div className="w-64 space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span className="font-medium tabular-nums">{formatCurrency(subtotal)}</span>
+                    </div>
+                    {selectedTaxRate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {selectedTaxRate.name} ({Number(selectedTaxRate.percent)}%)
+                        </span>
+                        <span className="font-medium tabular-nums">{formatCurrency(tax)}</span>
+                      </div>
+                    )}
+                    <Separator />
+                    <div className="flex justify-between text-base font-semibold">
+                      <span>Per invoice</span>
+                      <span className="tabular-nums">{formatCurrency(total)}</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+                  {isEditing ? "Save Changes" : "Create Schedule"}
+                </Button>
+              </div>
+            </form>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,241 @@
+import {
+  BanknoteArrowDown,
+  BanknoteArrowUp,
+  CalendarClock,
+  Eye,
+  FileMinus,
+  FilePlus,
+  Link2,
+  Mail,
+  Pencil,
+  RefreshCw,
+  Undo2,
+  type LucideIcon,
+} from "lucide-react"
+import type { InvoiceEventType } from "@/generated/prisma"
+import type { InvoiceEventDataMap } from "@/lib/invoice-events"
+
+export interface InvoiceTimelineEvent {
+  id: number
+  type: InvoiceEventType
+  data: unknown
+  actorName: string | null
+  createdAt: string
+}
+
+interface InvoiceTimelineProps {
+  events: InvoiceTimelineEvent[]
+}
+
+const ICONS: Record<InvoiceEventType, LucideIcon> = {
+  CREATED: FilePlus,
+  UPDATED: Pencil,
+  STATUS_CHANGED: RefreshCw,
+  EMAILED: Mail,
+  SHARED: Link2,
+  VIEWED: Eye,
+  PAYMENT_RECORDED: BanknoteArrowDown,
+  PAYMENT_DELETED: BanknoteArrowUp,
+  LATE_FEE_APPLIED: CalendarClock,
+  CREDIT_ISSUED: FileMinus,
+  CREDIT_DELETED: FileMinus,
+  REFUND_RECORDED: Undo2,
+  REFUND_DELETED: Undo2,
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_PAID: "Partially Paid",
+  PAID: "Paid",
+  CANCELLED: "Cancelled",
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  ATH: "ATH Móvil",
+  PAYPAL: "PayPal",
+  CASH: "Cash",
+  OTHER: "Other",
+}
+
+const STATUS_REASONS: Record<string, string> = {
+  payment: "from the payment ledger",
+  credit: "from a credit",
+  email: "when emailed",
+  share: "when shared",
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+function truncate(value: string | null, max = 80): string {
+  if (value === null) return "—"
+  return value.length > max ? `${value.slice(0, max)}…` : value
+}
+
+function describe(event: InvoiceTimelineEvent): { title: string; details: string[] } {
+  switch (event.type) {
+    case "CREATED": {
+      const data = event.data as InvoiceEventDataMap["CREATED"]
+      const source =
+        data.source === "estimate"
+          ? ` from estimate ${data.estimateNumber ?? ""}`.trimEnd()
+          : data.source === "bulk"
+            ? " by bulk billing"
+            : data.source === "schedule"
+              ? ` from schedule ${data.scheduleName ?? ""}`.trimEnd()
+              : ""
+      return {
+        title: `Created ${data.invoiceNumber}${source}`,
+        details: [`Total ${formatCurrency(data.total)}`],
+      }
+    }
+    case "UPDATED": {
+      const data = event.data as InvoiceEventDataMap["UPDATED"]
+      const details = [
+        ...data.fields.map((c) => `${c.field}: ${truncate(c.from)} → ${truncate(c.to)}`),
+        ...data.itemsRemoved.map((line) => `− ${line}`),
+        ...data.itemsAdded.map((line) => `+ ${line}`),
+      ]
+      if (data.totals) {
+        details.push(
+          `Total: ${formatCurrency(data.totals.from.total)} → ${formatCurrency(data.totals.to.total)}`
+        )
+      }
+      return { title: "Edited", details }
+    }
+    case "STATUS_CHANGED": {
+      const data = event.data as InvoiceEventDataMap["STATUS_CHANGED"]
+      const reason = data.reason ? ` ${STATUS_REASONS[data.reason]}` : ""
+      return {
+        title: `Status ${STATUS_LABELS[data.from] ?? data.from} → ${STATUS_LABELS[data.to] ?? data.to}${reason}`,
+        details: [],
+      }
+    }
+    case "EMAILED": {
+      const data = event.data as InvoiceEventDataMap["EMAILED"]
+      return {
+        title: `${data.template === "reminder" ? "Payment reminder" : "Invoice"} emailed to ${data.to}`,
+        details: [],
+      }
+    }
+    case "SHARED": {
+      const data = event.data as InvoiceEventDataMap["SHARED"]
+      return { title: `Share link created, expires ${formatDate(data.expiresAt)}`, details: [] }
+    }
+    case "VIEWED": {
+      const data = event.data as InvoiceEventDataMap["VIEWED"]
+      return {
+        title:
+          data.viewCount > 1
+            ? `Viewed by the customer (view ${data.viewCount})`
+            : "Viewed by the customer",
+        details: [],
+      }
+    }
+    case "PAYMENT_RECORDED":
+    case "PAYMENT_DELETED": {
+      const data = event.data as InvoiceEventDataMap["PAYMENT_RECORDED"]
+      const verb = event.type === "PAYMENT_RECORDED" ? "recorded" : "removed"
+      return {
+        title: `Payment of ${formatCurrency(data.amount)} ${verb}`,
+        details: [`${METHOD_LABELS[data.method] ?? data.method} · ${formatDate(data.date)}`],
+      }
+    }
+    case "CREDIT_ISSUED":
+    case "CREDIT_DELETED": {
+      const data = event.data as InvoiceEventDataMap["CREDIT_ISSUED"]
+      const what =
+        data.creditType === "WRITE_OFF"
+          ? "Write-off"
+          : `Credit note${data.creditNumber ? ` ${data.creditNumber}` : ""}`
+      const verb = event.type === "CREDIT_ISSUED" ? "" : " removed"
+      return {
+        title: `${what} of ${formatCurrency(data.amount)}${verb}`,
+        details: data.reason ? [data.reason] : [],
+      }
+    }
+    case "REFUND_RECORDED":
+    case "REFUND_DELETED": {
+      const data = event.data as InvoiceEventDataMap["REFUND_RECORDED"]
+      const verb = event.type === "REFUND_RECORDED" ? "recorded" : "removed"
+      return {
+        title: `Refund of ${formatCurrency(data.amount)} ${verb}`,
+        details: [`${METHOD_LABELS[data.method] ?? data.method} · ${formatDate(data.date)}`],
+      }
+    }
+    case "LATE_FEE_APPLIED": {
+      const data = event.data as InvoiceEventDataMap["LATE_FEE_APPLIED"]
+      return {
+        title: `Late fee of ${formatCurrency(data.amount)} added`,
+        details: [data.description, `New total ${formatCurrency(data.total)}`],
+      }
+    }
+  }
+}
+
+function actorLabel(event: InvoiceTimelineEvent): string {
+  if (event.actorName) return event.actorName
+  return event.type === "VIEWED" ? "Customer" : "System"
+}
+
+export function InvoiceTimeline({ events }: InvoiceTimelineProps) {
+  return (
+    <div className="mx-auto max-w-3xl rounded-lg border bg-card p-4 sm:p-8 shadow-sm print:hidden">
+      <h2 className="text-lg font-semibold">Activity</h2>
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+      ) : (
+        <ol className="mt-4 space-y-4 border-l pl-6">
+          {events.map((event) => {
+            const Icon = ICONS[event.type]
+            const { title, details } = describe(event)
+            return (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[35px] flex size-6 items-center justify-center rounded-full border bg-background">
+                  <Icon className="size-3.5 text-muted-foreground" />
+                </span>
+                <p className="text-sm font-medium">{title}</p>
+                {details.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                    {details.map((line, i) => (
+                      <li key={i} className="break-words">
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {actorLabel(event)} · {formatDateTime(event.createdAt)}
+                </p>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
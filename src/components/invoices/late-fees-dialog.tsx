@@ -0,0 +1,187 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { CalendarClock, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface PlannedFee {
+  date: string
+  amount: number
+  description: string
+}
+
+interface LateFeeInvoice {
+  invoiceId: number
+  invoiceNumber: string
+  customerName: string
+  fees: PlannedFee[]
+}
+
+interface LateFeeRun {
+  dryRun: boolean
+  invoices: LateFeeInvoice[]
+  totalFees: number
+}
+
+interface LateFeesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onApplied: () => void
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+export function LateFeesDialog({ open, onOpenChange, onApplied }: LateFeesDialogProps) {
+  const [preview, setPreview] = useState<LateFeeRun | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [notice, setNotice] = useState("")
+  const [error, setError] = useState("")
+
+  const runLateFees = useCallback(async (dryRun: boolean): Promise<LateFeeRun | null> => {
+    const res = await fetch("/api/invoices/late-fees", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dryRun }),
+    })
+    const result = await res.json()
+    if (!result.success) {
+      setError(result.error || "Failed to calculate late fees.")
+      return null
+    }
+    return result.data
+  }, [])
+
+  const fetchPreview = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      setPreview(await runLateFees(true))
+    } catch {
+      setError("Failed to calculate late fees.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [runLateFees])
+
+  useEffect(() => {
+    if (open) {
+      setNotice("")
+      fetchPreview()
+    }
+  }, [open, fetchPreview])
+
+  async function handleApply() {
+    setIsApplying(true)
+    setError("")
+    try {
+      const applied = await runLateFees(false)
+      if (!applied) return
+      setNotice(
+        `Added ${formatCurrency(applied.totalFees)} in late fees to ${applied.invoices.length} invoice(s).`
+      )
+      setPreview(null)
+      onApplied()
+    } catch {
+      setError("Failed to apply late fees. Please try again.")
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const hasFees = !!preview && preview.invoices.length > 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Late Fees</DialogTitle>
+          <DialogDescription>
+            Fees due on overdue invoices under your late fee policy and customer
+            overrides. Nothing is charged until you apply them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !notice && !hasFees ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No late fees are due. The default policy is set under Settings.
+          </p>
+        ) : hasFees ? (
+          <div className="max-h-[50vh] divide-y overflow-auto rounded-md border">
+            {preview.invoices.map((invoice) => (
+              <div key={invoice.invoiceId} className="px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={`/invoices/${invoice.invoiceId}`}
+                    className="font-medium text-primary underline-offset-4 hover:underline"
+                  >
+                    {invoice.invoiceNumber}
+                  </Link>
+                  <span>{invoice.customerName}</span>
+                </div>
+                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                  {invoice.fees.map((fee) => (
+                    <li key={fee.date} className="flex justify-between gap-4">
+                      <span>
+                        {formatDate(fee.date)} · {fee.description}
+                      </span>
+                      <span className="tabular-nums">{formatCurrency(fee.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleApply} disabled={!hasFees || isApplying}>
+            {isApplying ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <CalendarClock className="mr-2 size-4" />
+            )}
+            {hasFees ? `Apply ${formatCurrency(preview.totalFees)}` : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
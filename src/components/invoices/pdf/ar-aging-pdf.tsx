@@ -0,0 +1,204 @@
+import { Document, Page, View, Text, StyleSheet } from "@react-pdf/renderer"
+import { AGING_BUCKETS, type ArAgingReport } from "@/lib/ar-aging"
+import type { InvoicePdfCompany } from "./invoice-pdf"
+
+// ── Formatting ────────────────────────────────────────────────────
+
+function fmtExact(n: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(n)
+}
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+// ── Styles ────────────────────────────────────────────────────────
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  border: "#e2e8f0",
+  red: "#dc2626",
+  bgMuted: "#f8fafc",
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 36,
+    paddingBottom: 48,
+    paddingHorizontal: 36,
+    fontSize: 9,
+    color: COLORS.text,
+    fontFamily: "Helvetica",
+  },
+  letterhead: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingBottom: 12,
+    borderBottomWidth: 2,
+    borderColor: COLORS.text,
+  },
+  companyName: { fontSize: 14, fontFamily: "Helvetica-Bold", marginBottom: 3 },
+  companyLine: { fontSize: 8, color: COLORS.muted, marginBottom: 1 },
+  docTitle: { fontSize: 18, fontFamily: "Helvetica-Bold", textAlign: "right" },
+  docSubtitle: { fontSize: 9, color: COLORS.muted, textAlign: "right", marginTop: 2 },
+  table: { marginTop: 18, borderTopWidth: 1, borderColor: COLORS.border },
+  headerRow: {
+    flexDirection: "row",
+    backgroundColor: COLORS.bgMuted,
+    paddingVertical: 5,
+    paddingHorizontal: 6,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  customerRow: {
+    flexDirection: "row",
+    paddingVertical: 5,
+    paddingHorizontal: 6,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  documentRow: {
+    flexDirection: "row",
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+  },
+  totalRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+    borderTopWidth: 2,
+    borderColor: COLORS.text,
+  },
+  th: { fontSize: 7, color: COLORS.muted, fontFamily: "Helvetica-Bold" },
+  colName: { flex: 3 },
+  colNum: { flex: 1.2, textAlign: "right" },
+  bold: { fontFamily: "Helvetica-Bold" },
+  docText: { fontSize: 8, color: COLORS.muted },
+  pageFooter: {
+    position: "absolute",
+    bottom: 20,
+    left: 36,
+    right: 36,
+    fontSize: 8,
+    color: COLORS.muted,
+    textAlign: "center",
+  },
+})
+
+// ── Document ──────────────────────────────────────────────────────
+
+interface Props {
+  report: ArAgingReport
+  company: InvoicePdfCompany
+}
+
+export function ArAgingPdf({ report, company }: Props) {
+  return (
+    <Document title="Accounts Receivable Aging" author={company.name}>
+      <Page size="LETTER" orientation="landscape" style={styles.page}>
+        {/* ── Letterhead ───────────────────────────────────── */}
+        <View style={styles.letterhead}>
+          <View>
+            <Text style={styles.companyName}>{company.name}</Text>
+            {company.address && <Text style={styles.companyLine}>{company.address}</Text>}
+            {company.cityLine && <Text style={styles.companyLine}>{company.cityLine}</Text>}
+          </View>
+          <View>
+            <Text style={styles.docTitle}>AR AGING</Text>
+            <Text style={styles.docSubtitle}>As of {fmtDate(report.asOf)}</Text>
+          </View>
+        </View>
+
+        {/* ── Buckets per customer ─────────────────────────── */}
+        <View style={styles.table}>
+          <View style={styles.headerRow} fixed>
+            <Text style={[styles.th, styles.colName]}>CUSTOMER / DOCUMENT</Text>
+            {AGING_BUCKETS.map((b) => (
+              <Text key={b.key} style={[styles.th, styles.colNum]}>
+                {b.label.toUpperCase()}
+              </Text>
+            ))}
+            <Text style={[styles.th, styles.colNum]}>TOTAL</Text>
+          </View>
+
+          {report.customers.length === 0 && (
+            <View style={styles.customerRow}>
+              <Text style={[styles.colName, styles.docText]}>No open receivables.</Text>
+            </View>
+          )}
+
+          {report.customers.map((customer) => (
+            <View key={customer.customerId} style={styles.customerRow} wrap={false}>
+              <View style={{ flex: 1 }}>
+                <View style={{ flexDirection: "row" }}>
+                  <Text style={[styles.colName, styles.bold]}>{customer.customerName}</Text>
+                  {AGING_BUCKETS.map((b) => (
+                    <Text
+                      key={b.key}
+                      style={[
+                        styles.colNum,
+                        b.key !== "current" && customer.totals[b.key] > 0
+                          ? { color: COLORS.red }
+                          : {},
+                      ]}
+                    >
+                      {customer.totals[b.key] ? fmtExact(customer.totals[b.key]) : "—"}
+                    </Text>
+                  ))}
+                  <Text style={[styles.colNum, styles.bold]}>
+                    {fmtExact(customer.totals.total)}
+                  </Text>
+                </View>
+                {customer.documents.map((doc) => (
+                  <View key={`${doc.type}-${doc.id}`} style={styles.documentRow}>
+                    <Text style={[styles.colName, styles.docText]}>
+                      {doc.type === "invoice" ? doc.reference : `Unbilled: ${doc.reference}`}
+                      {" · due "}
+                      {fmtDate(doc.dueDate)}
+                      {doc.daysPastDue > 0 ? ` · ${doc.daysPastDue}d late` : ""}
+                    </Text>
+                    {AGING_BUCKETS.map((b) => (
+                      <Text key={b.key} style={[styles.colNum, styles.docText]}>
+                        {doc.bucket === b.key ? fmtExact(doc.balance) : ""}
+                      </Text>
+                    ))}
+                    <Text style={[styles.colNum, styles.docText]} />
+                  </View>
+                ))}
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.totalRow} wrap={false}>
+            <Text style={[styles.colName, styles.bold]}>Total</Text>
+            {AGING_BUCKETS.map((b) => (
+              <Text key={b.key} style={[styles.colNum, styles.bold]}>
+                {fmtExact(report.totals[b.key])}
+              </Text>
+            ))}
+            <Text style={[styles.colNum, styles.bold]}>{fmtExact(report.totals.total)}</Text>
+          </View>
+        </View>
+
+        <Text
+          style={styles.pageFooter}
+          fixed
+          render={({ pageNumber, totalPages }) =>
+            `${company.name} · Accounts Receivable Aging · Page ${pageNumber} of ${totalPages}`
+          }
+        />
+      </Page>
+    </Document>
+  )
+}
@@ -0,0 +1,318 @@
+import { Document, Page, View, Text, StyleSheet } from "@react-pdf/renderer"
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export interface InvoicePdfCompany {
+  name: string
+  address: string | null
+  cityLine: string | null
+  phone: string | null
+  email: string | null
+  website: string | null
+}
+
+export interface InvoicePdfData {
+  invoiceNumber: string
+  status: string
+  issueDate: Date
+  dueDate: Date | null
+  subtotal: number
+  /** Null when the invoice is untaxed */
+  tax: { label: string; percent: number; amount: number } | null
+  total: number
+  amountPaid: number
+  amountCredited: number
+  notes: string | null
+  terms: string | null
+  customer: {
+    name: string
+    address: string | null
+    phone: string | null
+    email: string | null
+  }
+  items: {
+    id: number
+    description: string
+    serviceDate: Date
+    quantity: number
+    rate: number
+    amount: number
+    taxable: boolean
+  }[]
+}
+
+// ── Formatting ────────────────────────────────────────────────────
+
+function fmtExact(n: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(n)
+}
+
+function fmtDate(d: Date) {
+  return d.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+// ── Styles ────────────────────────────────────────────────────────
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  border: "#e2e8f0",
+  emerald: "#059669",
+  bgMuted: "#f8fafc",
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 40,
+    paddingBottom: 48,
+    paddingHorizontal: 40,
+    fontSize: 10,
+    color: COLORS.text,
+    fontFamily: "Helvetica",
+  },
+  letterhead: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    paddingBottom: 14,
+    borderBottomWidth: 2,
+    borderColor: COLORS.text,
+  },
+  companyName: { fontSize: 16, fontFamily: "Helvetica-Bold", marginBottom: 4 },
+  companyLine: { fontSize: 9, color: COLORS.muted, marginBottom: 1 },
+  docTitle: { fontSize: 22, fontFamily: "Helvetica-Bold", textAlign: "right" },
+  docNumber: { fontSize: 11, color: COLORS.muted, textAlign: "right", marginTop: 2 },
+  metaRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 18,
+  },
+  label: {
+    fontSize: 8,
+    color: COLORS.muted,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 3,
+  },
+  billToName: { fontSize: 11, fontFamily: "Helvetica-Bold", marginBottom: 2 },
+  billToLine: { fontSize: 9, color: COLORS.muted, marginBottom: 1 },
+  dates: { alignItems: "flex-end" },
+  dateRow: { flexDirection: "row", marginBottom: 3 },
+  dateLabel: { fontSize: 9, color: COLORS.muted, width: 60, textAlign: "right", marginRight: 8 },
+  dateValue: { fontSize: 9, width: 80, textAlign: "right" },
+  table: {
+    marginTop: 22,
+    borderTopWidth: 1,
+    borderColor: COLORS.border,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: COLORS.bgMuted,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderColor: COLORS.border,
+  },
+  thDesc: { flex: 4, fontSize: 8, color: COLORS.muted, fontFamily: "Helvetica-Bold" },
+  thDate: { flex: 2, fontSize: 8, color: COLORS.muted, fontFamily: "Helvetica-Bold" },
+  thNum: { flex: 1.3, fontSize: 8, color: COLORS.muted, textAlign: "right", fontFamily: "Helvetica-Bold" },
+  tdDesc: { flex: 4, fontSize: 9 },
+  tdDate: { flex: 2, fontSize: 9, color: COLORS.muted },
+  tdNum: { flex: 1.3, fontSize: 9, textAlign: "right" },
+  totals: { marginTop: 12, alignSelf: "flex-end", width: 220 },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 3,
+  },
+  totalLabel: { fontSize: 9, color: COLORS.muted },
+  totalValue: { fontSize: 9 },
+  grandTotalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 5,
+    marginTop: 2,
+    borderTopWidth: 1,
+    borderColor: COLORS.border,
+  },
+  grandTotalLabel: { fontSize: 11, fontFamily: "Helvetica-Bold" },
+  grandTotalValue: { fontSize: 11, fontFamily: "Helvetica-Bold" },
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+    marginTop: 4,
+    backgroundColor: COLORS.bgMuted,
+  },
+  section: { marginTop: 22 },
+  sectionText: { fontSize: 9, lineHeight: 1.4 },
+  pageFooter: {
+    position: "absolute",
+    bottom: 20,
+    left: 40,
+    right: 40,
+    fontSize: 8,
+    color: COLORS.muted,
+    textAlign: "center",
+  },
+})
+
+// ── Document ──────────────────────────────────────────────────────
+
+interface Props {
+  invoice: InvoicePdfData
+  company: InvoicePdfCompany
+}
+
+export function InvoicePdf({ invoice, company }: Props) {
+  const balanceDue = invoice.total - invoice.amountCredited - invoice.amountPaid
+  const contactLine = [company.phone, company.email, company.website].filter(Boolean).join(" · ")
+
+  return (
+    <Document title={`Invoice ${invoice.invoiceNumber}`} author={company.name}>
+      <Page size="LETTER" style={styles.page}>
+        {/* ── Letterhead ───────────────────────────────────── */}
+        <View style={styles.letterhead}>
+          <View>
+            <Text style={styles.companyName}>{company.name}</Text>
+            {company.address && <Text style={styles.companyLine}>{company.address}</Text>}
+            {company.cityLine && <Text style={styles.companyLine}>{company.cityLine}</Text>}
+            {company.phone && <Text style={styles.companyLine}>{company.phone}</Text>}
+          </View>
+          <View>
+            <Text style={styles.docTitle}>INVOICE</Text>
+            <Text style={styles.docNumber}>{invoice.invoiceNumber}</Text>
+          </View>
+        </View>
+
+        {/* ── Bill To + Dates ──────────────────────────────── */}
+        <View style={styles.metaRow}>
+          <View>
+            <Text style={styles.label}>BILL TO</Text>
+            <Text style={styles.billToName}>{invoice.customer.name}</Text>
+            {invoice.customer.address && (
+              <Text style={styles.billToLine}>{invoice.customer.address}</Text>
+            )}
+            {invoice.customer.phone && (
+              <Text style={styles.billToLine}>{invoice.customer.phone}</Text>
+            )}
+            {invoice.customer.email && (
+              <Text style={styles.billToLine}>{invoice.customer.email}</Text>
+            )}
+          </View>
+          <View style={styles.dates}>
+            <View style={styles.dateRow}>
+              <Text style={styles.dateLabel}>Issue Date</Text>
+              <Text style={styles.dateValue}>{fmtDate(invoice.issueDate)}</Text>
+            </View>
+            {invoice.dueDate && (
+              <View style={styles.dateRow}>
+                <Text style={styles.dateLabel}>Due Date</Text>
+                <Text style={styles.dateValue}>{fmtDate(invoice.dueDate)}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+
+        {/* ── Line Items ───────────────────────────────────── */}
+        <View style={styles.table}>
+          <View style={styles.tableHeader} fixed>
+            <Text style={styles.thDesc}>DESCRIPTION</Text>
+            <Text style={styles.thDate}>SERVICE DATE</Text>
+            <Text style={styles.thNum}>QTY</Text>
+            <Text style={styles.thNum}>RATE</Text>
+            <Text style={styles.thNum}>AMOUNT</Text>
+          </View>
+          {invoice.items.map((item) => (
+            <View key={item.id} style={styles.tableRow} wrap={false}>
+              <Text style={styles.tdDesc}>
+                {item.description}
+                {invoice.tax && item.taxable ? " (T)" : ""}
+              </Text>
+              <Text style={styles.tdDate}>{fmtDate(item.serviceDate)}</Text>
+              <Text style={styles.tdNum}>{item.quantity}</Text>
+              <Text style={styles.tdNum}>{fmtExact(item.rate)}</Text>
+              <Text style={styles.tdNum}>{fmtExact(item.amount)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* ── Totals ───────────────────────────────────────── */}
+        <View style={styles.totals} wrap={false}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Subtotal</Text>
+            <Text style={styles.totalValue}>{fmtExact(invoice.subtotal)}</Text>
+          </View>
+          {invoice.tax && (
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>
+                {invoice.tax.label} ({invoice.tax.percent}%)
+              </Text>
+              <Text style={styles.totalValue}>{fmtExact(invoice.tax.amount)}</Text>
+            </View>
+          )}
+          <View style={styles.grandTotalRow}>
+            <Text style={styles.grandTotalLabel}>Total</Text>
+            <Text style={styles.grandTotalValue}>{fmtExact(invoice.total)}</Text>
+          </View>
+          {invoice.amountCredited > 0 && (
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>Credits</Text>
+              <Text style={styles.totalValue}>-{fmtExact(invoice.amountCredited)}</Text>
+            </View>
+          )}
+          {invoice.amountPaid > 0 && (
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>Amount Paid</Text>
+              <Text style={[styles.totalValue, { color: COLORS.emerald }]}>
+                -{fmtExact(invoice.amountPaid)}
+              </Text>
+            </View>
+          )}
+          <View style={styles.balanceRow}>
+            <Text style={styles.grandTotalLabel}>Balance Due</Text>
+            <Text style={styles.grandTotalValue}>{fmtExact(balanceDue)}</Text>
+          </View>
+        </View>
+
+        {/* ── Notes / Terms ────────────────────────────────── */}
+        {invoice.notes && (
+          <View style={styles.section} wrap={false}>
+            <Text style={styles.label}>NOTES</Text>
+            <Text style={styles.sectionText}>{invoice.notes}</Text>
+          </View>
+        )}
+        {invoice.terms && (
+          <View style={styles.section} wrap={false}>
+            <Text style={styles.label}>TERMS</Text>
+            <Text style={styles.sectionText}>{invoice.terms}</Text>
+          </View>
+        )}
+
+        <Text
+          style={styles.pageFooter}
+          fixed
+          render={({ pageNumber, totalPages }) =>
+            `${company.name}${contactLine ? ` · ${contactLine}` : ""} · Page ${pageNumber} of ${totalPages}`
+          }
+        />
+      </Page>
+    </Document>
+  )
+}
@@ -0,0 +1,283 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { toast } from "sonner"
+import { Copy, Link2, Loader2, MessageCircle, Ban } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+interface ShareLink {
+  id: number
+  token: string
+  expiresAt: string
+  revokedAt: string | null
+  firstViewedAt: string | null
+  lastViewedAt: string | null
+  viewCount: number
+  createdAt: string
+}
+
+interface ShareInvoiceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoice: { id: number; invoiceNumber: string; customerPhone: string | null }
+  onShared: () => void
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+]
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+function linkState(link: ShareLink): { label: string; className: string } {
+  if (link.revokedAt) return { label: "Revoked", className: "bg-muted text-muted-foreground" }
+  if (new Date(link.expiresAt) < new Date()) {
+    return { label: "Expired", className: "bg-muted text-muted-foreground" }
+  }
+  if (link.firstViewedAt) return { label: "Viewed", className: "bg-green-600 text-white" }
+  return { label: "Not viewed", className: "bg-blue-600 text-white" }
+}
+
+// wa.me wants the number in international format with digits only
+function whatsAppUrl(phone: string | null, text: string): string {
+  const digits = phone?.replace(/\D/g, "") ?? ""
+  return `https://wa.me/${digits}?text=${encodeURIComponent(text)}`
+}
+
+export function ShareInvoiceDialog({
+  open,
+  onOpenChange,
+  invoice,
+  onShared,
+}: ShareInvoiceDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [expiresInDays, setExpiresInDays] = useState("30")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<number | null>(null)
+  const [error, setError] = useState("")
+
+  const fetchLinks = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/invoices/${invoice.id}/share-links`)
+      const result = await res.json()
+      if (result.success) {
+        setLinks(result.data)
+      } else {
+        setError(result.error || "Failed to load share links.")
+      }
+    } catch {
+      setError("Failed to load share links.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [invoice.id])
+
+  useEffect(() => {
+    if (open) fetchLinks()
+  }, [open, fetchLinks])
+
+  function shareUrl(link: ShareLink): string {
+    return `${window.location.origin}/i/${link.token}`
+  }
+
+  async function handleCreate() {
+    setIsCreating(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/invoices/${invoice.id}/share-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInDays: Number(expiresInDays) }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to create link.")
+        return
+      }
+      setLinks((prev) => [result.data, ...prev])
+      onShared()
+    } catch {
+      setError("Failed to create link. Please try again.")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  async function handleRevoke(link: ShareLink) {
+    setRevokingId(link.id)
+    setError("")
+    try {
+      const res = await fetch(`/api/invoices/${invoice.id}/share-links/${link.id}`, {
+        method: "DELETE",
+      })
+      const result = await res.json()
+      if (!result.success) {
+        setError(result.error || "Failed to revoke link.")
+        return
+      }
+      setLinks((prev) => prev.map((l) => (l.id === link.id ? result.data : l)))
+    } catch {
+      setError("Failed to revoke link. Please try again.")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  async function handleCopy(link: ShareLink) {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link))
+      toast.success("Link copied")
+    } catch {
+      setError("Could not copy to the clipboard.")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share Invoice Link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view and download {invoice.invoiceNumber} without
+            logging in. Revoke a link to turn it off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Expires after</span>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((opt) => (
+                <SelectItem key={opt.value} value={opt.value}>
+                  {opt.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Link2 className="mr-2 size-4" />
+            )}
+            Create Link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No links yet for this invoice.
+          </p>
+        ) : (
+          <div className="max-h-[50vh] space-y-2 overflow-auto">
+            {links.map((link) => {
+              const state = linkState(link)
+              const active = !link.revokedAt && new Date(link.expiresAt) >= new Date()
+              return (
+                <div key={link.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge className={state.className}>{state.label}</Badge>
+                      <span className="text-muted-foreground">
+                        Created {formatDateTime(link.createdAt)}
+                        {" · "}
+                        {link.revokedAt
+                          ? `revoked ${formatDateTime(link.revokedAt)}`
+                          : `expires ${formatDateTime(link.expiresAt)}`}
+                      </span>
+                    </div>
+                    {active && (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleCopy(link)}>
+                          <Copy className="mr-1 size-4" />
+                          Copy
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a
+                            href={whatsAppUrl(
+                              invoice.customerPhone,
+                              `Invoice ${invoice.invoiceNumber}: ${shareUrl(link)}`
+                            )}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <MessageCircle className="mr-1 size-4" />
+                            WhatsApp
+                          </a>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleRevoke(link)}
+                          disabled={revokingId === link.id}
+                        >
+                          {revokingId === link.id ? (
+                            <Loader2 className="mr-1 size-4 animate-spin" />
+                          ) : (
+                            <Ban className="mr-1 size-4" />
+                          )}
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {active && (
+                    <p className="mt-2 truncate font-mono text-xs text-muted-foreground">
+                      {shareUrl(link)}
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {link.firstViewedAt
+                      ? `First viewed ${formatDateTime(link.firstViewedAt)} · ${link.viewCount} view${link.viewCount === 1 ? "" : "s"}`
+                      : "Not opened yet"}
+                  </p>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Loader2 } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+type GroupBy = "month" | "quarter" | "year"
+
+interface TaxReportRow {
+  period: string
+  taxRate: string
+  taxPercent: number
+  invoiceCount: number
+  taxableSales: number
+  taxBilled: number
+  taxCollected: number
+}
+
+interface TaxReport {
+  groupBy: GroupBy
+  periods: TaxReportRow[]
+  totals: { taxableSales: number; taxBilled: number; taxCollected: number }
+}
+
+interface TaxReportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function startOfYear(): string {
+  return `${new Date().getFullYear()}-01-01`
+}
+
+export function TaxReportDialog({ open, onOpenChange }: TaxReportDialogProps) {
+  const [dateFrom, setDateFrom] = useState(startOfYear)
+  const [dateTo, setDateTo] = useState("")
+  const [groupBy, setGroupBy] = useState<GroupBy>("month")
+  const [report, setReport] = useState<TaxReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const params = new URLSearchParams({ groupBy })
+      if (dateFrom) params.set("dateFrom", dateFrom)
+      if (dateTo) params.set("dateTo", `${dateTo}T23:59:59`)
+
+      const res = await fetch(`/api/invoices/tax-report?${params}`)
+      const result = await res.json()
+      if (result.success) {
+        setReport(result.data)
+      } else {
+        setError(result.error || "Failed to load tax report.")
+      }
+    } catch {
+      setError("Failed to load tax report.")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [dateFrom, dateTo, groupBy])
+
+  useEffect(() => {
+    if (open) fetchReport()
+  }, [open, fetchReport])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Sales Tax Report</DialogTitle>
+          <DialogDescription>
+            Billed is by invoice issue date; collected is by payment date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <DatePicker
+              date={dateFrom ? new Date(dateFrom + "T00:00:00") : undefined}
+              onSelect={(d) => setDateFrom(d ? d.toISOString().split("T")[0] : "")}
+              placeholder="Any time"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <DatePicker
+              date={dateTo ? new Date(dateTo + "T00:00:00") : undefined}
+              onSelect={(d) => setDateTo(d ? d.toISOString().split("T")[0] : "")}
+              placeholder="Today"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-report-group">Group By</Label>
+            <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
+              <SelectTrigger id="tax-report-group" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="quarter">Quarter</SelectItem>
+                <SelectItem value="year">Year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report && report.periods.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No taxed invoices in this range.
+          </p>
+        ) : report ? (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead className="text-right">Invoices</TableHead>
+                  <TableHead className="text-right">Taxable Sales</TableHead>
+                  <TableHead className="text-right">Tax Billed</TableHead>
+                  <TableHead className="text-right">Tax Collected</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.periods.map((row) => (
+                  <TableRow key={`${row.period}-${row.taxRate}-${row.taxPercent}`}>
+                    <TableCell className="whitespace-nowrap">{row.period}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {row.taxRate} ({row.taxPercent}%)
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.invoiceCount}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatCurrency(row.taxableSales)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatCurrency(row.taxBilled)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatCurrency(row.taxCollected)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3} className="font-semibold">
+                    Total
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">
+                    {formatCurrency(report.totals.taxableSales)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">
+                    {formatCurrency(report.totals.taxBilled)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">
+                    {formatCurrency(report.totals.taxCollected)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -16,9 +16,10 @@ import {
   CommandInput,
   CommandItem,
   CommandList,
+  CommandSeparator,
 } from "@/components/ui/command"
 import { Button } from "@/components/ui/button"
-import { Loader2, Star, MapPin, Check } from "lucide-react"
+import { Loader2, Star, MapPin, Check, Building2, Users } from "lucide-react"
 import { cn } from "@/lib/utils"
 
 interface CustomerOption {
@@ -27,13 +28,19 @@ interface CustomerOption {
   phone: string
   address: string
   isVip: boolean
+  properties?: { id: number; label: string | null; address: string }[]
+}
+
+/** Identifies a stop: the customer's own address, or one of their properties. */
+export function routeStopKey(customerId: number, propertyId: number | null): string {
+  return propertyId === null ? `${customerId}` : `${customerId}:${propertyId}`
 }
 
 interface AddCustomerToRouteDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   routeId: number
-  existingCustomerIds: number[]
+  existingStopKeys: string[]
   onSuccess: () => void
 }
 
@@ -41,23 +48,30 @@ export function AddCustomerToRouteDialog({
   open,
   onOpenChange,
   routeId,
-  existingCustomerIds,
+  existingStopKeys,
   onSuccess,
 }: AddCustomerToRouteDialogProps) {
   const [customers, setCustomers] = useState<CustomerOption[]>([])
+  const [segments, setSegments] = useState<{ id: number; name: string }[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isAdding, setIsAdding] = useState(false)
-  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
   const [error, setError] = useState("")
 
   const fetchCustomers = useCallback(async () => {
     setIsLoading(true)
     try {
-      const res = await fetch("/api/customers")
-      const result = await res.json()
+      const [customersRes, segmentsRes] = await Promise.all([
+        fetch("/api/customers"),
+        fetch("/api/customers/segments"),
+      ])
+      const [result, segmentsResult] = await Promise.all([customersRes.json(), segmentsRes.json()])
       if (result.success) {
         setCustomers(result.data)
       }
+      if (segmentsResult.success) {
+        setSegments(segmentsResult.data)
+      }
     } catch {
       console.error("Failed to fetch customers")
     } finally {
@@ -68,47 +82,58 @@ export function AddCustomerToRouteDialog({
   useEffect(() => {
     if (open) {
       fetchCustomers()
-      setSelectedIds(new Set())
+      setSelectedKeys(new Set())
       setError("")
     }
   }, [open, fetchCustomers])
 
-  const availableCustomers = customers.filter(
-    (c) => !existingCustomerIds.includes(c.id)
+  // One option per customer address and per property not already on the route
+  const availableStops = customers.flatMap((customer) =>
+    [
+      { customer, property: null },
+      ...(customer.properties ?? []).map((property) => ({ customer, property })),
+    ]
+      .map((option) => ({
+        ...option,
+        key: routeStopKey(customer.id, option.property?.id ?? null),
+      }))
+      .filter((option) => !existingStopKeys.includes(option.key))
   )
 
-  function toggleCustomer(customerId: number) {
-    setSelectedIds((prev) => {
+  function toggleStop(key: string) {
+    setSelectedKeys((prev) => {
       const next = new Set(prev)
-      if (next.has(customerId)) {
-        next.delete(customerId)
+      if (next.has(key)) {
+        next.delete(key)
       } else {
-        next.add(customerId)
+        next.add(key)
       }
       return next
     })
   }
 
   async function handleAdd() {
-    if (selectedIds.size === 0) return
+    if (selectedKeys.size === 0) return
+
+    const stops = availableStops.filter((option) => selectedKeys.has(option.key))
 
     setIsAdding(true)
     setError("")
 
     try {
       const results = await Promise.all(
-        Array.from(selectedIds).map((customerId) =>
+        stops.map(({ customer, property }) =>
           fetch(`/api/routes/${routeId}/customers`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ customerId }),
+            body: JSON.stringify({ customerId: customer.id, propertyId: property?.id ?? null }),
           }).then((r) => r.json())
         )
       )
 
       const failed = results.filter((r) => !r.success)
       if (failed.length > 0) {
-        setError(`Failed to add ${failed.length} customer(s).`)
+        setError(`Failed to add ${failed.length} stop(s).`)
       } else {
         onSuccess()
         onOpenChange(false)
@@ -120,13 +145,41 @@ export function AddCustomerToRouteDialog({
     }
   }
 
+  // Adds every segment customer not yet on the route, at their own address
+  async function handleAddSegment(segment: { id: number; name: string }) {
+    setIsAdding(true)
+    setError("")
+
+    try {
+      const res = await fetch(`/api/routes/${routeId}/customers/segment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ segmentId: segment.id }),
+      })
+      const result = await res.json()
+
+      if (!result.success) {
+        setError(result.error || "Failed to add segment.")
+      } else if (result.data.added === 0) {
+        setError(`Everyone in "${segment.name}" is already on this route.`)
+      } else {
+        onSuccess()
+        onOpenChange(false)
+      }
+    } catch {
+      setError("Failed to add segment. Please try again.")
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="p-0 gap-0">
         <DialogHeader className="px-4 pt-4 pb-2">
           <DialogTitle>Add Customers to Route</DialogTitle>
           <DialogDescription>
-            Search and select customers to add to this route.
+            Search and select customers, or their properties, to add to this route.
           </DialogDescription>
         </DialogHeader>
         {error && (
@@ -144,14 +197,34 @@ export function AddCustomerToRouteDialog({
             ) : (
               <>
                 <CommandEmpty>No customers found.</CommandEmpty>
-                <CommandGroup>
-                  {availableCustomers.map((customer) => {
-                    const isSelected = selectedIds.has(customer.id)
+                {segments.length > 0 && (
+                  <>
+                    <CommandGroup heading="Segments">
+                      {segments.map((segment) => (
+                        <CommandItem
+                          key={`segment-${segment.id}`}
+                          value={`segment ${segment.name}`}
+                          onSelect={() => handleAddSegment(segment)}
+                          disabled={isAdding}
+                          className="flex items-center gap-3"
+                        >
+                          <Users className="size-4 shrink-0 text-muted-foreground" />
+                          <span className="flex-1 truncate">{segment.name}</span>
+                          <span className="text-xs text-muted-foreground">Add all</span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                    <CommandSeparator />
+                  </>
+                )}
+                <CommandGroup heading={segments.length > 0 ? "Customers" : undefined}>
+                  {availableStops.map(({ key, customer, property }) => {
+                    const isSelected = selectedKeys.has(key)
                     return (
                       <CommandItem
-                        key={customer.id}
-                        value={`${customer.name} ${customer.address} ${customer.phone}`}
-                        onSelect={() => toggleCustomer(customer.id)}
+                        key={key}
+                        value={`${key} ${customer.name} ${property?.label ?? ""} ${property?.address ?? customer.address} ${customer.phone}`}
+                        onSelect={() => toggleStop(key)}
                         className="flex items-center gap-3 py-3"
                       >
                         <div
@@ -170,10 +243,19 @@ export function AddCustomerToRouteDialog({
                             {customer.isVip && (
                               <Star className="size-3 fill-yellow-400 text-yellow-400" />
                             )}
+                            {property?.label && (
+                              <span className="truncate text-xs text-muted-foreground">
+                                {property.label}
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                            <MapPin className="size-3 shrink-0" />
-                            <span className="truncate">{customer.address}</span>
+                            {property ? (
+                              <Building2 className="size-3 shrink-0" />
+                            ) : (
+                              <MapPin className="size-3 shrink-0" />
+                            )}
+                            <span className="truncate">{property?.address ?? customer.address}</span>
                           </div>
                         </div>
                       </CommandItem>
@@ -194,10 +276,10 @@ export function AddCustomerToRouteDialog({
           </Button>
           <Button
             onClick={handleAdd}
-            disabled={selectedIds.size === 0 || isAdding}
+            disabled={selectedKeys.size === 0 || isAdding}
           >
             {isAdding && <Loader2 className="mr-2 size-4 animate-spin" />}
-            Add {selectedIds.size > 0 ? `(${selectedIds.size})` : ""}
+            Add {selectedKeys.size > 0 ? `(${selectedKeys.size})` : ""}
           </Button>
         </DialogFooter>
       </DialogContent>
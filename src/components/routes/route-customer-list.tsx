@@ -20,7 +20,7 @@ import {
   useSortable,
 } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
-import { GripVertical, X, Star, MapPin, Phone } from "lucide-react"
+import { GripVertical, X, Star, MapPin, Phone, Building2, KeyRound } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 
@@ -35,13 +35,19 @@ interface RouteCustomerData {
     email: string | null
     isVip: boolean
   }
+  property: {
+    id: number
+    label: string | null
+    address: string
+    accessNotes: string | null
+  } | null
 }
 
 interface RouteCustomerListProps {
   routeId: number
   customers: RouteCustomerData[]
   onReorder: (customers: RouteCustomerData[]) => void
-  onRemove: (routeCustomerId: number, customerId: number) => void
+  onRemove: (item: RouteCustomerData) => void
 }
 
 function SortableCustomerItem({
@@ -51,7 +57,7 @@ function SortableCustomerItem({
 }: {
   item: RouteCustomerData
   index: number
-  onRemove: (routeCustomerId: number, customerId: number) => void
+  onRemove: (item: RouteCustomerData) => void
 }) {
   const {
     attributes,
@@ -92,23 +98,36 @@ function SortableCustomerItem({
           {item.customer.isVip && (
             <Star className="size-3.5 fill-yellow-400 text-yellow-400" />
           )}
+          {item.property?.label && (
+            <span className="truncate text-sm text-muted-foreground">{item.property.label}</span>
+          )}
         </div>
         <div className="flex items-center gap-3 text-sm text-muted-foreground">
           <span className="flex items-center gap-1 truncate">
-            <MapPin className="size-3 shrink-0" />
-            {item.customer.address}
+            {item.property ? (
+              <Building2 className="size-3 shrink-0" />
+            ) : (
+              <MapPin className="size-3 shrink-0" />
+            )}
+            {item.property?.address ?? item.customer.address}
           </span>
           <span className="flex items-center gap-1 shrink-0">
             <Phone className="size-3" />
             {item.customer.phone}
           </span>
         </div>
+        {item.property?.accessNotes && (
+          <div className="flex items-start gap-1 text-xs text-muted-foreground">
+            <KeyRound className="mt-0.5 size-3 shrink-0" />
+            <span className="whitespace-pre-line">{item.property.accessNotes}</span>
+          </div>
+        )}
       </div>
       <Button
         variant="ghost"
         size="icon"
         className="size-7 shrink-0 text-muted-foreground hover:text-destructive"
-        onClick={() => onRemove(item.id, item.customer.id)}
+        onClick={() => onRemove(item)}
       >
         <X className="size-4" />
         <span className="sr-only">Remove</span>
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState } from "react"
 import {
+  AlertTriangle,
   Loader2,
   Minus,
   Plus,
@@ -39,14 +40,21 @@ import {
 import { LucideIcon } from "@/components/ui/lucide-icon"
 import { cn } from "@/lib/utils"
 
+interface PropertyOption {
+  id: number
+  label: string | null
+  address: string
+  serviceInterval: number | null
+}
+
 interface CustomerOption {
   id: number
   name: string
   serviceInterval: number | null
   lastService: {
-    priceCharged: number
     serviceTypeId: number | null
   } | null
+  properties: PropertyOption[]
 }
 
 interface ServiceTypeOption {
@@ -55,6 +63,22 @@ interface ServiceTypeOption {
   icon: string | null
 }
 
+// What GET /api/customers/[id]/price-book/resolve suggests
+interface SuggestedPrice {
+  price: number
+  source: "PROPERTY" | "PROPERTY_DEFAULT" | "CUSTOMER" | "LAST_CHARGED"
+}
+
+const SUGGESTION_LABELS: Record<SuggestedPrice["source"], string> = {
+  PROPERTY: "Price book",
+  PROPERTY_DEFAULT: "Property",
+  CUSTOMER: "Price book",
+  LAST_CHARGED: "Last",
+}
+
+// Warn when the entered price is this far off the suggested one
+const PRICE_DEVIATION_WARNING = 0.15
+
 interface TimeEntryData {
   id?: number
   date: string
@@ -65,6 +89,7 @@ interface TimeEntryData {
 export interface ServiceData {
   id?: number
   customerId: number
+  propertyId?: number | null
   serviceTypeId: number | null
   serviceDate: string
   priceCharged: number | string
@@ -158,6 +183,8 @@ export function ServiceForm({
   const [datePopoverOpen, setDatePopoverOpen] = useState(false)
   const [moreOpen, setMoreOpen] = useState(isEditing)
   const [customerId, setCustomerId] = useState<string>("")
+  // "" is the customer's own address
+  const [propertyId, setPropertyId] = useState<string>("")
   const [serviceTypeId, setServiceTypeId] = useState<string>("")
   const [serviceDate, setServiceDate] = useState<string>(todayIso())
   const [priceCharged, setPriceCharged] = useState("")
@@ -167,11 +194,16 @@ export function ServiceForm({
   const [paymentMethod, setPaymentMethod] = useState<string>("")
   const [paymentDate, setPaymentDate] = useState("")
   const [timeMinutes, setTimeMinutes] = useState(0)
+  const [suggestion, setSuggestion] = useState<SuggestedPrice | null>(null)
+  // Set once the price is typed or picked, so a later suggestion doesn't overwrite it
+  const priceTouched = useRef(false)
 
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const selectedCustomer =
     customers.find((c) => String(c.id) === customerId) ?? null
+  const selectedProperty =
+    selectedCustomer?.properties.find((p) => String(p.id) === propertyId) ?? null
 
   // Fetch customers + service types once on mount
   useEffect(() => {
@@ -189,11 +221,13 @@ export function ServiceForm({
                 name: string
                 serviceInterval: number | null
                 lastService: CustomerOption["lastService"]
+                properties?: PropertyOption[]
               }) => ({
                 id: c.id,
                 name: c.name,
                 serviceInterval: c.serviceInterval ?? null,
                 lastService: c.lastService ?? null,
+                properties: c.properties ?? [],
               })
             )
           )
@@ -212,6 +246,7 @@ export function ServiceForm({
   useEffect(() => {
     if (service) {
       setCustomerId(String(service.customerId))
+      setPropertyId(service.propertyId ? String(service.propertyId) : "")
       setServiceTypeId(
         service.serviceTypeId ? String(service.serviceTypeId) : ""
       )
@@ -236,6 +271,7 @@ export function ServiceForm({
       )
     } else {
       setCustomerId("")
+      setPropertyId("")
       setServiceTypeId("")
       setServiceDate(todayIso())
       setPriceCharged("")
@@ -247,24 +283,60 @@ export function ServiceForm({
       setTimeMinutes(0)
       setMoreOpen(false)
     }
+    priceTouched.current = !!service
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [service, resetKey])
 
+  // Look the price up whenever the customer, location, service or date changes
+  useEffect(() => {
+    if (!customerId || !serviceDate) {
+      setSuggestion(null)
+      return
+    }
+    let cancelled = false
+    const params = new URLSearchParams({
+      date: new Date(serviceDate + "T00:00:00").toISOString(),
+    })
+    if (propertyId) params.set("propertyId", propertyId)
+    if (serviceTypeId) params.set("serviceTypeId", serviceTypeId)
+
+    fetch(`/api/customers/${customerId}/price-book/resolve?${params}`)
+      .then((r) => r.json())
+      .then((result) => {
+        if (cancelled || !result.success) return
+        setSuggestion(result.data)
+        if (result.data && !priceTouched.current) {
+          setPriceCharged(String(result.data.price))
+        }
+      })
+      .catch(() => {
+        /* non-critical */
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [customerId, propertyId, serviceTypeId, serviceDate])
+
+  function handlePriceChange(value: string) {
+    priceTouched.current = true
+    setPriceCharged(value)
+  }
+
   function handlePickCustomer(c: CustomerOption) {
+    if (String(c.id) !== customerId) setPropertyId("")
     setCustomerId(String(c.id))
     setCustomerComboOpen(false)
     setCustomerSearch("")
     customerInputRef.current?.blur()
-    if (c.lastService) {
-      if (!priceCharged && c.lastService.priceCharged != null) {
-        setPriceCharged(String(c.lastService.priceCharged))
-      }
-      if (!serviceTypeId && c.lastService.serviceTypeId != null) {
-        setServiceTypeId(String(c.lastService.serviceTypeId))
-      }
+    if (!serviceTypeId && c.lastService?.serviceTypeId != null) {
+      setServiceTypeId(String(c.lastService.serviceTypeId))
     }
   }
 
+  function handlePickProperty(value: string) {
+    setPropertyId(value === "__customer__" ? "" : value)
+  }
+
   const filteredCustomers =
     customerSearch.trim() === ""
       ? customers
@@ -308,6 +380,7 @@ export function ServiceForm({
       const isoServiceDate = new Date(serviceDate + "T00:00:00").toISOString()
       const payload = {
         customerId: parseInt(customerId, 10),
+        propertyId: propertyId ? parseInt(propertyId, 10) : null,
         serviceTypeId: serviceTypeId ? parseInt(serviceTypeId, 10) : null,
         serviceDate: isoServiceDate,
         priceCharged: price,
@@ -358,7 +431,8 @@ export function ServiceForm({
       } else {
         const priceLabel = `$${price.toFixed(2).replace(/\.00$/, "")}`
         const head = `Logged ${priceLabel} ${label}${customerName ? ` · ${customerName}` : ""}`
-        const interval = selectedCustomer?.serviceInterval ?? null
+        const interval =
+          selectedProperty?.serviceInterval ?? selectedCustomer?.serviceInterval ?? null
         const nextDue =
           interval && status === "COMPLETE"
             ? shortDateLabel(addDaysIso(serviceDate, interval))
@@ -384,14 +458,18 @@ export function ServiceForm({
     )
   }
 
-  const lastPrice = selectedCustomer?.lastService?.priceCharged ?? null
-  const showLastPriceChip =
-    !isEditing && lastPrice != null && String(lastPrice) !== priceCharged
+  const showSuggestionChip =
+    suggestion != null && String(suggestion.price) !== priceCharged
+  const enteredPrice = parseFloat(priceCharged)
+  const deviation =
+    suggestion && suggestion.price > 0 && !Number.isNaN(enteredPrice)
+      ? (enteredPrice - suggestion.price) / suggestion.price
+      : 0
 
   function bumpPrice(amount: number) {
     const current = parseFloat(priceCharged) || 0
     const next = Math.max(0, current + amount)
-    setPriceCharged(String(Number.isInteger(next) ? next : next.toFixed(2)))
+    handlePriceChange(String(Number.isInteger(next) ? next : next.toFixed(2)))
   }
 
   return (
@@ -511,6 +589,33 @@ export function ServiceForm({
         </div>
       </div>
 
+      {/* Property, only for customers with more than one location */}
+      {selectedCustomer && selectedCustomer.properties.length > 0 && (
+        <div className="space-y-1.5 min-w-0">
+          <Label htmlFor="sf-property" className="text-xs">
+            Location
+          </Label>
+          <Select
+            value={propertyId || "__customer__"}
+            onValueChange={handlePickProperty}
+          >
+            <SelectTrigger id="sf-property" className="h-11 w-full sm:h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__customer__">
+                Customer address
+              </SelectItem>
+              {selectedCustomer.properties.map((p) => (
+                <SelectItem key={p.id} value={String(p.id)}>
+                  {p.label ? `${p.label} — ${p.address}` : p.address}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Inline Service Date pill */}
       <div className="flex items-center gap-2">
         <span className="text-xs text-muted-foreground shrink-0">
@@ -559,22 +664,22 @@ export function ServiceForm({
             step="0.01"
             min="0"
             value={priceCharged}
-            onChange={(e) => setPriceCharged(e.target.value)}
+            onChange={(e) => handlePriceChange(e.target.value)}
             placeholder="0.00"
             className="h-11 pl-7 text-base [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none sm:h-10 sm:text-sm"
             required
           />
         </div>
         <div className="flex flex-wrap gap-1.5 pt-0.5">
-          {showLastPriceChip && (
+          {showSuggestionChip && (
             <Button
               type="button"
               variant="outline"
               size="sm"
               className="h-7 px-2 text-xs"
-              onClick={() => setPriceCharged(String(lastPrice))}
+              onClick={() => handlePriceChange(String(suggestion.price))}
             >
-              Last ${lastPrice}
+              {SUGGESTION_LABELS[suggestion.source]} ${suggestion.price}
             </Button>
           )}
           <Button
@@ -601,12 +706,22 @@ export function ServiceForm({
               variant="ghost"
               size="sm"
               className="h-7 px-2 text-xs text-muted-foreground"
-              onClick={() => setPriceCharged("")}
+              onClick={() => handlePriceChange("")}
             >
               Clear
             </Button>
           )}
         </div>
+        {suggestion && Math.abs(deviation) >= PRICE_DEVIATION_WARNING && (
+          <p className="flex items-center gap-1.5 text-xs text-amber-600">
+            <AlertTriangle className="size-3.5 shrink-0" />
+            {Math.round(Math.abs(deviation) * 100)}% {deviation > 0 ? "above" : "below"}{" "}
+            {suggestion.source === "LAST_CHARGED"
+              ? "the last price charged"
+              : "this customer's price"}{" "}
+            (${suggestion.price})
+          </p>
+        )}
       </div>
 
       {/* Paid + Payment Date */}
@@ -35,6 +35,7 @@ import type { DueStatus } from "@/lib/due-date"
 interface ServiceLog {
   id: number
   customerId: number
+  propertyId: number | null
   serviceName: string
   serviceDate: string
   priceCharged: number | string
@@ -51,6 +52,7 @@ interface ServiceLog {
     daysUntilDue: number | null
     dueStatus: DueStatus
   }
+  property: { id: number; label: string | null; address: string } | null
   serviceType: { id: number; name: string; icon: string | null } | null
   timeEntries: Array<{
     id: number
@@ -201,10 +203,17 @@ export function ServiceLogTable() {
       sortValue: (row) => row.customer.name,
       filterValue: (row) => row.customer.name,
       render: (_, row) => (
-        <span className="flex items-center gap-2">
-          <span className="font-medium">{row.customer.name}</span>
-          <DueStatusBadge daysUntilDue={row.customer.daysUntilDue} dueStatus={row.customer.dueStatus} />
-        </span>
+        <div>
+          <span className="flex items-center gap-2">
+            <span className="font-medium">{row.customer.name}</span>
+            <DueStatusBadge daysUntilDue={row.customer.daysUntilDue} dueStatus={row.customer.dueStatus} />
+          </span>
+          {row.property && (
+            <span className="text-xs text-muted-foreground">
+              {row.property.label ?? row.property.address}
+            </span>
+          )}
+        </div>
       ),
     },
     {
@@ -0,0 +1,186 @@
+// ---------------------------------------------------------------------------
+// Accounts-receivable aging.
+// Open balances come from two places: sent / partially-paid invoices, and
+// completed service logs still marked UNPAID that are not on a sent invoice
+// (those are already counted through the invoice). Each is aged by days past
+// its due date — the invoice due date (or issue date when none is set) and
+// the service date for logs.
+// ---------------------------------------------------------------------------
+import { prisma } from "@/lib/prisma"
+import { csvCell } from "@/lib/text"
+
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1–30" },
+  { key: "days31to60", label: "31–60" },
+  { key: "days61to90", label: "61–90" },
+  { key: "days90plus", label: "90+" },
+] as const
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"]
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number }
+
+export interface AgingDocument {
+  type: "invoice" | "service"
+  id: number
+  /** Invoice number, or the service type name for unbilled services */
+  reference: string
+  date: string
+  dueDate: string
+  daysPastDue: number
+  bucket: AgingBucket
+  balance: number
+}
+
+export interface AgingCustomer {
+  customerId: number
+  customerName: string
+  totals: AgingTotals
+  documents: AgingDocument[]
+}
+
+export interface ArAgingReport {
+  asOf: string
+  customers: AgingCustomer[]
+  totals: AgingTotals
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function emptyTotals(): AgingTotals {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0, total: 0 }
+}
+
+function bucketFor(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return "current"
+  if (daysPastDue <= 30) return "days1to30"
+  if (daysPastDue <= 60) return "days31to60"
+  if (daysPastDue <= 90) return "days61to90"
+  return "days90plus"
+}
+
+/** Whole days between two dates, ignoring the time of day. */
+function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate())
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate())
+  return Math.round((end - start) / DAY_MS)
+}
+
+export async function buildArAgingReport(
+  userId: string,
+  asOf: Date = new Date()
+): Promise<ArAgingReport> {
+  const [invoices, logs] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { userId, status: { in: ["SENT", "PARTIALLY_PAID"] } },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        issueDate: true,
+        dueDate: true,
+        total: true,
+        amountPaid: true,
+        amountCredited: true,
+        customer: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.serviceLog.findMany({
+      where: {
+        userId,
+        status: "COMPLETE",
+        paymentStatus: "UNPAID",
+        invoiceItems: {
+          none: { invoice: { status: { notIn: ["DRAFT", "CANCELLED"] } } },
+        },
+      },
+      select: {
+        id: true,
+        serviceDate: true,
+        priceCharged: true,
+        serviceType: { select: { name: true } },
+        customer: { select: { id: true, name: true } },
+      },
+    }),
+  ])
+
+  const byCustomer = new Map<number, AgingCustomer>()
+  const totals = emptyTotals()
+
+  function add(customer: { id: number; name: string }, doc: Omit<AgingDocument, "bucket" | "daysPastDue">) {
+    if (doc.balance <= 0) return
+
+    let row = byCustomer.get(customer.id)
+    if (!row) {
+      row = { customerId: customer.id, customerName: customer.name, totals: emptyTotals(), documents: [] }
+      byCustomer.set(customer.id, row)
+    }
+
+    const daysPastDue = Math.max(daysBetween(new Date(doc.dueDate), asOf), 0)
+    const bucket = bucketFor(daysPastDue)
+    row.documents.push({ ...doc, daysPastDue, bucket })
+    row.totals[bucket] = round2(row.totals[bucket] + doc.balance)
+    row.totals.total = round2(row.totals.total + doc.balance)
+    totals[bucket] = round2(totals[bucket] + doc.balance)
+    totals.total = round2(totals.total + doc.balance)
+  }
+
+  for (const inv of invoices) {
+    add(inv.customer, {
+      type: "invoice",
+      id: inv.id,
+      reference: inv.invoiceNumber,
+      date: inv.issueDate.toISOString(),
+      dueDate: (inv.dueDate ?? inv.issueDate).toISOString(),
+      balance: round2(Number(inv.total) - Number(inv.amountCredited) - Number(inv.amountPaid)),
+    })
+  }
+
+  for (const log of logs) {
+    add(log.customer, {
+      type: "service",
+      id: log.id,
+      reference: log.serviceType?.name ?? "Service",
+      date: log.serviceDate.toISOString(),
+      dueDate: log.serviceDate.toISOString(),
+      balance: round2(Number(log.priceCharged)),
+    })
+  }
+
+  const customers = Array.from(byCustomer.values())
+    .map((row) => ({
+      ...row,
+      documents: row.documents.sort((a, b) => b.daysPastDue - a.daysPastDue),
+    }))
+    .sort((a, b) => b.totals.total - a.totals.total)
+
+  return { asOf: asOf.toISOString(), customers, totals }
+}
+
+/** One row per open document, for spreadsheets and the accountant. */
+export function arAgingToCsv(report: ArAgingReport): string {
+  const labels = Object.fromEntries(AGING_BUCKETS.map((b) => [b.key, b.label]))
+  const header = "Customer,Type,Reference,Date,Due Date,Days Past Due,Bucket,Balance\n"
+  const rows = report.customers
+    .flatMap((customer) =>
+      customer.documents.map((doc) =>
+        [
+          csvCell(customer.customerName),
+          doc.type === "invoice" ? "Invoice" : "Unbilled Service",
+          csvCell(doc.reference),
+          doc.date.split("T")[0],
+          doc.dueDate.split("T")[0],
+          doc.daysPastDue,
+          csvCell(labels[doc.bucket]),
+          doc.balance.toFixed(2),
+        ].join(",")
+      )
+    )
+    .join("\n")
+
+  return header + rows
+}
@@ -0,0 +1,42 @@
+// ---------------------------------------------------------------------------
+// Scheduled jobs.
+// The /api/cron/* routes have no session: a scheduler (Vercel Cron, or a
+// crontab entry running curl) calls them with
+// `Authorization: Bearer $CRON_SECRET`, and each runs its job for every
+// user. With CRON_SECRET unset they refuse every call.
+// ---------------------------------------------------------------------------
+import { timingSafeEqual } from "crypto"
+import type { NextRequest } from "next/server"
+import { prisma } from "@/lib/prisma"
+
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const given = Buffer.from(request.headers.get("authorization") ?? "")
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/**
+ * Run a job for each user in turn. One user's failure is logged and the
+ * rest still run; returns the results by user id.
+ */
+export async function forEachUser<T>(
+  job: (userId: string) => Promise<T>
+): Promise<{ results: Record<string, T>; failedUsers: string[] }> {
+  const users = await prisma.user.findMany({ select: { id: true }, orderBy: { id: "asc" } })
+  const results: Record<string, T> = {}
+  const failedUsers: string[] = []
+
+  for (const { id } of users) {
+    try {
+      results[id] = await job(id)
+    } catch (error) {
+      console.error(`Scheduled job failed for user ${id}:`, error)
+      failedUsers.push(id)
+    }
+  }
+
+  return { results, failedUsers }
+}
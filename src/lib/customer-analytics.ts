@@ -0,0 +1,264 @@
+// ---------------------------------------------------------------------------
+// Customer lifetime value and churn.
+// Per customer: revenue from service logs, average ticket, how often they're
+// actually serviced compared with their serviceInterval, tenure, and whether
+// they look at risk of leaving. Also month-by-month retention for each signup
+// cohort. Service dates are calendar days stored at midnight UTC, so all
+// month and day arithmetic here is in UTC.
+// ---------------------------------------------------------------------------
+import { prisma } from "@/lib/prisma"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation } from "@/lib/properties"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Late by at least this share of the interval (and a week) counts as well past due
+const PAST_DUE_SHARE = 0.5
+const PAST_DUE_MIN_DAYS = 7
+// Recent gaps this much longer than the customer's usual gap count as slowing down
+const SLOWING_RATIO = 1.5
+// Gaps averaged for "recent"; needs at least this many + 1 earlier gap
+const RECENT_GAPS = 2
+// Without a service for this many expected gaps (and at least LAPSED_MIN_DAYS)
+// the customer is treated as lost rather than at risk
+const LAPSED_GAPS = 3
+const LAPSED_MIN_DAYS = 60
+// Gap assumed for customers with no interval and a single visit
+const DEFAULT_GAP_DAYS = 30
+const COHORT_MONTHS = 12
+
+export type CustomerHealth = "active" | "at-risk" | "lapsed" | "no-service"
+
+export interface CustomerAnalyticsRow {
+  id: number
+  name: string
+  isVip: boolean
+  createdAt: string
+  serviceInterval: number | null
+  visitCount: number
+  totalRevenue: number
+  averageTicket: number | null
+  firstServiceDate: string | null
+  lastServiceDate: string | null
+  daysSinceLastService: number | null
+  tenureDays: number
+  // Mean days between visits over the whole history, and over the latest few
+  averageGapDays: number | null
+  recentGapDays: number | null
+  // averageGapDays / serviceInterval; above 1 means visits are less often than planned
+  frequencyRatio: number | null
+  daysUntilDue: number | null
+  health: CustomerHealth
+  riskReasons: string[]
+}
+
+export interface RetentionCohort {
+  // Signup month, YYYY-MM
+  month: string
+  customers: number
+  // Share of the cohort serviced in each month since signup (index 0 = signup month)
+  activeByMonth: number[]
+  // Customers not lapsed today, as a share of the cohort
+  retainedRate: number
+}
+
+export interface CustomerAnalytics {
+  summary: {
+    customers: number
+    totalRevenue: number
+    averageLifetimeValue: number
+    averageTicket: number | null
+    active: number
+    atRisk: number
+    lapsed: number
+  }
+  customers: CustomerAnalyticsRow[]
+  cohorts: RetentionCohort[]
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth()
+}
+
+/** LTV, visit frequency and churn risk for all of a user's customers. */
+export async function getCustomerAnalytics(
+  userId: string,
+  today = new Date()
+): Promise<CustomerAnalytics> {
+  const customers = await prisma.customer.findMany({
+    where: { userId },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      isVip: true,
+      createdAt: true,
+      serviceInterval: true,
+      properties: { select: { id: true, serviceInterval: true } },
+    },
+  })
+  const customerIds = customers.map((c) => c.id)
+
+  const [logs, lastServiceDates] = await Promise.all([
+    prisma.serviceLog.findMany({
+      where: { customerId: { in: customerIds } },
+      orderBy: { serviceDate: "asc" },
+      select: { customerId: true, serviceDate: true, priceCharged: true },
+    }),
+    lastServiceDatesByLocation(customerIds),
+  ])
+
+  const logsByCustomer = new Map<number, { date: Date; price: number }[]>()
+  for (const log of logs) {
+    const list = logsByCustomer.get(log.customerId) ?? []
+    list.push({ date: log.serviceDate, price: Number(log.priceCharged) })
+    logsByCustomer.set(log.customerId, list)
+  }
+
+  const rows: CustomerAnalyticsRow[] = customers.map((customer) => {
+    const visits = logsByCustomer.get(customer.id) ?? []
+    const totalRevenue = visits.reduce((sum, v) => sum + v.price, 0)
+    const first = visits[0]?.date ?? null
+    const last = visits.at(-1)?.date ?? null
+
+    // Several logs on one day (e.g. two properties) are one visit for frequency
+    const days = [...new Set(visits.map((v) => Math.floor(v.date.getTime() / DAY_MS)))]
+    const gaps = days.slice(1).map((day, i) => day - days[i])
+    const averageGap = mean(gaps)
+    const recentGap = gaps.length > RECENT_GAPS ? mean(gaps.slice(-RECENT_GAPS)) : null
+    const earlierGap = gaps.length > RECENT_GAPS ? mean(gaps.slice(0, -RECENT_GAPS)) : null
+
+    // Imported customers can have history from before their row was created
+    const since = first && first < customer.createdAt ? first : customer.createdAt
+    const tenureDays = Math.max(0, Math.floor((today.getTime() - since.getTime()) / DAY_MS))
+    const daysSinceLast = last ? Math.floor((today.getTime() - last.getTime()) / DAY_MS) : null
+
+    const due = computeCustomerDueDateInfo(customer, lastServiceDates.get(customer.id) ?? new Map())
+    const expectedGap = customer.serviceInterval ?? averageGap ?? DEFAULT_GAP_DAYS
+
+    const riskReasons: string[] = []
+    let health: CustomerHealth
+    if (daysSinceLast === null) {
+      health = "no-service"
+    } else if (daysSinceLast >= Math.max(LAPSED_MIN_DAYS, expectedGap * LAPSED_GAPS)) {
+      health = "lapsed"
+      riskReasons.push(`No service in ${daysSinceLast} days`)
+    } else {
+      const lateBy =
+        due.daysUntilDue !== null ? -due.daysUntilDue : daysSinceLast - Math.round(expectedGap)
+      if (lateBy >= Math.max(PAST_DUE_MIN_DAYS, expectedGap * PAST_DUE_SHARE)) {
+        riskReasons.push(`${lateBy} days past due`)
+      }
+      if (recentGap !== null && earlierGap !== null && recentGap >= earlierGap * SLOWING_RATIO) {
+        riskReasons.push(
+          `Visits slowing: every ${Math.round(recentGap)} days, was ${Math.round(earlierGap)}`
+        )
+      } else if (
+        recentGap !== null &&
+        customer.serviceInterval &&
+        recentGap >= customer.serviceInterval * SLOWING_RATIO
+      ) {
+        riskReasons.push(
+          `Visits every ${Math.round(recentGap)} days vs. ${customer.serviceInterval}-day interval`
+        )
+      }
+      health = riskReasons.length > 0 ? "at-risk" : "active"
+    }
+
+    return {
+      id: customer.id,
+      name: customer.name,
+      isVip: customer.isVip,
+      createdAt: customer.createdAt.toISOString(),
+      serviceInterval: customer.serviceInterval,
+      visitCount: visits.length,
+      totalRevenue: round(totalRevenue),
+      averageTicket: visits.length > 0 ? round(totalRevenue / visits.length) : null,
+      firstServiceDate: first?.toISOString() ?? null,
+      lastServiceDate: last?.toISOString() ?? null,
+      daysSinceLastService: daysSinceLast,
+      tenureDays,
+      averageGapDays: averageGap !== null ? round(averageGap, 1) : null,
+      recentGapDays: recentGap !== null ? round(recentGap, 1) : null,
+      frequencyRatio:
+        averageGap !== null && customer.serviceInterval
+          ? round(averageGap / customer.serviceInterval)
+          : null,
+      daysUntilDue: due.daysUntilDue,
+      health,
+      riskReasons,
+    }
+  })
+
+  const totalRevenue = rows.reduce((sum, r) => sum + r.totalRevenue, 0)
+  const count = (health: CustomerHealth) => rows.filter((r) => r.health === health).length
+
+  return {
+    summary: {
+      customers: rows.length,
+      totalRevenue: round(totalRevenue),
+      averageLifetimeValue: rows.length > 0 ? round(totalRevenue / rows.length) : 0,
+      averageTicket: logs.length > 0 ? round(totalRevenue / logs.length) : null,
+      active: count("active"),
+      atRisk: count("at-risk"),
+      lapsed: count("lapsed"),
+    },
+    customers: rows,
+    cohorts: buildCohorts(rows, logsByCustomer, today),
+  }
+}
+
+/**
+ * Retention triangle for the last COHORT_MONTHS signup months. A customer
+ * counts as active in a month when they had at least one service in it.
+ */
+function buildCohorts(
+  rows: CustomerAnalyticsRow[],
+  logsByCustomer: Map<number, { date: Date }[]>,
+  today: Date
+): RetentionCohort[] {
+  const byMonth = new Map<string, CustomerAnalyticsRow[]>()
+  for (const row of rows) {
+    const key = monthKey(new Date(row.createdAt))
+    byMonth.set(key, [...(byMonth.get(key) ?? []), row])
+  }
+
+  return [...byMonth.keys()]
+    .sort()
+    .slice(-COHORT_MONTHS)
+    .map((month) => {
+      const members = byMonth.get(month)!
+      const start = new Date(`${month}-01T00:00:00Z`)
+      const activeCounts = new Array<number>(monthsBetween(start, today) + 1).fill(0)
+
+      for (const member of members) {
+        const offsets = new Set(
+          (logsByCustomer.get(member.id) ?? [])
+            .map((log) => monthsBetween(start, log.date))
+            .filter((offset) => offset >= 0 && offset < activeCounts.length)
+        )
+        for (const offset of offsets) activeCounts[offset]++
+      }
+
+      const retained = members.filter((m) => m.health === "active" || m.health === "at-risk")
+      return {
+        month,
+        customers: members.length,
+        activeByMonth: activeCounts.map((n) => round(n / members.length, 3)),
+        retainedRate: round(retained.length / members.length, 3),
+      }
+    })
+}
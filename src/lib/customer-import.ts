@@ -0,0 +1,239 @@
+// ---------------------------------------------------------------------------
+// Customer CSV import and export.
+// Imported rows are matched to existing customers by normalized phone
+// (digits only, without the +1 country code) or lowercased email; a match
+// is either updated from the row or skipped. Rows repeating a phone/email
+// seen earlier in the same file are skipped so one file can't create
+// duplicates of itself.
+// ---------------------------------------------------------------------------
+import { prisma } from "@/lib/prisma"
+import { computeCustomerDueDateInfo, getDueStatusLabel } from "@/lib/due-date"
+import { lastServiceDatesByLocation } from "@/lib/properties"
+import { geocodeCustomers } from "@/lib/geocoding"
+import { csvCell } from "@/lib/text"
+
+// Shorter numbers are too ambiguous to match on
+const MIN_PHONE_DIGITS = 7
+
+// Rows written per transaction. Updates go one query at a time, so a whole
+// 5000-row file in one transaction would outlast its timeout.
+const IMPORT_BATCH_SIZE = 250
+
+export interface ImportCustomerInput {
+  name: string
+  phone: string
+  email?: string | null
+  address: string
+  serviceInterval?: number | null
+  isVip?: boolean
+  duplicateAction?: "update" | "skip"
+}
+
+export type ImportRowAction = "create" | "update" | "skip"
+
+export interface ImportRowResult {
+  row: number
+  name: string
+  action: ImportRowAction
+  match: { customerId: number; name: string; by: "phone" | "email" } | null
+  // Set when the row repeats an earlier row of the same file
+  duplicateOfRow: number | null
+}
+
+export interface CustomerImportResult {
+  dryRun: boolean
+  created: number
+  updated: number
+  skipped: number
+  rows: ImportRowResult[]
+}
+
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "")
+  const local = digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits
+  return local.length >= MIN_PHONE_DIGITS ? local : ""
+}
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return email?.trim().toLowerCase() ?? ""
+}
+
+/**
+ * Work out what each row does, then (unless `dryRun`) create and update the
+ * customers, IMPORT_BATCH_SIZE rows per transaction. If a batch fails the
+ * earlier ones stay written; importing the same file again matches those
+ * rows to the customers they created. Only fields present in the row
+ * overwrite an existing customer; one whose address changes loses its pin
+ * and is geocoded again.
+ */
+export async function importCustomers(
+  userId: string,
+  rows: ImportCustomerInput[],
+  options: { duplicateAction: "update" | "skip"; dryRun: boolean }
+): Promise<CustomerImportResult> {
+  const existing = await prisma.customer.findMany({
+    where: { userId },
+    select: { id: true, name: true, phone: true, email: true, address: true },
+  })
+  const addressById = new Map(existing.map((c) => [c.id, c.address]))
+
+  const byPhone = new Map<string, { id: number; name: string }>()
+  const byEmail = new Map<string, { id: number; name: string }>()
+  for (const customer of existing) {
+    const phone = normalizePhone(customer.phone)
+    const email = normalizeEmail(customer.email)
+    if (phone && !byPhone.has(phone)) byPhone.set(phone, customer)
+    if (email && !byEmail.has(email)) byEmail.set(email, customer)
+  }
+
+  // Phone/email → first row of the file that used it
+  const seenPhones = new Map<string, number>()
+  const seenEmails = new Map<string, number>()
+
+  const results: ImportRowResult[] = rows.map((input, index) => {
+    const row = index + 1
+    const phone = normalizePhone(input.phone)
+    const email = normalizeEmail(input.email)
+
+    const duplicateOfRow =
+      (phone && seenPhones.get(phone)) || (email && seenEmails.get(email)) || null
+    if (phone && !seenPhones.has(phone)) seenPhones.set(phone, row)
+    if (email && !seenEmails.has(email)) seenEmails.set(email, row)
+
+    const phoneMatch = phone ? byPhone.get(phone) : undefined
+    const emailMatch = email ? byEmail.get(email) : undefined
+    const matched = phoneMatch ?? emailMatch
+    const match = matched
+      ? { customerId: matched.id, name: matched.name, by: phoneMatch ? "phone" as const : "email" as const }
+      : null
+
+    let action: ImportRowAction
+    if (duplicateOfRow) action = "skip"
+    else if (match) action = (input.duplicateAction ?? options.duplicateAction) === "update" ? "update" : "skip"
+    else action = "create"
+
+    return { row, name: input.name, action, match, duplicateOfRow }
+  })
+
+  const summary = {
+    created: results.filter((r) => r.action === "create").length,
+    updated: results.filter((r) => r.action === "update").length,
+    skipped: results.filter((r) => r.action === "skip").length,
+  }
+
+  if (!options.dryRun) {
+    const relocatedIds: number[] = []
+    const writes = results.filter((r) => r.action !== "skip")
+    for (let start = 0; start < writes.length; start += IMPORT_BATCH_SIZE) {
+      const batch = writes.slice(start, start + IMPORT_BATCH_SIZE)
+      await prisma.$transaction(async (tx) => {
+        const toCreate = batch.filter((r) => r.action === "create")
+        if (toCreate.length > 0) {
+          await tx.customer.createMany({
+            data: toCreate.map(({ row }) => {
+              const input = rows[row - 1]
+              return {
+                name: input.name,
+                phone: input.phone,
+                email: input.email ?? null,
+                address: input.address,
+                serviceInterval: input.serviceInterval ?? null,
+                isVip: input.isVip ?? false,
+                userId,
+              }
+            }),
+          })
+        }
+
+        for (const result of batch) {
+          if (result.action !== "update" || !result.match) continue
+          const input = rows[result.row - 1]
+          const relocated = input.address !== addressById.get(result.match.customerId)
+          if (relocated) relocatedIds.push(result.match.customerId)
+          await tx.customer.update({
+            where: { id: result.match.customerId },
+            data: {
+              name: input.name,
+              phone: input.phone,
+              address: input.address,
+              ...(input.email && { email: input.email }),
+              ...(input.serviceInterval != null && { serviceInterval: input.serviceInterval }),
+              ...(input.isVip !== undefined && { isVip: input.isVip }),
+              ...(relocated && {
+                latitude: null,
+                longitude: null,
+                geocodePrecision: null,
+                geocodedAt: null,
+              }),
+            },
+          })
+        }
+      }, { timeout: 15000 })
+    }
+
+    // Beyond one batch, the rest wait for the map's geocoding run
+    if (relocatedIds.length > 0) {
+      await geocodeCustomers(userId, { customerIds: relocatedIds })
+    }
+  }
+
+  return { dryRun: options.dryRun, ...summary, rows: results }
+}
+
+/**
+ * The customer list with last service and due status (the most urgent of
+ * the customer's locations). The first five columns use the importer's
+ * headers so an export can be edited and re-imported. Archived customers are
+ * left out unless asked for, since the importer would bring them back as
+ * active ones.
+ */
+export async function customersToCsv(
+  userId: string,
+  archived: "exclude" | "only" | "include" = "exclude"
+): Promise<string> {
+  const customers = await prisma.customer.findMany({
+    where: {
+      userId,
+      ...(archived !== "include" && {
+        archivedAt: archived === "only" ? { not: null } : null,
+      }),
+    },
+    orderBy: { name: "asc" },
+    include: {
+      _count: { select: { serviceLogs: true } },
+      serviceLogs: {
+        orderBy: { serviceDate: "desc" },
+        take: 1,
+        select: { serviceDate: true },
+      },
+      properties: { select: { id: true, serviceInterval: true } },
+    },
+  })
+  const lastServiceDates = await lastServiceDatesByLocation(customers.map((c) => c.id))
+
+  const header =
+    "Name,Phone,Email,Address,Service Interval (days),VIP,Last Service Date,Next Due Date,Due Status,Total Services\n"
+  const rows = customers
+    .map((customer) => {
+      const lastServiceDate = customer.serviceLogs[0]?.serviceDate ?? null
+      const due = computeCustomerDueDateInfo(
+        customer,
+        lastServiceDates.get(customer.id) ?? new Map()
+      )
+      return [
+        csvCell(customer.name),
+        csvCell(customer.phone),
+        csvCell(customer.email ?? ""),
+        csvCell(customer.address),
+        customer.serviceInterval ?? "",
+        customer.isVip ? "Yes" : "No",
+        lastServiceDate ? lastServiceDate.toISOString().split("T")[0] : "",
+        due.nextDueDate ? due.nextDueDate.split("T")[0] : "",
+        csvCell(getDueStatusLabel(due.daysUntilDue, due.dueStatus) ?? ""),
+        customer._count.serviceLogs,
+      ].join(",")
+    })
+    .join("\n")
+
+  return header + rows
+}
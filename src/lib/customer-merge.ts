@@ -0,0 +1,556 @@
+// ---------------------------------------------------------------------------
+// Duplicate customer detection and merging.
+// Pairs are scored on phone and email (normalized the same way as the CSV
+// importer) plus accent-insensitive name and address similarity, so
+// "Juan Perez" and "Juan Pérez" on the same phone come out on top. Merging
+// re-points every record of the duplicate at the surviving customer, deletes
+// the duplicate, and stores a CustomerMerge row holding enough to undo it.
+// ---------------------------------------------------------------------------
+import type { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { normalizeEmail, normalizePhone } from "@/lib/customer-import"
+import { geocodeCustomer } from "@/lib/geocoding"
+import { foldText } from "@/lib/text"
+
+const MIN_SCORE = 40
+const MAX_PAIRS = 200
+const NAME_THRESHOLD = 0.8
+const ADDRESS_THRESHOLD = 0.75
+
+// ─── Scoring ────────────────────────────────────────────────────────────────
+
+interface CustomerForScoring {
+  name: string
+  phone: string
+  email: string | null
+  address: string
+}
+
+export interface DuplicateScore {
+  score: number
+  reasons: string[]
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  av: "ave",
+  road: "rd",
+  drive: "dr",
+  boulevard: "blvd",
+  apartment: "apt",
+  suite: "ste",
+  calle: "c",
+  urbanizacion: "urb",
+  carretera: "carr",
+  numero: "num",
+}
+
+function foldAddress(value: string): string {
+  return foldText(value)
+    .split(" ")
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ")
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function ratio(a: string, b: string): number {
+  const length = Math.max(a.length, b.length)
+  return length === 0 ? 0 : 1 - levenshtein(a, b) / length
+}
+
+/**
+ * 0–1. Word order doesn't matter, and a shortened name ("Juan P") counts as
+ * close to the full one when every word is a prefix of a word in the other.
+ */
+function nameSimilarity(a: string, b: string): number {
+  const aWords = a.split(" ").filter(Boolean)
+  const bWords = b.split(" ").filter(Boolean)
+  if (!aWords.length || !bWords.length) return 0
+
+  let best = Math.max(ratio(a, b), ratio([...aWords].sort().join(" "), [...bWords].sort().join(" ")))
+
+  const [shorter, longer] = aWords.length <= bWords.length ? [aWords, bWords] : [bWords, aWords]
+  const remaining = [...longer]
+  const abbreviated = shorter.every((word) => {
+    const index = remaining.findIndex((other) => other.startsWith(word))
+    if (index === -1) return false
+    remaining.splice(index, 1)
+    return true
+  })
+  if (abbreviated && shorter.length >= 2) best = Math.max(best, 0.85)
+
+  return best
+}
+
+/**
+ * Score how likely two customers are the same person. Phone 40, email 30,
+ * name up to 30, address up to 20, capped at 100.
+ */
+export function scoreDuplicate(a: CustomerForScoring, b: CustomerForScoring): DuplicateScore {
+  let score = 0
+  const reasons: string[] = []
+
+  const phone = normalizePhone(a.phone)
+  if (phone && phone === normalizePhone(b.phone)) {
+    score += 40
+    reasons.push("Same phone")
+  }
+
+  const email = normalizeEmail(a.email)
+  if (email && email === normalizeEmail(b.email)) {
+    score += 30
+    reasons.push("Same email")
+  }
+
+  const name = nameSimilarity(foldText(a.name), foldText(b.name))
+  if (name >= NAME_THRESHOLD) {
+    score += Math.round(30 * name)
+    reasons.push(name === 1 ? "Same name" : `Similar name (${Math.round(name * 100)}%)`)
+  }
+
+  const address = ratio(foldAddress(a.address), foldAddress(b.address))
+  if (address >= ADDRESS_THRESHOLD) {
+    score += Math.round(20 * address)
+    reasons.push(address === 1 ? "Same address" : "Similar address")
+  }
+
+  return { score: Math.min(score, 100), reasons }
+}
+
+// ─── Finding duplicates ─────────────────────────────────────────────────────
+
+const duplicateCustomerSelect = {
+  id: true,
+  name: true,
+  phone: true,
+  email: true,
+  address: true,
+  serviceInterval: true,
+  isVip: true,
+  createdAt: true,
+  _count: { select: { serviceLogs: true, invoices: true } },
+} satisfies Prisma.CustomerSelect
+
+export type DuplicateCustomer = Prisma.CustomerGetPayload<{ select: typeof duplicateCustomerSelect }>
+
+export interface DuplicatePair extends DuplicateScore {
+  // Suggested survivor first: the one with more history, then the older one
+  customers: [DuplicateCustomer, DuplicateCustomer]
+}
+
+/**
+ * Likely duplicate pairs, best first. Only customers sharing a phone, an
+ * email, or the start of a name word are compared, which keeps this well
+ * below comparing every pair.
+ */
+export async function findDuplicateCustomers(
+  userId: string,
+  minScore = MIN_SCORE
+): Promise<DuplicatePair[]> {
+  const customers = await prisma.customer.findMany({
+    where: { userId },
+    select: duplicateCustomerSelect,
+    orderBy: { id: "asc" },
+  })
+
+  const blocks = new Map<string, number[]>()
+  function addToBlock(key: string, index: number) {
+    const block = blocks.get(key)
+    if (block) block.push(index)
+    else blocks.set(key, [index])
+  }
+  customers.forEach((customer, index) => {
+    const phone = normalizePhone(customer.phone)
+    const email = normalizeEmail(customer.email)
+    if (phone) addToBlock(`phone:${phone}`, index)
+    if (email) addToBlock(`email:${email}`, index)
+    for (const word of new Set(foldText(customer.name).split(" "))) {
+      if (word.length >= 3) addToBlock(`name:${word.slice(0, 3)}`, index)
+    }
+  })
+
+  const compared = new Set<string>()
+  const pairs: DuplicatePair[] = []
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = `${block[i]}:${block[j]}`
+        if (compared.has(key)) continue
+        compared.add(key)
+
+        const a = customers[block[i]]
+        const b = customers[block[j]]
+        const { score, reasons } = scoreDuplicate(a, b)
+        if (score < minScore) continue
+
+        const aFirst =
+          a._count.serviceLogs + a._count.invoices >= b._count.serviceLogs + b._count.invoices
+        pairs.push({ score, reasons, customers: aFirst ? [a, b] : [b, a] })
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score).slice(0, MAX_PAIRS)
+}
+
+// ─── Merging ────────────────────────────────────────────────────────────────
+
+export const MERGE_FIELDS = ["name", "phone", "email", "address", "serviceInterval", "isVip"] as const
+export type MergeField = (typeof MERGE_FIELDS)[number]
+export type MergeFieldChoices = Partial<Record<MergeField, "survivor" | "merged">>
+
+interface CustomerSnapshot {
+  id: number
+  name: string
+  phone: string
+  email: string | null
+  address: string
+  serviceInterval: number | null
+  isVip: boolean
+  lateFeeMode: string
+  lateFeeType: string | null
+  lateFeeAmount: string | null
+  lateFeeGraceDays: number | null
+  lateFeeCompounds: boolean | null
+  createdAt: string
+  // Missing from merges recorded before customer tags existed
+  tagIds?: number[]
+  // Missing from merges recorded before geocoding and archiving existed
+  latitude?: number | null
+  longitude?: number | null
+  geocodePrecision?: string | null
+  geocodedAt?: string | null
+  archivedAt?: string | null
+}
+
+interface MovedRecords {
+  serviceLogIds: number[]
+  invoiceIds: number[]
+  estimateIds: number[]
+  scheduleIds: number[]
+  emailMessageIds: number[]
+  // Missing from merges recorded before properties and interactions existed
+  propertyIds?: number[]
+  interactionIds?: number[]
+  // Missing from merges recorded before the price book existed
+  priceBookEntryIds?: number[]
+  // Tags the survivor picked up from the duplicate (not ones it already had)
+  addedTagIds?: number[]
+  routeCustomerIds: number[]
+  // Stops at the duplicate's own address on routes where the survivor already
+  // had a stop at theirs. The survivor keeps the earlier of the two positions.
+  droppedRouteStops: { routeId: number; position: number; survivorPosition: number }[]
+}
+
+// Cleared on the survivor when it takes the duplicate's address, so the pin
+// doesn't stay at the old one; geocodedAt is kept as an ISO string
+const LOCATION_FIELDS = ["latitude", "longitude", "geocodePrecision", "geocodedAt"] as const
+type LocationField = (typeof LOCATION_FIELDS)[number]
+
+type SurvivorFields = Partial<Record<MergeField | LocationField, string | number | boolean | null>>
+
+const clearedLocation = {
+  latitude: null,
+  longitude: null,
+  geocodePrecision: null,
+  geocodedAt: null,
+}
+
+/**
+ * Fold `mergedId` into `survivorId`. Survivor fields are kept unless
+ * `fields` picks the duplicate's value, except that blank email and service
+ * interval are filled from the duplicate. Taking the duplicate's address
+ * re-geocodes the survivor. Both customers must belong to `userId` (checked
+ * by the caller).
+ */
+export async function mergeCustomers(
+  userId: string,
+  survivorId: number,
+  mergedId: number,
+  fields: MergeFieldChoices
+) {
+  const merge = await prisma.$transaction(async (tx) => {
+    const survivor = await tx.customer.findUniqueOrThrow({
+      where: { id: survivorId },
+      include: { tags: { select: { id: true } } },
+    })
+    const merged = await tx.customer.findUniqueOrThrow({
+      where: { id: mergedId },
+      include: { tags: { select: { id: true } } },
+    })
+    const survivorTagIds = new Set(survivor.tags.map((t) => t.id))
+
+    const owned = { customerId: mergedId }
+    const [
+      serviceLogs,
+      invoices,
+      estimates,
+      schedules,
+      emailMessages,
+      properties,
+      interactions,
+      priceBookEntries,
+      mergedStops,
+      survivorStops,
+    ] = await Promise.all([
+      tx.serviceLog.findMany({ where: owned, select: { id: true } }),
+      tx.invoice.findMany({ where: owned, select: { id: true } }),
+      tx.estimate.findMany({ where: owned, select: { id: true } }),
+      tx.invoiceSchedule.findMany({ where: owned, select: { id: true } }),
+      tx.emailMessage.findMany({ where: owned, select: { id: true } }),
+      tx.property.findMany({ where: owned, select: { id: true } }),
+      tx.customerInteraction.findMany({ where: owned, select: { id: true } }),
+      tx.priceBookEntry.findMany({ where: owned, select: { id: true } }),
+      tx.routeCustomer.findMany({ where: owned }),
+      tx.routeCustomer.findMany({ where: { customerId: survivorId, propertyId: null } }),
+    ])
+
+    // Property stops move with their property and can't clash; only two stops
+    // at the customers' own addresses on the same route can
+    const survivorStopByRoute = new Map(survivorStops.map((stop) => [stop.routeId, stop]))
+    const clashes = (stop: (typeof mergedStops)[number]) =>
+      stop.propertyId === null && survivorStopByRoute.has(stop.routeId)
+    const movedStops = mergedStops.filter((stop) => !clashes(stop))
+    const droppedStops = mergedStops.filter(clashes)
+
+    const moved: MovedRecords = {
+      serviceLogIds: serviceLogs.map((r) => r.id),
+      invoiceIds: invoices.map((r) => r.id),
+      estimateIds: estimates.map((r) => r.id),
+      scheduleIds: schedules.map((r) => r.id),
+      emailMessageIds: emailMessages.map((r) => r.id),
+      propertyIds: properties.map((r) => r.id),
+      interactionIds: interactions.map((r) => r.id),
+      priceBookEntryIds: priceBookEntries.map((r) => r.id),
+      addedTagIds: merged.tags.map((t) => t.id).filter((id) => !survivorTagIds.has(id)),
+      routeCustomerIds: movedStops.map((r) => r.id),
+      droppedRouteStops: droppedStops.map((stop) => ({
+        routeId: stop.routeId,
+        position: stop.position,
+        survivorPosition: survivorStopByRoute.get(stop.routeId)!.position,
+      })),
+    }
+
+    const toSurvivor = { data: { customerId: survivorId } }
+    await tx.serviceLog.updateMany({ where: { id: { in: moved.serviceLogIds } }, ...toSurvivor })
+    await tx.invoice.updateMany({ where: { id: { in: moved.invoiceIds } }, ...toSurvivor })
+    await tx.estimate.updateMany({ where: { id: { in: moved.estimateIds } }, ...toSurvivor })
+    await tx.invoiceSchedule.updateMany({ where: { id: { in: moved.scheduleIds } }, ...toSurvivor })
+    await tx.emailMessage.updateMany({ where: { id: { in: moved.emailMessageIds } }, ...toSurvivor })
+    await tx.property.updateMany({ where: { id: { in: moved.propertyIds } }, ...toSurvivor })
+    await tx.customerInteraction.updateMany({ where: { id: { in: moved.interactionIds } }, ...toSurvivor })
+    await tx.priceBookEntry.updateMany({ where: { id: { in: moved.priceBookEntryIds } }, ...toSurvivor })
+    await tx.routeCustomer.updateMany({ where: { id: { in: moved.routeCustomerIds } }, ...toSurvivor })
+    for (const stop of moved.droppedRouteStops) {
+      if (stop.position < stop.survivorPosition) {
+        await tx.routeCustomer.updateMany({
+          where: { routeId: stop.routeId, customerId: survivorId, propertyId: null },
+          data: { position: stop.position },
+        })
+      }
+    }
+
+    const updates: SurvivorFields = {}
+    for (const field of MERGE_FIELDS) {
+      const choice =
+        fields[field] ??
+        ((field === "email" || field === "serviceInterval") && survivor[field] == null
+          ? "merged"
+          : "survivor")
+      if (choice === "merged" && merged[field] !== survivor[field]) {
+        updates[field] = merged[field]
+      }
+    }
+    const survivorBefore: SurvivorFields = {}
+    for (const field of Object.keys(updates) as MergeField[]) {
+      survivorBefore[field] = survivor[field]
+    }
+    if (updates.address !== undefined) {
+      for (const field of LOCATION_FIELDS) {
+        const value = survivor[field]
+        survivorBefore[field] = value instanceof Date ? value.toISOString() : value
+      }
+    }
+
+    // Deleting cascades the duplicate's dropped route stops
+    await tx.customer.delete({ where: { id: mergedId } })
+    if (Object.keys(updates).length > 0 || moved.addedTagIds!.length > 0) {
+      await tx.customer.update({
+        where: { id: survivorId },
+        data: {
+          ...(updates as Prisma.CustomerUpdateInput),
+          ...(updates.address !== undefined && clearedLocation),
+          tags: { connect: moved.addedTagIds!.map((id) => ({ id })) },
+        },
+      })
+    }
+
+    const snapshot: CustomerSnapshot = {
+      id: merged.id,
+      name: merged.name,
+      phone: merged.phone,
+      email: merged.email,
+      address: merged.address,
+      serviceInterval: merged.serviceInterval,
+      isVip: merged.isVip,
+      lateFeeMode: merged.lateFeeMode,
+      lateFeeType: merged.lateFeeType,
+      lateFeeAmount: merged.lateFeeAmount?.toString() ?? null,
+      lateFeeGraceDays: merged.lateFeeGraceDays,
+      lateFeeCompounds: merged.lateFeeCompounds,
+      createdAt: merged.createdAt.toISOString(),
+      tagIds: merged.tags.map((t) => t.id),
+      latitude: merged.latitude,
+      longitude: merged.longitude,
+      geocodePrecision: merged.geocodePrecision,
+      geocodedAt: merged.geocodedAt?.toISOString() ?? null,
+      archivedAt: merged.archivedAt?.toISOString() ?? null,
+    }
+
+    return tx.customerMerge.create({
+      data: {
+        survivorId,
+        mergedCustomerId: mergedId,
+        mergedName: merged.name,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+        moved: moved as unknown as Prisma.InputJsonValue,
+        survivorBefore: survivorBefore as Prisma.InputJsonValue,
+        userId,
+      },
+    })
+  })
+
+  const survivorBefore = merge.survivorBefore as SurvivorFields
+  if (survivorBefore.address !== undefined) {
+    const survivor = await prisma.customer.findUniqueOrThrow({
+      where: { id: survivorId },
+      select: { id: true, address: true },
+    })
+    await geocodeCustomer(survivor)
+  }
+  return merge
+}
+
+/**
+ * Recreate the merged customer under its old id, move back the records the
+ * merge moved (those still on the survivor; anything added since stays),
+ * restore dropped route stops and the survivor's overwritten fields.
+ */
+export async function undoCustomerMerge(userId: string, mergeId: number) {
+  return prisma.$transaction(async (tx) => {
+    const merge = await tx.customerMerge.findUniqueOrThrow({ where: { id: mergeId } })
+    const snapshot = merge.snapshot as unknown as CustomerSnapshot
+    const moved = merge.moved as unknown as MovedRecords
+    const survivorBefore = merge.survivorBefore as SurvivorFields
+    const survivorId = merge.survivorId
+    const mergedId = merge.mergedCustomerId
+
+    // Tags deleted since the merge have nothing to reconnect or disconnect
+    const existingTags = new Set(
+      (
+        await tx.customerTag.findMany({
+          where: { id: { in: [...(snapshot.tagIds ?? []), ...(moved.addedTagIds ?? [])] }, userId },
+          select: { id: true },
+        })
+      ).map((t) => t.id)
+    )
+    const tagIds = (snapshot.tagIds ?? []).filter((id) => existingTags.has(id))
+    const addedTagIds = (moved.addedTagIds ?? []).filter((id) => existingTags.has(id))
+
+    const customer = await tx.customer.create({
+      data: {
+        id: snapshot.id,
+        name: snapshot.name,
+        phone: snapshot.phone,
+        email: snapshot.email,
+        address: snapshot.address,
+        serviceInterval: snapshot.serviceInterval,
+        isVip: snapshot.isVip,
+        lateFeeMode: snapshot.lateFeeMode as Prisma.CustomerCreateInput["lateFeeMode"],
+        lateFeeType: snapshot.lateFeeType as Prisma.CustomerCreateInput["lateFeeType"],
+        lateFeeAmount: snapshot.lateFeeAmount,
+        lateFeeGraceDays: snapshot.lateFeeGraceDays,
+        lateFeeCompounds: snapshot.lateFeeCompounds,
+        createdAt: new Date(snapshot.createdAt),
+        latitude: snapshot.latitude ?? null,
+        longitude: snapshot.longitude ?? null,
+        geocodePrecision: (snapshot.geocodePrecision ?? null) as Prisma.CustomerCreateInput["geocodePrecision"],
+        geocodedAt: snapshot.geocodedAt ? new Date(snapshot.geocodedAt) : null,
+        archivedAt: snapshot.archivedAt ? new Date(snapshot.archivedAt) : null,
+        userId,
+        tags: { connect: tagIds.map((id) => ({ id })) },
+      },
+    })
+
+    const onSurvivor = (ids: number[]) => ({ id: { in: ids }, customerId: survivorId })
+    const toMerged = { data: { customerId: mergedId } }
+    await tx.serviceLog.updateMany({ where: onSurvivor(moved.serviceLogIds), ...toMerged })
+    await tx.invoice.updateMany({ where: onSurvivor(moved.invoiceIds), ...toMerged })
+    await tx.estimate.updateMany({ where: onSurvivor(moved.estimateIds), ...toMerged })
+    await tx.invoiceSchedule.updateMany({ where: onSurvivor(moved.scheduleIds), ...toMerged })
+    await tx.emailMessage.updateMany({ where: onSurvivor(moved.emailMessageIds), ...toMerged })
+    await tx.property.updateMany({ where: onSurvivor(moved.propertyIds ?? []), ...toMerged })
+    await tx.customerInteraction.updateMany({ where: onSurvivor(moved.interactionIds ?? []), ...toMerged })
+    await tx.priceBookEntry.updateMany({ where: onSurvivor(moved.priceBookEntryIds ?? []), ...toMerged })
+    await tx.routeCustomer.updateMany({ where: onSurvivor(moved.routeCustomerIds), ...toMerged })
+
+    // Routes deleted since the merge have nothing to restore
+    const routeIds = moved.droppedRouteStops.map((stop) => stop.routeId)
+    const existingRoutes = new Set(
+      (await tx.route.findMany({ where: { id: { in: routeIds } }, select: { id: true } })).map((r) => r.id)
+    )
+    for (const stop of moved.droppedRouteStops) {
+      if (!existingRoutes.has(stop.routeId)) continue
+      await tx.routeCustomer.updateMany({
+        where: { routeId: stop.routeId, customerId: survivorId, propertyId: null, position: stop.position },
+        data: { position: stop.survivorPosition },
+      })
+      await tx.routeCustomer.create({
+        data: { routeId: stop.routeId, customerId: mergedId, position: stop.position },
+      })
+    }
+
+    if (Object.keys(survivorBefore).length > 0 || addedTagIds.length > 0) {
+      // Merges recorded before locations were kept leave the pin to the geocoder
+      const location =
+        survivorBefore.address === undefined
+          ? {}
+          : survivorBefore.geocodedAt === undefined
+            ? clearedLocation
+            : {
+                geocodedAt:
+                  typeof survivorBefore.geocodedAt === "string"
+                    ? new Date(survivorBefore.geocodedAt)
+                    : null,
+              }
+      await tx.customer.update({
+        where: { id: survivorId },
+        data: {
+          ...(survivorBefore as Prisma.CustomerUpdateInput),
+          ...location,
+          tags: { disconnect: addedTagIds.map((id) => ({ id })) },
+        },
+      })
+    }
+
+    await tx.customerMerge.update({ where: { id: mergeId }, data: { undoneAt: new Date() } })
+    return customer
+  })
+}
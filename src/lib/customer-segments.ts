@@ -0,0 +1,117 @@
+// ---------------------------------------------------------------------------
+// Customer tags and saved segments.
+// A segment stores filters, not members: it is resolved against the current
+// customers each time it's used (customer list, route stops, statements,
+// payment reminders). Tag and interval filters run in the database; due
+// status and open balance are computed, so they are applied afterwards.
+// ---------------------------------------------------------------------------
+import type { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { computeCustomerDueDateInfo } from "@/lib/due-date"
+import { lastServiceDatesByLocation } from "@/lib/properties"
+import { buildArAgingReport } from "@/lib/ar-aging"
+import { segmentFiltersSchema } from "@/lib/validations/customers"
+
+export type DueStatusFilter = "late" | "due-today" | "due-soon" | "on-track" | "none"
+
+export interface SegmentFilters {
+  tagIds: number[]
+  tagMatch: "any" | "all"
+  serviceIntervals: number[]
+  dueStatuses: DueStatusFilter[]
+  minBalance: number | null
+  maxBalance: number | null
+}
+
+/** Tag fields returned with customers. */
+export const tagSelect = {
+  id: true,
+  name: true,
+  color: true,
+} satisfies Prisma.CustomerTagSelect
+
+/** Customers carrying any (or all) of the tags. */
+export function tagFilterWhere(
+  tagIds: number[],
+  match: SegmentFilters["tagMatch"]
+): Prisma.CustomerWhereInput {
+  if (tagIds.length === 0) return {}
+  return match === "all"
+    ? { AND: tagIds.map((id) => ({ tags: { some: { id } } })) }
+    : { tags: { some: { id: { in: tagIds } } } }
+}
+
+/**
+ * Read stored filters. Defaults fill in anything a segment saved by an
+ * earlier version doesn't have.
+ */
+export function parseSegmentFilters(value: Prisma.JsonValue): SegmentFilters {
+  return segmentFiltersSchema.parse(value ?? {})
+}
+
+/**
+ * Ids of the user's customers matching the filters, in name order. Archived
+ * customers are never in a segment.
+ */
+export async function resolveSegmentCustomerIds(
+  userId: string,
+  filters: SegmentFilters
+): Promise<number[]> {
+  let customers = await prisma.customer.findMany({
+    where: {
+      userId,
+      archivedAt: null,
+      ...tagFilterWhere(filters.tagIds, filters.tagMatch),
+      ...(filters.serviceIntervals.length > 0 && {
+        serviceInterval: { in: filters.serviceIntervals },
+      }),
+    },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      serviceInterval: true,
+      properties: { select: { id: true, serviceInterval: true } },
+    },
+  })
+
+  if (filters.dueStatuses.length > 0 && customers.length > 0) {
+    const lastServiceDates = await lastServiceDatesByLocation(customers.map((c) => c.id))
+    customers = customers.filter((customer) => {
+      const { dueStatus } = computeCustomerDueDateInfo(
+        customer,
+        lastServiceDates.get(customer.id) ?? new Map()
+      )
+      return filters.dueStatuses.includes(dueStatus ?? "none")
+    })
+  }
+
+  if ((filters.minBalance !== null || filters.maxBalance !== null) && customers.length > 0) {
+    const report = await buildArAgingReport(userId)
+    const balances = new Map(report.customers.map((c) => [c.customerId, c.totals.total]))
+    customers = customers.filter((customer) => {
+      const balance = balances.get(customer.id) ?? 0
+      return (
+        (filters.minBalance === null || balance >= filters.minBalance) &&
+        (filters.maxBalance === null || balance <= filters.maxBalance)
+      )
+    })
+  }
+
+  return customers.map((c) => c.id)
+}
+
+/**
+ * Resolve one of the user's saved segments. Returns null when the segment
+ * doesn't exist or belongs to someone else.
+ */
+export async function getSegmentCustomerIds(
+  userId: string,
+  segmentId: number
+): Promise<number[] | null> {
+  const segment = await prisma.customerSegment.findFirst({
+    where: { id: segmentId, userId },
+    select: { filters: true },
+  })
+  if (!segment) return null
+  return resolveSegmentCustomerIds(userId, parseSegmentFilters(segment.filters))
+}
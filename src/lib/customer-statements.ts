@@ -0,0 +1,233 @@
+// ---------------------------------------------------------------------------
+// Customer account statements.
+// The ledger is built from the same sources as the AR aging report: sent
+// invoices, unpaid completed services not on a sent invoice, and invoice
+// payments, credit notes, write-offs and refunds. Refunds are charges: they
+// give back money the customer had paid. Everything dated before the period
+// rolls into the opening balance.
+// ---------------------------------------------------------------------------
+import { renderToBuffer } from "@react-pdf/renderer"
+import { prisma } from "@/lib/prisma"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { CustomerStatementPdf } from "@/components/customers/pdf/customer-statement-pdf"
+
+export interface StatementEntry {
+  date: string
+  type: "invoice" | "service" | "payment" | "credit" | "refund"
+  description: string
+  charge: number
+  payment: number
+  balance: number
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: number
+    name: string
+    address: string | null
+    phone: string | null
+    email: string | null
+  }
+  dateFrom: string
+  dateTo: string
+  openingBalance: number
+  entries: StatementEntry[]
+  totalCharges: number
+  totalPayments: number
+  closingBalance: number
+}
+
+interface LedgerLine {
+  customerId: number
+  date: Date
+  type: StatementEntry["type"]
+  description: string
+  charge: number
+  payment: number
+}
+
+const BILLED_STATUSES = { notIn: ["DRAFT" as const, "CANCELLED" as const] }
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * Statements for the given customers (or every customer of the user) over
+ * [dateFrom, dateTo]. Customers with no activity get an empty statement.
+ */
+export async function buildCustomerStatements(
+  userId: string,
+  dateFrom: Date,
+  dateTo: Date,
+  customerIds?: number[]
+): Promise<CustomerStatement[]> {
+  const customerFilter = customerIds ? { customerId: { in: customerIds } } : {}
+
+  const [customers, invoices, logs, payments, credits, refunds] = await Promise.all([
+    prisma.customer.findMany({
+      where: { userId, ...(customerIds && { id: { in: customerIds } }) },
+      select: { id: true, name: true, address: true, phone: true, email: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.invoice.findMany({
+      where: { userId, status: BILLED_STATUSES, issueDate: { lte: dateTo }, ...customerFilter },
+      select: { customerId: true, invoiceNumber: true, issueDate: true, total: true },
+    }),
+    prisma.serviceLog.findMany({
+      where: {
+        userId,
+        status: "COMPLETE",
+        paymentStatus: "UNPAID",
+        serviceDate: { lte: dateTo },
+        invoiceItems: { none: { invoice: { status: BILLED_STATUSES } } },
+        ...customerFilter,
+      },
+      select: {
+        customerId: true,
+        serviceDate: true,
+        priceCharged: true,
+        serviceType: { select: { name: true } },
+      },
+    }),
+    prisma.invoicePayment.findMany({
+      where: {
+        userId,
+        date: { lte: dateTo },
+        invoice: { status: BILLED_STATUSES, ...customerFilter },
+      },
+      select: {
+        date: true,
+        amount: true,
+        method: true,
+        invoice: { select: { customerId: true, invoiceNumber: true } },
+      },
+    }),
+    prisma.invoiceCredit.findMany({
+      where: {
+        userId,
+        date: { lte: dateTo },
+        invoice: { status: BILLED_STATUSES, ...customerFilter },
+      },
+      select: {
+        date: true,
+        amount: true,
+        type: true,
+        creditNumber: true,
+        invoice: { select: { customerId: true, invoiceNumber: true } },
+      },
+    }),
+    prisma.invoiceRefund.findMany({
+      where: {
+        userId,
+        date: { lte: dateTo },
+        invoice: { status: BILLED_STATUSES, ...customerFilter },
+      },
+      select: {
+        date: true,
+        amount: true,
+        method: true,
+        invoice: { select: { customerId: true, invoiceNumber: true } },
+      },
+    }),
+  ])
+
+  const lines: LedgerLine[] = [
+    ...invoices.map((inv) => ({
+      customerId: inv.customerId,
+      date: inv.issueDate,
+      type: "invoice" as const,
+      description: `Invoice ${inv.invoiceNumber}`,
+      charge: Number(inv.total),
+      payment: 0,
+    })),
+    ...logs.map((log) => ({
+      customerId: log.customerId,
+      date: log.serviceDate,
+      type: "service" as const,
+      description: log.serviceType?.name ?? "Service",
+      charge: Number(log.priceCharged),
+      payment: 0,
+    })),
+    ...payments.map((p) => ({
+      customerId: p.invoice.customerId,
+      date: p.date,
+      type: "payment" as const,
+      description: `Payment (${p.method}) — ${p.invoice.invoiceNumber}`,
+      charge: 0,
+      payment: Number(p.amount),
+    })),
+    ...credits.map((c) => ({
+      customerId: c.invoice.customerId,
+      date: c.date,
+      type: "credit" as const,
+      description:
+        c.type === "WRITE_OFF"
+          ? `Written off — ${c.invoice.invoiceNumber}`
+          : `Credit note ${c.creditNumber ?? ""} — ${c.invoice.invoiceNumber}`,
+      charge: 0,
+      payment: Number(c.amount),
+    })),
+    ...refunds.map((r) => ({
+      customerId: r.invoice.customerId,
+      date: r.date,
+      type: "refund" as const,
+      description: `Refund (${r.method}) — ${r.invoice.invoiceNumber}`,
+      charge: Number(r.amount),
+      payment: 0,
+    })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  const byCustomer = new Map<number, LedgerLine[]>()
+  for (const line of lines) {
+    const group = byCustomer.get(line.customerId) ?? []
+    group.push(line)
+    byCustomer.set(line.customerId, group)
+  }
+
+  return customers.map((customer) => {
+    let openingBalance = 0
+    let balance = 0
+    let totalCharges = 0
+    let totalPayments = 0
+    const entries: StatementEntry[] = []
+
+    for (const line of byCustomer.get(customer.id) ?? []) {
+      if (line.date < dateFrom) {
+        openingBalance = round2(openingBalance + line.charge - line.payment)
+        balance = openingBalance
+        continue
+      }
+      balance = round2(balance + line.charge - line.payment)
+      totalCharges = round2(totalCharges + line.charge)
+      totalPayments = round2(totalPayments + line.payment)
+      entries.push({
+        date: line.date.toISOString(),
+        type: line.type,
+        description: line.description,
+        charge: line.charge,
+        payment: line.payment,
+        balance,
+      })
+    }
+
+    return {
+      customer,
+      dateFrom: dateFrom.toISOString(),
+      dateTo: dateTo.toISOString(),
+      openingBalance,
+      entries,
+      totalCharges,
+      totalPayments,
+      closingBalance: balance,
+    }
+  })
+}
+
+/** Render one or more statements into a single PDF, one customer per page. */
+export async function renderCustomerStatementsPdf(
+  statements: CustomerStatement[]
+): Promise<Buffer> {
+  const company = await getCompanyLetterhead()
+  return renderToBuffer(CustomerStatementPdf({ statements, company }))
+}
@@ -0,0 +1,133 @@
+// ---------------------------------------------------------------------------
+// Customer timeline.
+// Logged interactions (calls, texts, visits, notes) merged with the records
+// that already carry a date: service logs and their notes, invoices,
+// invoice payments and emails sent from the app. Newest first.
+// ---------------------------------------------------------------------------
+import type { InteractionType } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+
+export type TimelineEntryType = InteractionType | "SERVICE" | "INVOICE" | "PAYMENT"
+
+export interface TimelineEntry {
+  // Unique across sources, e.g. "service-12"
+  key: string
+  type: TimelineEntryType
+  date: string
+  title: string
+  body: string | null
+  amount: number | null
+  href: string | null
+  // Set on logged interactions, the only entries edited from the timeline
+  interactionId: number | null
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  ATH: "ATH Móvil",
+  PAYPAL: "PayPal",
+  CASH: "Cash",
+  OTHER: "Other",
+}
+
+const INTERACTION_TITLES: Record<InteractionType, string> = {
+  CALL: "Phone call",
+  TEXT: "Text message",
+  EMAIL: "Email",
+  VISIT: "Site visit",
+  NOTE: "Note",
+}
+
+/** Build the timeline for a customer. The caller checks ownership. */
+export async function getCustomerTimeline(customerId: number): Promise<TimelineEntry[]> {
+  const [interactions, serviceLogs, invoices, payments, emails] = await Promise.all([
+    prisma.customerInteraction.findMany({ where: { customerId } }),
+    prisma.serviceLog.findMany({
+      where: { customerId },
+      select: {
+        id: true,
+        serviceDate: true,
+        priceCharged: true,
+        notes: true,
+        serviceType: { select: { name: true } },
+        property: { select: { label: true, address: true } },
+      },
+    }),
+    prisma.invoice.findMany({
+      where: { customerId },
+      select: { id: true, invoiceNumber: true, issueDate: true, total: true, status: true },
+    }),
+    prisma.invoicePayment.findMany({
+      where: { invoice: { customerId } },
+      select: {
+        id: true,
+        date: true,
+        amount: true,
+        method: true,
+        notes: true,
+        invoice: { select: { id: true, invoiceNumber: true } },
+      },
+    }),
+    prisma.emailMessage.findMany({
+      where: { customerId, status: "SENT" },
+      select: { id: true, subject: true, to: true, sentAt: true, createdAt: true, invoiceId: true },
+    }),
+  ])
+
+  const entries: TimelineEntry[] = [
+    ...interactions.map((interaction) => ({
+      key: `interaction-${interaction.id}`,
+      type: interaction.type,
+      date: interaction.occurredAt.toISOString(),
+      title: INTERACTION_TITLES[interaction.type],
+      body: interaction.body,
+      amount: null,
+      href: null,
+      interactionId: interaction.id,
+    })),
+    ...serviceLogs.map((log) => {
+      const location = log.property ? ` at ${log.property.label ?? log.property.address}` : ""
+      return {
+        key: `service-${log.id}`,
+        type: "SERVICE" as const,
+        date: log.serviceDate.toISOString(),
+        title: `${log.serviceType?.name ?? "Service"}${location}`,
+        body: log.notes,
+        amount: Number(log.priceCharged),
+        href: null,
+        interactionId: null,
+      }
+    }),
+    ...invoices.map((invoice) => ({
+      key: `invoice-${invoice.id}`,
+      type: "INVOICE" as const,
+      date: invoice.issueDate.toISOString(),
+      title: `Invoice ${invoice.invoiceNumber} (${invoice.status.toLowerCase().replace("_", " ")})`,
+      body: null,
+      amount: Number(invoice.total),
+      href: `/invoices/${invoice.id}`,
+      interactionId: null,
+    })),
+    ...payments.map((payment) => ({
+      key: `payment-${payment.id}`,
+      type: "PAYMENT" as const,
+      date: payment.date.toISOString(),
+      title: `Payment on ${payment.invoice.invoiceNumber} by ${METHOD_LABELS[payment.method] ?? payment.method}`,
+      body: payment.notes,
+      amount: Number(payment.amount),
+      href: `/invoices/${payment.invoice.id}`,
+      interactionId: null,
+    })),
+    ...emails.map((email) => ({
+      key: `email-${email.id}`,
+      type: "EMAIL" as const,
+      date: (email.sentAt ?? email.createdAt).toISOString(),
+      title: `Emailed "${email.subject}" to ${email.to}`,
+      body: null,
+      amount: null,
+      href: email.invoiceId ? `/invoices/${email.invoiceId}` : null,
+      interactionId: null,
+    })),
+  ]
+
+  return entries.sort((a, b) => b.date.localeCompare(a.date) || a.key.localeCompare(b.key))
+}
@@ -60,3 +60,52 @@ export function getDueStatusLabel(
       return `Due in ${daysUntilDue} days`
   }
 }
+
+export interface PropertyDueDateInfo extends DueDateInfo {
+  propertyId: number
+}
+
+export interface CustomerDueDateInfo extends DueDateInfo {
+  properties: PropertyDueDateInfo[]
+}
+
+/** The entry closest to (or furthest past) its due date. */
+export function mostUrgentDueDate(infos: DueDateInfo[]): DueDateInfo {
+  let urgent: DueDateInfo = { nextDueDate: null, daysUntilDue: null, dueStatus: null }
+  for (const info of infos) {
+    if (info.daysUntilDue === null) continue
+    if (urgent.daysUntilDue === null || info.daysUntilDue < urgent.daysUntilDue) {
+      urgent = info
+    }
+  }
+  return urgent
+}
+
+/**
+ * Due dates per service location. The customer's own address uses
+ * `customer.serviceInterval` and the logs without a property; each property
+ * uses its own interval (or the customer's when unset) and its own logs. The
+ * top-level fields are the most urgent location, so a customer shows as late
+ * when any of their properties is.
+ *
+ * `lastServiceDates` maps propertyId (null for the customer's address) to the
+ * latest service date there.
+ */
+export function computeCustomerDueDateInfo(
+  customer: {
+    serviceInterval: number | null
+    properties?: { id: number; serviceInterval: number | null }[]
+  },
+  lastServiceDates: Map<number | null, Date | string>
+): CustomerDueDateInfo {
+  const own = computeDueDateInfo(lastServiceDates.get(null), customer.serviceInterval)
+  const properties = (customer.properties ?? []).map((property) => ({
+    propertyId: property.id,
+    ...computeDueDateInfo(
+      lastServiceDates.get(property.id),
+      property.serviceInterval ?? customer.serviceInterval
+    ),
+  }))
+
+  return { ...mostUrgentDueDate([own, ...properties]), properties }
+}
@@ -1,6 +1,12 @@
 // Shared aggregator for annual tax reports.
 // Used by both the JSON endpoint (`/api/tax/report/annual`) and the PDF
 // endpoint (`/api/tax/report/annual/pdf`) so the math has one source of truth.
+//
+// The report is cash basis. An OUTFLOW linked to an invoice refund is
+// returned service income, so it is netted against income rather than
+// counted as an expense. Credit notes and write-offs move no money: they are
+// reported alongside for reference but never reduce income, since income
+// that was never received was never counted.
 
 export interface AggregatorTransaction {
   id: number
@@ -10,6 +16,13 @@ export interface AggregatorTransaction {
   type: "INFLOW" | "OUTFLOW" | string
   taxType: string | null
   category: { name: string | null } | { name: string } | null
+  _count?: { invoiceRefunds: number }
+}
+
+export interface AggregatorInvoiceCredit {
+  date: Date
+  amount: unknown // Prisma Decimal
+  type: "CREDIT_NOTE" | "WRITE_OFF" | string
 }
 
 export interface CategoryBreakdown {
@@ -24,6 +37,9 @@ export interface MonthBreakdown {
   personalIncome: number
   businessExpenses: number
   personalExpenses: number
+  customerRefunds: number
+  creditNotes: number
+  writeOffs: number
   uncategorizedCount: number
   totalTransactions: number
   net: number
@@ -49,6 +65,9 @@ export interface AnnualReport {
     personalIncome: number
     businessExpenses: number
     personalExpenses: number
+    customerRefunds: number
+    creditNotes: number
+    writeOffs: number
     net: number
     totalTransactions: number
     uncategorizedCount: number
@@ -68,6 +87,9 @@ interface MonthAcc {
   personalIncome: number
   businessExpenses: number
   personalExpenses: number
+  customerRefunds: number
+  creditNotes: number
+  writeOffs: number
   uncategorizedCount: number
   totalTransactions: number
   bizCatMap: Record<string, number>
@@ -82,13 +104,39 @@ function sortCategoryMap(map: Record<string, number>): CategoryBreakdown[] {
     .map(([category, total]) => ({ category, total }))
 }
 
-export function aggregateAnnualReport(transactions: AggregatorTransaction[]): AnnualReport {
+function emptyMonth(month: string): MonthAcc {
+  return {
+    month,
+    totalIncome: 0,
+    serviceIncome: 0,
+    personalIncome: 0,
+    businessExpenses: 0,
+    personalExpenses: 0,
+    customerRefunds: 0,
+    creditNotes: 0,
+    writeOffs: 0,
+    uncategorizedCount: 0,
+    totalTransactions: 0,
+    bizCatMap: {},
+    persCatMap: {},
+    bizIncomeCatMap: {},
+    persIncomeCatMap: {},
+  }
+}
+
+export function aggregateAnnualReport(
+  transactions: AggregatorTransaction[],
+  invoiceCredits: AggregatorInvoiceCredit[] = []
+): AnnualReport {
   const monthMap = new Map<string, MonthAcc>()
   let ytdIncome = 0
   let ytdServiceIncome = 0
   let ytdPersonalIncome = 0
   let ytdBusinessExpenses = 0
   let ytdPersonalExpenses = 0
+  let ytdCustomerRefunds = 0
+  let ytdCreditNotes = 0
+  let ytdWriteOffs = 0
   let ytdUncategorized = 0
   const bizCatMap: Record<string, number> = {}
   const persCatMap: Record<string, number> = {}
@@ -103,20 +151,7 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
 
     let m = monthMap.get(month)
     if (!m) {
-      m = {
-        month,
-        totalIncome: 0,
-        serviceIncome: 0,
-        personalIncome: 0,
-        businessExpenses: 0,
-        personalExpenses: 0,
-        uncategorizedCount: 0,
-        totalTransactions: 0,
-        bizCatMap: {},
-        persCatMap: {},
-        bizIncomeCatMap: {},
-        persIncomeCatMap: {},
-      }
+      m = emptyMonth(month)
       monthMap.set(month, m)
     }
     m.totalTransactions++
@@ -150,6 +185,13 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
         persIncomeCatMap[catName] = (persIncomeCatMap[catName] || 0) + amount
         m.persIncomeCatMap[catName] = (m.persIncomeCatMap[catName] || 0) + amount
       }
+    } else if ((tx._count?.invoiceRefunds ?? 0) > 0) {
+      m.customerRefunds += amount
+      ytdCustomerRefunds += amount
+      m.totalIncome -= amount
+      ytdIncome -= amount
+      m.serviceIncome -= amount
+      ytdServiceIncome -= amount
     } else {
       if (tx.taxType === "business") {
         m.businessExpenses += amount
@@ -166,6 +208,23 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
 
   }
 
+  for (const credit of invoiceCredits) {
+    const month = credit.date.toISOString().slice(0, 7)
+    const amount = Number(credit.amount)
+    let m = monthMap.get(month)
+    if (!m) {
+      m = emptyMonth(month)
+      monthMap.set(month, m)
+    }
+    if (credit.type === "WRITE_OFF") {
+      m.writeOffs += amount
+      ytdWriteOffs += amount
+    } else {
+      m.creditNotes += amount
+      ytdCreditNotes += amount
+    }
+  }
+
   const monthlyBreakdown: MonthBreakdown[] = Array.from(monthMap.values()).map((m) => ({
     month: m.month,
     totalIncome: m.totalIncome,
@@ -173,6 +232,9 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
     personalIncome: m.personalIncome,
     businessExpenses: m.businessExpenses,
     personalExpenses: m.personalExpenses,
+    customerRefunds: m.customerRefunds,
+    creditNotes: m.creditNotes,
+    writeOffs: m.writeOffs,
     uncategorizedCount: m.uncategorizedCount,
     totalTransactions: m.totalTransactions,
     net: m.serviceIncome - m.businessExpenses,
@@ -180,7 +242,7 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
     personalByCategory: sortCategoryMap(m.persCatMap),
     businessIncomeByCategory: sortCategoryMap(m.bizIncomeCatMap),
     personalIncomeByCategory: sortCategoryMap(m.persIncomeCatMap),
-  }))
+  })).sort((a, b) => a.month.localeCompare(b.month))
 
   return {
     totals: {
@@ -189,6 +251,9 @@ export function aggregateAnnualReport(transactions: AggregatorTransaction[]): An
       personalIncome: ytdPersonalIncome,
       businessExpenses: ytdBusinessExpenses,
       personalExpenses: ytdPersonalExpenses,
+      customerRefunds: ytdCustomerRefunds,
+      creditNotes: ytdCreditNotes,
+      writeOffs: ytdWriteOffs,
       net: ytdServiceIncome - ytdBusinessExpenses,
       totalTransactions: transactions.length,
       uncategorizedCount: ytdUncategorized,
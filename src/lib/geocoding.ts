@@ -0,0 +1,236 @@
+// ---------------------------------------------------------------------------
+// Customer geocoding.
+// Providers implement `Geocoder`. The default one works offline from the
+// GeocodePoint table (exact address points and ZIP centroids imported from
+// CSV). When a self-hosted Nominatim is configured (Settings.nominatimUrl or
+// NOMINATIM_URL) it is asked for anything the dataset can only place at ZIP
+// level; the centroid is kept if Nominatim is unreachable or finds nothing.
+// ---------------------------------------------------------------------------
+import type { GeocodePrecision } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { foldText } from "@/lib/text"
+
+const NOMINATIM_TIMEOUT_MS = 5000
+// Customers geocoded per request; the rest are reported as remaining
+const MAX_BATCH = 500
+
+export interface GeocodeResult {
+  latitude: number
+  longitude: number
+  precision: Exclude<GeocodePrecision, "MANUAL">
+  source: string
+}
+
+export interface Geocoder {
+  name: string
+  geocode(address: string): Promise<GeocodeResult | null>
+}
+
+/**
+ * The ZIP code of a US address: the last 5-digit group (ZIP+4 allowed), so
+ * a 5-digit house number at the start doesn't win.
+ */
+export function extractPostalCode(address: string): string | null {
+  const matches = [...address.matchAll(/\b(\d{5})(?:-\d{4})?\b/g)]
+  return matches.at(-1)?.[1] ?? null
+}
+
+/** Looks addresses up in the imported GeocodePoint dataset. */
+export const offlineGeocoder: Geocoder = {
+  name: "offline",
+  async geocode(address) {
+    const exact = await prisma.geocodePoint.findUnique({
+      where: { kind_key: { kind: "ADDRESS", key: foldText(address) } },
+    })
+    if (exact) {
+      return { latitude: exact.latitude, longitude: exact.longitude, precision: "ADDRESS", source: "offline" }
+    }
+
+    const postalCode = extractPostalCode(address)
+    if (!postalCode) return null
+    const centroid = await prisma.geocodePoint.findUnique({
+      where: { kind_key: { kind: "POSTAL_CODE", key: postalCode } },
+    })
+    return centroid
+      ? { latitude: centroid.latitude, longitude: centroid.longitude, precision: "POSTAL_CODE", source: "offline" }
+      : null
+  },
+}
+
+/** Adapter for a Nominatim server's /search endpoint. */
+export function nominatimGeocoder(baseUrl: string): Geocoder {
+  const url = baseUrl.replace(/\/+$/, "")
+  return {
+    name: "nominatim",
+    async geocode(address) {
+      const params = new URLSearchParams({ q: address, format: "jsonv2", limit: "1" })
+      const res = await fetch(`${url}/search?${params}`, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(NOMINATIM_TIMEOUT_MS),
+      })
+      if (!res.ok) throw new Error(`Nominatim returned ${res.status}`)
+
+      const [hit] = (await res.json()) as { lat: string; lon: string; addresstype?: string }[]
+      if (!hit) return null
+      return {
+        latitude: parseFloat(hit.lat),
+        longitude: parseFloat(hit.lon),
+        precision: hit.addresstype === "postcode" ? "POSTAL_CODE" : "ADDRESS",
+        source: "nominatim",
+      }
+    },
+  }
+}
+
+/**
+ * Ask each geocoder in turn and stop at the first address-level match. A ZIP
+ * centroid is kept as the fallback; a provider that errors is skipped.
+ */
+export function chainGeocoders(geocoders: Geocoder[]): Geocoder {
+  return {
+    name: geocoders.map((g) => g.name).join("+"),
+    async geocode(address) {
+      let fallback: GeocodeResult | null = null
+      for (const geocoder of geocoders) {
+        try {
+          const result = await geocoder.geocode(address)
+          if (result?.precision === "ADDRESS") return result
+          fallback ??= result
+        } catch (error) {
+          console.error(`Geocoder ${geocoder.name} failed:`, error)
+        }
+      }
+      return fallback
+    },
+  }
+}
+
+/** The configured geocoder: the offline dataset, plus Nominatim when set up. */
+export async function getGeocoder(): Promise<Geocoder> {
+  const settings = await prisma.settings.findFirst({ select: { nominatimUrl: true } })
+  const nominatimUrl = settings?.nominatimUrl || process.env.NOMINATIM_URL
+  return nominatimUrl
+    ? chainGeocoders([offlineGeocoder, nominatimGeocoder(nominatimUrl)])
+    : offlineGeocoder
+}
+
+/**
+ * Look a customer's address up and store the result (or the miss, so it
+ * isn't retried on every batch). Never throws: a customer without a location
+ * just stays off the map.
+ */
+export async function geocodeCustomer(
+  customer: { id: number; address: string },
+  geocoder?: Geocoder
+): Promise<GeocodeResult | null> {
+  try {
+    const result = await (geocoder ?? (await getGeocoder())).geocode(customer.address)
+    await prisma.customer.update({
+      where: { id: customer.id },
+      data: {
+        latitude: result?.latitude ?? null,
+        longitude: result?.longitude ?? null,
+        geocodePrecision: result?.precision ?? null,
+        geocodedAt: new Date(),
+      },
+    })
+    return result
+  } catch (error) {
+    console.error(`Failed to geocode customer ${customer.id}:`, error)
+    return null
+  }
+}
+
+export interface GeocodeBatchResult {
+  attempted: number
+  found: number
+  postalCodeOnly: number
+  notFound: number
+  remaining: number
+}
+
+/**
+ * Geocode the user's customers that were never looked up. With `force`,
+ * also retry misses and ZIP-level matches (e.g. after importing more
+ * address points). Hand-placed pins are left alone either way.
+ */
+export async function geocodeCustomers(
+  userId: string,
+  options: { force?: boolean; customerIds?: number[] } = {}
+): Promise<GeocodeBatchResult> {
+  const where = {
+    userId,
+    ...(options.customerIds && { id: { in: options.customerIds } }),
+    ...(options.force
+      ? { OR: [{ geocodePrecision: null }, { geocodePrecision: "POSTAL_CODE" as const }] }
+      : { geocodedAt: null }),
+  }
+
+  const [customers, total] = await Promise.all([
+    prisma.customer.findMany({
+      where,
+      // Least recently tried first, so repeated forced runs work through everyone
+      orderBy: [{ geocodedAt: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+      take: MAX_BATCH,
+      select: { id: true, address: true },
+    }),
+    prisma.customer.count({ where }),
+  ])
+
+  const geocoder = await getGeocoder()
+  const summary: GeocodeBatchResult = {
+    attempted: customers.length,
+    found: 0,
+    postalCodeOnly: 0,
+    notFound: 0,
+    remaining: total - customers.length,
+  }
+  // One at a time: Nominatim servers expect callers not to fan out
+  for (const customer of customers) {
+    const result = await geocodeCustomer(customer, geocoder)
+    if (!result) summary.notFound++
+    else if (result.precision === "POSTAL_CODE") summary.postalCodeOnly++
+    else summary.found++
+  }
+  return summary
+}
+
+/** Counts of imported dataset rows by kind. */
+export async function getGeocodeDatasetSummary() {
+  const groups = await prisma.geocodePoint.groupBy({ by: ["kind"], _count: { _all: true } })
+  const count = (kind: string) => groups.find((g) => g.kind === kind)?._count._all ?? 0
+  return { addresses: count("ADDRESS"), postalCodes: count("POSTAL_CODE") }
+}
+
+/**
+ * Add rows to the offline dataset. Keys are normalized the same way lookups
+ * are; a row for a key that already exists replaces it.
+ */
+export async function importGeocodePoints(
+  points: { kind: "ADDRESS" | "POSTAL_CODE"; key: string; latitude: number; longitude: number }[]
+): Promise<{ imported: number; skipped: number }> {
+  const byKey = new Map<string, (typeof points)[number]>()
+  let skipped = 0
+  for (const point of points) {
+    const key =
+      point.kind === "ADDRESS" ? foldText(point.key) : extractPostalCode(point.key)
+    if (!key) {
+      skipped++
+      continue
+    }
+    // Later rows of the file win, like they would row by row
+    byKey.set(`${point.kind}:${key}`, { ...point, key })
+  }
+  const rows = [...byKey.values()]
+
+  await prisma.$transaction([
+    ...(["ADDRESS", "POSTAL_CODE"] as const).map((kind) =>
+      prisma.geocodePoint.deleteMany({
+        where: { kind, key: { in: rows.filter((r) => r.kind === kind).map((r) => r.key) } },
+      })
+    ),
+    prisma.geocodePoint.createMany({ data: rows }),
+  ])
+
+  return { imported: rows.length, skipped }
+}
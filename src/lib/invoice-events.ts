@@ -0,0 +1,208 @@
+// ---------------------------------------------------------------------------
+// Invoice audit trail.
+// Every route that changes an invoice records an InvoiceEvent in the same
+// transaction as the change. Edits store a diff of the fields, line items
+// and totals, computed from snapshots taken before and after the write.
+// ---------------------------------------------------------------------------
+import type {
+  InvoiceCreditType,
+  InvoiceEventType,
+  InvoiceStatus,
+  PaymentMethod,
+  Prisma,
+} from "@/generated/prisma"
+
+export interface InvoiceEventActor {
+  id: string
+  name: string | null
+}
+
+export interface InvoiceTotalsSnapshot {
+  subtotal: number
+  tax: number
+  total: number
+}
+
+export interface InvoiceFieldChange {
+  field: string
+  from: string | null
+  to: string | null
+}
+
+export interface InvoiceDiff {
+  fields: InvoiceFieldChange[]
+  itemsAdded: string[]
+  itemsRemoved: string[]
+  totals: { from: InvoiceTotalsSnapshot; to: InvoiceTotalsSnapshot } | null
+}
+
+interface PaymentEventData {
+  amount: number
+  method: PaymentMethod
+  date: string
+}
+
+interface CreditEventData {
+  creditType: InvoiceCreditType
+  creditNumber: string | null
+  amount: number
+  reason: string | null
+}
+
+/** Shape of `InvoiceEvent.data` for each event type. */
+export interface InvoiceEventDataMap {
+  CREATED: {
+    invoiceNumber: string
+    total: number
+    source: "manual" | "bulk" | "estimate" | "schedule"
+    estimateNumber?: string
+    scheduleName?: string
+  }
+  UPDATED: InvoiceDiff
+  STATUS_CHANGED: {
+    from: InvoiceStatus
+    to: InvoiceStatus
+    // What caused the change when it wasn't set directly
+    reason?: "payment" | "credit" | "email" | "share"
+  }
+  EMAILED: { template: string; to: string }
+  SHARED: { expiresAt: string }
+  VIEWED: { viewCount: number }
+  PAYMENT_RECORDED: PaymentEventData
+  PAYMENT_DELETED: PaymentEventData
+  LATE_FEE_APPLIED: { amount: number; description: string; total: number }
+  CREDIT_ISSUED: CreditEventData
+  CREDIT_DELETED: CreditEventData
+  REFUND_RECORDED: PaymentEventData
+  REFUND_DELETED: PaymentEventData
+}
+
+interface RecordInvoiceEventInput<T extends InvoiceEventType> {
+  invoiceId: number
+  userId: string
+  type: T
+  data: InvoiceEventDataMap[T]
+  actor?: InvoiceEventActor | null
+}
+
+export function sessionActor(user: {
+  id?: string
+  name?: string | null
+  email?: string | null
+}): InvoiceEventActor | null {
+  if (!user.id) return null
+  return { id: user.id, name: user.name || user.email || null }
+}
+
+export async function recordInvoiceEvent<T extends InvoiceEventType>(
+  tx: Prisma.TransactionClient,
+  input: RecordInvoiceEventInput<T>
+): Promise<void> {
+  await tx.invoiceEvent.create({
+    data: {
+      invoiceId: input.invoiceId,
+      userId: input.userId,
+      type: input.type,
+      data: input.data as unknown as Prisma.InputJsonValue,
+      actorId: input.actor?.id ?? null,
+      actorName: input.actor?.name ?? null,
+    },
+  })
+}
+
+// ── Edit diffs ────────────────────────────────────────────────────
+
+const SNAPSHOT_SELECT = {
+  issueDate: true,
+  dueDate: true,
+  notes: true,
+  terms: true,
+  taxPercent: true,
+  subtotal: true,
+  tax: true,
+  total: true,
+  customer: { select: { name: true } },
+  taxRate: { select: { name: true } },
+  items: {
+    orderBy: { id: "asc" },
+    select: { description: true, serviceDate: true, quantity: true, rate: true, taxable: true },
+  },
+} satisfies Prisma.InvoiceSelect
+
+export type InvoiceSnapshot = Prisma.InvoiceGetPayload<{ select: typeof SNAPSHOT_SELECT }>
+
+export function snapshotInvoice(
+  tx: Prisma.TransactionClient,
+  invoiceId: number
+): Promise<InvoiceSnapshot> {
+  return tx.invoice.findUniqueOrThrow({ where: { id: invoiceId }, select: SNAPSHOT_SELECT })
+}
+
+function dateValue(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null
+}
+
+function taxValue(snapshot: InvoiceSnapshot): string | null {
+  if (snapshot.taxPercent === null) return null
+  return `${snapshot.taxRate?.name ?? "Sales Tax"} (${Number(snapshot.taxPercent)}%)`
+}
+
+function itemLine(item: InvoiceSnapshot["items"][number]): string {
+  const rate = Number(item.rate).toFixed(2)
+  return `${item.description} · ${dateValue(item.serviceDate)} · ${Number(item.quantity)} × ${rate}${item.taxable ? " (T)" : ""}`
+}
+
+function totalsOf(snapshot: InvoiceSnapshot): InvoiceTotalsSnapshot {
+  return {
+    subtotal: Number(snapshot.subtotal),
+    tax: Number(snapshot.tax),
+    total: Number(snapshot.total),
+  }
+}
+
+/**
+ * What changed between two snapshots, or null if nothing did. Items are
+ * replaced wholesale on edit, so they are compared as a multiset of lines:
+ * a changed line shows up as one removed and one added.
+ */
+export function diffInvoiceSnapshots(
+  before: InvoiceSnapshot,
+  after: InvoiceSnapshot
+): InvoiceDiff | null {
+  const fields: InvoiceFieldChange[] = []
+  const compare = (field: string, from: string | null, to: string | null) => {
+    if (from !== to) fields.push({ field, from, to })
+  }
+  compare("Customer", before.customer.name, after.customer.name)
+  compare("Issue date", dateValue(before.issueDate), dateValue(after.issueDate))
+  compare("Due date", dateValue(before.dueDate), dateValue(after.dueDate))
+  compare("Sales tax", taxValue(before), taxValue(after))
+  compare("Notes", before.notes, after.notes)
+  compare("Terms", before.terms, after.terms)
+
+  const remaining = after.items.map(itemLine)
+  const itemsRemoved: string[] = []
+  for (const line of before.items.map(itemLine)) {
+    const index = remaining.indexOf(line)
+    if (index === -1) itemsRemoved.push(line)
+    else remaining.splice(index, 1)
+  }
+  const itemsAdded = remaining
+
+  const fromTotals = totalsOf(before)
+  const toTotals = totalsOf(after)
+  const totalsChanged =
+    fromTotals.subtotal !== toTotals.subtotal ||
+    fromTotals.tax !== toTotals.tax ||
+    fromTotals.total !== toTotals.total
+
+  if (fields.length === 0 && itemsAdded.length === 0 && itemsRemoved.length === 0 && !totalsChanged) {
+    return null
+  }
+  return {
+    fields,
+    itemsAdded,
+    itemsRemoved,
+    totals: totalsChanged ? { from: fromTotals, to: toTotals } : null,
+  }
+}
@@ -0,0 +1,178 @@
+// ---------------------------------------------------------------------------
+// Bank deposit → invoice matching.
+// New INFLOW transactions (Plaid sync, CSV import) are compared with open
+// invoices whose balance is within MATCH_TOLERANCE of the deposit. Candidates
+// are scored like the service-log suggestions in /api/services/suggestions
+// (amount, name, date) plus ATH Móvil phone digits, and the best few are
+// stored as InvoiceMatch rows for review. Nothing is applied until the user
+// confirms a match.
+// ---------------------------------------------------------------------------
+import type { PaymentMethod } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+
+// PayPal takes a few percent, so deposits can land a little under the balance
+const MATCH_TOLERANCE = 0.05
+const MIN_SCORE = 40
+const MAX_CANDIDATES_PER_DEPOSIT = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface DepositForMatching {
+  date: Date
+  amount: number
+  description: string
+  merchantName: string | null
+}
+
+interface InvoiceForMatching {
+  issueDate: Date
+  balance: number
+  customer: { name: string; phone: string }
+}
+
+export interface InvoiceMatchScore {
+  score: number
+  reasons: string[]
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "")
+}
+
+/**
+ * Score one deposit against one invoice, or null when the amount is outside
+ * the tolerance. Amount 20–40, customer name 15–30, phone digits 30, date
+ * proximity 0–20.
+ */
+export function scoreInvoiceMatch(
+  deposit: DepositForMatching,
+  invoice: InvoiceForMatching
+): InvoiceMatchScore | null {
+  if (invoice.balance <= 0) return null
+
+  const diff = Math.abs(deposit.amount - invoice.balance)
+  const pct = diff / invoice.balance
+  if (pct > MATCH_TOLERANCE) return null
+
+  let score = 0
+  const reasons: string[] = []
+
+  if (diff < 0.005) {
+    score += 40
+    reasons.push("Exact amount")
+  } else if (pct <= 0.01) {
+    score += 30
+    reasons.push("Amount within 1%")
+  } else {
+    score += 20
+    reasons.push(`Amount within ${Math.round(MATCH_TOLERANCE * 100)}%`)
+  }
+
+  const text = `${deposit.description} ${deposit.merchantName ?? ""}`.toLowerCase()
+  const customerName = invoice.customer.name.toLowerCase().trim()
+  const nameParts = customerName.split(/\s+/).filter((part) => part.length >= 3)
+  if (customerName && text.includes(customerName)) {
+    score += 30
+    reasons.push("Customer name")
+  } else if (nameParts.some((part) => text.includes(part))) {
+    score += 15
+    reasons.push("Part of customer name")
+  }
+
+  // ATH Móvil deposits carry the sender's phone number; compare the local
+  // 7 digits so country/area code formatting doesn't matter
+  const phone = digitsOf(invoice.customer.phone).slice(-7)
+  if (phone.length === 7 && digitsOf(text).includes(phone)) {
+    score += 30
+    reasons.push("Customer phone")
+  }
+
+  const days = Math.round((deposit.date.getTime() - invoice.issueDate.getTime()) / DAY_MS)
+  if (days >= -1) {
+    if (days <= 7) score += 20
+    else if (days <= 30) score += 15
+    else if (days <= 60) score += 10
+    else if (days <= 90) score += 5
+    if (days <= 90) reasons.push(days <= 0 ? "Paid on issue date" : `Paid ${days}d after issue`)
+  }
+
+  return { score, reasons }
+}
+
+/** Best guess at how a deposit was paid, from its bank description. */
+export function guessPaymentMethod(description: string): PaymentMethod {
+  if (/\bATH\b/i.test(description)) return "ATH"
+  if (/paypal/i.test(description)) return "PAYPAL"
+  return "OTHER"
+}
+
+/**
+ * Queue match suggestions for the given transactions. Only settled INFLOWs
+ * not already linked to an invoice payment are considered; pairs that were
+ * suggested before (including dismissed ones) are skipped.
+ */
+export async function suggestInvoiceMatches(
+  userId: string,
+  transactionIds: number[]
+): Promise<{ suggested: number }> {
+  if (transactionIds.length === 0) return { suggested: 0 }
+
+  const deposits = await prisma.bankTransaction.findMany({
+    where: {
+      id: { in: transactionIds },
+      userId,
+      type: "INFLOW",
+      isPending: false,
+      invoicePayments: { none: {} },
+    },
+    select: { id: true, date: true, amount: true, description: true, merchantName: true },
+  })
+  if (deposits.length === 0) return { suggested: 0 }
+
+  const invoices = await prisma.invoice.findMany({
+    where: { userId, status: { in: ["SENT", "PARTIALLY_PAID"] } },
+    select: {
+      id: true,
+      issueDate: true,
+      total: true,
+      amountPaid: true,
+      amountCredited: true,
+      customer: { select: { name: true, phone: true } },
+    },
+  })
+  if (invoices.length === 0) return { suggested: 0 }
+
+  const candidates = invoices.map((inv) => ({
+    id: inv.id,
+    issueDate: inv.issueDate,
+    balance: Number(inv.total) - Number(inv.amountCredited) - Number(inv.amountPaid),
+    customer: inv.customer,
+  }))
+
+  const rows = deposits.flatMap((deposit) => {
+    const input = {
+      date: deposit.date,
+      amount: Number(deposit.amount),
+      description: deposit.description,
+      merchantName: deposit.merchantName,
+    }
+    return candidates
+      .map((invoice) => ({ invoice, match: scoreInvoiceMatch(input, invoice) }))
+      .filter(
+        (c): c is { invoice: (typeof candidates)[number]; match: InvoiceMatchScore } =>
+          c.match !== null && c.match.score >= MIN_SCORE
+      )
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, MAX_CANDIDATES_PER_DEPOSIT)
+      .map((c) => ({
+        bankTransactionId: deposit.id,
+        invoiceId: c.invoice.id,
+        score: c.match.score,
+        reasons: c.match.reasons,
+        userId,
+      }))
+  })
+  if (rows.length === 0) return { suggested: 0 }
+
+  const result = await prisma.invoiceMatch.createMany({ data: rows, skipDuplicates: true })
+  return { suggested: result.count }
+}
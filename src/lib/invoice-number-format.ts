@@ -0,0 +1,28 @@
+// ---------------------------------------------------------------------------
+// Document number formatting. Kept free of database imports so the settings
+// page can render a live example of the configured pattern.
+// ---------------------------------------------------------------------------
+
+export interface DocumentNumberFormat {
+  prefix: string
+  /** Put the year in the number and restart the sequence every January */
+  yearly: boolean
+  padding: number
+  start: number
+}
+
+export const DEFAULT_INVOICE_NUMBER_FORMAT: DocumentNumberFormat = {
+  prefix: "INV-",
+  yearly: true,
+  padding: 4,
+  start: 1,
+}
+
+export function formatDocumentNumber(
+  format: DocumentNumberFormat,
+  year: number,
+  value: number
+): string {
+  const yearPart = format.yearly ? `${year}-` : ""
+  return `${format.prefix}${yearPart}${String(value).padStart(format.padding, "0")}`
+}
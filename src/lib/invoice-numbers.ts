@@ -0,0 +1,161 @@
+// ---------------------------------------------------------------------------
+// Document numbers, allocated per user from DocumentSequence.
+// Invoices follow the pattern configured in Settings; estimates always use
+// EST-YYYY-NNNN and credit notes CN-YYYY-NNNN. Call these inside the
+// transaction that creates the document so a rolled-back create does not
+// burn a number. A sequence's first use starts after the highest number
+// already taken, so documents created before sequences existed are skipped
+// in one query.
+// ---------------------------------------------------------------------------
+import { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import {
+  DEFAULT_INVOICE_NUMBER_FORMAT,
+  formatDocumentNumber,
+  type DocumentNumberFormat,
+} from "@/lib/invoice-number-format"
+
+type Client = Prisma.TransactionClient | typeof prisma
+
+const ESTIMATE_NUMBER_FORMAT: DocumentNumberFormat = {
+  prefix: "EST-",
+  yearly: true,
+  padding: 4,
+  start: 1,
+}
+
+const CREDIT_NOTE_NUMBER_FORMAT: DocumentNumberFormat = {
+  prefix: "CN-",
+  yearly: true,
+  padding: 4,
+  start: 1,
+}
+
+// A number can still be taken after seeding (e.g. an invoice renumbered by
+// hand); each retry fast-forwards past the highest one again.
+const MAX_ALLOCATION_ATTEMPTS = 3
+
+// Where each kind's numbers are stored, for finding the highest one taken
+const NUMBER_COLUMNS: Record<string, { table: string; column: string }> = {
+  invoice: { table: "Invoice", column: "invoiceNumber" },
+  estimate: { table: "Estimate", column: "estimateNumber" },
+  credit_note: { table: "InvoiceCredit", column: "creditNumber" },
+}
+
+/** Invoice numbering pattern from the Settings singleton. */
+export async function getInvoiceNumberFormat(client: Client = prisma): Promise<DocumentNumberFormat> {
+  const settings = await client.settings.findFirst({
+    select: {
+      invoiceNumberPrefix: true,
+      invoiceNumberYearly: true,
+      invoiceNumberPadding: true,
+      invoiceNumberStart: true,
+    },
+  })
+  if (!settings) return DEFAULT_INVOICE_NUMBER_FORMAT
+
+  return {
+    prefix: settings.invoiceNumberPrefix,
+    yearly: settings.invoiceNumberYearly,
+    padding: settings.invoiceNumberPadding,
+    start: settings.invoiceNumberStart,
+  }
+}
+
+/**
+ * Atomically take the next value of a sequence. The row is created on first
+ * use; raising `start` later fast-forwards an existing sequence.
+ */
+async function allocate(
+  client: Client,
+  userId: string,
+  kind: string,
+  period: number,
+  start: number
+): Promise<number> {
+  const rows = await client.$queryRaw<{ value: number }[]>`
+    INSERT INTO "DocumentSequence" ("userId", "kind", "period", "nextValue", "updatedAt")
+    VALUES (${userId}, ${kind}, ${period}::int, ${start}::int + 1, NOW())
+    ON CONFLICT ("userId", "kind", "period") DO UPDATE
+      SET "nextValue" = GREATEST("DocumentSequence"."nextValue", ${start}::int) + 1,
+          "updatedAt" = NOW()
+    RETURNING "nextValue" - 1 AS value
+  `
+  return Number(rows[0].value)
+}
+
+/**
+ * The highest value among the user's numbers of this kind that are `prefix`
+ * followed only by digits, or 0 when there are none.
+ */
+async function highestTaken(
+  client: Client,
+  userId: string,
+  kind: string,
+  prefix: string
+): Promise<number> {
+  const table = Prisma.raw(`"${NUMBER_COLUMNS[kind].table}"`)
+  const column = Prisma.raw(`"${NUMBER_COLUMNS[kind].column}"`)
+  const from = prefix.length + 1
+  const rows = await client.$queryRaw<{ value: number | null }[]>`
+    SELECT MAX(SUBSTRING(${column} FROM ${from}::int)::int) AS value
+    FROM ${table}
+    WHERE "userId" = ${userId}
+      AND starts_with(${column}, ${prefix})
+      AND SUBSTRING(${column} FROM ${from}::int) ~ '^[0-9]{1,9}$'
+  `
+  return Number(rows[0]?.value ?? 0)
+}
+
+async function nextNumber(
+  client: Client,
+  userId: string,
+  kind: string,
+  format: DocumentNumberFormat,
+  isTaken: (number: string) => Promise<boolean>
+): Promise<string> {
+  const year = new Date().getFullYear()
+  const period = format.yearly ? year : 0
+  // Everything before the sequence value, e.g. "INV-2026-"
+  const prefix = `${format.prefix}${format.yearly ? `${year}-` : ""}`
+
+  const sequence = await client.documentSequence.findUnique({
+    where: { userId_kind_period: { userId, kind, period } },
+    select: { id: true },
+  })
+  let start = format.start
+  if (!sequence) {
+    start = Math.max(start, (await highestTaken(client, userId, kind, prefix)) + 1)
+  }
+
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const value = await allocate(client, userId, kind, period, start)
+    const number = formatDocumentNumber(format, year, value)
+    if (!(await isTaken(number))) return number
+    start = Math.max(format.start, (await highestTaken(client, userId, kind, prefix)) + 1)
+  }
+
+  throw new Error(`Could not allocate a free ${kind} number`)
+}
+
+/** Next invoice number for the user, in the configured format. */
+export async function nextInvoiceNumber(client: Client, userId: string): Promise<string> {
+  const format = await getInvoiceNumberFormat(client)
+  return nextNumber(client, userId, "invoice", format, async (invoiceNumber) =>
+    (await client.invoice.count({ where: { userId, invoiceNumber } })) > 0
+  )
+}
+
+/** Next estimate number for the user. */
+export async function nextEstimateNumber(client: Client, userId: string): Promise<string> {
+  return nextNumber(client, userId, "estimate", ESTIMATE_NUMBER_FORMAT, async (estimateNumber) =>
+    (await client.estimate.count({ where: { userId, estimateNumber } })) > 0
+  )
+}
+
+/** Next credit note number for the user. */
+export async function nextCreditNoteNumber(client: Client, userId: string): Promise<string> {
+  return nextNumber(client, userId, "credit_note", CREDIT_NOTE_NUMBER_FORMAT, async (creditNumber) =>
+    (await client.invoiceCredit.count({ where: { userId, creditNumber } })) > 0
+  )
+}
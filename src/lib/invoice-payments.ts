@@ -0,0 +1,89 @@
+// ---------------------------------------------------------------------------
+// Invoice payment ledger helpers.
+// Invoice.amountPaid (payments less refunds) and Invoice.amountCredited
+// (credit notes and write-offs) are derived from their ledger rows; every
+// route that adds or removes one calls syncInvoicePaymentState inside the
+// same transaction so the stored totals and status never drift from the
+// ledger.
+// ---------------------------------------------------------------------------
+import { Prisma, type InvoiceStatus } from "@/generated/prisma"
+import {
+  recordInvoiceEvent,
+  type InvoiceEventActor,
+  type InvoiceEventDataMap,
+} from "@/lib/invoice-events"
+
+/**
+ * Derive the invoice status from its payment and credit totals.
+ * DRAFT and CANCELLED invoices keep their status — payments only move
+ * invoices that have been issued. An invoice is PAID once payments and
+ * credits cover the total; one whose payments were all removed falls back
+ * to SENT.
+ */
+export function derivePaymentStatus(
+  currentStatus: InvoiceStatus,
+  total: Prisma.Decimal,
+  amountPaid: Prisma.Decimal,
+  amountCredited: Prisma.Decimal = new Prisma.Decimal(0)
+): InvoiceStatus {
+  if (currentStatus === "DRAFT" || currentStatus === "CANCELLED") {
+    return currentStatus
+  }
+  if (amountPaid.add(amountCredited).gte(total) && total.gt(0)) return "PAID"
+  if (amountPaid.gt(0)) return "PARTIALLY_PAID"
+  return "SENT"
+}
+
+/**
+ * Recalculate amountPaid and amountCredited from the ledger and update the
+ * invoice status to match. A resulting status change is written to the
+ * audit trail on behalf of `actor`, tagged with what caused it.
+ */
+export async function syncInvoicePaymentState(
+  tx: Prisma.TransactionClient,
+  invoiceId: number,
+  actor?: InvoiceEventActor | null,
+  reason: InvoiceEventDataMap["STATUS_CHANGED"]["reason"] = "payment"
+): Promise<{ amountPaid: Prisma.Decimal; amountCredited: Prisma.Decimal; status: InvoiceStatus }> {
+  const [invoice, paid, refunded, credited] = await Promise.all([
+    tx.invoice.findUniqueOrThrow({
+      where: { id: invoiceId },
+      select: { total: true, status: true, userId: true },
+    }),
+    tx.invoicePayment.aggregate({
+      _sum: { amount: true },
+      where: { invoiceId },
+    }),
+    tx.invoiceRefund.aggregate({
+      _sum: { amount: true },
+      where: { invoiceId },
+    }),
+    tx.invoiceCredit.aggregate({
+      _sum: { amount: true },
+      where: { invoiceId },
+    }),
+  ])
+
+  const amountPaid = (paid._sum.amount ?? new Prisma.Decimal(0)).sub(
+    refunded._sum.amount ?? 0
+  )
+  const amountCredited = credited._sum.amount ?? new Prisma.Decimal(0)
+  const status = derivePaymentStatus(invoice.status, invoice.total, amountPaid, amountCredited)
+
+  await tx.invoice.update({
+    where: { id: invoiceId },
+    data: { amountPaid, amountCredited, status },
+  })
+
+  if (status !== invoice.status) {
+    await recordInvoiceEvent(tx, {
+      invoiceId,
+      userId: invoice.userId,
+      type: "STATUS_CHANGED",
+      data: { from: invoice.status, to: status, reason },
+      actor,
+    })
+  }
+
+  return { amountPaid, amountCredited, status }
+}
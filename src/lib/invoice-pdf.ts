@@ -0,0 +1,97 @@
+// ---------------------------------------------------------------------------
+// Server-side invoice PDF rendering.
+// Shared by the download endpoint and anything that needs to attach the
+// invoice file (emails, bookkeeping exports) so every copy looks the same.
+// ---------------------------------------------------------------------------
+import { renderToBuffer } from "@react-pdf/renderer"
+import { prisma } from "@/lib/prisma"
+import {
+  InvoicePdf,
+  type InvoicePdfCompany,
+} from "@/components/invoices/pdf/invoice-pdf"
+
+const DEFAULT_COMPANY_NAME = "GRW Services"
+
+/** Company letterhead from the Settings singleton. */
+export async function getCompanyLetterhead(): Promise<InvoicePdfCompany> {
+  const settings = await prisma.settings.findFirst()
+
+  const cityLine = [
+    settings?.companyCity,
+    [settings?.companyState, settings?.companyZip].filter(Boolean).join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ")
+
+  return {
+    name: settings?.companyName || DEFAULT_COMPANY_NAME,
+    address: settings?.companyAddress || null,
+    cityLine: cityLine || null,
+    phone: settings?.companyPhone || null,
+    email: settings?.companyEmail || null,
+    website: settings?.companyWebsite || null,
+  }
+}
+
+/**
+ * Render an invoice to a PDF buffer. Returns null when the invoice does not
+ * exist or belongs to another user.
+ */
+export async function renderInvoicePdf(
+  invoiceId: number,
+  userId: string
+): Promise<{ invoiceNumber: string; pdf: Buffer } | null> {
+  const [invoice, company] = await Promise.all([
+    prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      include: {
+        customer: {
+          select: { name: true, address: true, phone: true, email: true },
+        },
+        taxRate: { select: { name: true } },
+        items: { orderBy: { id: "asc" } },
+      },
+    }),
+    getCompanyLetterhead(),
+  ])
+
+  if (!invoice) return null
+
+  const pdf = await renderToBuffer(
+    InvoicePdf({
+      company,
+      invoice: {
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        subtotal: Number(invoice.subtotal),
+        tax:
+          invoice.taxPercent === null
+            ? null
+            : {
+                label: invoice.taxRate?.name ?? "Sales Tax",
+                percent: Number(invoice.taxPercent),
+                amount: Number(invoice.tax),
+              },
+        total: Number(invoice.total),
+        amountPaid: Number(invoice.amountPaid),
+        amountCredited: Number(invoice.amountCredited),
+        notes: invoice.notes,
+        terms: invoice.terms,
+        customer: invoice.customer,
+        items: invoice.items.map((item) => ({
+          id: item.id,
+          description: item.description,
+          serviceDate: item.serviceDate,
+          quantity: Number(item.quantity),
+          rate: Number(item.rate),
+          amount: Number(item.amount),
+          taxable: item.taxable,
+        })),
+      },
+    })
+  )
+
+  return { invoiceNumber: invoice.invoiceNumber, pdf }
+}
@@ -0,0 +1,306 @@
+// ---------------------------------------------------------------------------
+// Recurring invoice schedules.
+// Each due run turns the schedule's item template into an invoice dated on
+// the run date, then moves nextRunDate forward. Runs that were missed (the
+// job didn't run for a while) are caught up one invoice per period, up to
+// MAX_RUNS_PER_SCHEDULE per pass. Auto-send schedules create the invoice as
+// SENT and email it through the outbox.
+// ---------------------------------------------------------------------------
+import type { InvoiceFrequency, InvoiceStatus, Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { calculateInvoiceTotals } from "@/lib/invoice-totals"
+import { nextInvoiceNumber } from "@/lib/invoice-numbers"
+import { recordInvoiceEvent, type InvoiceEventActor } from "@/lib/invoice-events"
+import { getCompanyLetterhead } from "@/lib/invoice-pdf"
+import { invoiceEmail } from "@/lib/mail/templates"
+import { queueEmail, deliverEmail } from "@/lib/mail/outbox"
+import type { InvoicePdfCompany } from "@/components/invoices/pdf/invoice-pdf"
+
+const MAX_RUNS_PER_SCHEDULE = 12
+const UPCOMING_RUNS = 3
+const HISTORY_LIMIT = 12
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** What the schedule list and detail routes return, plus `upcomingRuns`. */
+export const scheduleInclude = {
+  customer: { select: { id: true, name: true, email: true } },
+  taxRate: { select: { id: true, name: true, percent: true } },
+  items: { orderBy: { id: "asc" } },
+  invoices: {
+    orderBy: { issueDate: "desc" },
+    take: HISTORY_LIMIT,
+    select: { id: true, invoiceNumber: true, issueDate: true, total: true, status: true },
+  },
+  _count: { select: { invoices: true } },
+} satisfies Prisma.InvoiceScheduleInclude
+
+const PERIOD_DAYS: Partial<Record<InvoiceFrequency, number>> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+}
+
+const PERIOD_MONTHS: Partial<Record<InvoiceFrequency, number>> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  ANNUAL: 12,
+}
+
+interface ScheduleDates {
+  frequency: InvoiceFrequency
+  startDate: Date
+  nextRunDate: Date
+  endDate: Date | null
+  isActive: boolean
+}
+
+export interface ScheduledInvoice {
+  id: number
+  invoiceNumber: string
+  issueDate: string
+  total: number
+  status: InvoiceStatus
+  emailed: boolean
+}
+
+export interface ScheduleRunResult {
+  scheduleId: number
+  name: string
+  invoices: ScheduledInvoice[]
+}
+
+export interface ScheduleRunSummary {
+  schedules: ScheduleRunResult[]
+  invoicesCreated: number
+  emailsSent: number
+  // Auto-send invoices left as DRAFT because the customer has no email
+  draftsWithoutEmail: number
+}
+
+/**
+ * The run after `date`. Month-based frequencies land on the start date's day
+ * of month, clamped to the last day of shorter months, so a schedule that
+ * starts on the 31st doesn't drift to the 28th after February.
+ */
+export function advanceRunDate(date: Date, frequency: InvoiceFrequency, anchorDay: number): Date {
+  const days = PERIOD_DAYS[frequency]
+  if (days) return new Date(date.getTime() + days * DAY_MS)
+
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth() + (PERIOD_MONTHS[frequency] ?? 1)
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(anchorDay, lastDay)))
+}
+
+/** The next `count` run dates, stopping at the end date. */
+export function upcomingRunDates(schedule: ScheduleDates, count: number): Date[] {
+  if (!schedule.isActive) return []
+
+  const anchorDay = schedule.startDate.getUTCDate()
+  const dates: Date[] = []
+  let date = schedule.nextRunDate
+  while (dates.length < count && (!schedule.endDate || date <= schedule.endDate)) {
+    dates.push(date)
+    date = advanceRunDate(date, schedule.frequency, anchorDay)
+  }
+  return dates
+}
+
+export function withUpcomingRuns<T extends ScheduleDates>(schedule: T): T & { upcomingRuns: Date[] } {
+  return { ...schedule, upcomingRuns: upcomingRunDates(schedule, UPCOMING_RUNS) }
+}
+
+/**
+ * Move the customers' active schedules past the runs they missed while
+ * paused (an archived customer), so they resume with the next run from
+ * `asOf` on instead of billing the gap. A schedule that ended in the gap is
+ * finished.
+ */
+export async function skipMissedRuns(customerIds: number[], asOf: Date = new Date()): Promise<void> {
+  const today = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()))
+  const schedules = await prisma.invoiceSchedule.findMany({
+    where: { customerId: { in: customerIds }, isActive: true, nextRunDate: { lt: today } },
+    select: { id: true, frequency: true, startDate: true, endDate: true, nextRunDate: true },
+  })
+
+  for (const schedule of schedules) {
+    const anchorDay = schedule.startDate.getUTCDate()
+    let nextRunDate = schedule.nextRunDate
+    while (nextRunDate < today) {
+      nextRunDate = advanceRunDate(nextRunDate, schedule.frequency, anchorDay)
+    }
+    const finished = schedule.endDate !== null && nextRunDate > schedule.endDate
+    // Guarded on the old date like a run, so a concurrent run isn't overwritten
+    await prisma.invoiceSchedule.updateMany({
+      where: { id: schedule.id, nextRunDate: schedule.nextRunDate, isActive: true },
+      data: { nextRunDate, ...(finished && { isActive: false }) },
+    })
+  }
+}
+
+/**
+ * Generate every invoice that has fallen due on the user's active schedules
+ * (or just `scheduleId`). Each run is its own transaction and claims the run
+ * date before writing, so overlapping calls never bill the same period twice.
+ */
+export async function runDueSchedules(
+  userId: string,
+  options: { asOf?: Date; scheduleId?: number; actor?: InvoiceEventActor | null } = {}
+): Promise<ScheduleRunSummary> {
+  const asOf = options.asOf ?? new Date()
+
+  const schedules = await prisma.invoiceSchedule.findMany({
+    where: {
+      userId,
+      isActive: true,
+      nextRunDate: { lte: asOf },
+      // Paused while the customer is archived (see skipMissedRuns)
+      customer: { archivedAt: null },
+      ...(options.scheduleId && { id: options.scheduleId }),
+    },
+    orderBy: { nextRunDate: "asc" },
+    include: {
+      customer: { select: { id: true, name: true, email: true } },
+      taxRate: { select: { percent: true } },
+      items: { orderBy: { id: "asc" } },
+    },
+  })
+
+  const results: ScheduleRunResult[] = []
+  let emailsSent = 0
+  let draftsWithoutEmail = 0
+  let company: InvoicePdfCompany | null = null
+
+  for (const schedule of schedules) {
+    if (schedule.items.length === 0) continue
+
+    const anchorDay = schedule.startDate.getUTCDate()
+    // Without a recipient nothing would be sent, so don't mark it SENT
+    const sending = schedule.autoSend && schedule.customer.email !== null
+    const invoices: ScheduledInvoice[] = []
+    let runDate = schedule.nextRunDate
+
+    for (let i = 0; i < MAX_RUNS_PER_SCHEDULE && runDate <= asOf; i++) {
+      if (schedule.endDate && runDate > schedule.endDate) break
+
+      const nextRunDate = advanceRunDate(runDate, schedule.frequency, anchorDay)
+      const finished = schedule.endDate !== null && nextRunDate > schedule.endDate
+      const { items, subtotal, tax, total } = calculateInvoiceTotals(
+        schedule.items.map((item) => ({
+          description: item.description,
+          serviceDate: runDate.toISOString(),
+          quantity: Number(item.quantity),
+          rate: Number(item.rate),
+          taxable: item.taxable,
+        })),
+        schedule.taxRate?.percent ?? null
+      )
+
+      const invoice = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.invoiceSchedule.updateMany({
+          where: { id: schedule.id, nextRunDate: runDate, isActive: true },
+          data: { nextRunDate, lastRunAt: new Date(), ...(finished && { isActive: false }) },
+        })
+        if (claimed.count === 0) return null
+
+        const created = await tx.invoice.create({
+          data: {
+            invoiceNumber: await nextInvoiceNumber(tx, userId),
+            customerId: schedule.customerId,
+            issueDate: runDate,
+            dueDate:
+              schedule.dueDays !== null
+                ? new Date(runDate.getTime() + schedule.dueDays * DAY_MS)
+                : null,
+            status: sending ? "SENT" : "DRAFT",
+            subtotal,
+            tax,
+            total,
+            amountPaid: 0,
+            taxRateId: schedule.taxRateId,
+            taxPercent: schedule.taxRate?.percent ?? null,
+            notes: schedule.notes,
+            terms: schedule.terms,
+            scheduleId: schedule.id,
+            userId,
+            items: {
+              create: items.map((item) => ({
+                description: item.description,
+                serviceDate: item.serviceDate,
+                quantity: item.quantity,
+                rate: item.rate,
+                amount: item.amount,
+                taxable: item.taxable,
+              })),
+            },
+          },
+        })
+
+        await recordInvoiceEvent(tx, {
+          invoiceId: created.id,
+          userId,
+          type: "CREATED",
+          data: {
+            invoiceNumber: created.invoiceNumber,
+            total: Number(total),
+            source: "schedule",
+            scheduleName: schedule.name,
+          },
+          actor: options.actor,
+        })
+
+        return created
+      })
+      // Another run got here first; it also advanced the schedule
+      if (!invoice) break
+
+      let emailed = false
+      if (schedule.autoSend && !schedule.customer.email) draftsWithoutEmail += 1
+      if (sending && schedule.customer.email) {
+        company ??= await getCompanyLetterhead()
+        const queued = await queueEmail({
+          userId,
+          template: "invoice",
+          to: schedule.customer.email,
+          email: invoiceEmail({
+            company,
+            customerName: schedule.customer.name,
+            invoiceNumber: invoice.invoiceNumber,
+            total: Number(invoice.total),
+            balanceDue: Number(invoice.total),
+            dueDate: invoice.dueDate,
+          }),
+          attachInvoicePdf: true,
+          invoiceId: invoice.id,
+          customerId: schedule.customer.id,
+        })
+        // A failed send stays queued in the outbox for retry
+        const delivered = await deliverEmail(queued.id)
+        emailed = delivered?.status === "SENT"
+        if (emailed) emailsSent += 1
+      }
+
+      invoices.push({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        issueDate: invoice.issueDate.toISOString(),
+        total: Number(invoice.total),
+        status: invoice.status,
+        emailed,
+      })
+
+      if (finished) break
+      runDate = nextRunDate
+    }
+
+    if (invoices.length > 0) {
+      results.push({ scheduleId: schedule.id, name: schedule.name, invoices })
+    }
+  }
+
+  return {
+    schedules: results,
+    invoicesCreated: results.reduce((sum, r) => sum + r.invoices.length, 0),
+    emailsSent,
+    draftsWithoutEmail,
+  }
+}
@@ -0,0 +1,55 @@
+// ---------------------------------------------------------------------------
+// Public invoice links (`/i/[token]`). Anyone holding the token can view the
+// invoice read-only, so tokens are long random strings and every lookup
+// checks revocation and expiry.
+// ---------------------------------------------------------------------------
+import { randomBytes } from "crypto"
+import { prisma } from "@/lib/prisma"
+import { recordInvoiceEvent } from "@/lib/invoice-events"
+
+// Link-preview fetchers (WhatsApp, Telegram, …) load the page as soon as the
+// link is pasted; those requests must not count as the customer viewing it.
+const PREVIEW_BOT_PATTERN =
+  /WhatsApp|facebookexternalhit|Facebot|TelegramBot|Slackbot|Twitterbot|Discordbot|LinkedInBot|SkypeUriPreview|Applebot|Googlebot|bingbot/i
+
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url")
+}
+
+export function isPreviewBot(userAgent: string | null): boolean {
+  return !!userAgent && PREVIEW_BOT_PATTERN.test(userAgent)
+}
+
+/** The live link for a token, or null if unknown, revoked or expired. */
+export async function findActiveShareLink(token: string) {
+  const link = await prisma.invoiceShareLink.findUnique({
+    where: { token },
+    select: { id: true, invoiceId: true, userId: true, expiresAt: true, revokedAt: true },
+  })
+  if (!link || link.revokedAt || link.expiresAt < new Date()) return null
+  return link
+}
+
+/**
+ * Count a customer view; the first one also stamps firstViewedAt. Each view
+ * is added to the invoice's audit trail.
+ */
+export async function recordShareLinkView(linkId: number): Promise<void> {
+  const now = new Date()
+  await prisma.$transaction(async (tx) => {
+    await tx.invoiceShareLink.updateMany({
+      where: { id: linkId, firstViewedAt: null },
+      data: { firstViewedAt: now },
+    })
+    const link = await tx.invoiceShareLink.update({
+      where: { id: linkId },
+      data: { lastViewedAt: now, viewCount: { increment: 1 } },
+    })
+    await recordInvoiceEvent(tx, {
+      invoiceId: link.invoiceId,
+      userId: link.userId,
+      type: "VIEWED",
+      data: { viewCount: link.viewCount },
+    })
+  })
+}
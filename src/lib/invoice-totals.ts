@@ -0,0 +1,84 @@
+// ---------------------------------------------------------------------------
+// Line-item and total math shared by the invoice create/update routes.
+// Tax is computed once on the sum of taxable lines (not per line) so the
+// rounding matches what a customer gets with a calculator.
+// ---------------------------------------------------------------------------
+import { Prisma } from "@/generated/prisma"
+
+export interface InvoiceItemInput {
+  description: string
+  serviceDate: string
+  quantity: number
+  rate: number
+  taxable?: boolean
+  serviceLogId?: number
+  // Late fees are kept through edits so they aren't charged twice
+  isLateFee?: boolean
+}
+
+export interface CalculatedInvoiceItem {
+  description: string
+  serviceDate: Date
+  quantity: Prisma.Decimal
+  rate: Prisma.Decimal
+  amount: Prisma.Decimal
+  taxable: boolean
+  serviceLogId: number | null
+  isLateFee: boolean
+}
+
+export interface InvoiceTotals {
+  items: CalculatedInvoiceItem[]
+  subtotal: Prisma.Decimal
+  tax: Prisma.Decimal
+  total: Prisma.Decimal
+}
+
+/**
+ * Compute item amounts, subtotal, tax and total.
+ * `taxPercent` is the rate as a percentage (11.5 = 11.5%); pass null for
+ * untaxed invoices.
+ */
+export function calculateInvoiceTotals(
+  items: InvoiceItemInput[],
+  taxPercent: Prisma.Decimal | number | null
+): InvoiceTotals {
+  const calculatedItems = items.map((item) => {
+    const quantity = new Prisma.Decimal(item.quantity)
+    const rate = new Prisma.Decimal(item.rate)
+    return {
+      description: item.description.trim(),
+      serviceDate: new Date(item.serviceDate),
+      quantity,
+      rate,
+      amount: quantity.mul(rate),
+      taxable: item.taxable === true,
+      serviceLogId: item.serviceLogId ? parseInt(String(item.serviceLogId), 10) : null,
+      isLateFee: item.isLateFee === true,
+    }
+  })
+
+  const subtotal = calculatedItems.reduce(
+    (sum, item) => sum.add(item.amount),
+    new Prisma.Decimal(0)
+  )
+
+  const taxableAmount = calculatedItems
+    .filter((item) => item.taxable)
+    .reduce((sum, item) => sum.add(item.amount), new Prisma.Decimal(0))
+
+  const tax =
+    taxPercent === null
+      ? new Prisma.Decimal(0)
+      : taxableAmount
+          .mul(new Prisma.Decimal(taxPercent))
+          .div(100)
+          .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP)
+
+  return {
+    items: calculatedItems,
+    subtotal,
+    tax,
+    total: subtotal.add(tax),
+  }
+}
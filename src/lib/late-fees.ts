@@ -0,0 +1,246 @@
+// ---------------------------------------------------------------------------
+// Late fees on overdue invoices.
+// The policy comes from Settings, overridden per customer (exempt, or a
+// custom policy). A fee is a non-taxable InvoiceItem flagged isLateFee, so
+// the number of fees already charged is read straight off the invoice and
+// repeated passes never double-charge.
+// ---------------------------------------------------------------------------
+import { Prisma, type CustomerLateFeeMode, type LateFeeType } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { recordInvoiceEvent, type InvoiceEventActor } from "@/lib/invoice-events"
+
+// Compounding policies charge again every period after the first fee
+const COMPOUND_PERIOD_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface LateFeePolicy {
+  type: LateFeeType
+  amount: number
+  graceDays: number
+  compounds: boolean
+}
+
+interface SettingsLateFees {
+  lateFeeEnabled: boolean
+  lateFeeType: LateFeeType
+  lateFeeAmount: Prisma.Decimal
+  lateFeeGraceDays: number
+  lateFeeCompounds: boolean
+  lateFeeExemptVip: boolean
+}
+
+interface CustomerLateFees {
+  isVip: boolean
+  lateFeeMode: CustomerLateFeeMode
+  lateFeeType: LateFeeType | null
+  lateFeeAmount: Prisma.Decimal | null
+  lateFeeGraceDays: number | null
+  lateFeeCompounds: boolean | null
+}
+
+export interface PlannedLateFee {
+  date: string
+  amount: number
+  description: string
+}
+
+export interface LateFeeInvoiceResult {
+  invoiceId: number
+  invoiceNumber: string
+  customerName: string
+  fees: PlannedLateFee[]
+}
+
+export interface LateFeeRunResult {
+  dryRun: boolean
+  invoices: LateFeeInvoiceResult[]
+  totalFees: number
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * The policy that applies to a customer, or null if they are not charged.
+ * A CUSTOM customer policy applies even when the default policy is off;
+ * unset custom grace/compounding fall back to the default.
+ */
+export function resolveLateFeePolicy(
+  settings: SettingsLateFees | null,
+  customer: CustomerLateFees
+): LateFeePolicy | null {
+  if (customer.lateFeeMode === "EXEMPT") return null
+
+  if (customer.lateFeeMode === "CUSTOM") {
+    if (!customer.lateFeeType || customer.lateFeeAmount === null) return null
+    return {
+      type: customer.lateFeeType,
+      amount: Number(customer.lateFeeAmount),
+      graceDays: customer.lateFeeGraceDays ?? settings?.lateFeeGraceDays ?? 0,
+      compounds: customer.lateFeeCompounds ?? settings?.lateFeeCompounds ?? false,
+    }
+  }
+
+  if (!settings?.lateFeeEnabled) return null
+  if (settings.lateFeeExemptVip && customer.isVip) return null
+  return {
+    type: settings.lateFeeType,
+    amount: Number(settings.lateFeeAmount),
+    graceDays: settings.lateFeeGraceDays,
+    compounds: settings.lateFeeCompounds,
+  }
+}
+
+/** Dates on which fees fall due by `asOf`: one, or one per period when compounding. */
+export function lateFeeDates(policy: LateFeePolicy, dueDate: Date, asOf: Date): Date[] {
+  const first = new Date(dueDate.getTime() + (policy.graceDays + 1) * DAY_MS)
+  if (first > asOf) return []
+  if (!policy.compounds) return [first]
+
+  const dates: Date[] = []
+  for (
+    let date = first;
+    date <= asOf;
+    date = new Date(date.getTime() + COMPOUND_PERIOD_DAYS * DAY_MS)
+  ) {
+    dates.push(date)
+  }
+  return dates
+}
+
+function describeFee(policy: LateFeePolicy, balance: number): string {
+  if (policy.type === "FLAT") return "Late fee"
+  return `Late fee (${policy.amount}% of $${balance.toFixed(2)} past due)`
+}
+
+/**
+ * Charge every fee that has fallen due on the user's overdue invoices.
+ * Each invoice is updated in its own transaction: fee line items, new
+ * totals, and an audit event per fee. With `dryRun`, nothing is written.
+ * The transaction locks the invoice and re-counts its fees first, so two
+ * overlapping runs can't both charge the same fee.
+ */
+export async function applyLateFees(
+  userId: string,
+  options: { asOf?: Date; dryRun?: boolean; actor?: InvoiceEventActor | null } = {}
+): Promise<LateFeeRunResult> {
+  const asOf = options.asOf ?? new Date()
+  const dryRun = options.dryRun ?? false
+
+  const [settings, invoices] = await Promise.all([
+    prisma.settings.findFirst(),
+    prisma.invoice.findMany({
+      where: {
+        userId,
+        status: { in: ["SENT", "PARTIALLY_PAID"] },
+        dueDate: { lt: asOf },
+      },
+      orderBy: { dueDate: "asc" },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        dueDate: true,
+        total: true,
+        amountPaid: true,
+        amountCredited: true,
+        customer: {
+          select: {
+            name: true,
+            isVip: true,
+            lateFeeMode: true,
+            lateFeeType: true,
+            lateFeeAmount: true,
+            lateFeeGraceDays: true,
+            lateFeeCompounds: true,
+          },
+        },
+        _count: { select: { items: { where: { isLateFee: true } } } },
+      },
+    }),
+  ])
+
+  const results: LateFeeInvoiceResult[] = []
+
+  for (const invoice of invoices) {
+    const policy = resolveLateFeePolicy(settings, invoice.customer)
+    if (!policy || policy.amount <= 0 || !invoice.dueDate) continue
+
+    const pending = lateFeeDates(policy, invoice.dueDate, asOf).slice(invoice._count.items)
+    if (pending.length === 0) continue
+
+    // Each fee is computed on the balance after the previous one
+    let balance = round2(
+      Number(invoice.total) - Number(invoice.amountCredited) - Number(invoice.amountPaid)
+    )
+    const fees: PlannedLateFee[] = []
+    for (const date of pending) {
+      if (balance <= 0) break
+      const amount =
+        policy.type === "FLAT" ? policy.amount : round2((balance * policy.amount) / 100)
+      if (amount <= 0) break
+      fees.push({ date: date.toISOString(), amount, description: describeFee(policy, balance) })
+      balance = round2(balance + amount)
+    }
+    if (fees.length === 0) continue
+
+    if (!dryRun) {
+      const applied = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Invoice" WHERE id = ${invoice.id} FOR UPDATE`
+        const current = await tx.invoice.findUniqueOrThrow({
+          where: { id: invoice.id },
+          select: { total: true, _count: { select: { items: { where: { isLateFee: true } } } } },
+        })
+        // Another run got here first; its fees are on the invoice now
+        if (current._count.items !== invoice._count.items) return false
+
+        let total = current.total
+        for (const fee of fees) {
+          total = total.add(fee.amount)
+          await tx.invoiceItem.create({
+            data: {
+              invoiceId: invoice.id,
+              description: fee.description,
+              serviceDate: new Date(fee.date),
+              quantity: 1,
+              rate: fee.amount,
+              amount: fee.amount,
+              taxable: false,
+              isLateFee: true,
+            },
+          })
+          await recordInvoiceEvent(tx, {
+            invoiceId: invoice.id,
+            userId,
+            type: "LATE_FEE_APPLIED",
+            data: { amount: fee.amount, description: fee.description, total: Number(total) },
+            actor: options.actor,
+          })
+        }
+        const feeTotal = fees.reduce((sum, fee) => sum + fee.amount, 0)
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            subtotal: { increment: new Prisma.Decimal(feeTotal.toFixed(2)) },
+            total: { increment: new Prisma.Decimal(feeTotal.toFixed(2)) },
+          },
+        })
+        return true
+      })
+      if (!applied) continue
+    }
+
+    results.push({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      customerName: invoice.customer.name,
+      fees,
+    })
+  }
+
+  return {
+    dryRun,
+    invoices: results,
+    totalFees: round2(results.reduce((sum, r) => sum + r.fees.reduce((s, f) => s + f.amount, 0), 0)),
+  }
+}
@@ -0,0 +1,215 @@
+// ---------------------------------------------------------------------------
+// Email outbox. Messages are written to EmailMessage first and then
+// delivered, so nothing is lost when SMTP is down: failed sends stay PENDING
+// with a backoff until they run out of attempts and become FAILED. What a
+// sent invoice email does to the invoice is written separately and retried
+// by the next run if it fails.
+// ---------------------------------------------------------------------------
+import type { EmailMessage } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { renderInvoicePdf } from "@/lib/invoice-pdf"
+import { recordInvoiceEvent } from "@/lib/invoice-events"
+import { getMailTransport, type OutgoingMail } from "@/lib/mail/transport"
+import type { EmailTemplate, RenderedEmail } from "@/lib/mail/templates"
+
+// A claimed message is not picked up again for this long, so two workers
+// never send the same row; a crash mid-send just delays the retry.
+const CLAIM_LEASE_MS = 10 * 60 * 1000
+const RETRY_BASE_MS = 5 * 60 * 1000
+
+interface QueueEmailInput {
+  userId: string
+  template: EmailTemplate
+  to: string
+  email: RenderedEmail
+  attachInvoicePdf?: boolean
+  invoiceId?: number | null
+  customerId?: number | null
+}
+
+export async function queueEmail(input: QueueEmailInput): Promise<EmailMessage> {
+  return prisma.emailMessage.create({
+    data: {
+      userId: input.userId,
+      template: input.template,
+      to: input.to,
+      subject: input.email.subject,
+      text: input.email.text,
+      html: input.email.html,
+      attachInvoicePdf: input.attachInvoicePdf ?? false,
+      invoiceId: input.invoiceId ?? null,
+      customerId: input.customerId ?? null,
+    },
+  })
+}
+
+/**
+ * Write what a sent invoice email means for the invoice: an EMAILED event
+ * and, for the invoice template, DRAFT -> SENT. Claims the message's
+ * recordPending flag in the same transaction, so it runs once; on failure
+ * the flag stays set for the next outbox run.
+ */
+async function recordDelivery(message: EmailMessage): Promise<void> {
+  const invoiceId = message.invoiceId
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.emailMessage.updateMany({
+      where: { id: message.id, recordPending: true },
+      data: { recordPending: false },
+    })
+    if (claimed.count === 0 || !invoiceId) return
+
+    await recordInvoiceEvent(tx, {
+      invoiceId,
+      userId: message.userId,
+      type: "EMAILED",
+      data: { template: message.template, to: message.to },
+    })
+    if (message.template === "invoice") {
+      const moved = await tx.invoice.updateMany({
+        where: { id: invoiceId, status: "DRAFT" },
+        data: { status: "SENT" },
+      })
+      if (moved.count > 0) {
+        await recordInvoiceEvent(tx, {
+          invoiceId,
+          userId: message.userId,
+          type: "STATUS_CHANGED",
+          data: { from: "DRAFT", to: "SENT", reason: "email" },
+        })
+      }
+    }
+  })
+}
+
+/**
+ * Try to send one PENDING message that is due. Returns the updated row, or
+ * null if it was not due or another request already claimed it. Sending an
+ * invoice email moves a DRAFT invoice to SENT.
+ */
+export async function deliverEmail(id: number): Promise<EmailMessage | null> {
+  const now = new Date()
+  const claimed = await prisma.emailMessage.updateMany({
+    where: { id, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+    },
+  })
+  if (claimed.count === 0) return null
+
+  const message = await prisma.emailMessage.findUniqueOrThrow({ where: { id } })
+
+  let providerMessageId: string
+  try {
+    const transport = await getMailTransport()
+    if (!transport) throw new Error("Email is not configured. Add SMTP settings first.")
+
+    const mail: OutgoingMail = {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    }
+
+    if (message.attachInvoicePdf && message.invoiceId) {
+      const rendered = await renderInvoicePdf(message.invoiceId, message.userId)
+      if (!rendered) throw new Error("Invoice for the attachment no longer exists")
+      mail.attachments = [
+        {
+          filename: `${rendered.invoiceNumber}.pdf`,
+          content: rendered.pdf,
+          contentType: "application/pdf",
+        },
+      ]
+    }
+
+    providerMessageId = (await transport.send(mail)).messageId
+  } catch (error) {
+    const exhausted = message.attempts >= message.maxAttempts
+    console.error(`Failed to send email ${id} (attempt ${message.attempts}):`, error)
+    return prisma.emailMessage.update({
+      where: { id },
+      data: {
+        status: exhausted ? "FAILED" : "PENDING",
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (message.attempts - 1)),
+      },
+    })
+  }
+
+  // Marked SENT on its own straight after the send, so a failure in the
+  // invoice updates can't put the message back in the queue to go out twice
+  const sent = await prisma.emailMessage.update({
+    where: { id },
+    data: {
+      status: "SENT",
+      sentAt: new Date(),
+      providerMessageId,
+      lastError: null,
+      recordPending: message.invoiceId !== null,
+    },
+  })
+
+  if (sent.recordPending) {
+    try {
+      await recordDelivery(sent)
+      return { ...sent, recordPending: false }
+    } catch (error) {
+      console.error(`Failed to record delivery of email ${id}; will retry:`, error)
+    }
+  }
+  return sent
+}
+
+/** Put a FAILED (or waiting) message back at the front of the queue. */
+export async function requeueEmail(id: number): Promise<void> {
+  const message = await prisma.emailMessage.findUniqueOrThrow({ where: { id } })
+  await prisma.emailMessage.update({
+    where: { id },
+    data: {
+      status: "PENDING",
+      nextAttemptAt: new Date(),
+      // Give an exhausted message one more try
+      maxAttempts: Math.max(message.maxAttempts, message.attempts + 1),
+    },
+  })
+}
+
+/**
+ * Deliver every due PENDING message for the user, oldest first, after
+ * retrying the invoice updates of messages already sent.
+ */
+export async function processOutbox(
+  userId: string,
+  limit = 25
+): Promise<{ sent: number; failed: number; pending: number }> {
+  const unrecorded = await prisma.emailMessage.findMany({
+    where: { userId, status: "SENT", recordPending: true },
+    orderBy: { sentAt: "asc" },
+    take: limit,
+  })
+  for (const message of unrecorded) {
+    try {
+      await recordDelivery(message)
+    } catch (error) {
+      console.error(`Failed to record delivery of email ${message.id}:`, error)
+    }
+  }
+
+  const due = await prisma.emailMessage.findMany({
+    where: { userId, status: "PENDING", nextAttemptAt: { lte: new Date() } },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+    select: { id: true },
+  })
+
+  const result = { sent: 0, failed: 0, pending: 0 }
+  for (const { id } of due) {
+    const message = await deliverEmail(id)
+    if (!message) continue
+    if (message.status === "SENT") result.sent += 1
+    else if (message.status === "FAILED") result.failed += 1
+    else result.pending += 1
+  }
+  return result
+}
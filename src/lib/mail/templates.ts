@@ -0,0 +1,140 @@
+// ---------------------------------------------------------------------------
+// Email templates. Each returns the subject plus plain-text and HTML bodies;
+// the HTML is deliberately simple so it survives every mail client.
+// ---------------------------------------------------------------------------
+import type { InvoicePdfCompany } from "@/components/invoices/pdf/invoice-pdf"
+
+export type EmailTemplate = "invoice" | "reminder" | "test"
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+interface InvoiceEmailData {
+  company: InvoicePdfCompany
+  customerName: string
+  invoiceNumber: string
+  total: number
+  balanceDue: number
+  dueDate: Date | null
+  /** Optional personal note from the sender, shown above the summary */
+  message?: string | null
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value)
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("")
+}
+
+function layout(company: InvoicePdfCompany, body: string): string {
+  const contact = [company.phone, company.email, company.website].filter(Boolean).join(" · ")
+  return `<!doctype html>
+<html><body style="margin:0;padding:24px;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:#0f172a;font-size:14px;line-height:1.5">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:8px;padding:24px">
+<div style="font-size:18px;font-weight:bold;margin-bottom:16px">${escapeHtml(company.name)}</div>
+${body}
+${contact ? `<div style="margin-top:24px;padding-top:12px;border-top:1px solid #e2e8f0;font-size:12px;color:#64748b">${escapeHtml(contact)}</div>` : ""}
+</div></body></html>`
+}
+
+function summaryTable(rows: [string, string][]): string {
+  return `<table style="width:100%;border-collapse:collapse;margin:16px 0">${rows
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:6px 0;color:#64748b">${escapeHtml(label)}</td><td style="padding:6px 0;text-align:right;font-weight:bold">${escapeHtml(value)}</td></tr>`
+    )
+    .join("")}</table>`
+}
+
+/** New invoice, sent with the PDF attached. */
+export function invoiceEmail(data: InvoiceEmailData): RenderedEmail {
+  const intro =
+    data.message?.trim() ||
+    `Please find attached invoice ${data.invoiceNumber}. Thank you for your business.`
+  const rows: [string, string][] = [
+    ["Invoice", data.invoiceNumber],
+    ["Amount", formatCurrency(data.total)],
+    ...(data.dueDate ? [["Due", formatDate(data.dueDate)] as [string, string]] : []),
+  ]
+
+  return {
+    subject: `Invoice ${data.invoiceNumber} from ${data.company.name}`,
+    text: [
+      `Hi ${data.customerName},`,
+      intro,
+      rows.map(([label, value]) => `${label}: ${value}`).join("\n"),
+      data.company.name,
+    ].join("\n\n"),
+    html: layout(
+      data.company,
+      `<p>Hi ${escapeHtml(data.customerName)},</p>${paragraphs(intro)}${summaryTable(rows)}`
+    ),
+  }
+}
+
+/** Friendly nudge for an invoice that still has a balance. */
+export function reminderEmail(data: InvoiceEmailData): RenderedEmail {
+  const overdue = data.dueDate !== null && data.dueDate.getTime() < Date.now()
+  const intro =
+    data.message?.trim() ||
+    (overdue
+      ? `This is a reminder that invoice ${data.invoiceNumber} is past due. If you have already sent payment, please disregard this message.`
+      : `This is a friendly reminder that invoice ${data.invoiceNumber} has a balance due.`)
+  const rows: [string, string][] = [
+    ["Invoice", data.invoiceNumber],
+    ["Balance Due", formatCurrency(data.balanceDue)],
+    ...(data.dueDate ? [["Due", formatDate(data.dueDate)] as [string, string]] : []),
+  ]
+
+  return {
+    subject: `${overdue ? "Past due: " : "Reminder: "}Invoice ${data.invoiceNumber} from ${data.company.name}`,
+    text: [
+      `Hi ${data.customerName},`,
+      intro,
+      rows.map(([label, value]) => `${label}: ${value}`).join("\n"),
+      data.company.name,
+    ].join("\n\n"),
+    html: layout(
+      data.company,
+      `<p>Hi ${escapeHtml(data.customerName)},</p>${paragraphs(intro)}${summaryTable(rows)}`
+    ),
+  }
+}
+
+/** Sent from Settings to check the SMTP configuration. */
+export function testEmail(company: InvoicePdfCompany): RenderedEmail {
+  const text = `This is a test message from ${company.name}. If you can read this, outbound email is working.`
+  return {
+    subject: `Test email from ${company.name}`,
+    text,
+    html: layout(company, paragraphs(text)),
+  }
+}
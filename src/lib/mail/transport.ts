@@ -0,0 +1,103 @@
+// ---------------------------------------------------------------------------
+// Mail transport — SMTP config from DB Settings, falling back to env vars.
+// Works with any SMTP server, including local catchers such as Mailpit
+// (host localhost, port 1025, no auth).
+// ---------------------------------------------------------------------------
+import nodemailer from "nodemailer"
+import { prisma } from "@/lib/prisma"
+import { decrypt } from "@/lib/encryption"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string | null
+  password: string | null
+  fromEmail: string
+  fromName: string | null
+}
+
+export interface OutgoingMail {
+  to: string
+  subject: string
+  text: string
+  html?: string | null
+  attachments?: { filename: string; content: Buffer; contentType: string }[]
+}
+
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<{ messageId: string }>
+}
+
+/** Resolved SMTP config, or null when no host / from address is set anywhere. */
+export async function getSmtpConfig(): Promise<SmtpConfig | null> {
+  const settings = await prisma.settings.findFirst({
+    select: {
+      smtpHost: true,
+      smtpPort: true,
+      smtpSecure: true,
+      smtpUser: true,
+      smtpPassword: true,
+      smtpFromEmail: true,
+      smtpFromName: true,
+      companyName: true,
+      companyEmail: true,
+    },
+  })
+
+  const host = settings?.smtpHost || process.env.SMTP_HOST
+  const fromEmail =
+    settings?.smtpFromEmail || process.env.SMTP_FROM_EMAIL || settings?.companyEmail
+  if (!host || !fromEmail) return null
+
+  const secure = settings?.smtpHost ? settings.smtpSecure : process.env.SMTP_SECURE === "true"
+  const port =
+    (settings?.smtpHost ? settings.smtpPort : null) ??
+    (process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : secure ? 465 : 587)
+
+  return {
+    host,
+    port,
+    secure,
+    user: (settings?.smtpHost ? settings.smtpUser : process.env.SMTP_USER) || null,
+    password: settings?.smtpHost
+      ? settings.smtpPassword
+        ? decrypt(settings.smtpPassword)
+        : null
+      : process.env.SMTP_PASSWORD || null,
+    fromEmail,
+    fromName: settings?.smtpFromName || process.env.SMTP_FROM_NAME || settings?.companyName || null,
+  }
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+  })
+  const from = config.fromName
+    ? { name: config.fromName, address: config.fromEmail }
+    : config.fromEmail
+
+  return {
+    async send(mail) {
+      const info = await transporter.sendMail({
+        from,
+        to: mail.to,
+        subject: mail.subject,
+        text: mail.text,
+        html: mail.html ?? undefined,
+        attachments: mail.attachments,
+      })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+/** Transport for the current settings, or null when email is not set up. */
+export async function getMailTransport(): Promise<MailTransport | null> {
+  const config = await getSmtpConfig()
+  return config ? createSmtpTransport(config) : null
+}
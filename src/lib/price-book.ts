@@ -0,0 +1,204 @@
+// ---------------------------------------------------------------------------
+// Customer price book.
+// A price is looked up for a location (the customer's own address or one of
+// their properties), a service type and a date. Of the entries in effect on
+// that date, the most specific one wins:
+//   1. the property's entry for the service type, then for any service
+//   2. the property's default price
+//   3. the customer's entry for the service type, then for any service
+// With none of those, the last price charged at the location is used
+// (preferring the same service type).
+// ---------------------------------------------------------------------------
+import { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+
+/** Entry fields returned by the price book API. */
+export const priceBookEntrySelect = {
+  id: true,
+  propertyId: true,
+  serviceTypeId: true,
+  price: true,
+  effectiveFrom: true,
+  notes: true,
+  property: { select: { label: true, address: true } },
+  serviceType: { select: { name: true, icon: true } },
+} satisfies Prisma.PriceBookEntrySelect
+
+export type PriceSource = "PROPERTY" | "PROPERTY_DEFAULT" | "CUSTOMER" | "LAST_CHARGED"
+
+export interface ResolvedPrice {
+  price: number
+  source: PriceSource
+  // The entry used, for PROPERTY and CUSTOMER prices
+  entryId: number | null
+  // When the entry took effect, or the date of the service last charged
+  since: Date | null
+}
+
+export interface PriceLocation {
+  customerId: number
+  propertyId: number | null
+  // Undefined: whatever service was last done at the location
+  serviceTypeId?: number | null
+}
+
+export function priceLocationKey(customerId: number, propertyId: number | null): string {
+  return `${customerId}:${propertyId ?? ""}`
+}
+
+interface EntryForLookup {
+  id: number
+  propertyId: number | null
+  serviceTypeId: number | null
+  price: Prisma.Decimal
+  effectiveFrom: Date
+}
+
+// Entries are newest first, so the first match is the one in effect
+function findEntry(
+  entries: EntryForLookup[],
+  propertyId: number | null,
+  serviceTypeId: number | null
+): EntryForLookup | undefined {
+  const atLocation = entries.filter((e) => e.propertyId === propertyId)
+  return (
+    (serviceTypeId !== null ? atLocation.find((e) => e.serviceTypeId === serviceTypeId) : undefined) ??
+    atLocation.find((e) => e.serviceTypeId === null)
+  )
+}
+
+function fromEntry(entry: EntryForLookup, source: PriceSource): ResolvedPrice {
+  return { price: Number(entry.price), source, entryId: entry.id, since: entry.effectiveFrom }
+}
+
+/**
+ * Prices for many locations as of `date`, in three queries however many
+ * there are. Keyed by priceLocationKey; a location with no entry and no
+ * service history is left out.
+ */
+export async function resolvePrices(
+  locations: PriceLocation[],
+  date: Date = new Date()
+): Promise<Map<string, ResolvedPrice>> {
+  const resolved = new Map<string, ResolvedPrice>()
+  if (locations.length === 0) return resolved
+
+  const customerIds = [...new Set(locations.map((l) => l.customerId))]
+  const propertyIds = [
+    ...new Set(locations.map((l) => l.propertyId).filter((id): id is number => id !== null)),
+  ]
+
+  const [entries, properties, recentLogs] = await Promise.all([
+    prisma.priceBookEntry.findMany({
+      where: { customerId: { in: customerIds }, effectiveFrom: { lte: date } },
+      orderBy: [{ effectiveFrom: "desc" }, { id: "desc" }],
+      select: {
+        id: true,
+        customerId: true,
+        propertyId: true,
+        serviceTypeId: true,
+        price: true,
+        effectiveFrom: true,
+      },
+    }),
+    prisma.property.findMany({
+      where: { id: { in: propertyIds } },
+      select: { id: true, defaultPrice: true },
+    }),
+    // Latest service per location and service type. Prisma's `distinct`
+    // filters in memory after loading every log, so pick them in SQL.
+    prisma.$queryRaw<
+      {
+        id: number
+        customerId: number
+        propertyId: number | null
+        serviceTypeId: number | null
+        priceCharged: Prisma.Decimal
+        serviceDate: Date
+      }[]
+    >`
+      SELECT DISTINCT ON ("customerId", "propertyId", "serviceTypeId")
+        id, "customerId", "propertyId", "serviceTypeId", "priceCharged", "serviceDate"
+      FROM "ServiceLog"
+      WHERE "customerId" IN (${Prisma.join(customerIds)}) AND "serviceDate" <= ${date}
+      ORDER BY "customerId", "propertyId", "serviceTypeId", "serviceDate" DESC, id DESC
+    `,
+  ])
+  // Newest first, so a location's first log is its latest service
+  recentLogs.sort((a, b) => b.serviceDate.getTime() - a.serviceDate.getTime() || b.id - a.id)
+
+  const entriesByCustomer = new Map<number, EntryForLookup[]>()
+  for (const entry of entries) {
+    entriesByCustomer.set(entry.customerId, [...(entriesByCustomer.get(entry.customerId) ?? []), entry])
+  }
+  const defaultPrices = new Map(properties.map((p) => [p.id, p.defaultPrice]))
+  const logsByLocation = new Map<string, typeof recentLogs>()
+  for (const log of recentLogs) {
+    const key = priceLocationKey(log.customerId, log.propertyId)
+    logsByLocation.set(key, [...(logsByLocation.get(key) ?? []), log])
+  }
+
+  for (const { customerId, propertyId, serviceTypeId: requestedType } of locations) {
+    const key = priceLocationKey(customerId, propertyId)
+    const logs = logsByLocation.get(key) ?? []
+    const serviceTypeId = requestedType !== undefined ? requestedType : (logs[0]?.serviceTypeId ?? null)
+    const customerEntries = entriesByCustomer.get(customerId) ?? []
+
+    const propertyEntry =
+      propertyId !== null ? findEntry(customerEntries, propertyId, serviceTypeId) : undefined
+    const defaultPrice = propertyId !== null ? defaultPrices.get(propertyId) : null
+    const customerEntry = findEntry(customerEntries, null, serviceTypeId)
+    const lastLog =
+      (serviceTypeId !== null ? logs.find((l) => l.serviceTypeId === serviceTypeId) : undefined) ??
+      logs[0]
+
+    if (propertyEntry) {
+      resolved.set(key, fromEntry(propertyEntry, "PROPERTY"))
+    } else if (defaultPrice != null) {
+      resolved.set(key, { price: Number(defaultPrice), source: "PROPERTY_DEFAULT", entryId: null, since: null })
+    } else if (customerEntry) {
+      resolved.set(key, fromEntry(customerEntry, "CUSTOMER"))
+    } else if (lastLog) {
+      resolved.set(key, {
+        price: Number(lastLog.priceCharged),
+        source: "LAST_CHARGED",
+        entryId: null,
+        since: lastLog.serviceDate,
+      })
+    }
+  }
+
+  return resolved
+}
+
+/** The price for one location; see resolvePrices. */
+export async function resolvePrice(location: PriceLocation, date?: Date): Promise<ResolvedPrice | null> {
+  const prices = await resolvePrices([location], date)
+  return prices.get(priceLocationKey(location.customerId, location.propertyId)) ?? null
+}
+
+/**
+ * Check an entry's property belongs to the customer and its service type to
+ * the user. Returns an error message, or null when both are fine.
+ */
+export async function validatePriceBookTargets(
+  userId: string,
+  customerId: number,
+  target: { propertyId?: number | null; serviceTypeId?: number | null }
+): Promise<string | null> {
+  if (target.propertyId != null) {
+    const property = await prisma.property.findFirst({
+      where: { id: target.propertyId, customerId },
+      select: { id: true },
+    })
+    if (!property) return "Property not found for this customer"
+  }
+  if (target.serviceTypeId != null) {
+    const serviceType = await prisma.serviceType.findFirst({
+      where: { id: target.serviceTypeId, userId },
+      select: { id: true },
+    })
+    if (!serviceType) return "Service type not found"
+  }
+  return null
+}
@@ -0,0 +1,297 @@
+// ---------------------------------------------------------------------------
+// Bulk price increases.
+// Raises the price book entries and property default prices in effect on a
+// date, limited by service type, customer tag and VIP status; archived
+// customers are left alone. Every raised price gets a new entry from that
+// date rather than being edited, so services before it keep their price and
+// rolling the increase back is just deleting the new entries.
+// ---------------------------------------------------------------------------
+import type { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { tagFilterWhere } from "@/lib/customer-segments"
+import { csvCell } from "@/lib/text"
+import type { PRICE_ROUNDING_RULES } from "@/lib/validations/customers"
+
+export type PriceRounding = (typeof PRICE_ROUNDING_RULES)[number]
+
+export interface PriceIncreaseFilters {
+  serviceTypeIds: number[]
+  tagIds: number[]
+  vip: "all" | "vip" | "non-vip"
+}
+
+export interface PriceIncreaseInput {
+  type: "FLAT" | "PERCENT"
+  amount: number
+  rounding: PriceRounding
+  effectiveFrom: string
+  filters: PriceIncreaseFilters
+}
+
+/** One raised price, kept on the PriceIncrease for notification messages. */
+export interface PriceChange {
+  customerId: number
+  customerName: string
+  email: string | null
+  phone: string
+  propertyId: number | null
+  // Property label or address; null for the customer's own price
+  location: string | null
+  serviceTypeId: number | null
+  // Null for a price covering any service
+  serviceType: string | null
+  oldPrice: number
+  newPrice: number
+}
+
+export function roundPrice(value: number, rule: PriceRounding): number {
+  // Cents first, so 44.999999 doesn't round up to 45 under "up-*"
+  const cents = Math.round(value * 100) / 100
+  switch (rule) {
+    case "dollar":
+      return Math.round(cents)
+    case "up-dollar":
+      return Math.ceil(cents)
+    case "five":
+      return Math.round(cents / 5) * 5
+    case "up-five":
+      return Math.ceil(cents / 5) * 5
+    default:
+      return cents
+  }
+}
+
+export function raisePrice(
+  price: number,
+  { type, amount, rounding }: Pick<PriceIncreaseInput, "type" | "amount" | "rounding">
+): number {
+  const raised = type === "PERCENT" ? price * (1 + amount / 100) : price + amount
+  return roundPrice(raised, rounding)
+}
+
+/**
+ * The prices an increase would change: for each active customer, location
+ * and service matching the filters, the entry in effect on the effective
+ * date, plus property default prices no property entry overrides (raised
+ * by adding a property entry). Prices the rounding leaves unchanged are
+ * skipped. Sorted by customer.
+ */
+export async function previewPriceIncrease(
+  userId: string,
+  input: PriceIncreaseInput
+): Promise<PriceChange[]> {
+  const { serviceTypeIds, tagIds, vip } = input.filters
+  const effectiveFrom = new Date(input.effectiveFrom)
+  const customerWhere: Prisma.CustomerWhereInput = {
+    archivedAt: null,
+    ...(vip !== "all" && { isVip: vip === "vip" }),
+    ...tagFilterWhere(tagIds, "any"),
+  }
+
+  const [entries, defaultPriced, serviceTypes] = await Promise.all([
+    prisma.priceBookEntry.findMany({
+      where: {
+        userId,
+        effectiveFrom: { lte: effectiveFrom },
+        ...(serviceTypeIds.length > 0 && { serviceTypeId: { in: serviceTypeIds } }),
+        customer: customerWhere,
+      },
+      orderBy: [{ effectiveFrom: "desc" }, { id: "desc" }],
+      select: {
+        customerId: true,
+        propertyId: true,
+        serviceTypeId: true,
+        price: true,
+        customer: { select: { name: true, email: true, phone: true } },
+        property: { select: { label: true, address: true } },
+        serviceType: { select: { name: true } },
+      },
+    }),
+    prisma.property.findMany({
+      where: { userId, defaultPrice: { not: null }, customer: customerWhere },
+      select: {
+        id: true,
+        customerId: true,
+        label: true,
+        address: true,
+        defaultPrice: true,
+        customer: { select: { name: true, email: true, phone: true } },
+        // Property entries in effect, which take precedence over the default
+        priceBookEntries: {
+          where: { effectiveFrom: { lte: effectiveFrom } },
+          select: { serviceTypeId: true },
+        },
+      },
+    }),
+    serviceTypeIds.length > 0
+      ? prisma.serviceType.findMany({
+          where: { id: { in: serviceTypeIds }, userId },
+          select: { id: true, name: true },
+        })
+      : Promise.resolve([]),
+  ])
+
+  // Newest first, so the first entry per key is the one in effect
+  const seen = new Set<string>()
+  const changes: PriceChange[] = []
+  for (const entry of entries) {
+    const key = `${entry.customerId}:${entry.propertyId}:${entry.serviceTypeId}`
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    const oldPrice = Number(entry.price)
+    const newPrice = raisePrice(oldPrice, input)
+    if (newPrice === oldPrice) continue
+    changes.push({
+      customerId: entry.customerId,
+      customerName: entry.customer.name,
+      email: entry.customer.email,
+      phone: entry.customer.phone,
+      propertyId: entry.propertyId,
+      location: entry.property ? entry.property.label ?? entry.property.address : null,
+      serviceTypeId: entry.serviceTypeId,
+      serviceType: entry.serviceType?.name ?? null,
+      oldPrice,
+      newPrice,
+    })
+  }
+
+  // A property's default applies to every service without a property entry
+  // of its own. Unfiltered, that is the "any service" price; filtered, one
+  // price per selected service type, unless an "any service" entry already
+  // overrides the default.
+  for (const property of defaultPriced) {
+    const entryTypes = new Set(property.priceBookEntries.map((e) => e.serviceTypeId))
+    if (entryTypes.has(null)) continue
+    const types = serviceTypeIds.length > 0 ? serviceTypes : [null]
+
+    const oldPrice = Number(property.defaultPrice)
+    const newPrice = raisePrice(oldPrice, input)
+    if (newPrice === oldPrice) continue
+    for (const type of types) {
+      if (type && entryTypes.has(type.id)) continue
+      changes.push({
+        customerId: property.customerId,
+        customerName: property.customer.name,
+        email: property.customer.email,
+        phone: property.customer.phone,
+        propertyId: property.id,
+        location: property.label ?? property.address,
+        serviceTypeId: type?.id ?? null,
+        serviceType: type?.name ?? null,
+        oldPrice,
+        newPrice,
+      })
+    }
+  }
+
+  return changes.sort(
+    (a, b) =>
+      a.customerName.localeCompare(b.customerName) ||
+      a.customerId - b.customerId ||
+      (a.location ?? "").localeCompare(b.location ?? "") ||
+      (a.serviceType ?? "").localeCompare(b.serviceType ?? "")
+  )
+}
+
+/**
+ * Add a new price book entry for every change and record the increase.
+ * Returns null when nothing matches.
+ */
+export async function applyPriceIncrease(userId: string, input: PriceIncreaseInput) {
+  const changes = await previewPriceIncrease(userId, input)
+  if (changes.length === 0) return null
+
+  const effectiveFrom = new Date(input.effectiveFrom)
+  return prisma.$transaction(async (tx) => {
+    const increase = await tx.priceIncrease.create({
+      data: {
+        type: input.type,
+        amount: input.amount,
+        rounding: input.rounding,
+        effectiveFrom,
+        filters: input.filters as unknown as Prisma.InputJsonValue,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        userId,
+      },
+    })
+    await tx.priceBookEntry.createMany({
+      data: changes.map((change) => ({
+        customerId: change.customerId,
+        propertyId: change.propertyId,
+        serviceTypeId: change.serviceTypeId,
+        price: change.newPrice,
+        effectiveFrom,
+        priceIncreaseId: increase.id,
+        userId,
+      })),
+    })
+    return increase
+  })
+}
+
+/**
+ * A later increase, not rolled back, that raised any of the same prices.
+ * Increases stack, so they must be rolled back newest first: undoing an
+ * older one under a newer one would leave the newer, inflated prices in
+ * effect.
+ */
+export async function findNewerOverlappingIncrease(increase: {
+  id: number
+  userId: string
+  changes: Prisma.JsonValue
+}) {
+  const changes = (increase.changes ?? []) as unknown as PriceChange[]
+  if (changes.length === 0) return null
+
+  const entry = await prisma.priceBookEntry.findFirst({
+    where: {
+      priceIncrease: { id: { gt: increase.id }, userId: increase.userId, rolledBackAt: null },
+      OR: changes.map((change) => ({
+        customerId: change.customerId,
+        propertyId: change.propertyId,
+        serviceTypeId: change.serviceTypeId,
+      })),
+    },
+    orderBy: { priceIncreaseId: "desc" },
+    select: { priceIncrease: { select: { id: true, createdAt: true } } },
+  })
+  return entry?.priceIncrease ?? null
+}
+
+/**
+ * Delete the entries an increase added, including ones edited since, so
+ * the prices before it apply again.
+ */
+export async function rollbackPriceIncrease(increaseId: number) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.priceBookEntry.deleteMany({ where: { priceIncreaseId: increaseId } })
+    const increase = await tx.priceIncrease.update({
+      where: { id: increaseId },
+      data: { rolledBackAt: new Date() },
+    })
+    return { ...increase, removedEntries: count }
+  })
+}
+
+/** One row per changed price, for drafting the customer notices. */
+export function priceChangesToCsv(changes: PriceChange[], effectiveFrom: Date): string {
+  const date = effectiveFrom.toISOString().split("T")[0]
+  const header = "Customer,Email,Phone,Location,Service,Old Price,New Price,Effective From\n"
+  const rows = changes
+    .map((change) =>
+      [
+        csvCell(change.customerName),
+        csvCell(change.email ?? ""),
+        csvCell(change.phone),
+        csvCell(change.location ?? ""),
+        csvCell(change.serviceType ?? "Any service"),
+        change.oldPrice.toFixed(2),
+        change.newPrice.toFixed(2),
+        date,
+      ].join(",")
+    )
+    .join("\n")
+
+  return header + rows
+}
@@ -0,0 +1,62 @@
+// ---------------------------------------------------------------------------
+// Customer properties (extra service locations).
+// A service log or route stop without a property is at the customer's own
+// address. Due dates are tracked per location; see computeCustomerDueDateInfo
+// in due-date.ts.
+// ---------------------------------------------------------------------------
+import type { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+
+/** Property fields returned alongside customers, service logs and stops. */
+export const propertySelect = {
+  id: true,
+  label: true,
+  address: true,
+  accessNotes: true,
+  serviceInterval: true,
+  defaultPrice: true,
+} satisfies Prisma.PropertySelect
+
+/**
+ * Latest service date per customer and location, in one query. The inner
+ * map is keyed by propertyId, with null for the customer's own address.
+ */
+export async function lastServiceDatesByLocation(
+  customerIds: number[]
+): Promise<Map<number, Map<number | null, Date>>> {
+  const byCustomer = new Map<number, Map<number | null, Date>>()
+  if (customerIds.length === 0) return byCustomer
+
+  const groups = await prisma.serviceLog.groupBy({
+    by: ["customerId", "propertyId"],
+    where: { customerId: { in: customerIds } },
+    _max: { serviceDate: true },
+  })
+
+  for (const group of groups) {
+    if (!group._max.serviceDate) continue
+    const dates = byCustomer.get(group.customerId) ?? new Map<number | null, Date>()
+    dates.set(group.propertyId, group._max.serviceDate)
+    byCustomer.set(group.customerId, dates)
+  }
+  return byCustomer
+}
+
+/**
+ * Check that `propertyId` belongs to the customer. Returns null for no
+ * property (the customer's own address) and false when it doesn't match.
+ */
+export async function resolvePropertyId(
+  customerId: number,
+  propertyId: unknown
+): Promise<number | null | false> {
+  if (propertyId === null || propertyId === undefined || propertyId === "") return null
+  const id = parseInt(String(propertyId), 10)
+  if (isNaN(id)) return false
+
+  const property = await prisma.property.findFirst({
+    where: { id, customerId },
+    select: { id: true },
+  })
+  return property ? property.id : false
+}
@@ -0,0 +1,20 @@
+// ---------------------------------------------------------------------------
+// Text helpers shared by the CSV exports and the fuzzy matching in customer
+// merge and geocoding.
+// ---------------------------------------------------------------------------
+
+/** A CSV field, always quoted, with embedded quotes doubled. */
+export function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+/** Lowercase, strip accents and punctuation, collapse whitespace. */
+export function foldText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
@@ -0,0 +1,242 @@
+import { z } from "zod"
+
+// ---------------------------------------------------------------------------
+// Shared refinements
+// ---------------------------------------------------------------------------
+
+const trimmedString = (max = 500) => z.string().trim().min(1).max(max)
+const duplicateAction = z.enum(["update", "skip"])
+const optionalText = z.string().max(2000).transform((s) => s.trim() || null).nullable().optional()
+const serviceInterval = z.coerce.number().int().min(1).max(3650).nullable().optional()
+
+// ---------------------------------------------------------------------------
+// CSV import
+// ---------------------------------------------------------------------------
+
+const importCustomerRow = z.object({
+  name: trimmedString(200),
+  phone: trimmedString(50),
+  email: z
+    .string()
+    .trim()
+    .transform((s) => s.toLowerCase() || null)
+    .pipe(z.email("Invalid email address").nullable())
+    .nullable()
+    .optional(),
+  address: trimmedString(500),
+  serviceInterval,
+  isVip: z.boolean().optional(),
+  // Overrides the request-wide action for this row when it matches a customer
+  duplicateAction: duplicateAction.optional(),
+})
+
+export const importCustomersSchema = z.object({
+  customers: z.array(importCustomerRow).min(1).max(5000),
+  // What to do with rows matching an existing customer by phone or email
+  duplicateAction: duplicateAction.default("skip"),
+  // Report what each row would do without writing anything
+  dryRun: z.boolean().default(false),
+})
+
+// ---------------------------------------------------------------------------
+// Duplicate merge
+// ---------------------------------------------------------------------------
+
+const mergeFieldSource = z.enum(["survivor", "merged"])
+
+export const mergeCustomersSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedId: z.number().int().positive(),
+  // Which customer each field is taken from; survivor by default
+  fields: z.object({
+    name: mergeFieldSource.optional(),
+    phone: mergeFieldSource.optional(),
+    email: mergeFieldSource.optional(),
+    address: mergeFieldSource.optional(),
+    serviceInterval: mergeFieldSource.optional(),
+    isVip: mergeFieldSource.optional(),
+  }).default({}),
+}).refine((data) => data.survivorId !== data.mergedId, "Cannot merge a customer into itself")
+
+// ---------------------------------------------------------------------------
+// Properties
+// ---------------------------------------------------------------------------
+
+const propertyFields = {
+  label: z.string().max(100).transform((s) => s.trim() || null).nullable().optional(),
+  address: trimmedString(500),
+  accessNotes: optionalText,
+  // Falls back to the customer's interval when unset
+  serviceInterval,
+  defaultPrice: z.coerce.number().min(0).nullable().optional(),
+}
+
+export const createPropertySchema = z.object(propertyFields)
+
+export const updatePropertySchema = z
+  .object(propertyFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+// ---------------------------------------------------------------------------
+// Interactions (timeline entries)
+// ---------------------------------------------------------------------------
+
+export const INTERACTION_TYPES = ["CALL", "TEXT", "EMAIL", "VISIT", "NOTE"] as const
+
+const interactionFields = {
+  type: z.enum(INTERACTION_TYPES),
+  body: trimmedString(5000),
+  // Defaults to now; back-date entries for calls logged after the fact
+  occurredAt: z.string().refine((s) => !isNaN(Date.parse(s)), "Invalid date").optional(),
+}
+
+export const createInteractionSchema = z.object(interactionFields)
+
+export const updateInteractionSchema = z
+  .object(interactionFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+// ---------------------------------------------------------------------------
+// Tags and segments
+// ---------------------------------------------------------------------------
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff0000")
+const idList = z.array(z.number().int().positive()).max(500)
+
+export const createTagSchema = z.object({
+  name: trimmedString(50),
+  color: hexColor.nullable().optional(),
+})
+
+export const updateTagSchema = createTagSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+export const assignTagsSchema = z.object({
+  customerIds: idList.min(1),
+  addTagIds: idList.default([]),
+  removeTagIds: idList.default([]),
+}).refine(
+  (data) => data.addTagIds.length > 0 || data.removeTagIds.length > 0,
+  "Choose at least one tag to add or remove"
+)
+
+export const archiveCustomersSchema = z.object({
+  customerIds: idList.min(1),
+  archived: z.boolean(),
+})
+
+export const DUE_STATUS_FILTERS = ["late", "due-today", "due-soon", "on-track", "none"] as const
+
+export const segmentFiltersSchema = z.object({
+  tagIds: idList.default([]),
+  // "any": has at least one of the tags; "all": has every tag
+  tagMatch: z.enum(["any", "all"]).default("any"),
+  serviceIntervals: z.array(z.number().int().min(1).max(3650)).max(20).default([]),
+  // "none" matches customers without a schedule
+  dueStatuses: z.array(z.enum(DUE_STATUS_FILTERS)).default([]),
+  // Open balance: sent invoices plus unbilled completed services
+  minBalance: z.number().min(0).nullable().default(null),
+  maxBalance: z.number().min(0).nullable().default(null),
+}).refine(
+  (data) => data.minBalance === null || data.maxBalance === null || data.minBalance <= data.maxBalance,
+  "Minimum balance cannot be above the maximum"
+)
+
+export const createSegmentSchema = z.object({
+  name: trimmedString(100),
+  filters: segmentFiltersSchema,
+})
+
+export const updateSegmentSchema = createSegmentSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+// ---------------------------------------------------------------------------
+// Geocoding
+// ---------------------------------------------------------------------------
+
+const latitude = z.number().min(-90).max(90)
+const longitude = z.number().min(-180).max(180)
+
+// Placing a customer by hand; null for both clears the pin and re-geocodes
+export const customerLocationSchema = z.object({
+  latitude: latitude.nullable(),
+  longitude: longitude.nullable(),
+}).refine(
+  (data) => (data.latitude === null) === (data.longitude === null),
+  "Latitude and longitude must be set together"
+)
+
+export const geocodeCustomersSchema = z.object({
+  // Also retry customers looked up before (not found, or a ZIP centroid)
+  force: z.boolean().default(false),
+  customerIds: idList.optional(),
+})
+
+const geocodePointRow = z.object({
+  kind: z.enum(["ADDRESS", "POSTAL_CODE"]),
+  // Address text or ZIP code as it appears in the file; normalized on import
+  key: trimmedString(500),
+  latitude,
+  longitude,
+})
+
+export const importGeocodePointsSchema = z.object({
+  points: z.array(geocodePointRow).min(1).max(5000),
+})
+
+// ---------------------------------------------------------------------------
+// Price book
+// ---------------------------------------------------------------------------
+
+const priceBookFields = {
+  // Null: the customer's price, also used at properties without their own
+  propertyId: z.number().int().positive().nullable(),
+  // Null: any service without its own price
+  serviceTypeId: z.number().int().positive().nullable(),
+  price: z.coerce.number().min(0).max(1_000_000),
+  effectiveFrom: z.string().refine((s) => !isNaN(Date.parse(s)), "Invalid date"),
+  notes: optionalText,
+}
+
+export const createPriceBookEntrySchema = z.object({
+  ...priceBookFields,
+  propertyId: priceBookFields.propertyId.default(null),
+  serviceTypeId: priceBookFields.serviceTypeId.default(null),
+})
+
+export const updatePriceBookEntrySchema = z
+  .object(priceBookFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+// ---------------------------------------------------------------------------
+// Bulk price increases
+// ---------------------------------------------------------------------------
+
+// "cent" keeps the exact result; "up-*" always rounds up
+export const PRICE_ROUNDING_RULES = ["cent", "dollar", "up-dollar", "five", "up-five"] as const
+
+export const priceIncreaseFiltersSchema = z.object({
+  // Empty: every price, including ones for any service
+  serviceTypeIds: idList.default([]),
+  // Empty: every customer; otherwise customers with any of the tags
+  tagIds: idList.default([]),
+  vip: z.enum(["all", "vip", "non-vip"]).default("all"),
+})
+
+export const priceIncreaseSchema = z.object({
+  type: z.enum(["FLAT", "PERCENT"]),
+  amount: z.number().positive().max(10_000),
+  rounding: z.enum(PRICE_ROUNDING_RULES).default("cent"),
+  effectiveFrom: z.string().refine((s) => !isNaN(Date.parse(s)), "Invalid date"),
+  filters: priceIncreaseFiltersSchema,
+  // List the prices that would change without writing anything
+  dryRun: z.boolean().default(false),
+}).refine(
+  (data) => data.type !== "PERCENT" || data.amount <= 100,
+  "A percentage increase can be at most 100%"
+)
@@ -0,0 +1,57 @@
+import { z } from "zod"
+
+// ---------------------------------------------------------------------------
+// Shared refinements
+// ---------------------------------------------------------------------------
+
+const emailAddress = z.string().trim().pipe(z.email("Invalid email address"))
+const optionalSetting = (max = 200) =>
+  z.string().max(max).transform((s) => s.trim() || null).nullable().optional()
+
+// ---------------------------------------------------------------------------
+// SMTP settings (stored on Settings)
+// ---------------------------------------------------------------------------
+
+export const smtpSettingsSchema = z.object({
+  smtpHost: optionalSetting(255),
+  smtpPort: z.coerce.number().int().min(1).max(65535).nullable().optional(),
+  smtpSecure: z.boolean().optional(),
+  smtpUser: optionalSetting(255),
+  /** Omit to keep the stored password; empty string clears it */
+  smtpPassword: z.string().max(500).nullable().optional(),
+  smtpFromEmail: z
+    .string()
+    .trim()
+    .transform((s) => s || null)
+    .pipe(z.email("Invalid from address").nullable())
+    .nullable()
+    .optional(),
+  smtpFromName: optionalSetting(200),
+})
+
+export const testEmailSchema = z.object({
+  to: emailAddress,
+})
+
+// ---------------------------------------------------------------------------
+// Outbox
+// ---------------------------------------------------------------------------
+
+export const emailListQuerySchema = z.object({
+  status: z.enum(["PENDING", "SENT", "FAILED"]).optional(),
+  invoiceId: z.coerce.number().int().positive().optional(),
+})
+
+export const sendInvoiceEmailSchema = z.object({
+  template: z.enum(["invoice", "reminder"]).default("invoice"),
+  /** Defaults to the customer's email */
+  to: emailAddress.optional(),
+  message: z.string().max(2000).transform((s) => s.trim() || null).nullable().optional(),
+})
+
+export const segmentRemindersSchema = z.object({
+  /** Replaces the default reminder text in every email */
+  message: z.string().max(2000).transform((s) => s.trim() || null).nullable().optional(),
+  /** Skip open invoices that aren't past their due date yet */
+  overdueOnly: z.boolean().default(false),
+})
@@ -0,0 +1,280 @@
+import { z } from "zod"
+
+// ---------------------------------------------------------------------------
+// Shared refinements
+// ---------------------------------------------------------------------------
+
+const trimmedString = (max = 500) => z.string().min(1).max(max).transform((s) => s.trim())
+const positiveDecimal = z.coerce.number().positive()
+const taxPercent = z.coerce.number().min(0).max(100)
+const dateString = z.string().refine((s) => !isNaN(Date.parse(s)), "Invalid date")
+const paymentMethod = z.enum(["ATH", "PAYPAL", "CASH", "OTHER"])
+const optionalText = z.string().max(2000).transform((s) => s.trim() || null).nullable().optional()
+const optionalIntId = z.coerce.number().int().positive().nullable().optional()
+
+const lineItem = z.object({
+  description: trimmedString(500),
+  serviceDate: dateString,
+  quantity: positiveDecimal,
+  rate: z.coerce.number().min(0),
+  taxable: z.boolean().default(false),
+})
+
+// ---------------------------------------------------------------------------
+// Payments
+// ---------------------------------------------------------------------------
+
+export const createInvoicePaymentSchema = z.object({
+  date: dateString,
+  amount: positiveDecimal,
+  method: paymentMethod,
+  bankTransactionId: z.coerce.number().int().positive().nullable().optional(),
+  notes: z.string().max(2000).transform((s) => s.trim() || null).nullable().optional(),
+})
+
+// ---------------------------------------------------------------------------
+// Credit notes, refunds and write-offs
+// ---------------------------------------------------------------------------
+
+export const createCreditNoteSchema = z.object({
+  date: dateString,
+  amount: positiveDecimal,
+  reason: optionalText,
+})
+
+export const createInvoiceRefundSchema = z.object({
+  date: dateString,
+  amount: positiveDecimal,
+  method: paymentMethod,
+  // The OUTFLOW transaction that paid the refund
+  bankTransactionId: optionalIntId,
+  notes: optionalText,
+  // Also credit the invoice so the refund doesn't reopen its balance
+  issueCreditNote: z.boolean().default(true),
+})
+
+export const writeOffInvoiceSchema = z.object({
+  date: dateString,
+  reason: optionalText,
+})
+
+// ---------------------------------------------------------------------------
+// Tax rates
+// ---------------------------------------------------------------------------
+
+export const createTaxRateSchema = z.object({
+  name: trimmedString(100),
+  percent: taxPercent,
+  isDefault: z.boolean().default(false),
+})
+
+export const updateTaxRateSchema = z.object({
+  name: trimmedString(100).optional(),
+  percent: taxPercent.optional(),
+  isDefault: z.boolean().optional(),
+}).refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+export const taxReportQuerySchema = z.object({
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+  groupBy: z.enum(["month", "quarter", "year"]).default("month"),
+})
+
+export const arAgingQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+})
+
+export const statementQuerySchema = z.object({
+  dateFrom: dateString,
+  dateTo: dateString,
+  // Batch mode only: limit to the customers of a saved segment
+  segmentId: z.coerce.number().int().positive().optional(),
+}).refine((data) => new Date(data.dateFrom) <= new Date(data.dateTo), {
+  message: "dateFrom must be on or before dateTo",
+  path: ["dateTo"],
+})
+
+// ---------------------------------------------------------------------------
+// Estimates
+// ---------------------------------------------------------------------------
+
+export const createEstimateSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  issueDate: dateString,
+  validUntil: dateString.nullable().optional(),
+  notes: optionalText,
+  terms: optionalText,
+  // Omitted = the user's default rate, null = untaxed
+  taxRateId: optionalIntId,
+  items: z.array(lineItem).min(1, "At least one item is required"),
+})
+
+export const updateEstimateSchema = z.object({
+  customerId: z.coerce.number().int().positive().optional(),
+  issueDate: dateString.optional(),
+  validUntil: dateString.nullable().optional(),
+  notes: optionalText,
+  terms: optionalText,
+  taxRateId: optionalIntId,
+  items: z.array(lineItem).min(1, "At least one item is required").optional(),
+  status: z.enum(["DRAFT", "SENT", "ACCEPTED", "DECLINED"]).optional(),
+}).refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+export const convertEstimateSchema = z.object({
+  createServiceLogs: z.boolean().default(false),
+  serviceTypeId: optionalIntId,
+})
+
+// ---------------------------------------------------------------------------
+// Bulk generation
+// ---------------------------------------------------------------------------
+
+export const generateInvoicesSchema = z.object({
+  customerId: optionalIntId,
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+  // Preview what would be generated without writing anything
+  dryRun: z.boolean().default(false),
+})
+
+// ---------------------------------------------------------------------------
+// Numbering (stored on Settings)
+// ---------------------------------------------------------------------------
+
+export const invoiceNumberingSchema = z.object({
+  invoiceNumberPrefix: z
+    .string()
+    .max(20)
+    .regex(/^[A-Za-z0-9_\-/#.]*$/, "Prefix may only contain letters, numbers and - _ / # ."),
+  invoiceNumberYearly: z.boolean(),
+  invoiceNumberPadding: z.coerce.number().int().min(1).max(10),
+  invoiceNumberStart: z.coerce.number().int().min(1).max(99_999_999),
+}).partial()
+
+// ---------------------------------------------------------------------------
+// Public share links
+// ---------------------------------------------------------------------------
+
+export const createShareLinkSchema = z.object({
+  expiresInDays: z.coerce.number().int().min(1).max(365).default(30),
+})
+
+// ---------------------------------------------------------------------------
+// Deposit matching
+// ---------------------------------------------------------------------------
+
+export const scanInvoiceMatchesSchema = z.object({
+  // How far back to look for unlinked deposits
+  days: z.coerce.number().int().min(1).max(365).default(90),
+})
+
+export const confirmInvoiceMatchSchema = z.object({
+  // Defaults to the deposit amount, capped at the invoice balance
+  amount: positiveDecimal.optional(),
+  // Defaults to a guess from the bank description (ATH Móvil, PayPal)
+  method: paymentMethod.optional(),
+})
+
+// ---------------------------------------------------------------------------
+// Late fees
+// ---------------------------------------------------------------------------
+
+const lateFeeType = z.enum(["FLAT", "PERCENT"])
+const lateFeeAmount = z.coerce.number().min(0).max(99_999)
+const graceDays = z.coerce.number().int().min(0).max(365)
+
+// Default policy, stored on Settings
+export const lateFeeSettingsSchema = z.object({
+  lateFeeEnabled: z.boolean(),
+  lateFeeType,
+  lateFeeAmount,
+  lateFeeGraceDays: graceDays,
+  lateFeeCompounds: z.boolean(),
+  lateFeeExemptVip: z.boolean(),
+}).partial().refine(
+  (data) => !(data.lateFeeType === "PERCENT" && data.lateFeeAmount !== undefined && data.lateFeeAmount > 100),
+  { message: "A percentage late fee cannot exceed 100%", path: ["lateFeeAmount"] }
+)
+
+// Per-customer override; the custom fields are only kept for CUSTOM
+export const customerLateFeeSchema = z.object({
+  lateFeeMode: z.enum(["DEFAULT", "EXEMPT", "CUSTOM"]),
+  lateFeeType: lateFeeType.nullable().optional(),
+  lateFeeAmount: lateFeeAmount.nullable().optional(),
+  lateFeeGraceDays: graceDays.nullable().optional(),
+  lateFeeCompounds: z.boolean().nullable().optional(),
+}).refine(
+  (data) => data.lateFeeMode !== "CUSTOM" || (data.lateFeeType && data.lateFeeAmount != null),
+  { message: "A custom late fee needs a type and an amount", path: ["lateFeeAmount"] }
+).transform((data) =>
+  data.lateFeeMode === "CUSTOM"
+    ? data
+    : {
+        lateFeeMode: data.lateFeeMode,
+        lateFeeType: null,
+        lateFeeAmount: null,
+        lateFeeGraceDays: null,
+        lateFeeCompounds: null,
+      }
+)
+
+export const applyLateFeesSchema = z.object({
+  // Preview the fees without charging them
+  dryRun: z.boolean().default(false),
+})
+
+// ---------------------------------------------------------------------------
+// Recurring schedules
+// ---------------------------------------------------------------------------
+
+const invoiceFrequency = z.enum(["WEEKLY", "BIWEEKLY", "MONTHLY", "QUARTERLY", "ANNUAL"])
+
+// Template lines; the service date is the run date
+const scheduleItem = lineItem.omit({ serviceDate: true })
+
+const scheduleFields = {
+  name: trimmedString(100),
+  customerId: z.coerce.number().int().positive(),
+  frequency: invoiceFrequency,
+  endDate: dateString.nullable().optional(),
+  dueDays: z.coerce.number().int().min(0).max(365).nullable().optional(),
+  // Omitted = the user's default rate, null = untaxed
+  taxRateId: optionalIntId,
+  notes: optionalText,
+  terms: optionalText,
+  autoSend: z.boolean(),
+  items: z.array(scheduleItem).min(1, "At least one item is required"),
+}
+
+export const createInvoiceScheduleSchema = z.object({
+  ...scheduleFields,
+  frequency: invoiceFrequency.default("MONTHLY"),
+  autoSend: z.boolean().default(false),
+  startDate: dateString,
+}).refine((data) => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+})
+
+export const updateInvoiceScheduleSchema = z.object({
+  ...scheduleFields,
+  // Moving the next run also moves the day of month later runs land on
+  nextRunDate: dateString,
+  isActive: z.boolean(),
+}).partial().refine((data) => Object.keys(data).length > 0, "At least one field must be provided")
+
+export const runInvoiceSchedulesSchema = z.object({
+  // Only run this schedule's due invoices
+  scheduleId: optionalIntId,
+})
+
+// ---------------------------------------------------------------------------
+// Invoice tax rate
+// ---------------------------------------------------------------------------
+
+// Omitted = the route's default, null = untaxed. An empty string (a form's
+// blank select) counts as omitted instead of reaching the database as NaN.
+export const invoiceTaxRateIdSchema = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  optionalIntId
+)
@@ -6,9 +6,12 @@ export default auth((req) => {
   const { pathname } = req.nextUrl
   const isLoginPage = pathname === "/login"
   const isAuthRoute = pathname.startsWith("/api/auth")
+  const isPublicInvoice = pathname.startsWith("/i/")
+  // Scheduled jobs check CRON_SECRET themselves
+  const isCronRoute = pathname.startsWith("/api/cron/")
 
-  // Always allow auth routes to proceed without checks
-  if (isAuthRoute) {
+  // Always allow auth routes, token-protected invoice links and cron jobs to proceed without checks
+  if (isAuthRoute || isPublicInvoice || isCronRoute) {
     return NextResponse.next()
   }
 